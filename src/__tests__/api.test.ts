@@ -11,6 +11,14 @@ import {
 } from '../api'
 import { AmadeusSDKError } from '../types'
 import { generateKeypair } from '../crypto'
+import { DEFAULT_RETRY_POLICY, NO_RETRY_POLICY } from '../retry'
+import { TransactionBuilder } from '../transaction-builder'
+import {
+	GetByHeightResponseSchema,
+	GetTipResponseSchema,
+	SubmitTransactionResponseSchema,
+	TransactionSchema
+} from '../response-schemas'
 
 describe('API Modules', () => {
 	let mockClient: AmadeusClient
@@ -22,7 +30,9 @@ describe('API Modules', () => {
 			getConfig: vi.fn(() => ({ baseUrl: 'https://test.com', timeout: 30000, headers: {} })),
 			setBaseUrl: vi.fn(),
 			setHeaders: vi.fn(),
-			cancel: vi.fn()
+			cancel: vi.fn(),
+			getRetryPolicy: vi.fn(() => NO_RETRY_POLICY),
+			backoff: vi.fn(async () => {})
 		} as unknown as AmadeusClient
 	})
 
@@ -35,7 +45,23 @@ describe('API Modules', () => {
 			const result = await api.getTip()
 
 			expect(result).toEqual(mockData)
-			expect(mockClient.get).toHaveBeenCalledWith('/api/chain/tip')
+			expect(mockClient.get).toHaveBeenCalledWith('/api/chain/tip', undefined, {
+				schema: GetTipResponseSchema
+			})
+		})
+
+		it('forwards request options', async () => {
+			const api = new ChainAPI(mockClient)
+			const controller = new AbortController()
+			vi.mocked(mockClient.get).mockResolvedValueOnce({ entries: [] })
+
+			await api.getByHeight(10, { signal: controller.signal, timeout: 500 })
+
+			expect(mockClient.get).toHaveBeenCalledWith('/api/chain/height/10', undefined, {
+				signal: controller.signal,
+				timeout: 500,
+				schema: GetByHeightResponseSchema
+			})
 		})
 
 		it('validates height parameter', async () => {
@@ -83,7 +109,85 @@ describe('API Modules', () => {
 			const result = await api.submit(txPacked)
 
 			expect(result).toEqual(mockData)
-			expect(mockClient.post).toHaveBeenCalledWith('/api/tx/submit', txPacked)
+			expect(mockClient.post).toHaveBeenCalledWith('/api/tx/submit', txPacked, {
+				retry: false,
+				schema: SubmitTransactionResponseSchema
+			})
+		})
+
+		describe('safe submission retries', () => {
+			const keypair = generateKeypair()
+			const { txHash, txPacked } = new TransactionBuilder(keypair.privateKey).transfer({
+				recipient: generateKeypair().publicKey,
+				amount: 1,
+				symbol: 'AMA'
+			})
+			const unavailable = new AmadeusSDKError('HTTP 503: unavailable', 503)
+			const notFound = new AmadeusSDKError('Resource not found', 404)
+			const onChain = {
+				hash: txHash,
+				metadata: { entry_hash: 'entry', entry_height: 10 },
+				receipt: { result: null, logs: [], success: true, exec_used: '0' }
+			}
+
+			beforeEach(() => {
+				vi.mocked(mockClient.getRetryPolicy).mockReturnValue(DEFAULT_RETRY_POLICY)
+			})
+
+			it('resubmits once the transaction is confirmed absent', async () => {
+				const api = new TransactionAPI(mockClient)
+				vi.mocked(mockClient.post)
+					.mockRejectedValueOnce(unavailable)
+					.mockResolvedValueOnce({ hash: txHash })
+				vi.mocked(mockClient.get).mockRejectedValueOnce(notFound)
+
+				await expect(api.submit(txPacked)).resolves.toEqual({ hash: txHash })
+				expect(mockClient.get).toHaveBeenCalledWith(`/api/chain/tx/${txHash}`, undefined, {
+					retry: false,
+					schema: TransactionSchema
+				})
+				expect(mockClient.post).toHaveBeenCalledTimes(2)
+			})
+
+			it('returns the on-chain transaction instead of resubmitting', async () => {
+				const api = new TransactionAPI(mockClient)
+				vi.mocked(mockClient.post).mockRejectedValueOnce(unavailable)
+				vi.mocked(mockClient.get).mockResolvedValueOnce(onChain)
+
+				await expect(api.submitAndWait(txPacked)).resolves.toEqual(onChain)
+				expect(mockClient.post).toHaveBeenCalledTimes(1)
+			})
+
+			it('does not resubmit when the lookup fails', async () => {
+				const api = new TransactionAPI(mockClient)
+				vi.mocked(mockClient.post).mockRejectedValueOnce(unavailable)
+				vi.mocked(mockClient.get).mockRejectedValueOnce(
+					new AmadeusSDKError('Request failed: offline', 0)
+				)
+
+				await expect(api.submit(txPacked)).rejects.toBe(unavailable)
+				expect(mockClient.post).toHaveBeenCalledTimes(1)
+			})
+
+			it('does not retry rejected transactions', async () => {
+				const api = new TransactionAPI(mockClient)
+				const rejected = new AmadeusSDKError('invalid_signature', 400)
+				vi.mocked(mockClient.post).mockRejectedValueOnce(rejected)
+
+				await expect(api.submit(txPacked)).rejects.toBe(rejected)
+				expect(mockClient.get).not.toHaveBeenCalled()
+			})
+
+			it('keeps the error when the transaction is not yet finalized', async () => {
+				const api = new TransactionAPI(mockClient)
+				vi.mocked(mockClient.post).mockRejectedValueOnce(unavailable)
+				vi.mocked(mockClient.get).mockResolvedValueOnce(onChain)
+
+				await expect(api.submitAndWait(txPacked, { finalized: true })).rejects.toBe(
+					unavailable
+				)
+				expect(mockClient.post).toHaveBeenCalledTimes(1)
+			})
 		})
 
 		it('validates transaction data', async () => {
@@ -0,0 +1,226 @@
+import { describe, it, expect } from 'vitest'
+import { MemoryCacheStore, isFinalResponse } from '../cache'
+import type { CacheEntry, CacheStore } from '../cache'
+import { AmadeusSDK } from '../sdk'
+import { InMemoryTransport } from '../transport'
+
+const ADDRESS = '6Uqv8BKAwKd9jVhjGbTYJLX1oyYJFHnrcM5JGgbMzR49WzXSGdmUHvCRk4YbMAWnUP'
+
+function backend() {
+	let stats = 0
+	return new InMemoryTransport()
+		.route('GET', '/api/chain/stats', () => ({
+			error: 'ok',
+			stats: { height: 120 + stats, rooted_height: 100 + stats++ }
+		}))
+		.route('GET', /^\/api\/wallet\/balance_all\//, async () => {
+			await new Promise((resolve) => setTimeout(resolve, 10))
+			return { error: 'ok', balances: [{ symbol: 'AMA', flat: 1 }] }
+		})
+		.route('GET', /^\/api\/chain\/tx\/(?<hash>\w+)$/, ({ params }) => ({
+			error: 'ok',
+			hash: params.hash,
+			metadata: {
+				entry_hash: 'e',
+				entry_height: 1,
+				status: params.hash === 'final' ? 'finalized' : undefined
+			}
+		}))
+		.route('GET', /^\/api\/chain\/height\/(?<height>\d+)$/, ({ params }) => ({
+			error: 'ok',
+			entries: [{ hash: 'h', header: { height: Number(params.height) } }]
+		}))
+		.route('POST', '/api/tx/submit', () => ({ error: 'ok', hash: 'tx' }))
+}
+
+function countOf(transport: InMemoryTransport, path: string | RegExp) {
+	return transport.requests.filter((r) =>
+		typeof path === 'string' ? r.path === path : path.test(r.path)
+	).length
+}
+
+describe('Response cache', () => {
+	describe('MemoryCacheStore', () => {
+		it('evicts the least recently used entry', () => {
+			const store = new MemoryCacheStore(2)
+			const entry: CacheEntry = { value: 1, expiresAt: null }
+			store.set('a', entry)
+			store.set('b', entry)
+			store.get('a')
+			store.set('c', entry)
+
+			expect(store.get('a')).toBeDefined()
+			expect(store.get('b')).toBeUndefined()
+			expect(store.size).toBe(2)
+		})
+	})
+
+	it('is disabled by default', async () => {
+		const transport = backend()
+		const sdk = new AmadeusSDK({ transport })
+
+		await sdk.chain.getStats()
+		await sdk.chain.getStats()
+
+		expect(countOf(transport, '/api/chain/stats')).toBe(2)
+		expect(sdk.client.cache).toBeUndefined()
+	})
+
+	it('serves repeated reads within the TTL from the cache', async () => {
+		const transport = backend()
+		const sdk = new AmadeusSDK({
+			transport,
+			cache: { rules: [{ match: '/api/chain/stats', ttl: 30 }] }
+		})
+
+		const first = await sdk.chain.getStats()
+		const second = await sdk.staking.getCurrentEpoch().then(() => sdk.chain.getStats())
+		expect(second).toEqual(first)
+		expect(countOf(transport, '/api/chain/stats')).toBe(1)
+
+		await new Promise((resolve) => setTimeout(resolve, 40))
+		await sdk.chain.getStats()
+		expect(countOf(transport, '/api/chain/stats')).toBe(2)
+	})
+
+	it('deduplicates identical in-flight GETs', async () => {
+		const transport = backend()
+		const sdk = new AmadeusSDK({ transport, cache: { rules: [{ match: /wallet/, ttl: 0 }] } })
+
+		const [a, b] = await Promise.all([
+			sdk.wallet.getAllBalances(ADDRESS),
+			sdk.wallet.getAllBalances(ADDRESS)
+		])
+
+		expect(a).toEqual(b)
+		expect(a).not.toBe(b)
+		expect(countOf(transport, /balance_all/)).toBe(1)
+	})
+
+	it('keeps the shared request running when one caller cancels', async () => {
+		const transport = backend()
+		const sdk = new AmadeusSDK({ transport, cache: true })
+		const controller = new AbortController()
+
+		const cancelled = sdk.wallet.getAllBalances(ADDRESS, { signal: controller.signal })
+		const other = sdk.wallet.getAllBalances(ADDRESS)
+		controller.abort()
+
+		await expect(cancelled).rejects.toThrow(/cancelled/i)
+		await expect(other).resolves.toHaveProperty('balances')
+		expect(countOf(transport, /balance_all/)).toBe(1)
+	})
+
+	it('bypasses the cache with { cache: false }', async () => {
+		const transport = backend()
+		const sdk = new AmadeusSDK({ transport, cache: true })
+
+		await sdk.chain.getStats()
+		await sdk.chain.getStats({ cache: false })
+
+		expect(countOf(transport, '/api/chain/stats')).toBe(2)
+	})
+
+	it('returns copies so callers cannot corrupt cached data', async () => {
+		const sdk = new AmadeusSDK({ transport: backend(), cache: true })
+
+		const first = await sdk.chain.getStats()
+		first.stats.height = -1
+
+		expect((await sdk.chain.getStats()).stats.height).not.toBe(-1)
+	})
+
+	it('invalidates TTL entries after a transaction is submitted', async () => {
+		const transport = backend()
+		const sdk = new AmadeusSDK({ transport, cache: true })
+
+		await sdk.wallet.getAllBalances(ADDRESS)
+		await sdk.client.post('/api/tx/submit', new Uint8Array([1]))
+		await sdk.wallet.getAllBalances(ADDRESS)
+
+		expect(countOf(transport, /balance_all/)).toBe(2)
+	})
+
+	it('deletes invalidated entries from the store', async () => {
+		const store = new MemoryCacheStore()
+		const sdk = new AmadeusSDK({ transport: backend(), cache: { store } })
+
+		await sdk.wallet.getAllBalances(ADDRESS)
+		await sdk.chain.getStats()
+		expect(store.size).toBe(2)
+
+		await sdk.client.post('/api/tx/submit', new Uint8Array([1]))
+		expect(store.size).toBe(0)
+	})
+
+	it('caches finalized transactions permanently', async () => {
+		const transport = backend()
+		const sdk = new AmadeusSDK({ transport, cache: { rules: [{ match: /tx/, ttl: 0 }] } })
+
+		await sdk.client.get('/api/chain/tx/final')
+		await sdk.client.post('/api/tx/submit', new Uint8Array([1]))
+		await sdk.client.get('/api/chain/tx/final')
+		await sdk.client.get('/api/chain/tx/pending')
+		await sdk.client.get('/api/chain/tx/pending')
+
+		expect(countOf(transport, '/api/chain/tx/final')).toBe(1)
+		expect(countOf(transport, '/api/chain/tx/pending')).toBe(2)
+	})
+
+	it('caches entries at or below the rooted height permanently', async () => {
+		const transport = backend()
+		const sdk = new AmadeusSDK({
+			transport,
+			cache: { rules: [{ match: /height/, ttl: 0 }] }
+		})
+
+		await sdk.chain.getStats() // rooted_height 100
+		await sdk.chain.getByHeight(90)
+		await sdk.chain.getByHeight(90)
+		await sdk.chain.getByHeight(110)
+		await sdk.chain.getByHeight(110)
+
+		expect(countOf(transport, '/api/chain/height/90')).toBe(1)
+		expect(countOf(transport, '/api/chain/height/110')).toBe(2)
+		expect(sdk.client.cache?.knownRootedHeight).toBe(100)
+	})
+
+	it('works with an async store', async () => {
+		const data = new Map<string, string>()
+		const store: CacheStore = {
+			get: async (key) => {
+				const raw = data.get(key)
+				return raw === undefined ? undefined : JSON.parse(raw)
+			},
+			set: async (key, entry) => void data.set(key, JSON.stringify(entry)),
+			delete: async (key) => void data.delete(key),
+			clear: async () => data.clear()
+		}
+		const transport = backend()
+		const sdk = new AmadeusSDK({ transport, cache: { store } })
+
+		await sdk.chain.getStats()
+		await sdk.chain.getStats()
+		expect(countOf(transport, '/api/chain/stats')).toBe(1)
+
+		await sdk.clearCache()
+		await sdk.chain.getStats()
+		expect(countOf(transport, '/api/chain/stats')).toBe(2)
+	})
+
+	describe('isFinalResponse', () => {
+		it('needs a known rooted height for entries', () => {
+			const value = { entries: [{ header: { height: 1 } }] }
+
+			expect(isFinalResponse('/api/chain/height/1', value, undefined)).toBe(false)
+			expect(isFinalResponse('/api/chain/height/1', value, 1)).toBe(true)
+			expect(isFinalResponse('/api/chain/height/1', { entries: [] }, 5)).toBe(false)
+		})
+
+		it('treats looked-up entries by hash like heights', () => {
+			expect(
+				isFinalResponse('/api/chain/hash/abc', { entry: { header: { height: 7 } } }, 6)
+			).toBe(false)
+		})
+	})
+})
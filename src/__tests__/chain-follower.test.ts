@@ -0,0 +1,238 @@
+import { describe, it, expect, vi } from 'vitest'
+import { AmadeusSDK } from '../sdk'
+import { InMemoryTransport, createTransportResponse } from '../transport'
+import type { Transport } from '../transport'
+import { ValidationError } from '../errors'
+import type { ChainFollowerEvent } from '../chain-follower'
+import type { ChainEntry } from '../types'
+
+function entry(height: number, hash: string, prevHash: string): ChainEntry {
+	return {
+		header: {
+			slot: height,
+			height,
+			prev_slot: height - 1,
+			prev_hash: prevHash,
+			dr: 'dr',
+			vr: 'vr',
+			signer: 'signer'
+		},
+		hash,
+		tx_count: 0
+	}
+}
+
+/** Node double whose chain the test rewrites between polls */
+function fakeChain() {
+	const state = {
+		/** Entries at each height, canonical first */
+		heights: new Map<number, ChainEntry[]>(),
+		rooted: 0
+	}
+	const extend = (hash: string, rootedHeight = state.rooted) => {
+		const tip = tipEntry()
+		const height = tip ? tip.header.height + 1 : 0
+		state.heights.set(height, [entry(height, hash, tip?.hash ?? 'genesis')])
+		state.rooted = rootedHeight
+	}
+	const tipEntry = () => state.heights.get(state.heights.size - 1)?.[0]
+
+	const transport = new InMemoryTransport()
+		.route('GET', '/api/chain/stats', () => ({
+			error: 'ok',
+			stats: {
+				height: state.heights.size - 1,
+				rooted_height: state.rooted,
+				tip_hash: tipEntry()?.hash
+			}
+		}))
+		.route('GET', /^\/api\/chain\/height(?<txs>_with_txs)?\/(?<height>\d+)$/, ({ params }) => ({
+			error: 'ok',
+			entries: (state.heights.get(Number(params.height)) ?? []).map((e) =>
+				params.txs ? { ...e, txs: [] } : e
+			)
+		}))
+
+	return { state, extend, transport }
+}
+
+function describeEvent(event: ChainFollowerEvent): string {
+	const suffix = event.type === 'entry' && event.rooted ? ' (rooted)' : ''
+	return `${event.type} ${event.entry.hash}${suffix}`
+}
+
+/** Pull the next `count` events */
+async function take(iterator: AsyncIterator<ChainFollowerEvent>, count: number) {
+	const events: string[] = []
+	while (events.length < count) {
+		const { value, done } = await iterator.next()
+		if (done) break
+		events.push(describeEvent(value))
+	}
+	return events
+}
+
+describe('ChainFollower', () => {
+	it('emits entries in height order and promotes them once rooted', async () => {
+		const { extend, transport } = fakeChain()
+		for (const hash of ['a', 'b', 'c', 'd']) extend(hash, 1)
+		const sdk = new AmadeusSDK({ transport })
+		const follower = sdk.chain.follow({ fromHeight: 0, pollInterval: 0 })
+		const events = follower[Symbol.asyncIterator]()
+
+		expect(await take(events, 4)).toEqual([
+			'entry a (rooted)',
+			'entry b (rooted)',
+			'entry c',
+			'entry d'
+		])
+		expect(follower.checkpoint).toBe(1)
+
+		extend('e', 3)
+		expect(await take(events, 3)).toEqual(['entry e', 'rooted c', 'rooted d'])
+		expect(follower.checkpoint).toBe(3)
+
+		follower.stop()
+		expect(await events.next()).toEqual({ value: undefined, done: true })
+	})
+
+	it('rolls back temporal entries replaced by a fork', async () => {
+		const { state, extend, transport } = fakeChain()
+		for (const hash of ['a', 'b', 'c']) extend(hash, 0)
+		const sdk = new AmadeusSDK({ transport })
+		const follower = sdk.chain.follow({ fromHeight: 0, pollInterval: 0 })
+		const events = follower[Symbol.asyncIterator]()
+
+		expect(await take(events, 3)).toEqual(['entry a (rooted)', 'entry b', 'entry c'])
+
+		// b and c are replaced by b2 and c2, and the new branch grows to d2
+		state.heights.set(1, [entry(1, 'b2', 'a'), entry(1, 'b', 'a')])
+		state.heights.set(2, [entry(2, 'c2', 'b2')])
+		extend('d2')
+
+		expect(await take(events, 5)).toEqual([
+			'rollback c',
+			'rollback b',
+			'entry b2',
+			'entry c2',
+			'entry d2'
+		])
+		follower.stop()
+	})
+
+	it('rolls back a tip replaced at the same height', async () => {
+		const { state, extend, transport } = fakeChain()
+		for (const hash of ['a', 'b']) extend(hash, 0)
+		const sdk = new AmadeusSDK({ transport })
+		const follower = sdk.chain.follow({ fromHeight: 0, pollInterval: 0 })
+		const events = follower[Symbol.asyncIterator]()
+
+		expect(await take(events, 2)).toEqual(['entry a (rooted)', 'entry b'])
+
+		state.heights.set(1, [entry(1, 'b2', 'a')])
+		expect(await take(events, 2)).toEqual(['rollback b', 'entry b2'])
+		follower.stop()
+	})
+
+	it('waits for the next poll when a height only returns rolled-back entries', async () => {
+		const { state, extend, transport } = fakeChain()
+		for (const hash of ['a', 'b', 'c']) extend(hash, 0)
+		let stale = false
+		const lagging: Transport = {
+			request: async (request) => {
+				if (stale && request.url.endsWith('/api/chain/height/2')) {
+					stale = false
+					return createTransportResponse({ error: 'ok', entries: [entry(2, 'c', 'b')] })
+				}
+				return transport.request(request)
+			}
+		}
+		const sdk = new AmadeusSDK({ transport: lagging })
+		const follower = sdk.chain.follow({ fromHeight: 0, pollInterval: 0 })
+		const events = follower[Symbol.asyncIterator]()
+
+		expect(await take(events, 3)).toEqual(['entry a (rooted)', 'entry b', 'entry c'])
+
+		// c is replaced, but the first refetch of its height still returns it
+		state.heights.set(2, [entry(2, 'c2', 'b')])
+		stale = true
+		expect(await take(events, 2)).toEqual(['rollback c', 'entry c2'])
+		follower.stop()
+	})
+
+	it('starts at the tip by default and resumes from a checkpoint', async () => {
+		const { extend, transport } = fakeChain()
+		for (const hash of ['a', 'b', 'c']) extend(hash, 1)
+		const sdk = new AmadeusSDK({ transport })
+
+		const live = sdk.chain.follow({ pollInterval: 0 })[Symbol.asyncIterator]()
+		expect(await take(live, 1)).toEqual(['entry c'])
+		await live.return(undefined)
+
+		const resumed = sdk.chain.follow({ fromHeight: 1, pollInterval: 0 })
+		expect(await take(resumed[Symbol.asyncIterator](), 2)).toEqual([
+			'entry b (rooted)',
+			'entry c'
+		])
+		resumed.stop()
+	})
+
+	it('fetches transactions with withTxs', async () => {
+		const { extend, transport } = fakeChain()
+		extend('a', 0)
+		const sdk = new AmadeusSDK({ transport })
+		const follower = sdk.chain.follow({ fromHeight: 0, withTxs: true })
+
+		for await (const event of follower) {
+			expect(event.entry.txs).toEqual([])
+			break
+		}
+		expect(transport.requests.at(-1)?.path).toBe('/api/chain/height_with_txs/0')
+	})
+
+	it('retries transient failures at the next poll', async () => {
+		const { extend, transport } = fakeChain()
+		extend('a', 0)
+		let failures = 1
+		const flaky: Transport = {
+			request: async (request) =>
+				failures-- > 0
+					? createTransportResponse('busy', { status: 503 })
+					: transport.request(request)
+		}
+		const sdk = new AmadeusSDK({ transport: flaky })
+		const follower = sdk.chain.follow({ fromHeight: 0, pollInterval: 0 })
+
+		expect(await take(follower[Symbol.asyncIterator](), 1)).toEqual(['entry a (rooted)'])
+		follower.stop()
+	})
+
+	it('ends when its signal aborts and validates options', async () => {
+		const { extend, transport } = fakeChain()
+		extend('a', 0)
+		const sdk = new AmadeusSDK({ transport })
+		const controller = new AbortController()
+		const follower = sdk.chain.follow({ fromHeight: 1, signal: controller.signal })
+
+		const done = take(follower[Symbol.asyncIterator](), 1)
+		controller.abort()
+		expect(await done).toEqual([])
+
+		expect(() => sdk.chain.follow({ fromHeight: -1 })).toThrow(ValidationError)
+		expect(() => sdk.chain.follow({ pollInterval: 1.5 })).toThrow(ValidationError)
+	})
+
+	it('removes its listener from the signal once stopped', async () => {
+		const { extend, transport } = fakeChain()
+		extend('a', 0)
+		const sdk = new AmadeusSDK({ transport })
+		const { signal } = new AbortController()
+		const remove = vi.spyOn(signal, 'removeEventListener')
+
+		const follower = sdk.chain.follow({ fromHeight: 1, signal })
+		const done = take(follower[Symbol.asyncIterator](), 2)
+		follower.stop()
+		expect(await done).toEqual([])
+		expect(remove).toHaveBeenCalledWith('abort', expect.any(Function))
+	})
+})
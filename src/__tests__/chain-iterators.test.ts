@@ -0,0 +1,126 @@
+import { describe, it, expect } from 'vitest'
+import { AmadeusSDK } from '../sdk'
+import { InMemoryTransport } from '../transport'
+import type { InMemoryRequest } from '../transport'
+import { ValidationError } from '../errors'
+import { generateKeypair } from '../crypto'
+
+const ACCOUNT = generateKeypair().publicKey
+
+/** Node double serving `count` items in pages, with Base58-safe cursors */
+function pagedBackend(count: number, item: (index: number) => unknown) {
+	const items = Array.from({ length: count }, (_, i) => item(i))
+	const page = ({ query }: InMemoryRequest) => {
+		const ordered = query.sort === 'desc' ? [...items].reverse() : items
+		const start = query.cursor ? Number(query.cursor.slice(1)) : 0
+		const limit = Number(query.limit)
+		const end = Math.min(start + limit, ordered.length)
+		return {
+			error: 'ok',
+			cursor: end < ordered.length ? `c${end}` : null,
+			txs: ordered.slice(start, end)
+		}
+	}
+	return new InMemoryTransport()
+		.route('GET', '/api/chain/tx_by_filter', page)
+		.route('GET', /^\/api\/chain\/tx_events_by_account\//, page)
+}
+
+const tx = (i: number) => ({ hash: `tx${i}`, metadata: { entry_hash: 'e', entry_height: i * 10 } })
+const event = (i: number) => ({ txid: `tx${i}`, type: 'sent', timestamp: 1000 + i })
+
+async function collect<T>(iterator: AsyncIterable<T>): Promise<T[]> {
+	const items: T[] = []
+	for await (const item of iterator) items.push(item)
+	return items
+}
+
+describe('Chain iterators', () => {
+	it('follows cursors until the last page', async () => {
+		const transport = pagedBackend(7, tx)
+		const sdk = new AmadeusSDK({ transport })
+
+		const txs = await collect(sdk.chain.iterateByFilter({ contract: 'Coin' }, { pageSize: 3 }))
+
+		expect(txs.map((t) => t.hash)).toEqual(['tx0', 'tx1', 'tx2', 'tx3', 'tx4', 'tx5', 'tx6'])
+		expect(transport.requests.map((r) => r.query.cursor)).toEqual([undefined, 'c3', 'c6'])
+		expect(transport.requests[0].query).toMatchObject({ contract: 'Coin', limit: '3' })
+	})
+
+	it('uses the filter limit as page size and stops at maxItems', async () => {
+		const transport = pagedBackend(50, tx)
+		const sdk = new AmadeusSDK({ transport })
+
+		const txs = await collect(sdk.chain.iterateByFilter({ limit: 4 }, { maxItems: 6 }))
+
+		expect(txs).toHaveLength(6)
+		// The last page only asks for what is still needed
+		expect(transport.requests.map((r) => r.query.limit)).toEqual(['4', '2'])
+	})
+
+	it('stops past untilHeight in the iteration direction', async () => {
+		const sdk = new AmadeusSDK({ transport: pagedBackend(10, tx) })
+
+		const txs = await collect(sdk.chain.iterateByFilter({}, { untilHeight: 35, pageSize: 2 }))
+
+		expect(txs.map((t) => t.metadata.entry_height)).toEqual([0, 10, 20, 30])
+	})
+
+	it('stops at a custom condition', async () => {
+		const sdk = new AmadeusSDK({ transport: pagedBackend(10, tx) })
+
+		const txs = await collect(
+			sdk.chain.iterateByFilter({}, { stopWhen: (t) => t.hash === 'tx2' })
+		)
+
+		expect(txs.map((t) => t.hash)).toEqual(['tx0', 'tx1'])
+	})
+
+	it('iterates account events until a timestamp', async () => {
+		const transport = pagedBackend(10, event)
+		const sdk = new AmadeusSDK({ transport })
+
+		const latest = await collect(
+			sdk.chain.iterateAccountEvents(ACCOUNT, { sort: 'desc' }, { untilTimestamp: 1007 })
+		)
+		expect(latest.map((e) => e.timestamp)).toEqual([1009, 1008, 1007])
+
+		const ascending = await collect(
+			sdk.chain.iterateAccountEvents(ACCOUNT, {}, { untilTimestamp: 1003, pageSize: 3 })
+		)
+		expect(ascending.map((e) => e.timestamp)).toEqual([1000, 1001, 1002, 1003])
+		expect(transport.requests.at(-1)?.path).toBe(`/api/chain/tx_events_by_account/${ACCOUNT}`)
+	})
+
+	it('stops on an empty page even if the node returns a cursor', async () => {
+		const transport = new InMemoryTransport().route('GET', '/api/chain/tx_by_filter', () => ({
+			error: 'ok',
+			cursor: 'c1',
+			txs: []
+		}))
+		const sdk = new AmadeusSDK({ transport })
+
+		expect(await collect(sdk.chain.iterateByFilter())).toEqual([])
+		expect(transport.requests).toHaveLength(1)
+	})
+
+	it('validates filters and options up front', () => {
+		const sdk = new AmadeusSDK({ transport: new InMemoryTransport() })
+
+		expect(() => sdk.chain.iterateByFilter({ signer: 'invalid!' })).toThrow(ValidationError)
+		expect(() => sdk.chain.iterateByFilter({ contract: 'Coin', contract_b58: 'abc' })).toThrow(
+			'contract_b58'
+		)
+		expect(() => sdk.chain.iterateByFilter({}, { pageSize: 0 })).toThrow(ValidationError)
+		expect(() => sdk.chain.iterateAccountEvents('invalid!')).toThrow(ValidationError)
+		expect(() => sdk.chain.iterateAccountEvents(ACCOUNT, { limit: -1 })).toThrow(
+			ValidationError
+		)
+	})
+
+	it('validates getByFilter filters', async () => {
+		const sdk = new AmadeusSDK({ transport: new InMemoryTransport() })
+
+		await expect(sdk.chain.getByFilter({ limit: 1.5 })).rejects.toThrow(ValidationError)
+	})
+})
@@ -1,5 +1,5 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest'
-import { AmadeusClient } from '../client'
+import { AmadeusClient, RequestGroup } from '../client'
 import { AmadeusSDKError } from '../types'
 import { NODE_API_URL } from '../constants'
 
@@ -196,6 +196,189 @@ describe('AmadeusClient', () => {
 		}, 5000)
 	})
 
+	describe('Cancellation', () => {
+		/** fetch mock that never settles on its own and rejects when aborted */
+		function hangingFetch() {
+			vi.mocked(fetch).mockImplementation((_url, options) => {
+				return new Promise((_resolve, reject) => {
+					options?.signal?.addEventListener('abort', () => {
+						const abortError = new Error('The operation was aborted.')
+						abortError.name = 'AbortError'
+						reject(abortError)
+					})
+				})
+			})
+		}
+
+		it('gives concurrent requests independent signals', async () => {
+			hangingFetch()
+			const client = new AmadeusClient({ baseUrl: 'https://example.com' })
+			const controller = new AbortController()
+
+			const first = client.get('/api/first', undefined, { signal: controller.signal })
+			const second = client.get('/api/second', undefined, { timeout: 50 })
+			controller.abort()
+
+			await expect(first).rejects.toThrow(/cancelled/i)
+			await expect(second).rejects.toThrow(/timeout after 50ms/i)
+		})
+
+		it('cancels only the requests of a group', async () => {
+			hangingFetch()
+			const client = new AmadeusClient({ baseUrl: 'https://example.com' })
+			const group = client.createRequestGroup()
+
+			const inGroup = client.get('/api/a', undefined, { group })
+			const outside = client.get('/api/b', undefined, { timeout: 50 })
+			group.cancel()
+
+			await expect(inGroup).rejects.toThrow(/cancelled/i)
+			await expect(outside).rejects.toThrow(/timeout/i)
+		})
+
+		it('keeps a group usable after cancel', async () => {
+			const group = new RequestGroup()
+			const before = group.signal
+			group.cancel()
+
+			expect(before.aborted).toBe(true)
+			expect(group.signal.aborted).toBe(false)
+		})
+
+		it('rejects immediately when the signal is already aborted', async () => {
+			const client = new AmadeusClient({ baseUrl: 'https://example.com' })
+			const controller = new AbortController()
+			controller.abort()
+
+			await expect(
+				client.get('/api/test', undefined, { signal: controller.signal })
+			).rejects.toThrow(/cancelled/i)
+			expect(fetch).not.toHaveBeenCalled()
+		})
+
+		it('cancel() aborts every in-flight request', async () => {
+			hangingFetch()
+			const client = new AmadeusClient({ baseUrl: 'https://example.com' })
+
+			const first = client.get('/api/first')
+			const second = client.post('/api/second', { a: 1 })
+			client.cancel()
+
+			await expect(first).rejects.toThrow(/cancelled/i)
+			await expect(second).rejects.toThrow(/cancelled/i)
+		})
+	})
+
+	describe('Retries', () => {
+		const fastRetry = { initialDelay: 1, jitter: false }
+
+		function jsonResponse(status: number, body: unknown, headers: Record<string, string> = {}) {
+			return {
+				ok: status >= 200 && status < 300,
+				status,
+				statusText: '',
+				json: async () => body,
+				headers: new Headers({ 'content-type': 'application/json', ...headers })
+			} as Response
+		}
+
+		it('does not retry unless a policy is configured', async () => {
+			vi.mocked(fetch).mockResolvedValueOnce(jsonResponse(503, { error: 'unavailable' }))
+			const client = new AmadeusClient({ baseUrl: 'https://example.com' })
+
+			await expect(client.get('/api/test')).rejects.toThrow(/HTTP 503/)
+			expect(fetch).toHaveBeenCalledTimes(1)
+		})
+
+		it('retries GET requests on transient failures', async () => {
+			vi.mocked(fetch)
+				.mockResolvedValueOnce(jsonResponse(503, { error: 'unavailable' }))
+				.mockRejectedValueOnce(new Error('socket hang up'))
+				.mockResolvedValueOnce(jsonResponse(200, { error: 'ok', value: 1 }))
+			const client = new AmadeusClient({ baseUrl: 'https://example.com', retry: fastRetry })
+
+			await expect(client.get('/api/test')).resolves.toEqual({ value: 1 })
+			expect(fetch).toHaveBeenCalledTimes(3)
+		})
+
+		it('gives up after maxAttempts', async () => {
+			vi.mocked(fetch).mockResolvedValue(jsonResponse(502, { error: 'bad gateway' }))
+			const client = new AmadeusClient({
+				baseUrl: 'https://example.com',
+				retry: { ...fastRetry, maxAttempts: 2 }
+			})
+
+			await expect(client.get('/api/test')).rejects.toThrow(/HTTP 502/)
+			expect(fetch).toHaveBeenCalledTimes(2)
+			vi.mocked(fetch).mockReset()
+		})
+
+		it('does not retry non-transient errors', async () => {
+			vi.mocked(fetch).mockResolvedValueOnce(jsonResponse(200, { error: 'invalid_key' }))
+			const client = new AmadeusClient({ baseUrl: 'https://example.com', retry: fastRetry })
+
+			await expect(client.get('/api/test')).rejects.toThrow('invalid_key')
+			expect(fetch).toHaveBeenCalledTimes(1)
+		})
+
+		it('only retries POST requests marked idempotent', async () => {
+			vi.mocked(fetch)
+				.mockResolvedValueOnce(jsonResponse(503, { error: 'unavailable' }))
+				.mockResolvedValueOnce(jsonResponse(503, { error: 'unavailable' }))
+				.mockResolvedValueOnce(jsonResponse(200, { error: 'ok' }))
+			const client = new AmadeusClient({ baseUrl: 'https://example.com', retry: fastRetry })
+
+			await expect(client.post('/api/write', { a: 1 })).rejects.toThrow(/HTTP 503/)
+			expect(fetch).toHaveBeenCalledTimes(1)
+
+			await expect(client.post('/api/read', { a: 1 }, { idempotent: true })).resolves.toEqual(
+				{}
+			)
+			expect(fetch).toHaveBeenCalledTimes(3)
+		})
+
+		it('lets a request opt out of retries', async () => {
+			vi.mocked(fetch).mockResolvedValueOnce(jsonResponse(503, { error: 'unavailable' }))
+			const client = new AmadeusClient({ baseUrl: 'https://example.com', retry: fastRetry })
+
+			await expect(client.get('/api/test', undefined, { retry: false })).rejects.toThrow()
+			expect(fetch).toHaveBeenCalledTimes(1)
+		})
+
+		it('waits for Retry-After, capped at maxDelay', async () => {
+			vi.mocked(fetch)
+				.mockResolvedValueOnce(
+					jsonResponse(429, { error: 'slow down' }, { 'retry-after': '1' })
+				)
+				.mockResolvedValueOnce(jsonResponse(200, { error: 'ok' }))
+			const client = new AmadeusClient({
+				baseUrl: 'https://example.com',
+				retry: { ...fastRetry, maxDelay: 30 }
+			})
+
+			const started = Date.now()
+			await client.get('/api/test')
+
+			expect(Date.now() - started).toBeGreaterThanOrEqual(25)
+			expect(Date.now() - started).toBeLessThan(1000)
+		})
+
+		it('cancel() stops a request waiting to retry', async () => {
+			vi.mocked(fetch).mockResolvedValueOnce(jsonResponse(503, { error: 'unavailable' }))
+			const client = new AmadeusClient({
+				baseUrl: 'https://example.com',
+				retry: { initialDelay: 10_000, jitter: false }
+			})
+
+			const pending = client.get('/api/test')
+			await new Promise((resolve) => setTimeout(resolve, 10))
+			client.cancel()
+
+			await expect(pending).rejects.toThrow(/cancelled/i)
+			expect(fetch).toHaveBeenCalledTimes(1)
+		})
+	})
+
 	describe('Configuration', () => {
 		it('updates base URL', () => {
 			const client = new AmadeusClient({ baseUrl: 'https://example.com' })
@@ -0,0 +1,148 @@
+import { describe, it, expect } from 'vitest'
+import {
+	COIN_ABI,
+	buildCoinCreateAndMint,
+	buildCoinMint,
+	buildCoinPause,
+	buildCoinTransfer
+} from '../contracts/coin'
+import { createContract } from '../contracts/contract'
+import { TransactionBuilder } from '../transaction-builder'
+import { decodeTransaction } from '../transaction-decoder'
+import { generateKeypair } from '../crypto'
+import { fromBase58, toBase58 } from '../encoding'
+import { ValidationError } from '../errors'
+
+const owner = generateKeypair()
+const recipient = generateKeypair().publicKey
+
+describe('Coin contract', () => {
+	it('creates a token with its decimals and flags', () => {
+		expect(
+			buildCoinCreateAndMint({
+				symbol: 'USDX',
+				amount: '1000.5',
+				decimals: 6,
+				mintable: true,
+				pausable: true
+			})
+		).toEqual({
+			contract: 'Coin',
+			method: 'create_and_mint',
+			args: ['USDX', '1000500000', '6', 'true', 'true', 'false']
+		})
+
+		const invalid = [
+			{ symbol: '' },
+			{ symbol: 'US-DX' },
+			{ symbol: 'X'.repeat(33) },
+			{ amount: 0 },
+			{ amount: '-1' },
+			{ amount: '0.0000001' },
+			{ decimals: 1.5 }
+		]
+		for (const change of invalid) {
+			expect(() =>
+				buildCoinCreateAndMint({ symbol: 'USDX', amount: 1, decimals: 6, ...change })
+			).toThrow(ValidationError)
+		}
+	})
+
+	it('mints and pauses by symbol', () => {
+		expect(buildCoinMint({ symbol: 'USDX', amount: 2, decimals: 6, recipient }).args).toEqual([
+			'USDX',
+			'2000000',
+			fromBase58(recipient)
+		])
+		expect(() =>
+			buildCoinMint({ symbol: 'USDX', amount: 2, decimals: 6, recipient: 'abc' })
+		).toThrow(ValidationError)
+
+		expect(buildCoinPause({ symbol: 'USDX', paused: true }).args).toEqual(['USDX', 'true'])
+		expect(buildCoinPause({ symbol: 'USDX', paused: false }).args).toEqual(['USDX', 'false'])
+	})
+
+	it('transfers custom tokens with their decimals', () => {
+		expect(
+			buildCoinTransfer({ recipient, amount: '1.25', symbol: 'USDX', decimals: 2 }).args
+		).toEqual([fromBase58(recipient), '125', 'USDX'])
+		// AMA keeps 9 decimals by default
+		expect(buildCoinTransfer({ recipient, amount: 1, symbol: 'AMA' }).args[1]).toBe(
+			'1000000000'
+		)
+
+		expect(() => buildCoinTransfer({ recipient: 'abc', amount: 1, symbol: 'AMA' })).toThrow(
+			ValidationError
+		)
+		expect(() => buildCoinTransfer({ recipient, amount: 0, symbol: 'AMA' })).toThrow(
+			ValidationError
+		)
+		expect(() => buildCoinTransfer({ recipient, amount: '-1', symbol: 'AMA' })).toThrow(
+			ValidationError
+		)
+		expect(() =>
+			buildCoinTransfer({ recipient, amount: '0.001', symbol: 'USDX', decimals: 2 })
+		).toThrow(ValidationError)
+	})
+
+	it('builds the same calls through createContract(COIN_ABI)', () => {
+		const coin = createContract(COIN_ABI)
+
+		expect(coin.transfer({ receiver: recipient, amount: '125', symbol: 'USDX' })).toEqual(
+			buildCoinTransfer({ recipient, amount: 1.25, symbol: 'USDX', decimals: 2 })
+		)
+		expect(
+			coin.create_and_mint({
+				symbol: 'USDX',
+				amount: '100',
+				decimals: '2',
+				mintable: 'false',
+				pausable: 'true',
+				soulbound: 'false'
+			})
+		).toEqual(
+			buildCoinCreateAndMint({ symbol: 'USDX', amount: 1, decimals: 2, pausable: true })
+		)
+		expect(coin.mint({ symbol: 'USDX', amount: '100', receiver: recipient })).toEqual(
+			buildCoinMint({ symbol: 'USDX', amount: 1, decimals: 2, recipient })
+		)
+		expect(coin.pause({ symbol: 'USDX', direction: 'true' })).toEqual(
+			buildCoinPause({ symbol: 'USDX', paused: true })
+		)
+	})
+
+	it('signs Coin transactions with TransactionBuilder', () => {
+		const builder = new TransactionBuilder(owner.privateKey)
+
+		const { txPacked } = builder.coinCreateAndMint({ symbol: 'USDX', amount: 10, decimals: 6 })
+		const { tx } = decodeTransaction(txPacked)
+		expect(tx.action).toMatchObject({ contract: 'Coin', function: 'create_and_mint' })
+		expect(toBase58(tx.signer as Uint8Array)).toBe(owner.publicKey)
+		expect(
+			decodeTransaction(builder.coinPause({ symbol: 'USDX', paused: true }).txPacked).tx
+				.action.function
+		).toBe('pause')
+
+		const minted = TransactionBuilder.buildSignedCoinMint({
+			senderPrivkey: owner.privateKey,
+			symbol: 'USDX',
+			amount: 5,
+			decimals: 6,
+			recipient
+		})
+		expect(decodeTransaction(minted.txPacked).tx.action.args[1]).toEqual(
+			new TextEncoder().encode('5000000')
+		)
+
+		const transfer = TransactionBuilder.buildSignedTransfer({
+			senderPrivkey: owner.privateKey,
+			recipient,
+			amount: 5,
+			symbol: 'USDX',
+			decimals: 6
+		})
+		expect(decodeTransaction(transfer.txPacked).tx.action.args[1]).toEqual(
+			new TextEncoder().encode('5000000')
+		)
+	})
+})
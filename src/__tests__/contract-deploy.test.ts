@@ -0,0 +1,106 @@
+import { describe, it, expect } from 'vitest'
+import { AmadeusSDK } from '../sdk'
+import { InMemoryTransport } from '../transport'
+import { ApiError, TransactionFailedError } from '../errors'
+import { TransactionBuilder } from '../transaction-builder'
+import { buildContractDeploy } from '../contracts/deploy'
+import { decodeTransaction } from '../transaction-decoder'
+import { LocalSigner } from '../signer'
+import { generateKeypair } from '../crypto'
+import { toBase58 } from '../encoding'
+
+const keypair = generateKeypair()
+const wasm = new Uint8Array([0x00, 0x61, 0x73, 0x6d, 0x01, 0x00, 0x00, 0x00])
+
+/** Node double that accepts the bytecode and includes whatever is submitted */
+function node(options: { bytecodeError?: string; success?: boolean } = {}) {
+	const submitted: Uint8Array[] = []
+	const transport = new InMemoryTransport()
+		.route('POST', '/api/contract/validate_bytecode', () =>
+			options.bytecodeError
+				? { error: options.bytecodeError, logs: ['missing export'] }
+				: { error: 'ok', logs: ['memory ok'] }
+		)
+		.route('POST', '/api/tx/submit_and_wait', ({ body }) => {
+			submitted.push(body as Uint8Array)
+			return {
+				error: 'ok',
+				hash: toBase58(decodeTransaction(body as Uint8Array).hash),
+				metadata: { entry_hash: 'e', entry_height: 7 },
+				receipt: {
+					result: options.success === false ? 'invalid_bytecode' : null,
+					logs: [],
+					success: options.success !== false,
+					exec_used: '100'
+				}
+			}
+		})
+	return { sdk: new AmadeusSDK({ transport }), transport, submitted }
+}
+
+describe('Contract deployment', () => {
+	it('builds a Contract.deploy call with the raw bytecode', () => {
+		expect(buildContractDeploy({ bytecode: wasm.buffer })).toEqual({
+			contract: 'Contract',
+			method: 'deploy',
+			args: [wasm]
+		})
+
+		const { txPacked } = TransactionBuilder.buildSignedDeploy({
+			senderPrivkey: keypair.privateKey,
+			bytecode: wasm
+		})
+		const { action } = decodeTransaction(txPacked).tx
+		expect(action).toMatchObject({ contract: 'Contract', function: 'deploy' })
+		expect(action.args).toEqual([wasm])
+	})
+
+	it('validates, signs, submits and returns the contract address', async () => {
+		const { sdk, transport, submitted } = node()
+
+		const result = await sdk.contract.deploy(wasm, keypair.privateKey)
+
+		expect(result.address).toBe(keypair.publicKey)
+		expect(result.validationLogs).toEqual(['memory ok'])
+		expect(result.receipt.success).toBe(true)
+		expect(result.metadata.entry_height).toBe(7)
+		expect(transport.requests.map((r) => r.path)).toEqual([
+			'/api/contract/validate_bytecode',
+			'/api/tx/submit_and_wait'
+		])
+		const { tx, hash } = decodeTransaction(submitted[0])
+		expect(toBase58(tx.signer as Uint8Array)).toBe(keypair.publicKey)
+		expect(tx.action.args).toEqual([wasm])
+		expect(result.txHash).toBe(toBase58(hash))
+	})
+
+	it('deploys with a Signer and waits for finality on request', async () => {
+		const { sdk, transport } = node()
+
+		const result = await sdk.contract.deploy(wasm, new LocalSigner(keypair.privateKey), {
+			finalized: true
+		})
+
+		expect(result.address).toBe(keypair.publicKey)
+		expect(transport.requests[1].query).toEqual({ finalized: 'true' })
+	})
+
+	it('does not submit bytecode the node rejects', async () => {
+		const { sdk, transport } = node({ bytecodeError: 'invalid_wasm' })
+
+		const error = await sdk.contract.deploy(wasm, keypair.privateKey).catch((e: unknown) => e)
+
+		expect(error).toBeInstanceOf(ApiError)
+		expect((error as ApiError).apiError).toBe('invalid_wasm')
+		expect((error as ApiError).response).toMatchObject({ logs: ['missing export'] })
+		expect(transport.requests).toHaveLength(1)
+	})
+
+	it('throws TransactionFailedError when the deployment fails on chain', async () => {
+		const { sdk } = node({ success: false })
+
+		await expect(sdk.contract.deploy(wasm, keypair.privateKey)).rejects.toBeInstanceOf(
+			TransactionFailedError
+		)
+	})
+})
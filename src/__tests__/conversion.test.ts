@@ -1,5 +1,6 @@
 import { describe, it, expect } from 'vitest'
-import { toAtomicAma, fromAtomicAma } from '../conversion'
+import { toAtomicAma, fromAtomicAma, toAtomicUnits, fromAtomicUnits } from '../conversion'
+import { ValidationError } from '../errors'
 import { AMA_TOKEN_DECIMALS_MULTIPLIER } from '../constants'
 
 describe('Conversion Utilities', () => {
@@ -101,4 +102,42 @@ describe('Conversion Utilities', () => {
 			expect(fromAtomicAma(toAtomicAma(1000))).toBe(1000)
 		})
 	})
+
+	describe('toAtomicUnits / fromAtomicUnits', () => {
+		it('converts with any number of decimals', () => {
+			expect(toAtomicUnits('12.5', 6)).toBe(12_500_000n)
+			expect(toAtomicUnits(1, 18)).toBe(10n ** 18n)
+			expect(toAtomicUnits('7', 0)).toBe(7n)
+			expect(toAtomicUnits('.5', 2)).toBe(50n)
+			expect(fromAtomicUnits(12_500_000n, 6)).toBe('12.5')
+			expect(fromAtomicUnits('1000000000000000000', 18)).toBe('1')
+			expect(fromAtomicUnits(5, 2)).toBe('0.05')
+		})
+
+		it('converts large strings exactly and truncates extra digits', () => {
+			expect(toAtomicUnits('123456789012345678901.123456789', 9)).toBe(
+				123456789012345678901123456789n
+			)
+			expect(toAtomicUnits('1.999', 2)).toBe(199n)
+			expect(fromAtomicUnits(toAtomicUnits('98765.4321', 18), 18)).toBe('98765.4321')
+		})
+
+		it('converts numbers from their shortest decimal form and truncates them', () => {
+			expect(toAtomicUnits(0.1, 18)).toBe(10n ** 17n)
+			expect(toAtomicUnits(0.0000019, 6)).toBe(1n)
+			expect(toAtomicUnits(1.999, 2)).toBe(199n)
+			expect(toAtomicUnits(1e-7, 9)).toBe(100n)
+			expect(toAtomicUnits(1.5e21, 0)).toBe(1_500_000_000_000_000_000_000n)
+			expect(toAtomicUnits(1e-10, 9)).toBe(0n)
+		})
+
+		it('rejects invalid amounts and decimals', () => {
+			for (const amount of ['', '.', '-1', '1e5', 'abc', Number.NaN]) {
+				expect(() => toAtomicUnits(amount, 6)).toThrow(ValidationError)
+			}
+			expect(() => toAtomicUnits(1, -1)).toThrow(ValidationError)
+			expect(() => fromAtomicUnits(-1n, 6)).toThrow(ValidationError)
+			expect(() => fromAtomicUnits('1.5', 6)).toThrow(ValidationError)
+		})
+	})
 })
@@ -1,5 +1,14 @@
 import { describe, it, expect } from 'vitest'
+import { bls12_381 as bls } from '@noble/curves/bls12-381'
 import {
+	BLS_DST,
+	aggregatePublicKeys,
+	aggregateSignatures,
+	blsSign,
+	blsVerify,
+	unmaskPublicKeys,
+	verifyAggregate,
+	verifyBatch,
 	generateKeypair,
 	generatePrivateKey,
 	getPublicKey,
@@ -7,7 +16,8 @@ import {
 	deriveSkAndSeed64FromBase58Seed,
 	seed64ToKeypair
 } from '../crypto'
-import { toBase58 } from '../encoding'
+import { fromBase58, toBase58 } from '../encoding'
+import { ValidationError } from '../errors'
 import { AMADEUS_SEED_BYTE_LENGTH, AMADEUS_PUBLIC_KEY_BYTE_LENGTH } from '../constants'
 
 describe('Crypto Utilities', () => {
@@ -85,4 +95,117 @@ describe('Crypto Utilities', () => {
 			expect(() => derivePublicKeyFromSeedBase58(shortSeed)).toThrow()
 		})
 	})
+
+	describe('BLS Signatures', () => {
+		const keypairs = [generateKeypair(), generateKeypair(), generateKeypair()]
+		const message = new Uint8Array(32).fill(7)
+
+		it('signs and verifies under an explicit DST', () => {
+			const [{ publicKey, privateKey }] = keypairs
+			const signature = blsSign(message, privateKey, BLS_DST.ENTRY)
+
+			expect(signature.length).toBe(96)
+			expect(blsVerify(signature, message, publicKey, BLS_DST.ENTRY)).toBe(true)
+			expect(
+				blsVerify(toBase58(signature), message, fromBase58(publicKey), BLS_DST.ENTRY)
+			).toBe(true)
+			// Another domain, message or key does not verify
+			expect(blsVerify(signature, message, publicKey)).toBe(false)
+			expect(blsVerify(signature, new Uint8Array(32), publicKey, BLS_DST.ENTRY)).toBe(false)
+			expect(blsVerify(signature, message, keypairs[1].publicKey, BLS_DST.ENTRY)).toBe(false)
+			expect(blsVerify(new Uint8Array(96), message, publicKey)).toBe(false)
+		})
+
+		it('accepts seeds and 32-byte secret keys', () => {
+			const [{ privateKey }] = keypairs
+			const { sk, seed64 } = deriveSkAndSeed64FromBase58Seed(privateKey)
+
+			expect(blsSign(message, seed64)).toEqual(blsSign(message, privateKey))
+			expect(blsSign(message, sk)).toEqual(blsSign(message, privateKey))
+			expect(() => blsSign(message, new Uint8Array(16))).toThrow(ValidationError)
+		})
+
+		it('verifies an aggregate signature of one message', () => {
+			const signatures = keypairs.map((k) => blsSign(message, k.privateKey, BLS_DST.ENTRY))
+			const publicKeys = keypairs.map((k) => k.publicKey)
+			const aggregate = aggregateSignatures(signatures.map(toBase58))
+
+			expect(verifyAggregate(aggregate, message, publicKeys, BLS_DST.ENTRY)).toBe(true)
+			expect(
+				blsVerify(aggregate, message, aggregatePublicKeys(publicKeys), BLS_DST.ENTRY)
+			).toBe(true)
+			expect(verifyAggregate(aggregate, message, publicKeys.slice(1), BLS_DST.ENTRY)).toBe(
+				false
+			)
+			expect(verifyAggregate(aggregate, message, [], BLS_DST.ENTRY)).toBe(false)
+			expect(() => aggregateSignatures([])).toThrow(ValidationError)
+			expect(() => aggregatePublicKeys([new Uint8Array(48)])).toThrow(ValidationError)
+		})
+
+		it('batch-verifies independent signatures', () => {
+			const items = keypairs.map((k, i) => {
+				const msg = new Uint8Array(32).fill(i)
+				return {
+					signature: blsSign(msg, k.privateKey),
+					message: msg,
+					publicKey: k.publicKey
+				}
+			})
+
+			expect(verifyBatch(items)).toBe(true)
+			expect(verifyBatch([])).toBe(true)
+			expect(verifyBatch(items, BLS_DST.ENTRY)).toBe(false)
+			expect(verifyBatch([...items, { ...items[0], publicKey: keypairs[1].publicKey }])).toBe(
+				false
+			)
+		})
+
+		it('rejects invalid signatures that cancel out in a plain aggregate', () => {
+			const items = keypairs.slice(0, 2).map((k, i) => {
+				const msg = new Uint8Array(32).fill(i)
+				return {
+					signature: blsSign(msg, k.privateKey),
+					message: msg,
+					publicKey: k.publicKey
+				}
+			})
+			const { Signature } = bls.longSignatures
+			const offset = bls.G2.Point.BASE.multiply(12345n)
+			const forged = [
+				{
+					...items[0],
+					signature: Signature.toBytes(
+						Signature.fromBytes(items[0].signature).add(offset)
+					)
+				},
+				{
+					...items[1],
+					signature: Signature.toBytes(
+						Signature.fromBytes(items[1].signature).subtract(offset)
+					)
+				}
+			]
+
+			// The sum of the forged signatures equals the sum of the valid ones
+			expect(aggregateSignatures(forged.map((item) => item.signature))).toEqual(
+				aggregateSignatures(items.map((item) => item.signature))
+			)
+			expect(verifyBatch(items)).toBe(true)
+			expect(verifyBatch(forged)).toBe(false)
+		})
+
+		it('selects the entries set in a participation mask', () => {
+			const validators = ['a', 'b', 'c', 'd', 'e', 'f', 'g', 'h', 'i', 'j']
+
+			expect(unmaskPublicKeys(new Uint8Array([0b10100000, 0b01000000]), validators)).toEqual([
+				'a',
+				'c',
+				'j'
+			])
+			expect(unmaskPublicKeys(new Uint8Array([]), validators)).toEqual([])
+			expect(() => unmaskPublicKeys(new Uint8Array([0, 0b00100000]), validators)).toThrow(
+				ValidationError
+			)
+		})
+	})
 })
@@ -0,0 +1,174 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { EndpointPool } from '../endpoint-pool'
+import type { EndpointStatusChangeEvent } from '../endpoint-pool'
+import { AmadeusClient } from '../client'
+import type { ChainStats } from '../types'
+
+const A = 'https://a.example'
+const B = 'https://b.example'
+const C = 'https://c.example'
+
+function stats(rootedHeight: number): ChainStats {
+	return { height: rootedHeight + 2, rooted_height: rootedHeight } as ChainStats
+}
+
+describe('EndpointPool', () => {
+	it('uses configuration order before the first check', () => {
+		const pool = new EndpointPool([A, B], vi.fn())
+
+		expect(pool.select()).toBe(A)
+		expect(pool.select(new Set([A]))).toBe(B)
+		expect(pool.select(new Set([A, B]))).toBeUndefined()
+	})
+
+	it('prefers the highest rooted height, then the lowest latency', async () => {
+		const heights: Record<string, number> = { [A]: 100, [B]: 105, [C]: 105 }
+		const delays: Record<string, number> = { [A]: 0, [B]: 30, [C]: 0 }
+		const pool = new EndpointPool([A, B, C], async (url) => {
+			await new Promise((resolve) => setTimeout(resolve, delays[url]))
+			return stats(heights[url])
+		})
+
+		await pool.checkHealth()
+
+		expect(pool.select()).toBe(C)
+		expect(pool.select(new Set([C]))).toBe(B)
+	})
+
+	it('ejects lagging endpoints until the next check', async () => {
+		const heights: Record<string, number> = { [A]: 100, [B]: 110 }
+		const pool = new EndpointPool([A, B], async (url) => stats(heights[url]), { maxLag: 5 })
+
+		await pool.checkHealth()
+		expect(pool.getHealth().map((h) => h.status)).toEqual(['lagging', 'healthy'])
+		expect(pool.select(new Set([B]))).toBe(A)
+
+		heights[A] = 110
+		await pool.checkHealth()
+		expect(pool.getHealth()[0].status).toBe('healthy')
+	})
+
+	it('ejects endpoints after repeated failures and notifies status changes', () => {
+		const changes: EndpointStatusChangeEvent[] = []
+		const pool = new EndpointPool([A, B], vi.fn(), {
+			failureThreshold: 2,
+			onStatusChange: (event) => changes.push(event)
+		})
+
+		pool.reportFailure(A)
+		expect(pool.select()).toBe(A)
+		pool.reportFailure(A)
+
+		expect(pool.select()).toBe(B)
+		expect(changes).toEqual([
+			expect.objectContaining({ url: A, previous: 'unknown', status: 'failing' })
+		])
+	})
+
+	it('marks endpoints whose probe fails as failing', async () => {
+		const pool = new EndpointPool([A, B], async (url) => {
+			if (url === A) throw new Error('offline')
+			return stats(10)
+		})
+
+		await pool.checkHealth()
+
+		expect(pool.getHealth()[0].status).toBe('failing')
+		expect(pool.select()).toBe(B)
+	})
+
+	it('still returns an endpoint when all are ejected', () => {
+		const pool = new EndpointPool([A, B], vi.fn(), { failureThreshold: 1 })
+		pool.reportFailure(A)
+		pool.reportFailure(B)
+
+		expect(pool.select()).toBe(A)
+	})
+})
+
+describe('AmadeusClient with endpoints', () => {
+	global.fetch = vi.fn()
+
+	function jsonResponse(status: number, body: unknown) {
+		return {
+			ok: status >= 200 && status < 300,
+			status,
+			statusText: '',
+			json: async () => body,
+			headers: new Headers({ 'content-type': 'application/json' })
+		} as Response
+	}
+
+	beforeEach(() => {
+		vi.mocked(fetch).mockReset()
+	})
+
+	it('fails over idempotent requests and reports which endpoint served them', async () => {
+		vi.mocked(fetch).mockImplementation(async (url) =>
+			String(url).startsWith(A)
+				? jsonResponse(503, { error: 'unavailable' })
+				: jsonResponse(200, { error: 'ok', value: 1 })
+		)
+		const served = vi.fn()
+		const client = new AmadeusClient({
+			endpoints: [A, B],
+			pool: { healthCheckInterval: 0, onRequestServed: served }
+		})
+
+		await expect(client.get('/api/chain/tip')).resolves.toEqual({ value: 1 })
+		expect(served).toHaveBeenCalledTimes(2)
+		expect(served).toHaveBeenLastCalledWith(
+			expect.objectContaining({ url: B, endpoint: '/api/chain/tip', method: 'GET' })
+		)
+		expect(served.mock.calls[0][0].error).toBeDefined()
+	})
+
+	it('does not fail over non-idempotent requests', async () => {
+		vi.mocked(fetch).mockResolvedValue(jsonResponse(503, { error: 'unavailable' }))
+		const client = new AmadeusClient({
+			endpoints: [A, B],
+			pool: { healthCheckInterval: 0 }
+		})
+
+		await expect(client.post('/api/tx/submit', new Uint8Array([1]))).rejects.toThrow(/HTTP 503/)
+		expect(fetch).toHaveBeenCalledTimes(1)
+	})
+
+	it('does not fail over on API errors', async () => {
+		vi.mocked(fetch).mockResolvedValue(jsonResponse(200, { error: 'not_found' }))
+		const client = new AmadeusClient({
+			endpoints: [A, B],
+			pool: { healthCheckInterval: 0 }
+		})
+
+		await expect(client.get('/api/chain/tx/abc')).rejects.toThrow('Resource not found')
+		expect(fetch).toHaveBeenCalledTimes(1)
+	})
+
+	it('health-checks endpoints through /api/chain/stats', async () => {
+		vi.mocked(fetch).mockImplementation(async (url) =>
+			jsonResponse(200, { error: 'ok', stats: stats(String(url).startsWith(A) ? 1 : 50) })
+		)
+		const client = new AmadeusClient({
+			endpoints: [A, B],
+			pool: { healthCheckInterval: 0 }
+		})
+
+		await client.pool?.checkHealth()
+
+		expect(fetch).toHaveBeenCalledWith(`${A}/api/chain/stats`, expect.anything())
+		expect(client.getConfig().baseUrl).toBe(B)
+		expect(client.getConfig().endpoints).toEqual([A, B])
+	})
+
+	it('setBaseUrl replaces the pool', () => {
+		const client = new AmadeusClient({
+			endpoints: [A, B],
+			pool: { healthCheckInterval: 0 }
+		})
+		client.setBaseUrl(C)
+
+		expect(client.pool).toBeUndefined()
+		expect(client.getConfig().baseUrl).toBe(C)
+	})
+})
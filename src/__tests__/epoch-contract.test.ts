@@ -0,0 +1,137 @@
+import { describe, it, expect } from 'vitest'
+import {
+	EPOCH_ABI,
+	EPOCH_SOLUTION_SIZE,
+	buildEpochSetEmissionAddress,
+	buildEpochSlashTrainer,
+	buildEpochSubmitSol,
+	parseEpochSolution
+} from '../contracts/epoch'
+import { createContract } from '../contracts/contract'
+import { TransactionBuilder } from '../transaction-builder'
+import { decodeTransaction } from '../transaction-decoder'
+import { BLS_DST, blsSign, generateKeypair } from '../crypto'
+import { fromBase58, toBase58 } from '../encoding'
+import { ValidationError } from '../errors'
+
+const validator = generateKeypair()
+const emission = generateKeypair().publicKey
+
+/** A well-formed solution for `validator`, with the given proof of possession key */
+function solution(popKey = validator.privateKey): Uint8Array {
+	const pk = fromBase58(validator.publicKey)
+	const sol = new Uint8Array(EPOCH_SOLUTION_SIZE).fill(9)
+	new DataView(sol.buffer).setUint32(0, 321, true)
+	sol.set(pk, 36)
+	sol.set(blsSign(pk, popKey, BLS_DST.POP), 84)
+	return sol
+}
+
+const slashParams = {
+	epoch: 321,
+	maliciousPk: emission,
+	signature: new Uint8Array(96).fill(1),
+	maskSize: 10,
+	mask: new Uint8Array([0b11111111, 0b11000000])
+}
+
+describe('Epoch contract', () => {
+	it('takes a solution apart', () => {
+		const parsed = parseEpochSolution(toBase58(solution()))
+
+		expect(parsed.epoch).toBe(321)
+		expect(toBase58(parsed.pk)).toBe(validator.publicKey)
+		expect(parsed.segmentVrHash.length).toBe(32)
+		expect(parsed.pop.length).toBe(96)
+		expect(parsed.computor.length).toBe(48)
+		expect(parsed.nonce.length).toBe(12)
+		expect(parsed.tensorC.length).toBe(1024)
+		expect(() => parseEpochSolution(new Uint8Array(100))).toThrow(ValidationError)
+	})
+
+	it('checks the proof of possession before submitting a solution', () => {
+		const sol = solution()
+
+		expect(buildEpochSubmitSol({ sol })).toEqual({
+			contract: 'Epoch',
+			method: 'submit_sol',
+			args: [sol]
+		})
+		expect(() => buildEpochSubmitSol({ sol: solution(generateKeypair().privateKey) })).toThrow(
+			/proof of possession/
+		)
+		expect(() => buildEpochSubmitSol({ sol: 'not base58!' })).toThrow(ValidationError)
+	})
+
+	it('encodes the emission address as raw public key bytes', () => {
+		expect(buildEpochSetEmissionAddress({ address: emission }).args).toEqual([
+			fromBase58(emission)
+		])
+		expect(() =>
+			buildEpochSetEmissionAddress({ address: toBase58(new Uint8Array(32)) })
+		).toThrow(ValidationError)
+	})
+
+	it('validates trainer slashing arguments', () => {
+		expect(buildEpochSlashTrainer(slashParams).args).toEqual([
+			'321',
+			fromBase58(emission),
+			slashParams.signature,
+			'10',
+			slashParams.mask
+		])
+
+		const invalid = [
+			{ epoch: -1 },
+			{ epoch: '1.5' },
+			{ maliciousPk: 'abc' },
+			{ signature: new Uint8Array(48) },
+			{ maskSize: 0 },
+			{ mask: new Uint8Array([0xff]) },
+			{ mask: new Uint8Array([0xff, 0b11100000]) }
+		]
+		for (const change of invalid) {
+			expect(() => buildEpochSlashTrainer({ ...slashParams, ...change })).toThrow(
+				ValidationError
+			)
+		}
+	})
+
+	it('builds the same calls through createContract(EPOCH_ABI)', () => {
+		const epoch = createContract(EPOCH_ABI)
+		const sol = solution()
+
+		expect(epoch.submit_sol({ sol: toBase58(sol) }).args).toEqual([sol])
+		expect(epoch.set_emission_address({ address: emission })).toEqual(
+			buildEpochSetEmissionAddress({ address: emission })
+		)
+		expect(
+			epoch.slash_trainer({
+				epoch: '321',
+				malicious_pk: emission,
+				signature: toBase58(slashParams.signature),
+				mask_size: '10',
+				mask: toBase58(slashParams.mask)
+			})
+		).toEqual(buildEpochSlashTrainer(slashParams))
+		expect(() => epoch.set_emission_address({ address: 'abc' })).toThrow(ValidationError)
+	})
+
+	it('signs Epoch transactions with TransactionBuilder', () => {
+		const builder = new TransactionBuilder(validator.privateKey)
+
+		const { txPacked } = builder.epochSetEmissionAddress({ address: emission })
+		const { tx } = decodeTransaction(txPacked)
+		expect(tx.action).toMatchObject({ contract: 'Epoch', function: 'set_emission_address' })
+		expect(toBase58(tx.signer as Uint8Array)).toBe(validator.publicKey)
+
+		const staticResult = TransactionBuilder.buildSignedEpochSubmitSol({
+			senderPrivkey: validator.privateKey,
+			sol: solution()
+		})
+		expect(decodeTransaction(staticResult.txPacked).tx.action.function).toBe('submit_sol')
+		expect(
+			decodeTransaction(builder.epochSlashTrainer(slashParams).txPacked).tx.action.args
+		).toHaveLength(5)
+	})
+})
@@ -0,0 +1,150 @@
+import { describe, it, expect } from 'vitest'
+import { AmadeusClient } from '../client'
+import {
+	ApiError,
+	CancelledError,
+	HttpError,
+	NetworkError,
+	NotFoundError,
+	TimeoutError,
+	TransactionRejectedError,
+	ValidationError
+} from '../errors'
+import { InMemoryTransport, createTransportResponse } from '../transport'
+import type { Transport } from '../transport'
+import { AmadeusSDKError, TransactionValidationError } from '../types'
+
+function clientWith(transport: Transport, timeout?: number) {
+	return new AmadeusClient({ baseUrl: 'https://node.test/api', transport, timeout })
+}
+
+async function failure(promise: Promise<unknown>): Promise<AmadeusSDKError> {
+	const error = await promise.then(
+		() => undefined,
+		(e: unknown) => e
+	)
+	expect(error).toBeInstanceOf(AmadeusSDKError)
+	return error as AmadeusSDKError
+}
+
+describe('Error types', () => {
+	it('reports network failures as retryable NetworkError', async () => {
+		const client = clientWith({
+			request: async () => {
+				throw new TypeError('fetch failed')
+			}
+		})
+
+		const error = await failure(client.get('/api/chain/tip'))
+		expect(error).toBeInstanceOf(NetworkError)
+		expect(error.code).toBe('NETWORK_ERROR')
+		expect(error.status).toBe(0)
+		expect(error.isRetryable).toBe(true)
+	})
+
+	it('reports timeouts as retryable TimeoutError', async () => {
+		const transport = new InMemoryTransport().route(
+			'GET',
+			'/api/chain/tip',
+			() => new Promise((resolve) => setTimeout(resolve, 100))
+		)
+
+		const error = await failure(clientWith(transport, 10).get('/api/chain/tip'))
+		expect(error).toBeInstanceOf(TimeoutError)
+		expect((error as TimeoutError).timeout).toBe(10)
+		expect(error.code).toBe('TIMEOUT')
+		expect(error.status).toBe(408)
+		expect(error.isRetryable).toBe(true)
+	})
+
+	it('reports cancellations as CancelledError', async () => {
+		const controller = new AbortController()
+		controller.abort()
+
+		const error = await failure(
+			clientWith(new InMemoryTransport()).get('/api/chain/tip', undefined, {
+				signal: controller.signal
+			})
+		)
+		expect(error).toBeInstanceOf(CancelledError)
+		expect(error.code).toBe('CANCELLED')
+		expect(error.isRetryable).toBe(false)
+	})
+
+	it('reports missing resources as NotFoundError', async () => {
+		const transport = new InMemoryTransport().route('GET', '/api/chain/tx/abc', () => ({
+			error: 'not_found'
+		}))
+		const client = clientWith(transport)
+
+		const apiLevel = await failure(client.get('/api/chain/tx/abc'))
+		expect(apiLevel).toBeInstanceOf(NotFoundError)
+		expect(apiLevel.status).toBe(404)
+
+		const httpLevel = await failure(client.get('/api/unknown'))
+		expect(httpLevel).toBeInstanceOf(NotFoundError)
+		expect(httpLevel.code).toBe('NOT_FOUND')
+	})
+
+	it('classifies HTTP errors by status', async () => {
+		const transport = new InMemoryTransport()
+			.route('GET', '/api/busy', () => createTransportResponse('busy', { status: 503 }))
+			.route('GET', '/api/bad', () => createTransportResponse('bad', { status: 400 }))
+		const client = clientWith(transport)
+
+		const busy = await failure(client.get('/api/busy'))
+		expect(busy).toBeInstanceOf(HttpError)
+		expect(busy.code).toBe('HTTP_ERROR')
+		expect(busy.status).toBe(503)
+		expect(busy.isRetryable).toBe(true)
+
+		const bad = await failure(client.get('/api/bad'))
+		expect(bad).toBeInstanceOf(HttpError)
+		expect(bad.isRetryable).toBe(false)
+	})
+
+	it('reports API-level errors as ApiError', async () => {
+		const transport = new InMemoryTransport().route(
+			'GET',
+			/^\/api\/epoch\/sol_in_epoch\//,
+			() => ({ error: 'invalid_epoch' })
+		)
+
+		const error = await failure(clientWith(transport).get('/api/epoch/sol_in_epoch/1/x'))
+		expect(error).toBeInstanceOf(ApiError)
+		expect(error).not.toBeInstanceOf(TransactionRejectedError)
+		expect((error as ApiError).apiError).toBe('invalid_epoch')
+		expect(error.message).toBe('invalid_epoch')
+		expect(error.code).toBe('API_ERROR')
+		expect(error.status).toBe(400)
+	})
+
+	it('reports refused submissions as TransactionRejectedError', async () => {
+		const transport = new InMemoryTransport().route('POST', '/api/tx/submit', () => ({
+			error: 'invalid_signature'
+		}))
+
+		const error = await failure(
+			clientWith(transport).post('/api/tx/submit', new Uint8Array([1]))
+		)
+		expect(error).toBeInstanceOf(TransactionRejectedError)
+		expect(error).toBeInstanceOf(ApiError)
+		expect((error as TransactionRejectedError).reason).toBe(
+			TransactionValidationError.INVALID_SIGNATURE
+		)
+		expect(error.message).toBe('Transaction signature is invalid (invalid_signature)')
+		expect(error.code).toBe('TRANSACTION_REJECTED')
+		expect(error.isRetryable).toBe(false)
+	})
+
+	it('reports rejected arguments as ValidationError', async () => {
+		const client = clientWith(new InMemoryTransport())
+
+		const error = await failure(client.get(''))
+		expect(error).toBeInstanceOf(ValidationError)
+		expect(error.code).toBe('VALIDATION_ERROR')
+		expect(() => clientWith(new InMemoryTransport()).setBaseUrl('ftp://x')).toThrow(
+			ValidationError
+		)
+	})
+})
@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest'
+import { decodeLog, decodeLogs, parseLogDump } from '../log-decoder'
+import type { AbiDefinition } from '../contracts/abi-types'
+import { generateKeypair } from '../crypto'
+
+const receiver = generateKeypair().publicKey
+
+describe('Log decoding', () => {
+	it('undoes the ASCII dump', () => {
+		expect(parseLogDump('ab\\x00\\xffc\\\\')).toEqual(
+			new Uint8Array([0x61, 0x62, 0x00, 0xff, 0x63, 0x5c])
+		)
+		expect(parseLogDump('\\xZZ é')).toEqual(new TextEncoder().encode('\\xZZ é'))
+	})
+
+	it('decodes built-in contract events with typed fields', () => {
+		expect(decodeLog(`transfer ${receiver} 1500000000 AMA`)).toEqual({
+			kind: 'event',
+			contract: 'Coin',
+			event: 'transfer',
+			fields: { receiver, amount: 1_500_000_000n, symbol: 'AMA' },
+			raw: `transfer ${receiver} 1500000000 AMA`
+		})
+		expect(decodeLog(`transfer ${receiver} 1 AGENTIC 7`)).toMatchObject({
+			contract: 'Nft',
+			fields: { collection: 'AGENTIC', token: '7' }
+		})
+		expect(decodeLog('pause USDX true')).toMatchObject({
+			contract: 'Coin',
+			fields: { symbol: 'USDX', direction: true }
+		})
+	})
+
+	it('prefers the events of the contract the logs come from', () => {
+		expect(decodeLog('unlock 3 1000')).toMatchObject({ contract: 'LockupPrime' })
+		expect(decodeLog('unlock 3 1000', { contract: 'LockupVault' })).toMatchObject({
+			contract: 'LockupVault',
+			fields: { vaultIndex: 3n, unlockAtEpoch: 1000n }
+		})
+	})
+
+	it('recognizes events declared in a WASM contract ABI', () => {
+		const abi = {
+			contractName: 'Counter',
+			abi: [],
+			events: [
+				{
+					type: 'event',
+					name: 'incremented',
+					inputs: [
+						{ name: 'by', type: 'integer' },
+						{ name: 'caller', type: 'address' }
+					]
+				}
+			]
+		} as const satisfies AbiDefinition
+
+		const [event, unknown] = decodeLogs([`incremented 2 ${receiver}`, 'incremented x y'], {
+			abis: [abi]
+		})
+
+		expect(event).toMatchObject({
+			kind: 'event',
+			contract: 'Counter',
+			fields: { by: 2n, caller: receiver }
+		})
+		expect(unknown).toMatchObject({ kind: 'unknown', text: 'incremented x y' })
+	})
+
+	it('falls back to bytes and hex for unknown formats', () => {
+		expect(decodeLog('\\x01\\x02AB')).toEqual({
+			kind: 'unknown',
+			raw: '\\x01\\x02AB',
+			bytes: new Uint8Array([1, 2, 0x41, 0x42]),
+			hex: '01024142'
+		})
+		// Tabs and newlines are still text
+		expect(decodeLog('a\\x09b\\x0a')).toMatchObject({ kind: 'unknown', text: 'a\tb\n' })
+		// Wrong field types do not match
+		expect(decodeLog('transfer not-an-address 1 AMA')).toMatchObject({
+			kind: 'unknown',
+			text: 'transfer not-an-address 1 AMA'
+		})
+	})
+})
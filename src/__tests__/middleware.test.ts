@@ -0,0 +1,135 @@
+import { describe, it, expect, vi } from 'vitest'
+import { AmadeusSDK } from '../sdk'
+import { AmadeusClient } from '../client'
+import { InMemoryTransport, createTransportResponse } from '../transport'
+import type { MiddlewareContext } from '../middleware'
+
+function backend() {
+	return new InMemoryTransport()
+		.route('GET', '/api/chain/tip', () => ({ error: 'ok', entry: {} }))
+		.route('GET', '/api/broken', () =>
+			createTransportResponse({ error: 'down' }, { status: 503 })
+		)
+}
+
+describe('Middleware', () => {
+	it('lets onRequest hooks set headers, including asynchronously', async () => {
+		const transport = backend()
+		const sdk = new AmadeusSDK({ transport })
+		let token = 0
+		sdk.use({
+			onRequest: async (ctx) => {
+				ctx.headers['Authorization'] = `Bearer ${++token}`
+				ctx.headers['X-Request-Id'] = ctx.requestId
+			}
+		})
+
+		await sdk.chain.getTip()
+		await sdk.chain.getTip()
+
+		expect(transport.requests[0].headers['Authorization']).toBe('Bearer 1')
+		expect(transport.requests[1].headers['Authorization']).toBe('Bearer 2')
+		expect(transport.requests[0].headers['X-Request-Id']).toBeTruthy()
+		expect(transport.requests[0].headers['X-Request-Id']).not.toBe(
+			transport.requests[1].headers['X-Request-Id']
+		)
+	})
+
+	it('runs onRequest in order and onResponse in reverse', async () => {
+		const calls: string[] = []
+		const client = new AmadeusClient({
+			transport: backend(),
+			middleware: [
+				{
+					onRequest: () => void calls.push('a:req'),
+					onResponse: () => void calls.push('a:res')
+				},
+				{
+					onRequest: () => void calls.push('b:req'),
+					onResponse: () => void calls.push('b:res')
+				}
+			]
+		})
+
+		await client.get('/api/chain/tip')
+
+		expect(calls).toEqual(['a:req', 'b:req', 'b:res', 'a:res'])
+	})
+
+	it('reports failed attempts to onError with the response', async () => {
+		const onError = vi.fn()
+		const onResponse = vi.fn()
+		const client = new AmadeusClient({
+			transport: backend(),
+			middleware: [{ onResponse, onError }]
+		})
+
+		await expect(client.get('/api/broken')).rejects.toThrow(/HTTP 503/)
+
+		expect(onResponse).toHaveBeenCalledWith(
+			expect.objectContaining({ endpoint: '/api/broken', method: 'GET' })
+		)
+		const [ctx] = onError.mock.calls[0]
+		expect(ctx.error.status).toBe(503)
+		expect(ctx.response.status).toBe(503)
+		expect(ctx.duration).toBeGreaterThanOrEqual(0)
+	})
+
+	it('does not let a failing onError hook mask the original error', async () => {
+		const client = new AmadeusClient({
+			transport: backend(),
+			middleware: [
+				{
+					onError: () => {
+						throw new Error('reporter offline')
+					}
+				}
+			]
+		})
+
+		await expect(client.get('/api/broken')).rejects.toThrow(/HTTP 503/)
+	})
+
+	it('fails the request when onRequest throws', async () => {
+		const transport = backend()
+		const client = new AmadeusClient({
+			transport,
+			middleware: [
+				{
+					onRequest: () => {
+						throw new Error('no credentials')
+					}
+				}
+			]
+		})
+
+		await expect(client.get('/api/chain/tip')).rejects.toThrow('no credentials')
+		expect(transport.requests).toHaveLength(0)
+	})
+
+	it('runs once per attempt with a stable requestId', async () => {
+		const seen: MiddlewareContext[] = []
+		const client = new AmadeusClient({
+			transport: backend(),
+			retry: { maxAttempts: 3, initialDelay: 1, jitter: false },
+			middleware: [{ onRequest: (ctx) => void seen.push({ ...ctx }) }]
+		})
+
+		await expect(client.get('/api/broken')).rejects.toThrow()
+
+		expect(seen.map((ctx) => ctx.attempt)).toEqual([1, 2, 3])
+		expect(new Set(seen.map((ctx) => ctx.requestId)).size).toBe(1)
+	})
+
+	it('removes middleware with the returned function', async () => {
+		const onRequest = vi.fn()
+		const sdk = new AmadeusSDK({ transport: backend() })
+		const remove = sdk.use({ onRequest })
+
+		await sdk.chain.getTip()
+		remove()
+		await sdk.chain.getTip()
+
+		expect(onRequest).toHaveBeenCalledTimes(1)
+	})
+})
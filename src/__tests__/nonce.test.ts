@@ -0,0 +1,114 @@
+import { describe, it, expect, afterEach } from 'vitest'
+import {
+	MemoryNonceStore,
+	MonotonicNonceManager,
+	createStorageNonceStore,
+	getDefaultNonceManager,
+	setDefaultNonceManager
+} from '../nonce'
+import { TransactionBuilder } from '../transaction-builder'
+import { createContract } from '../contracts/contract'
+import { LOCKUP_ABI } from '../contracts/lockup/abi'
+import { generateKeypair } from '../crypto'
+import { fromBase58 } from '../encoding'
+
+const NOW = 1_700_000_000_000
+const keypair = generateKeypair()
+const signer = fromBase58(keypair.publicKey)
+const other = fromBase58(generateKeypair().publicKey)
+
+describe('MonotonicNonceManager', () => {
+	it('derives nonces from the clock and bumps them within a millisecond', () => {
+		let now = NOW
+		const nonces = new MonotonicNonceManager({ clock: () => now })
+
+		expect(nonces.next(signer)).toBe(1_700_000_000_000_000_000n)
+		expect(nonces.next(signer)).toBe(1_700_000_000_000_000_001n)
+
+		now += 1
+		expect(nonces.next(signer)).toBe(1_700_000_000_001_000_000n)
+
+		// A clock going backwards never produces a lower nonce
+		now -= 10
+		expect(nonces.next(signer)).toBe(1_700_000_000_001_000_001n)
+	})
+
+	it('tracks each signer separately', () => {
+		const nonces = new MonotonicNonceManager({ clock: () => NOW })
+
+		nonces.next(signer)
+		expect(nonces.next(other)).toBe(BigInt(NOW) * 1_000_000n)
+	})
+
+	it('resumes from a store after a restart', () => {
+		const store = new MemoryNonceStore()
+		new MonotonicNonceManager({ clock: () => NOW, store }).next(signer)
+
+		const restarted = new MonotonicNonceManager({ clock: () => NOW - 5_000, store })
+		expect(restarted.next(signer)).toBe(BigInt(NOW) * 1_000_000n + 1n)
+	})
+
+	it('persists nonces in localStorage-like storage', () => {
+		const items = new Map<string, string>()
+		const storage = {
+			getItem: (key: string) => items.get(key) ?? null,
+			setItem: (key: string, value: string) => void items.set(key, value)
+		}
+		const store = createStorageNonceStore(storage)
+
+		store.save(keypair.publicKey, 42n)
+
+		expect(items.get(`amadeus:nonce:${keypair.publicKey}`)).toBe('42')
+		expect(store.load(keypair.publicKey)).toBe(42n)
+		expect(store.load('unknown')).toBeUndefined()
+	})
+})
+
+describe('Nonces in transaction building', () => {
+	const defaultManager = getDefaultNonceManager()
+	afterEach(() => setDefaultNonceManager(defaultManager))
+
+	const transfer = { recipient: generateKeypair().publicKey, amount: 1, symbol: 'AMA' }
+
+	it('gives same-millisecond transactions distinct nonces by default', () => {
+		const builder = new TransactionBuilder(keypair.privateKey)
+		const nonces = new Set(
+			Array.from({ length: 20 }, () => builder.buildTransfer(transfer).tx.nonce)
+		)
+		expect(nonces.size).toBe(20)
+	})
+
+	it('produces reproducible hashes with a fixed clock', () => {
+		const build = () =>
+			new TransactionBuilder(keypair.privateKey, {
+				nonceManager: new MonotonicNonceManager({ clock: () => NOW })
+			}).transfer(transfer)
+
+		expect(build().txHash).toBe(build().txHash)
+	})
+
+	it('uses an explicit nonce as is', () => {
+		const { tx } = TransactionBuilder.build(signer, 'Coin', 'transfer', [], { nonce: 7n })
+		expect(tx.nonce).toBe(7n)
+	})
+
+	it('passes the builder nonce manager to ABI-driven contracts', () => {
+		const nonceManager = new MonotonicNonceManager({ clock: () => NOW })
+		const viaBuilder = new TransactionBuilder(keypair.privateKey, { nonceManager })
+			.contract(LOCKUP_ABI)
+			.unlock({ vaultIndex: '1' })
+		const viaConnect = createContract(LOCKUP_ABI)
+			.connect(keypair.privateKey, {
+				nonceManager: new MonotonicNonceManager({ clock: () => NOW })
+			})
+			.unlock({ vaultIndex: '1' })
+
+		expect(viaBuilder.txHash).toBe(viaConnect.txHash)
+	})
+
+	it('can replace the default nonce manager', () => {
+		setDefaultNonceManager({ next: () => 99n })
+
+		expect(TransactionBuilder.build(signer, 'Coin', 'transfer', []).tx.nonce).toBe(99n)
+	})
+})
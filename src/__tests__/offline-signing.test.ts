@@ -0,0 +1,147 @@
+import { describe, it, expect } from 'vitest'
+import {
+	assembleSignedTransaction,
+	createUnsignedEnvelope,
+	encodeEnvelope,
+	joinEnvelope,
+	parseEnvelope,
+	parseSignatureEnvelope,
+	parseUnsignedEnvelope,
+	signEnvelope,
+	splitEnvelope
+} from '../offline-signing'
+import { TransactionBuilder } from '../transaction-builder'
+import { verifyTransaction } from '../transaction-decoder'
+import { ValidationError } from '../errors'
+import { fromBase58, toBase58 } from '../encoding'
+import { generateKeypair } from '../crypto'
+
+const keypair = generateKeypair()
+const signerPk = fromBase58(keypair.publicKey)
+const recipient = generateKeypair().publicKey
+
+function unsignedTransfer(nonce = 42n) {
+	return TransactionBuilder.build(
+		signerPk,
+		'Coin',
+		'transfer',
+		[fromBase58(recipient), '1000000000', 'AMA'],
+		{ nonce }
+	)
+}
+
+describe('Offline signing envelopes', () => {
+	it('round-trips an unsigned transaction through signing to a packed transaction', () => {
+		const unsigned = unsignedTransfer()
+		const online = encodeEnvelope(createUnsignedEnvelope(unsigned, 'mainnet'))
+
+		// Offline machine
+		const envelope = parseUnsignedEnvelope(online)
+		const reply = encodeEnvelope(signEnvelope(envelope, keypair.privateKey), 'base64')
+
+		// Back online
+		const { txHash, txPacked } = assembleSignedTransaction(online, reply)
+
+		expect(txHash).toBe(toBase58(unsigned.hash))
+		expect(txPacked).toEqual(TransactionBuilder.sign(unsigned, keypair.privateKey).txPacked)
+		expect(verifyTransaction(txPacked).error).toBe('ok')
+	})
+
+	it('carries a readable summary', () => {
+		const envelope = createUnsignedEnvelope(unsignedTransfer(), 'testnet')
+
+		expect(envelope).toMatchObject({
+			type: 'amadeus/unsigned-tx',
+			version: 1,
+			network: 'testnet'
+		})
+		expect(envelope.summary).toEqual({
+			signer: keypair.publicKey,
+			nonce: '42',
+			contract: 'Coin',
+			function: 'transfer',
+			args: [recipient, '1000000000', 'AMA']
+		})
+	})
+
+	it('parses every text form back to the same envelope', () => {
+		const envelope = createUnsignedEnvelope(unsignedTransfer(), 'mainnet')
+
+		for (const format of ['json', 'base58', 'base64'] as const) {
+			const text = encodeEnvelope(envelope, format)
+			expect(parseEnvelope(text)).toEqual(envelope)
+		}
+		expect(encodeEnvelope(envelope, 'base64')).toMatch(/^amadeus\/unsigned-tx:1:base64:/)
+	})
+
+	it('rejects envelopes whose hash or summary does not match the transaction', () => {
+		const envelope = createUnsignedEnvelope(unsignedTransfer(), 'mainnet')
+		const other = createUnsignedEnvelope(unsignedTransfer(43n), 'mainnet')
+
+		expect(() => parseUnsignedEnvelope({ ...envelope, hash: other.hash })).toThrow(
+			/hash does not match/
+		)
+		expect(() =>
+			parseUnsignedEnvelope({ ...envelope, summary: { ...envelope.summary, args: [] } })
+		).toThrow(/summary does not match/)
+		expect(() => parseEnvelope(JSON.stringify({ ...envelope, version: 2 }))).toThrow(
+			/Unsupported envelope version/
+		)
+		expect(() => parseEnvelope('amadeus/unsigned-tx:1:base58:0OIl')).toThrow(ValidationError)
+	})
+
+	it('only signs with the key of the transaction signer', () => {
+		const envelope = createUnsignedEnvelope(unsignedTransfer(), 'mainnet')
+
+		expect(() => signEnvelope(envelope, generateKeypair().privateKey)).toThrow(
+			/does not match the transaction signer/
+		)
+	})
+
+	it('refuses to assemble mismatched or forged signatures', () => {
+		const envelope = createUnsignedEnvelope(unsignedTransfer(), 'mainnet')
+		const other = createUnsignedEnvelope(unsignedTransfer(43n), 'mainnet')
+		const signature = signEnvelope(envelope, keypair.privateKey)
+
+		expect(() =>
+			assembleSignedTransaction(other, signEnvelope(envelope, keypair.privateKey))
+		).toThrow(/different transaction/)
+		expect(() =>
+			assembleSignedTransaction(envelope, { ...signature, network: 'testnet' })
+		).toThrow(/is for testnet/)
+		expect(() =>
+			assembleSignedTransaction(envelope, {
+				...signature,
+				signature: signEnvelope(other, keypair.privateKey).signature
+			})
+		).toThrow(/does not verify \(invalid_signature\)/)
+		expect(() => parseSignatureEnvelope(encodeEnvelope(envelope))).toThrow(
+			/Expected a signature envelope/
+		)
+	})
+
+	it('splits into QR-sized parts and joins them in any order', () => {
+		const text = encodeEnvelope(createUnsignedEnvelope(unsignedTransfer(), 'mainnet'))
+		const parts = splitEnvelope(text, 40)
+
+		expect(parts.length).toBe(Math.ceil(text.length / 40))
+		expect(parts[0]).toMatch(new RegExp(`^amadeus/part:1/${parts.length}:`))
+		expect(joinEnvelope([...parts].reverse().concat(parts[0]))).toBe(text)
+	})
+
+	it('detects missing, foreign and corrupted parts', () => {
+		const text = encodeEnvelope(createUnsignedEnvelope(unsignedTransfer(), 'mainnet'))
+		const parts = splitEnvelope(text, 40)
+		const foreign = splitEnvelope(
+			encodeEnvelope(createUnsignedEnvelope(unsignedTransfer(43n), 'mainnet')),
+			40
+		)
+		const corrupted = parts[1].slice(0, -1) + (parts[1].endsWith('a') ? 'b' : 'a')
+
+		expect(() => joinEnvelope(parts.slice(1))).toThrow(/Missing envelope parts: 1/)
+		expect(() => joinEnvelope([parts[0], ...foreign.slice(1)])).toThrow(/different envelopes/)
+		expect(() => joinEnvelope([parts[0], corrupted, ...parts.slice(2)])).toThrow(
+			/checksum mismatch/
+		)
+	})
+})
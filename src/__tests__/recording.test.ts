@@ -0,0 +1,93 @@
+import { describe, it, expect } from 'vitest'
+import { RecordingTransport, ReplayTransport } from '../recording'
+import { InMemoryTransport } from '../transport'
+import type { Transport } from '../transport'
+import { AmadeusSDK } from '../sdk'
+import { AmadeusSDKError } from '../types'
+import { encode } from '../serialization'
+
+const prefixBody = encode(new Map([[new Uint8Array([0x31]), new Uint8Array([7, 8, 9])]]))
+
+function backend(): InMemoryTransport {
+	return new InMemoryTransport()
+		.route('GET', '/api/chain/tx_by_filter', ({ query }) => ({
+			error: 'ok',
+			txs: [],
+			cursor: query.cursor ? null : 'next'
+		}))
+		.route('POST', '/api/contract/get_prefix', () => prefixBody)
+}
+
+async function session(transport: Transport) {
+	const sdk = new AmadeusSDK({ transport })
+	return {
+		first: await sdk.chain.getByFilter({ signer: 'abc', limit: 10 }),
+		second: await sdk.chain.getByFilter({ signer: 'abc', limit: 10, cursor: 'next' }),
+		entries: await sdk.contract.getPrefixEntries('bic:lockup_vault:vault:')
+	}
+}
+
+describe('Record and replay', () => {
+	it('replays a recorded session, binary bodies included', async () => {
+		const recorder = new RecordingTransport(backend())
+		const live = await session(recorder)
+
+		const replay = new ReplayTransport(JSON.parse(JSON.stringify(recorder.toFixture())))
+		const replayed = await session(replay)
+
+		expect(replayed).toEqual(live)
+		expect(replayed.entries[0][1]).toEqual(new Uint8Array([7, 8, 9]))
+		expect(() => replay.assertAllUsed()).not.toThrow()
+	})
+
+	it('fails loudly on unmatched requests', async () => {
+		const recorder = new RecordingTransport(backend())
+		await session(recorder)
+		const sdk = new AmadeusSDK({ transport: new ReplayTransport(recorder.toFixture()) })
+
+		await expect(sdk.chain.getByFilter({ signer: 'other' })).rejects.toThrow(
+			/No recorded response for GET \/api\/chain\/tx_by_filter\?signer=other/
+		)
+		await expect(sdk.contract.getPrefixEntries('bic:other:')).rejects.toThrow(AmadeusSDKError)
+	})
+
+	it('serves each recording once and reports unused ones', async () => {
+		const recorder = new RecordingTransport(backend())
+		await session(recorder)
+		const replay = new ReplayTransport(recorder.toFixture())
+		const sdk = new AmadeusSDK({ transport: replay })
+
+		await sdk.chain.getByFilter({ signer: 'abc', limit: 10 })
+		await expect(sdk.chain.getByFilter({ signer: 'abc', limit: 10 })).rejects.toThrow(
+			/No recorded response/
+		)
+		expect(() => replay.assertAllUsed()).toThrow(/2 recorded response\(s\) not used/)
+	})
+
+	it('records and replays transport failures', async () => {
+		const failing: Transport = {
+			request: async () => {
+				throw new Error('connection refused')
+			}
+		}
+		const recorder = new RecordingTransport(failing)
+		const sdk = new AmadeusSDK({ transport: recorder })
+		await expect(sdk.chain.getTip()).rejects.toThrow(/connection refused/)
+
+		const replayed = new AmadeusSDK({ transport: new ReplayTransport(recorder.toFixture()) })
+		await expect(replayed.chain.getTip()).rejects.toMatchObject({ status: 0 })
+	})
+
+	it('replays a fixture from its JSON text', async () => {
+		const recorder = new RecordingTransport(backend())
+		const recorded = await session(recorder)
+
+		const replay = new ReplayTransport(JSON.stringify(recorder.toFixture()))
+		expect(await session(replay)).toEqual(recorded)
+		replay.assertAllUsed()
+	})
+
+	it('rejects malformed fixtures', () => {
+		expect(() => new ReplayTransport('{"exchanges": []}')).toThrow(/Invalid fixture/)
+	})
+})
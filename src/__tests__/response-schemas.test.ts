@@ -0,0 +1,115 @@
+import { describe, it, expect, vi } from 'vitest'
+import { Schema } from 'effect'
+import { checkResponse, GetTipResponseSchema } from '../response-schemas'
+import type { ResponseValidationIssue } from '../response-schemas'
+import { AmadeusSDK } from '../sdk'
+import { InMemoryTransport } from '../transport'
+import { AmadeusSDKError } from '../types'
+
+const ENTRY = {
+	header: {
+		slot: 10,
+		height: 10,
+		prev_slot: 9,
+		prev_hash: 'prev',
+		dr: 'dr',
+		vr: 'vr',
+		signer: 'signer'
+	},
+	hash: 'hash',
+	tx_count: 0
+}
+
+// A node that renamed `header.height` to `header.h`
+const DRIFTED = { ...ENTRY, header: { ...ENTRY.header, height: undefined, h: 10 } }
+
+function backend(entry: unknown) {
+	return new InMemoryTransport().route('GET', '/api/chain/tip', () => ({
+		error: 'ok',
+		entry,
+		served_by: 'node-1'
+	}))
+}
+
+describe('Response validation', () => {
+	it('describes every mismatch', () => {
+		expect(checkResponse(GetTipResponseSchema, { entry: ENTRY })).toBeUndefined()
+
+		const message = checkResponse(GetTipResponseSchema, {
+			entry: { ...DRIFTED, tx_count: '0' }
+		})
+		expect(message).toContain('height')
+		expect(message).toContain('tx_count')
+	})
+
+	it('is off by default', async () => {
+		const sdk = new AmadeusSDK({ transport: backend(DRIFTED) })
+		const { entry } = await sdk.chain.getTip()
+		expect(entry.header.height).toBeUndefined()
+	})
+
+	it('passes matching responses through unchanged, extra fields included', async () => {
+		const sdk = new AmadeusSDK({ transport: backend(ENTRY), responseValidation: 'strict' })
+		await expect(sdk.chain.getTip()).resolves.toEqual({ entry: ENTRY, served_by: 'node-1' })
+	})
+
+	it('rejects drifted responses in strict mode without retrying', async () => {
+		const transport = backend(DRIFTED)
+		const sdk = new AmadeusSDK({ transport, responseValidation: 'strict', retry: true })
+
+		const error = await sdk.chain.getTip().catch((e: unknown) => e)
+		expect(error).toBeInstanceOf(AmadeusSDKError)
+		expect((error as AmadeusSDKError).message).toMatch(
+			/^Unexpected response from \/api\/chain\/tip: [\s\S]*height/
+		)
+		expect(transport.requests).toHaveLength(1)
+	})
+
+	it('reports drifted responses in lenient mode and returns them', async () => {
+		const issues: ResponseValidationIssue[] = []
+		const sdk = new AmadeusSDK({
+			transport: backend(DRIFTED),
+			responseValidation: 'lenient',
+			onValidationWarning: (issue) => issues.push(issue)
+		})
+
+		const result = await sdk.chain.getTip()
+
+		expect(result.entry).toEqual(DRIFTED)
+		expect(issues).toHaveLength(1)
+		expect(issues[0].endpoint).toBe('/api/chain/tip')
+		expect(issues[0].message).toContain('height')
+		expect(issues[0].data).toEqual(result)
+	})
+
+	it('warns on the console in lenient mode without a hook', async () => {
+		const warn = vi.spyOn(console, 'warn').mockImplementation(() => {})
+		try {
+			const sdk = new AmadeusSDK({
+				transport: backend(DRIFTED),
+				responseValidation: 'lenient'
+			})
+			expect((await sdk.chain.getTip()).entry).toEqual(DRIFTED)
+			expect(warn).toHaveBeenCalledWith(
+				expect.stringContaining('Unexpected response from /api/chain/tip')
+			)
+		} finally {
+			warn.mockRestore()
+		}
+	})
+
+	it('checks custom client requests against a given schema', async () => {
+		const transport = new InMemoryTransport().route('GET', '/api/custom', () => ({
+			error: 'ok',
+			count: 'many'
+		}))
+		const sdk = new AmadeusSDK({ transport, responseValidation: 'strict' })
+
+		await expect(sdk.client.get('/api/custom')).resolves.toEqual({ count: 'many' })
+		await expect(
+			sdk.client.get('/api/custom', undefined, {
+				schema: Schema.Struct({ count: Schema.Number })
+			})
+		).rejects.toThrow(/count/)
+	})
+})
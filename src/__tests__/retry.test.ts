@@ -0,0 +1,104 @@
+import { describe, it, expect } from 'vitest'
+import {
+	DEFAULT_RETRY_POLICY,
+	computeBackoffDelay,
+	isRetryableError,
+	nextRetryDelay,
+	parseRetryAfter,
+	resolveRetryPolicy,
+	sleep
+} from '../retry'
+import { AmadeusSDKError } from '../types'
+
+describe('Retry policy', () => {
+	describe('resolveRetryPolicy', () => {
+		it('disables retries by default', () => {
+			expect(resolveRetryPolicy().maxAttempts).toBe(1)
+			expect(resolveRetryPolicy(false).maxAttempts).toBe(1)
+		})
+
+		it('enables the defaults with true', () => {
+			expect(resolveRetryPolicy(true)).toEqual(DEFAULT_RETRY_POLICY)
+		})
+
+		it('merges a partial policy over the defaults', () => {
+			const policy = resolveRetryPolicy({ maxAttempts: 5 })
+
+			expect(policy.maxAttempts).toBe(5)
+			expect(policy.initialDelay).toBe(DEFAULT_RETRY_POLICY.initialDelay)
+		})
+	})
+
+	describe('computeBackoffDelay', () => {
+		const policy = { ...DEFAULT_RETRY_POLICY, initialDelay: 100, maxDelay: 1000, jitter: false }
+
+		it('grows exponentially and caps at maxDelay', () => {
+			expect(computeBackoffDelay(policy, 1)).toBe(100)
+			expect(computeBackoffDelay(policy, 2)).toBe(200)
+			expect(computeBackoffDelay(policy, 3)).toBe(400)
+			expect(computeBackoffDelay(policy, 10)).toBe(1000)
+		})
+
+		it('applies full jitter', () => {
+			const jittered = { ...policy, jitter: true }
+
+			expect(computeBackoffDelay(jittered, 2, () => 0.5)).toBe(100)
+			expect(computeBackoffDelay(jittered, 2, () => 0)).toBe(0)
+		})
+	})
+
+	describe('parseRetryAfter', () => {
+		it('parses delta-seconds', () => {
+			expect(parseRetryAfter('3')).toBe(3000)
+		})
+
+		it('parses HTTP dates', () => {
+			const now = Date.parse('Wed, 21 Oct 2026 07:28:00 GMT')
+
+			expect(parseRetryAfter('Wed, 21 Oct 2026 07:28:05 GMT', now)).toBe(5000)
+		})
+
+		it('ignores missing or invalid values', () => {
+			expect(parseRetryAfter(null)).toBeUndefined()
+			expect(parseRetryAfter('soon')).toBeUndefined()
+		})
+
+		it('caps hinted delays at maxDelay', () => {
+			expect(nextRetryDelay({ ...DEFAULT_RETRY_POLICY, maxDelay: 2000 }, 1, '60')).toBe(2000)
+		})
+	})
+
+	describe('isRetryableError', () => {
+		it('classifies network errors and transient statuses as retryable', () => {
+			expect(isRetryableError(new AmadeusSDKError('offline', 0), DEFAULT_RETRY_POLICY)).toBe(
+				true
+			)
+			expect(
+				isRetryableError(new AmadeusSDKError('timeout', 408), DEFAULT_RETRY_POLICY)
+			).toBe(true)
+			expect(isRetryableError(new AmadeusSDKError('busy', 503), DEFAULT_RETRY_POLICY)).toBe(
+				true
+			)
+		})
+
+		it('does not retry cancellations or client errors', () => {
+			expect(
+				isRetryableError(new AmadeusSDKError('Request cancelled'), DEFAULT_RETRY_POLICY)
+			).toBe(false)
+			expect(isRetryableError(new AmadeusSDKError('bad', 400), DEFAULT_RETRY_POLICY)).toBe(
+				false
+			)
+			expect(isRetryableError(new Error('boom'), DEFAULT_RETRY_POLICY)).toBe(false)
+		})
+	})
+
+	describe('sleep', () => {
+		it('rejects when a signal aborts', async () => {
+			const controller = new AbortController()
+			const pending = sleep(10_000, [controller.signal])
+			controller.abort()
+
+			await expect(pending).rejects.toThrow(/cancelled/i)
+		})
+	})
+})
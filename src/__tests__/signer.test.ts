@@ -0,0 +1,124 @@
+import { describe, it, expect } from 'vitest'
+import { LocalSigner, isSigner } from '../signer'
+import type { Signer } from '../signer'
+import { TransactionBuilder } from '../transaction-builder'
+import { createContract } from '../contracts/contract'
+import { LOCKUP_ABI } from '../contracts/lockup/abi'
+import { signHash } from '../signing'
+import { verifyTransaction } from '../transaction-decoder'
+import { generateKeypair } from '../crypto'
+import { fromBase58 } from '../encoding'
+
+const keypair = generateKeypair()
+const recipient = generateKeypair().publicKey
+const transfer = { recipient, amount: 1, symbol: 'AMA' }
+
+/** A signer that only signs through an async boundary, like a KMS or remote service */
+function remoteSigner(privateKey: string) {
+	const local = new LocalSigner(privateKey)
+	const hashes: Uint8Array[] = []
+	const signer: Signer = {
+		getPublicKey: async () => local.publicKey,
+		signHash: async (hash) => {
+			hashes.push(hash)
+			await new Promise((resolve) => setTimeout(resolve, 1))
+			return signHash(hash, privateKey)
+		}
+	}
+	return { signer, hashes }
+}
+
+describe('LocalSigner', () => {
+	it('exposes the public key of its seed', async () => {
+		const signer = new LocalSigner(keypair.privateKey)
+
+		expect(signer.address).toBe(keypair.publicKey)
+		expect(await signer.getPublicKey()).toEqual(fromBase58(keypair.publicKey))
+		expect(isSigner(signer)).toBe(true)
+		expect(isSigner(keypair.privateKey)).toBe(false)
+	})
+
+	it('signs like the private key it holds', async () => {
+		const signerPk = fromBase58(keypair.publicKey)
+		const unsigned = TransactionBuilder.build(signerPk, 'Coin', 'transfer', [], { nonce: 1n })
+
+		const viaSigner = await TransactionBuilder.sign(
+			unsigned,
+			new LocalSigner(keypair.privateKey)
+		)
+
+		expect(viaSigner).toEqual(TransactionBuilder.sign(unsigned, keypair.privateKey))
+	})
+})
+
+describe('Signers in builder and contract paths', () => {
+	it('builds and signs with a builder bound to a signer', async () => {
+		const { signer, hashes } = remoteSigner(keypair.privateKey)
+		const builder = new TransactionBuilder(signer)
+
+		const { txHash, txPacked } = await builder.transfer(transfer)
+
+		expect(hashes).toHaveLength(1)
+		const result = verifyTransaction(txPacked)
+		expect(result.error).toBe('ok')
+		expect('txu' in result && result.txu.tx.signer).toEqual(fromBase58(keypair.publicKey))
+		expect(txHash).toBeTypeOf('string')
+	})
+
+	it('builds unsigned transactions from the signer public key', async () => {
+		const builder = new TransactionBuilder(new LocalSigner(keypair.privateKey))
+
+		const unsigned = await builder.buildTransfer(transfer)
+
+		expect(unsigned.tx.signer).toEqual(fromBase58(keypair.publicKey))
+		expect(verifyTransaction((await builder.sign(unsigned)).txPacked).error).toBe('ok')
+	})
+
+	it('connects ABI-driven contracts to a signer', async () => {
+		const { signer } = remoteSigner(keypair.privateKey)
+		const options = { nonce: 5n }
+
+		const viaSigner = await createContract(LOCKUP_ABI).connect(signer, options).unlock({
+			vaultIndex: '1'
+		})
+		const viaKey = createContract(LOCKUP_ABI)
+			.connect(keypair.privateKey, options)
+			.unlock({ vaultIndex: '1' })
+
+		expect(viaSigner).toEqual(viaKey)
+	})
+
+	it('accepts a signer in the static helpers', async () => {
+		const signer = new LocalSigner(keypair.privateKey)
+		const call = createContract(LOCKUP_ABI).unlock({ vaultIndex: '2' })
+
+		expect(
+			verifyTransaction((await TransactionBuilder.signCall(signer, call)).txPacked).error
+		).toBe('ok')
+		const { txPacked } = await TransactionBuilder.buildSignedLockupUnlock({
+			senderPrivkey: signer,
+			vaultIndex: 2
+		})
+		expect(verifyTransaction(txPacked).error).toBe('ok')
+	})
+
+	it('surfaces signer failures as rejections', async () => {
+		const failing: Signer = {
+			getPublicKey: async () => fromBase58(keypair.publicKey),
+			signHash: async () => {
+				throw new Error('KMS unavailable')
+			}
+		}
+
+		await expect(new TransactionBuilder(failing).transfer(transfer)).rejects.toThrow(
+			'KMS unavailable'
+		)
+	})
+
+	it('keeps private-key paths synchronous', () => {
+		const result = new TransactionBuilder(keypair.privateKey).transfer(transfer)
+
+		expect(result).not.toBeInstanceOf(Promise)
+		expect(verifyTransaction(result.txPacked).error).toBe('ok')
+	})
+})
@@ -0,0 +1,144 @@
+import { describe, it, expect } from 'vitest'
+import { decodeTransaction, verifyTransaction, verifyTransactions } from '../transaction-decoder'
+import { TransactionBuilder } from '../transaction-builder'
+import { ValidationError } from '../errors'
+import { decode, encode } from '../serialization'
+import { fromBase58, toBase58 } from '../encoding'
+import { generateKeypair } from '../crypto'
+import { TransactionValidationError } from '../types'
+import type { SerializableValue } from '../types'
+
+const keypair = generateKeypair()
+const signerPk = fromBase58(keypair.publicKey)
+const recipient = generateKeypair().publicKey
+
+function signedTransfer() {
+	const unsigned = TransactionBuilder.build(
+		signerPk,
+		'Coin',
+		'transfer',
+		[fromBase58(recipient), '1000000000', 'AMA'],
+		{ nonce: 42n }
+	)
+	return { unsigned, ...TransactionBuilder.sign(unsigned, keypair.privateKey) }
+}
+
+/** Re-pack a transaction with some fields replaced */
+function repack(txPacked: Uint8Array, fields: Record<string, SerializableValue>): Uint8Array {
+	const { tx_encoded, hash, signature } = decodeTransaction(txPacked)
+	return encode({ tx: decode(tx_encoded) as SerializableValue, hash, signature, ...fields })
+}
+
+describe('decodeTransaction', () => {
+	it('takes a packed transaction apart', () => {
+		const { txHash, txPacked } = signedTransfer()
+
+		const { tx, hash, signature, tx_encoded } = decodeTransaction(txPacked)
+
+		expect(tx.signer).toEqual(signerPk)
+		expect(tx.nonce).toBe(42n)
+		expect(tx.action).toMatchObject({ op: 'call', contract: 'Coin', function: 'transfer' })
+		expect(tx.action.args).toEqual([
+			fromBase58(recipient),
+			new TextEncoder().encode('1000000000'),
+			new TextEncoder().encode('AMA')
+		])
+		expect(toBase58(hash)).toBe(txHash)
+		expect(signature).toHaveLength(96)
+		expect(tx_encoded).toBeInstanceOf(Uint8Array)
+	})
+
+	it('accepts Base58 input', () => {
+		const { txPacked } = signedTransfer()
+
+		expect(decodeTransaction(toBase58(txPacked)).tx.nonce).toBe(42n)
+	})
+
+	it('rejects malformed transactions', () => {
+		expect(() => decodeTransaction(new Uint8Array([1, 2, 3]))).toThrow(ValidationError)
+		expect(() => decodeTransaction(encode({ hash: 'x' }))).toThrow(/tx_not_canonical/)
+	})
+})
+
+describe('verifyTransaction', () => {
+	it('accepts a transaction built by the SDK', () => {
+		const { txPacked } = signedTransfer()
+
+		const result = verifyTransaction(txPacked)
+
+		expect(result.error).toBe('ok')
+		expect('txu' in result && result.txu.tx.action.function).toBe('transfer')
+	})
+
+	it('detects a hash that does not match the transaction', () => {
+		const { txPacked } = signedTransfer()
+		const other = TransactionBuilder.build(signerPk, 'Coin', 'transfer', [], { nonce: 1n })
+
+		expect(verifyTransaction(repack(txPacked, { hash: other.hash })).error).toBe(
+			TransactionValidationError.INVALID_HASH
+		)
+	})
+
+	it('detects a signature from another key', () => {
+		const { unsigned } = signedTransfer()
+		const { txPacked } = TransactionBuilder.sign(unsigned, generateKeypair().privateKey)
+
+		expect(verifyTransaction(txPacked).error).toBe(TransactionValidationError.INVALID_SIGNATURE)
+	})
+
+	it('detects a corrupted signature', () => {
+		const { txPacked } = signedTransfer()
+
+		expect(verifyTransaction(repack(txPacked, { signature: new Uint8Array(96) })).error).toBe(
+			TransactionValidationError.INVALID_SIGNATURE
+		)
+	})
+
+	it('reports structural errors with node error codes', () => {
+		const build = (action: Record<string, SerializableValue>) =>
+			encode({
+				tx: { signer: signerPk, nonce: 1n, action },
+				hash: new Uint8Array(32),
+				signature: new Uint8Array(96)
+			})
+
+		expect(verifyTransaction(new Uint8Array([0xff])).error).toBe(
+			TransactionValidationError.TX_NOT_CANONICAL
+		)
+		expect(
+			verifyTransaction(build({ op: 'deploy', contract: 'C', function: 'f', args: [] })).error
+		).toBe(TransactionValidationError.OP_MUST_BE_CALL)
+		expect(
+			verifyTransaction(build({ op: 'call', contract: 'C', function: 'f', args: 'x' })).error
+		).toBe(TransactionValidationError.ARGS_MUST_BE_LIST)
+		expect(
+			verifyTransaction(build({ op: 'call', contract: 'C', function: 'f', args: [1] })).error
+		).toBe(TransactionValidationError.ARG_MUST_BE_BINARY)
+	})
+})
+
+describe('verifyTransactions', () => {
+	it('returns the verifyTransaction result of each transaction', () => {
+		const valid = [signedTransfer().txPacked, toBase58(signedTransfer().txPacked)]
+		const wrongKey = TransactionBuilder.sign(
+			signedTransfer().unsigned,
+			generateKeypair().privateKey
+		).txPacked
+		const other = TransactionBuilder.build(signerPk, 'Coin', 'transfer', [], { nonce: 1n })
+		const wrongHash = repack(signedTransfer().txPacked, { hash: other.hash })
+
+		expect(verifyTransactions(valid).map((result) => result.error)).toEqual(['ok', 'ok'])
+		expect(
+			verifyTransactions([...valid, wrongKey, wrongHash, new Uint8Array([0xff])]).map(
+				(result) => result.error
+			)
+		).toEqual([
+			'ok',
+			'ok',
+			TransactionValidationError.INVALID_SIGNATURE,
+			TransactionValidationError.INVALID_HASH,
+			TransactionValidationError.TX_NOT_CANONICAL
+		])
+		expect(verifyTransactions([])).toEqual([])
+	})
+})
@@ -0,0 +1,162 @@
+import { describe, it, expect } from 'vitest'
+import { describeCall, describeTransaction } from '../transaction-describer'
+import type { AbiDefinition } from '../contracts/abi-types'
+import { buildCoinMint, buildCoinTransfer, buildCoinCreateAndMint } from '../contracts/coin'
+import { buildContractCall } from '../contracts/contract-call'
+import { LOCKUP_PRIME_ABI } from '../contracts/lockup-prime'
+import { buildNftTransfer } from '../contracts/nft'
+import { TransactionBuilder } from '../transaction-builder'
+import { NetworkType } from '../networks'
+import { generateKeypair } from '../crypto'
+import { toBase58 } from '../encoding'
+
+const keypair = generateKeypair()
+const recipient = generateKeypair().publicKey
+
+describe('Transaction describer', () => {
+	it('describes an AMA transfer with amount, recipient and fee', () => {
+		const description = describeCall(
+			buildCoinTransfer({ recipient, amount: 10.5, symbol: 'AMA' })
+		)
+
+		expect(description).toMatchObject({
+			contract: 'Coin',
+			method: 'transfer',
+			title: `Send 10.5 AMA to ${recipient}`,
+			description: 'Transfer tokens to another account',
+			amount: { atomic: '10500000000', value: '10.5', symbol: 'AMA', decimals: 9 },
+			recipient,
+			fee: { atomic: '20000000', value: '0.02', symbol: 'AMA' },
+			warnings: []
+		})
+		expect(description.args).toEqual([
+			{ name: 'receiver', label: 'Recipient', value: recipient, type: 'address' },
+			{ name: 'amount', label: 'Amount', value: '10500000000', type: 'string' },
+			{ name: 'symbol', label: 'Token', value: 'AMA', type: 'string' }
+		])
+	})
+
+	it('uses token decimals and warns when they are unknown', () => {
+		const mint = buildCoinMint({ symbol: 'USDX', amount: '2.5', decimals: 6, recipient })
+
+		expect(describeCall(mint).amount).toEqual({
+			atomic: '2500000',
+			value: '2500000',
+			symbol: 'USDX'
+		})
+		expect(describeCall(mint).warnings.map((w) => w.code)).toEqual(['unknown_decimals'])
+		expect(describeCall(mint, { tokenDecimals: { USDX: 6 } })).toMatchObject({
+			title: `Mint 2.5 USDX to ${recipient}`,
+			warnings: []
+		})
+
+		const created = describeCall(
+			buildCoinCreateAndMint({ symbol: 'SBT', amount: 1, decimals: 0, soulbound: true })
+		)
+		expect(created.title).toBe('Create token SBT with a supply of 1 SBT')
+		expect(created.warnings.map((w) => w.code)).toEqual(['soulbound'])
+	})
+
+	it('describes lock tiers per network and NFT transfers', () => {
+		const lock = buildContractCall(LOCKUP_PRIME_ABI, 'lock', {
+			amount: '1000000000000',
+			tier: '30d'
+		})
+
+		expect(describeCall(lock)).toMatchObject({
+			title: 'Lock 1000 AMA for 30 Days',
+			tier: { tier: '30d', epochs: 45, durationDays: 30 }
+		})
+		expect(describeCall(lock, { network: NetworkType.TESTNET }).title).toBe(
+			'Lock 1000 AMA for 3 Days'
+		)
+		expect(
+			describeCall(buildContractCall(LOCKUP_PRIME_ABI, 'unlock', { vaultIndex: '2' }))
+		).toMatchObject({
+			title: 'Unlock prime vault #2',
+			warnings: [{ code: 'early_unlock', message: expect.stringContaining('25%') }]
+		})
+		expect(
+			describeCall(
+				buildNftTransfer({ recipient, amount: 1, collection: 'AGENTIC', token: '7' })
+			)
+		).toMatchObject({
+			title: `Send 1 AGENTIC #7 to ${recipient}`,
+			amount: { value: '1', symbol: 'AGENTIC', decimals: 0 }
+		})
+	})
+
+	it('renders translated messages', () => {
+		const description = describeCall(
+			buildCoinTransfer({ recipient, amount: 1, symbol: 'AMA' }),
+			{
+				messages: {
+					'Coin.transfer': '{amount} an {receiver} senden',
+					'label.receiver': 'Empfänger'
+				}
+			}
+		)
+
+		expect(description.title).toBe(`1 AMA an ${recipient} senden`)
+		expect(description.args[0].label).toBe('Empfänger')
+		// Untranslated keys fall back to English
+		expect(description.args[1].label).toBe('Amount')
+	})
+
+	it('describes decoded packed transactions', () => {
+		const { txHash, txPacked } = TransactionBuilder.signCall(
+			keypair.privateKey,
+			buildCoinTransfer({ recipient: keypair.publicKey, amount: 3, symbol: 'AMA' })
+		)
+
+		const description = describeTransaction(txPacked)
+
+		expect(description).toMatchObject({
+			title: `Send 3 AMA to ${keypair.publicKey}`,
+			signer: keypair.publicKey,
+			txHash,
+			warnings: [{ code: 'self_transfer' }]
+		})
+		expect(description.nonce).toMatch(/^\d+$/)
+	})
+
+	it('falls back to raw arguments without an ABI and flags invalid ones', () => {
+		const unknown = describeCall({
+			contract: 'Counter',
+			method: 'increment',
+			args: ['2', new Uint8Array([0, 1, 2])]
+		})
+		expect(unknown).toMatchObject({
+			title: 'Call Counter.increment',
+			args: [{ value: '2' }, { name: 'arg1', value: toBase58(new Uint8Array([0, 1, 2])) }],
+			warnings: [{ code: 'unknown_function' }]
+		})
+
+		const abi = {
+			contractName: 'Counter',
+			abi: [
+				{
+					type: 'function',
+					name: 'increment',
+					inputs: [{ name: 'by', type: 'string' }],
+					outputs: [],
+					stateMutability: 'nonpayable',
+					description: 'Increment the counter'
+				}
+			]
+		} as const satisfies AbiDefinition
+		expect(
+			describeCall({ contract: 'Counter', method: 'increment', args: ['2'] }, { abis: [abi] })
+		).toMatchObject({ title: 'Increment the counter', warnings: [] })
+
+		const invalid = describeCall({
+			contract: 'Coin',
+			method: 'transfer',
+			args: [new Uint8Array(3), '1', 'AMA']
+		})
+		expect(invalid.recipient).toBeUndefined()
+		expect(invalid.warnings).toEqual([
+			{ code: 'invalid_argument', message: 'Recipient is not a valid address' }
+		])
+	})
+})
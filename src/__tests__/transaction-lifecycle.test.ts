@@ -0,0 +1,189 @@
+import { describe, it, expect } from 'vitest'
+import { AmadeusSDK } from '../sdk'
+import { InMemoryTransport, createTransportResponse } from '../transport'
+import { HttpError, SimulationFailedError, TransactionRejectedError } from '../errors'
+import { buildCoinTransfer } from '../contracts/coin'
+import type { TransactionLifecycleEvent } from '../transaction-lifecycle'
+import { decodeTransaction } from '../transaction-decoder'
+import { LocalSigner } from '../signer'
+import { generateKeypair } from '../crypto'
+import { toBase58 } from '../encoding'
+import { TransactionExecutionError, TransactionValidationError } from '../types'
+
+const keypair = generateKeypair()
+const call = buildCoinTransfer({ recipient: generateKeypair().publicKey, amount: 1, symbol: 'AMA' })
+
+interface NodeOptions {
+	/** Answers for successive submissions: accepted, refused with an error, or a bare status */
+	submissions?: Array<'ok' | TransactionValidationError | 503>
+	/** Put each submission on chain, even one answered with 503 */
+	include?: boolean
+	/** Execution error of included transactions */
+	failure?: TransactionExecutionError
+	/** Preflight answer */
+	view?: { success: boolean; result: string }
+}
+
+/** Node double that includes what it receives at height 7 */
+function node(options: NodeOptions = {}) {
+	const onChain = new Set<string>()
+	const submissions = [...(options.submissions ?? ['ok'])]
+	let submitted = 0
+	const transport = new InMemoryTransport()
+		.route('POST', '/api/tx/submit', ({ body }) => {
+			submitted++
+			const answer = submissions.shift() ?? 'ok'
+			const hash = toBase58(decodeTransaction(body as Uint8Array).hash)
+			if (answer === 'ok' || (answer === 503 && options.include !== false)) onChain.add(hash)
+			if (answer === 503) return createTransportResponse({}, { status: 503 })
+			return answer === 'ok' ? { error: 'ok', hash } : { error: answer }
+		})
+		.route('GET', /^\/api\/chain\/tx\/(?<hash>\w+)$/, ({ params }) =>
+			onChain.has(params.hash)
+				? {
+						error: 'ok',
+						hash: params.hash,
+						metadata: { entry_hash: 'e', entry_height: 7 },
+						receipt: {
+							result: options.failure ?? null,
+							logs: ['log'],
+							success: options.failure === undefined,
+							exec_used: '10'
+						}
+					}
+				: { error: 'not_found' }
+		)
+		.route('POST', '/api/contract/view', () => ({
+			logs: [],
+			...(options.view ?? { success: true, result: 'ok' })
+		}))
+	return { sdk: new AmadeusSDK({ transport }), transport, submissions: () => submitted }
+}
+
+describe('Transaction lifecycle', () => {
+	it('signs, submits and waits, reporting each step', async () => {
+		const { sdk } = node()
+		const events: TransactionLifecycleEvent[] = []
+
+		const result = await sdk.execute(call, keypair.privateKey, {
+			preflight: true,
+			pollInterval: 0,
+			onEvent: (event) => events.push(event)
+		})
+
+		expect(result).toMatchObject({
+			status: 'success',
+			metadata: { entry_height: 7 },
+			receipt: { success: true, logs: ['log'] },
+			finalized: false,
+			simulation: { success: true }
+		})
+		expect(events.map((event) => event.type)).toEqual([
+			'preflight',
+			'signed',
+			'submitted',
+			'progress',
+			'progress'
+		])
+	})
+
+	it('stops before signing when the preflight fails', async () => {
+		const { sdk, submissions } = node({
+			view: { success: false, result: 'insufficient_funds' }
+		})
+
+		const result = await sdk.execute(call, new LocalSigner(keypair.privateKey), {
+			preflight: true
+		})
+
+		expect(result).toMatchObject({
+			status: 'execution_error',
+			reason: TransactionExecutionError.INSUFFICIENT_FUNDS,
+			message: 'Insufficient funds (insufficient_funds)'
+		})
+		expect(result.status === 'execution_error' && result.txHash).toBeUndefined()
+		expect(result.status === 'execution_error' && result.error).toBeInstanceOf(
+			SimulationFailedError
+		)
+		expect(submissions()).toBe(0)
+	})
+
+	it('returns refusals as validation errors', async () => {
+		const { sdk } = node({ submissions: [TransactionValidationError.INVALID_SIGNATURE] })
+
+		const result = await sdk.execute(call, keypair.privateKey)
+
+		expect(result.status).toBe('validation_error')
+		expect(result.status === 'validation_error' && result.error).toBeInstanceOf(
+			TransactionRejectedError
+		)
+		expect(result.status === 'validation_error' && result.reason).toBe('invalid_signature')
+	})
+
+	it('returns failed executions with their receipt', async () => {
+		const { sdk } = node({ failure: TransactionExecutionError.INVALID_TIER })
+
+		const result = await sdk.execute(call, keypair.privateKey, { pollInterval: 0 })
+
+		expect(result).toMatchObject({
+			status: 'execution_error',
+			reason: 'invalid_tier',
+			message: 'Invalid lockup tier (invalid_tier)',
+			receipt: { success: false, logs: ['log'] }
+		})
+	})
+
+	it('looks the hash up after an ambiguous submission instead of resubmitting', async () => {
+		const { sdk, submissions } = node({ submissions: [503] })
+		const events: TransactionLifecycleEvent[] = []
+
+		const result = await sdk.execute(call, keypair.privateKey, {
+			pollInterval: 0,
+			onEvent: (event) => events.push(event)
+		})
+
+		expect(result.status).toBe('success')
+		expect(submissions()).toBe(1)
+		expect(events.map((event) => event.type)).toEqual([
+			'signed',
+			'ambiguous',
+			'recovered',
+			'progress',
+			'progress'
+		])
+	})
+
+	it('reports an unknown outcome when a resubmission is refused', async () => {
+		const { sdk, submissions } = node({
+			submissions: [503, TransactionValidationError.NONCE_TOO_HIGH],
+			include: false
+		})
+
+		const result = await sdk.execute(call, keypair.privateKey, { pollInterval: 0 })
+
+		expect(result).toMatchObject({ status: 'unknown', reason: 'nonce_too_high' })
+		expect(result.status === 'unknown' && result.error).toBeInstanceOf(TransactionRejectedError)
+		expect(result.txHash).toBeTypeOf('string')
+		expect(submissions()).toBe(2)
+	})
+
+	it('resubmits the same bytes when the node never got them', async () => {
+		const { sdk, transport, submissions } = node({ submissions: [503, 503], include: false })
+
+		const result = await sdk.execute(call, keypair.privateKey, { pollInterval: 0 })
+		expect(result.status).toBe('success')
+		expect(submissions()).toBe(3)
+		const bodies = transport.requests
+			.filter((request) => request.path === '/api/tx/submit')
+			.map((request) => request.body)
+		expect(new Set(bodies.map((body) => toBase58(body as Uint8Array))).size).toBe(1)
+
+		const exhausted = node({ submissions: [503, 503], include: false })
+		await expect(
+			exhausted.sdk.execute(call, keypair.privateKey, {
+				pollInterval: 0,
+				maxSubmitAttempts: 2
+			})
+		).rejects.toBeInstanceOf(HttpError)
+	})
+})
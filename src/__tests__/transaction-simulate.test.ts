@@ -0,0 +1,97 @@
+import { describe, it, expect } from 'vitest'
+import { AmadeusSDK } from '../sdk'
+import { InMemoryTransport } from '../transport'
+import { SimulationFailedError, ValidationError } from '../errors'
+import { TransactionBuilder } from '../transaction-builder'
+import { buildCoinTransfer } from '../contracts/coin'
+import { createContract } from '../contracts/contract'
+import { LOCKUP_PRIME_ABI } from '../contracts/lockup-prime'
+import { decodeTransaction } from '../transaction-decoder'
+import { decode } from '../serialization'
+import { LocalSigner } from '../signer'
+import { generateKeypair } from '../crypto'
+import { fromBase58, toBase58 } from '../encoding'
+import { TransactionExecutionError } from '../types'
+
+const keypair = generateKeypair()
+const recipient = generateKeypair().publicKey
+const text = new TextDecoder()
+const utf8 = (value: string) => new TextEncoder().encode(value)
+const transfer = buildCoinTransfer({ recipient, amount: 10, symbol: 'AMA' })
+
+/** Node double whose view endpoint answers with `result` */
+function node(result: { success: boolean; result: string; logs?: string[] }) {
+	const views: Record<string, unknown>[] = []
+	const transport = new InMemoryTransport().route('POST', '/api/contract/view', ({ body }) => {
+		const fields = decode(body as Uint8Array) as Map<Uint8Array, unknown>
+		views.push(Object.fromEntries([...fields].map(([key, value]) => [text.decode(key), value])))
+		return { logs: [], ...result }
+	})
+	return { sdk: new AmadeusSDK({ transport }), views }
+}
+
+describe('Transaction simulation', () => {
+	it('runs the call through the view endpoint as the signer', async () => {
+		const { sdk, views } = node({ success: true, result: 'ok', logs: ['transfer 10'] })
+
+		const simulation = await sdk.transaction.simulate(transfer, keypair.publicKey)
+
+		expect(simulation).toEqual({ success: true, result: 'ok', logs: ['transfer 10'] })
+		expect(views[0]).toEqual({
+			contract: utf8('Coin'),
+			function: utf8('transfer'),
+			args: [fromBase58(recipient), utf8('10000000000'), utf8('AMA')],
+			pk: fromBase58(keypair.publicKey)
+		})
+	})
+
+	it('maps failures to execution errors with their messages', async () => {
+		const { sdk } = node({ success: false, result: 'insufficient_funds' })
+
+		const simulation = await sdk.transaction.simulate(transfer, fromBase58(keypair.publicKey))
+
+		expect(simulation.success).toBe(false)
+		expect(simulation.error).toBe(TransactionExecutionError.INSUFFICIENT_FUNDS)
+		expect(simulation.errorMessage).toBe('Insufficient funds')
+		await expect(sdk.transaction.simulate(transfer, 'abc')).rejects.toBeInstanceOf(
+			ValidationError
+		)
+		await expect(sdk.transaction.simulate(transfer, new Uint8Array(32))).rejects.toBeInstanceOf(
+			ValidationError
+		)
+	})
+
+	it('signs only calls whose simulation succeeds', async () => {
+		const builder = new TransactionBuilder(keypair.privateKey)
+		const lock = createContract(LOCKUP_PRIME_ABI).lock({ amount: '1000000000', tier: '30d' })
+
+		const rejected = await builder
+			.simulateAndSignCall(
+				lock,
+				node({ success: false, result: 'invalid_tier' }).sdk.transaction
+			)
+			.catch((e: unknown) => e)
+		expect(rejected).toBeInstanceOf(SimulationFailedError)
+		expect((rejected as SimulationFailedError).reason).toBe('invalid_tier')
+		expect((rejected as SimulationFailedError).message).toBe(
+			'Invalid lockup tier (invalid_tier)'
+		)
+
+		const { sdk } = node({ success: true, result: 'ok' })
+		const signed = await builder.simulateAndSignCall(lock, sdk.transaction)
+		expect(signed.simulation.success).toBe(true)
+		expect(decodeTransaction(signed.txPacked).tx.action.function).toBe('lock')
+	})
+
+	it('simulates as the public key of a Signer', async () => {
+		const { sdk, views } = node({ success: true, result: 'ok' })
+		const builder = new TransactionBuilder(new LocalSigner(keypair.privateKey))
+
+		const { txPacked } = await builder.simulateAndSignCall(transfer, sdk.transaction)
+
+		expect(views[0].pk).toEqual(fromBase58(keypair.publicKey))
+		expect(toBase58(decodeTransaction(txPacked).tx.signer as Uint8Array)).toBe(
+			keypair.publicKey
+		)
+	})
+})
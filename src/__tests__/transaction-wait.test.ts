@@ -0,0 +1,221 @@
+import { describe, it, expect } from 'vitest'
+import { AmadeusSDK } from '../sdk'
+import { InMemoryTransport, createTransportResponse } from '../transport'
+import type { Transport } from '../transport'
+import {
+	CancelledError,
+	TimeoutError,
+	TransactionFailedError,
+	ValidationError,
+	WaitTimeoutError
+} from '../errors'
+import type { TransactionWaitProgress } from '../api/transaction'
+import { TransactionExecutionError } from '../types'
+
+const TX_HASH = '5Kd3NBUAdUnhyzenEwVLy9pBKxSwXvE9FMPyR4UKZvpe'
+const ENTRY_HASH = '4vJ9JU1bJJE96FWSJKvHsmmFADCg4gpZQff4P3bkLKi'
+
+/** Node double where the test moves the transaction along between polls */
+function node() {
+	const state = {
+		/** Height of the including entry, or undefined while pending */
+		included: undefined as number | undefined,
+		tip: 10,
+		final: false,
+		success: true,
+		status: undefined as string | undefined,
+		onPoll: [] as Array<() => void>
+	}
+	const entry = (height: number, hash: string) => ({
+		header: {
+			slot: height,
+			height,
+			prev_slot: 0,
+			prev_hash: 'p',
+			dr: 'd',
+			vr: 'v',
+			signer: 's'
+		},
+		hash,
+		tx_count: 1,
+		consensus: { score: state.final ? 1 : 0.2, finality_reached: state.final, mut_hash: 'm' }
+	})
+	const transport = new InMemoryTransport()
+		.route('GET', `/api/chain/tx/${TX_HASH}`, () => {
+			state.onPoll.shift()?.()
+			return state.included === undefined
+				? { error: 'not_found' }
+				: {
+						error: 'ok',
+						hash: TX_HASH,
+						metadata: {
+							entry_hash: ENTRY_HASH,
+							entry_height: state.included,
+							status: state.status
+						},
+						receipt: {
+							result: state.success
+								? null
+								: TransactionExecutionError.INSUFFICIENT_FUNDS,
+							logs: [],
+							success: state.success,
+							exec_used: '0'
+						}
+					}
+		})
+		.route('GET', '/api/chain/tip', () => ({ error: 'ok', entry: entry(state.tip, 'tip') }))
+		.route('GET', `/api/chain/hash/${ENTRY_HASH}`, () => ({
+			error: 'ok',
+			entry: entry(state.included ?? 0, ENTRY_HASH)
+		}))
+	return { state, transport }
+}
+
+describe('TransactionAPI.waitFor', () => {
+	it('resolves with the receipt once included', async () => {
+		const { state, transport } = node()
+		state.included = 10
+		const sdk = new AmadeusSDK({ transport })
+
+		const progress: TransactionWaitProgress[] = []
+		const receipt = await sdk.transaction.waitFor(TX_HASH, {
+			onProgress: (p) => progress.push(p)
+		})
+
+		expect(receipt.success).toBe(true)
+		expect(transport.requests.map((r) => r.path)).toEqual([`/api/chain/tx/${TX_HASH}`])
+		expect(progress.map((p) => `${p.stage}:${p.confirmations}`)).toEqual([
+			'included:1',
+			'confirmed:1'
+		])
+	})
+
+	it('reports progress through confirmations to finality', async () => {
+		const { state, transport } = node()
+		// Each transaction lookup moves the chain one step forward first
+		state.onPoll = [
+			() => {},
+			() => (state.included = 10),
+			() => (state.tip = 11),
+			() => (state.tip = 12),
+			() => (state.final = true)
+		]
+		const progress: TransactionWaitProgress[] = []
+		const sdk = new AmadeusSDK({ transport })
+
+		const receipt = await sdk.transaction.waitFor(TX_HASH, {
+			confirmations: 3,
+			finalized: true,
+			pollInterval: 0,
+			onProgress: (p) => progress.push(p)
+		})
+
+		expect(receipt.success).toBe(true)
+		expect(progress.map((p) => `${p.stage}:${p.confirmations}`)).toEqual([
+			'pending:0',
+			'included:1',
+			'included:2',
+			'confirmed:3',
+			'finalized:3'
+		])
+		expect(progress[1].transaction?.hash).toBe(TX_HASH)
+	})
+
+	it('rejects with the execution error of a failed transaction', async () => {
+		const { state, transport } = node()
+		state.included = 10
+		state.success = false
+		const sdk = new AmadeusSDK({ transport })
+
+		const error = await sdk.transaction.waitFor(TX_HASH).catch((e: unknown) => e)
+
+		expect(error).toBeInstanceOf(TransactionFailedError)
+		expect((error as TransactionFailedError).reason).toBe(
+			TransactionExecutionError.INSUFFICIENT_FUNDS
+		)
+		expect((error as TransactionFailedError).code).toBe('TRANSACTION_FAILED')
+		expect((error as TransactionFailedError).receipt.success).toBe(false)
+	})
+
+	it('accepts finality from the transaction status without fetching the entry', async () => {
+		const { state, transport } = node()
+		state.included = 10
+		state.status = 'finalized'
+		const sdk = new AmadeusSDK({ transport })
+
+		await sdk.transaction.waitFor(TX_HASH, { finalized: true })
+
+		expect(transport.requests).toHaveLength(1)
+	})
+
+	it('keeps polling through transient failures', async () => {
+		const { state, transport } = node()
+		state.included = 10
+		let failures = 2
+		const flaky: Transport = {
+			request: async (request) =>
+				failures-- > 0
+					? createTransportResponse('busy', { status: 503 })
+					: transport.request(request)
+		}
+		const sdk = new AmadeusSDK({ transport: flaky })
+
+		await expect(sdk.transaction.waitFor(TX_HASH, { pollInterval: 0 })).resolves.toMatchObject({
+			success: true
+		})
+		// Two failed polls, then the lookup that reached the node
+		expect(failures).toBe(-1)
+		expect(transport.requests).toHaveLength(1)
+	})
+
+	it('times out and can be cancelled', async () => {
+		const { transport } = node()
+		const sdk = new AmadeusSDK({ transport })
+
+		const timedOut = await sdk.transaction
+			.waitFor(TX_HASH, { timeout: 20, pollInterval: 5 })
+			.catch((e: unknown) => e)
+		expect(timedOut).toBeInstanceOf(WaitTimeoutError)
+		expect(timedOut).toBeInstanceOf(TimeoutError)
+		expect((timedOut as TimeoutError).message).toBe(
+			`Transaction ${TX_HASH} not confirmed after 20ms`
+		)
+		expect((timedOut as TimeoutError).timeout).toBe(20)
+		expect((timedOut as TimeoutError).isRetryable).toBe(false)
+
+		const controller = new AbortController()
+		const waiting = sdk.transaction.waitFor(TX_HASH, { signal: controller.signal })
+		setTimeout(() => controller.abort(), 5)
+		await expect(waiting).rejects.toBeInstanceOf(CancelledError)
+	})
+
+	it('bounds each poll by the time left', async () => {
+		// A node that never answers; only the request timeout ends the poll
+		const hanging: Transport = {
+			request: (request) =>
+				new Promise((_, reject) => {
+					request.signal.addEventListener('abort', () => {
+						const error = new Error('The operation was aborted.')
+						error.name = 'AbortError'
+						reject(error)
+					})
+				})
+		}
+		const sdk = new AmadeusSDK({ transport: hanging, timeout: 60_000 })
+
+		const started = Date.now()
+		await expect(sdk.transaction.waitFor(TX_HASH, { timeout: 30 })).rejects.toBeInstanceOf(
+			WaitTimeoutError
+		)
+		expect(Date.now() - started).toBeLessThan(1_000)
+	})
+
+	it('validates its arguments', async () => {
+		const sdk = new AmadeusSDK({ transport: new InMemoryTransport() })
+
+		await expect(sdk.transaction.waitFor('invalid!')).rejects.toThrow(ValidationError)
+		await expect(sdk.transaction.waitFor(TX_HASH, { confirmations: 0 })).rejects.toThrow(
+			ValidationError
+		)
+	})
+})
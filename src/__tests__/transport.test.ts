@@ -0,0 +1,108 @@
+import { describe, it, expect, vi } from 'vitest'
+import { FetchTransport, InMemoryTransport, createTransportResponse } from '../transport'
+import { AmadeusClient } from '../client'
+import { AmadeusSDK } from '../sdk'
+import { AmadeusSDKError } from '../types'
+import { encode } from '../serialization'
+
+describe('Transport', () => {
+	describe('createTransportResponse', () => {
+		it('serializes objects as JSON', async () => {
+			const response = createTransportResponse({ error: 'ok' })
+
+			expect(response.ok).toBe(true)
+			expect(response.headers.get('Content-Type')).toBe('application/json')
+			expect(await response.json()).toEqual({ error: 'ok' })
+		})
+
+		it('serves bytes as octet-stream', async () => {
+			const response = createTransportResponse(new Uint8Array([1, 2, 3]), { status: 500 })
+
+			expect(response.ok).toBe(false)
+			expect(response.headers.get('content-type')).toBe('application/octet-stream')
+			expect(new Uint8Array(await response.arrayBuffer())).toEqual(new Uint8Array([1, 2, 3]))
+		})
+	})
+
+	describe('FetchTransport', () => {
+		it('uses the provided fetch implementation', async () => {
+			const fetchImpl = vi.fn(async () => new Response('{"error":"ok","n":1}'))
+			const client = new AmadeusClient({
+				baseUrl: 'https://example.com',
+				transport: new FetchTransport({ fetch: fetchImpl as typeof fetch })
+			})
+
+			await expect(client.get('/api/test', { a: 1 })).resolves.toEqual({ n: 1 })
+			expect(fetchImpl).toHaveBeenCalledWith(
+				'https://example.com/api/test?a=1',
+				expect.objectContaining({ method: 'GET' })
+			)
+		})
+	})
+
+	describe('InMemoryTransport', () => {
+		it('routes requests to handlers and records them', async () => {
+			const transport = new InMemoryTransport().route('GET', '/api/chain/tip', () => ({
+				error: 'ok',
+				entry: { hash: 'tip' }
+			}))
+			const sdk = new AmadeusSDK({ transport })
+
+			const tip = await sdk.chain.getTip()
+
+			expect(tip).toEqual({ entry: { hash: 'tip' } })
+			expect(transport.requests).toHaveLength(1)
+			expect(transport.requests[0].path).toBe('/api/chain/tip')
+		})
+
+		it('passes RegExp groups and query parameters to handlers', async () => {
+			const transport = new InMemoryTransport().route(
+				'GET',
+				/^\/api\/chain\/height\/(?<height>\d+)$/,
+				({ params, query }) => ({ error: 'ok', height: params.height, query })
+			)
+			const client = new AmadeusClient({ transport })
+
+			await expect(client.get('/api/chain/height/42', { limit: 5 })).resolves.toEqual({
+				height: '42',
+				query: { limit: '5' }
+			})
+		})
+
+		it('serves binary bodies to postBinary', async () => {
+			const body = encode(new Map([[new Uint8Array([1]), new Uint8Array([2])]]))
+			const transport = new InMemoryTransport().route(
+				'POST',
+				'/api/contract/get_prefix',
+				() => body
+			)
+			const client = new AmadeusClient({ transport })
+
+			await expect(
+				client.postBinary('/api/contract/get_prefix', new Uint8Array([9]))
+			).resolves.toEqual(body)
+			expect(transport.requests[0].body).toEqual(new Uint8Array([9]))
+		})
+
+		it('answers unmatched requests with 404', async () => {
+			const client = new AmadeusClient({ transport: new InMemoryTransport() })
+
+			await expect(client.get('/api/missing')).rejects.toMatchObject({ status: 404 })
+		})
+
+		it('honours cancellation', async () => {
+			const transport = new InMemoryTransport().route('GET', '/api/slow', async () => {
+				await new Promise((resolve) => setTimeout(resolve, 20))
+				return { error: 'ok' }
+			})
+			const client = new AmadeusClient({ transport })
+			const controller = new AbortController()
+
+			const pending = client.get('/api/slow', undefined, { signal: controller.signal })
+			controller.abort()
+
+			await expect(pending).rejects.toThrow(AmadeusSDKError)
+			await expect(pending).rejects.toThrow(/cancelled/i)
+		})
+	})
+})
@@ -0,0 +1,204 @@
+import { describe, it, expect } from 'vitest'
+import {
+	InjectedProvider,
+	WalletRequestHandler,
+	createMemoryChannel,
+	createWindowChannel,
+	hashMessage,
+	verifyMessage
+} from '../wallet-provider'
+import type { MessageTarget, WalletApprovalRequest } from '../wallet-provider'
+import { ProviderErrorCode, ProviderRpcError, TimeoutError } from '../errors'
+import { MonotonicNonceManager } from '../nonce'
+import { LocalSigner } from '../signer'
+import { verifyTransaction } from '../transaction-decoder'
+import { buildCoinTransfer } from '../contracts/coin'
+import { BLS_DST, blsVerify, generateKeypair } from '../crypto'
+
+const keypair = generateKeypair()
+const second = generateKeypair()
+const recipient = generateKeypair().publicKey
+
+/** dApp provider and wallet handler joined by an in-memory channel */
+function setup(approve: (request: WalletApprovalRequest) => boolean = () => true) {
+	const [dappEnd, walletEnd] = createMemoryChannel()
+	const approvals: WalletApprovalRequest[] = []
+	const wallet = new WalletRequestHandler(walletEnd, {
+		accounts: [keypair.privateKey, new LocalSigner(second.privateKey)],
+		network: 'testnet',
+		approve: (request) => {
+			approvals.push(request)
+			return approve(request)
+		},
+		nonceManager: new MonotonicNonceManager({ clock: () => 1_700_000_000_000 })
+	})
+	return { provider: new InjectedProvider(dappEnd), wallet, approvals }
+}
+
+async function rejection(promise: Promise<unknown>): Promise<ProviderRpcError> {
+	const error = await promise.catch((e: unknown) => e)
+	expect(error).toBeInstanceOf(ProviderRpcError)
+	return error as ProviderRpcError
+}
+
+describe('Wallet provider', () => {
+	it('connects after approval and reports accounts and network', async () => {
+		const { provider, approvals } = setup()
+
+		expect(await provider.getAccounts()).toEqual([])
+		expect(await provider.connect()).toEqual([keypair.publicKey, second.publicKey])
+		expect(await provider.getAccounts()).toEqual([keypair.publicKey, second.publicKey])
+		expect(await provider.getNetwork()).toBe('testnet')
+		// Already connected: no second prompt
+		await provider.connect()
+		expect(approvals).toEqual([{ method: 'ama_requestAccounts' }])
+	})
+
+	it('signs a transaction the user approved from its summary', async () => {
+		const { provider, approvals } = setup()
+		await provider.connect()
+
+		const call = buildCoinTransfer({ recipient, amount: 2, symbol: 'AMA' })
+		const { txHash, txPacked } = await provider.signTransaction(call)
+
+		const result = verifyTransaction(txPacked)
+		expect(result.error).toBe('ok')
+		expect(txHash).toBeTypeOf('string')
+		expect(approvals[1]).toMatchObject({
+			method: 'ama_signTransaction',
+			account: keypair.publicKey,
+			summary: {
+				contract: 'Coin',
+				function: 'transfer',
+				args: [recipient, '2000000000', 'AMA']
+			}
+		})
+	})
+
+	it('signs with the requested account and verifiable message signatures', async () => {
+		const { provider } = setup()
+		await provider.connect()
+
+		const signed = await provider.signMessage('Log in to example.org', second.publicKey)
+
+		expect(signed.account).toBe(second.publicKey)
+		expect(verifyMessage('Log in to example.org', signed.signature, second.publicKey)).toBe(
+			true
+		)
+		expect(verifyMessage('Log in elsewhere', signed.signature, second.publicKey)).toBe(false)
+		expect(verifyMessage('Log in to example.org', signed.signature, keypair.publicKey)).toBe(
+			false
+		)
+		// Signed under the message DST, so never valid as a transaction signature
+		const hash = hashMessage('Log in to example.org')
+		expect(blsVerify(signed.signature, hash, second.publicKey, BLS_DST.MESSAGE)).toBe(true)
+		expect(blsVerify(signed.signature, hash, second.publicKey, BLS_DST.TX)).toBe(false)
+	})
+
+	it('refuses message signing for signers without signMessageHash', async () => {
+		const local = new LocalSigner(second.privateKey)
+		const [dappEnd, walletEnd] = createMemoryChannel()
+		new WalletRequestHandler(walletEnd, {
+			accounts: [
+				{ getPublicKey: () => local.getPublicKey(), signHash: (h) => local.signHash(h) }
+			],
+			network: 'testnet',
+			approve: () => true
+		})
+		const provider = new InjectedProvider(dappEnd)
+		await provider.connect()
+
+		expect((await rejection(provider.signMessage('hi'))).rpcCode).toBe(
+			ProviderErrorCode.UNSUPPORTED_METHOD
+		)
+	})
+
+	it('maps refusals to provider error codes', async () => {
+		const { provider } = setup((request) => request.method === 'ama_requestAccounts')
+		const call = buildCoinTransfer({ recipient, amount: 1, symbol: 'AMA' })
+
+		expect((await rejection(provider.signTransaction(call))).rpcCode).toBe(
+			ProviderErrorCode.UNAUTHORIZED
+		)
+		await provider.connect()
+		expect((await rejection(provider.signTransaction(call))).rpcCode).toBe(
+			ProviderErrorCode.USER_REJECTED
+		)
+		expect((await rejection(provider.signMessage('hi', recipient))).rpcCode).toBe(
+			ProviderErrorCode.UNAUTHORIZED
+		)
+		expect(
+			(await rejection(provider.request({ method: 'ama_unknown' as 'ama_network' }))).rpcCode
+		).toBe(ProviderErrorCode.UNSUPPORTED_METHOD)
+		const invalid = await rejection(
+			provider.request({
+				method: 'ama_signTransaction',
+				params: { contract: 'Coin', method: 'transfer', args: [{ bytes: '0OIl' }] }
+			})
+		)
+		expect(invalid.rpcCode).toBe(ProviderErrorCode.INVALID_PARAMS)
+	})
+
+	it('forwards account, network and disconnect events', async () => {
+		const { provider, wallet } = setup()
+		const events: unknown[] = []
+		provider.on('accountsChanged', (accounts) => events.push(['accounts', accounts]))
+		provider.on('networkChanged', (network) => events.push(['network', network]))
+		const off = provider.on('disconnect', () => events.push(['disconnect']))
+
+		wallet.setNetwork('devnet') // not connected yet: no event
+		await provider.connect()
+		wallet.setNetwork('mainnet')
+		await wallet.setAccounts([second.privateKey])
+		wallet.disconnect()
+		await provider.getNetwork()
+		// Unsubscribed listeners miss the next disconnect
+		off()
+		await provider.connect()
+		wallet.disconnect()
+		await provider.getNetwork()
+
+		expect(events).toEqual([
+			['network', 'mainnet'],
+			['accounts', [second.publicKey]],
+			['accounts', []],
+			['disconnect'],
+			['accounts', []]
+		])
+	})
+
+	it('times out and rejects pending requests on dispose', async () => {
+		const [dappEnd] = createMemoryChannel()
+
+		const timed = new InjectedProvider(dappEnd, { timeout: 10 })
+		await expect(timed.getNetwork()).rejects.toBeInstanceOf(TimeoutError)
+
+		const disposed = new InjectedProvider(dappEnd)
+		const pending = disposed.connect()
+		disposed.dispose()
+		expect((await rejection(pending)).rpcCode).toBe(ProviderErrorCode.DISCONNECTED)
+	})
+
+	it('talks over window.postMessage', async () => {
+		const listeners = new Set<(event: MessageEvent) => void>()
+		const win: MessageTarget = {
+			postMessage: (data) =>
+				queueMicrotask(() => {
+					for (const listener of listeners) {
+						listener({ data, source: win } as MessageEvent)
+					}
+				}),
+			addEventListener: (_type, listener) => listeners.add(listener),
+			removeEventListener: (_type, listener) => listeners.delete(listener)
+		}
+		new WalletRequestHandler(createWindowChannel(win, 'wallet'), {
+			accounts: [keypair.privateKey],
+			network: 'mainnet',
+			approve: () => true
+		})
+		const provider = new InjectedProvider(createWindowChannel(win, 'dapp'))
+
+		expect(await provider.connect()).toEqual([keypair.publicKey])
+		expect(await provider.getNetwork()).toBe('mainnet')
+	})
+})
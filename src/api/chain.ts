@@ -4,7 +4,7 @@
  * Provides methods for querying blockchain data
  */
 
-import type { AmadeusClient } from '../client'
+import type { AmadeusClient, RequestOptions } from '../client'
 import type {
 	TransactionFilters,
 	GetTipResponse,
@@ -14,13 +14,100 @@ import type {
 	GetTransactionsInEntryResponse,
 	GetTransactionEventsByAccountResponse,
 	Transaction,
+	TransactionEvent,
 	TxByFilterParams,
 	TxByFilterResponse,
 	GetKpiResponse
 } from '../types'
-import { Base58HashSchema, TransactionFiltersSchema } from '../schemas'
+import {
+	Base58HashSchema,
+	PaginationOptionsSchema,
+	TransactionFiltersSchema,
+	TxByFilterParamsSchema
+} from '../schemas'
 import { Schema } from 'effect'
 import { validate } from '../validation'
+import {
+	GetByHashResponseSchema,
+	GetByHeightResponseSchema,
+	GetKpiResponseSchema,
+	GetStatsResponseSchema,
+	GetTipResponseSchema,
+	GetTransactionEventsByAccountResponseSchema,
+	GetTransactionsInEntryResponseSchema,
+	TransactionSchema,
+	TxByFilterResponseSchema
+} from '../response-schemas'
+import { ChainFollower } from '../chain-follower'
+import type { ChainFollowerOptions } from '../chain-follower'
+
+/** Page size used when neither `pageSize` nor the filter's `limit` is set */
+const DEFAULT_PAGE_SIZE = 100
+
+/** Paging and stop options shared by the chain iterators */
+export interface PaginationOptions<T> extends RequestOptions {
+	/** Items requested per page (default: the filter's `limit`, else 100) */
+	pageSize?: number
+	/** Stop after yielding this many items */
+	maxItems?: number
+	/** Stop before the first item for which this returns true */
+	stopWhen?: (item: T) => boolean
+}
+
+/** Options for `ChainAPI.iterateByFilter` */
+export interface IterateByFilterOptions extends PaginationOptions<Transaction> {
+	/**
+	 * Stop at the first transaction past this entry height in the iteration
+	 * direction: above it for `sort: 'asc'`, below it for `sort: 'desc'`
+	 */
+	untilHeight?: number
+}
+
+/** Options for `ChainAPI.iterateAccountEvents` */
+export interface IterateAccountEventsOptions extends PaginationOptions<TransactionEvent> {
+	/**
+	 * Stop at the first event past this timestamp in the iteration direction:
+	 * later than it for `sort: 'asc'`, earlier than it for `sort: 'desc'`
+	 */
+	untilTimestamp?: number
+}
+
+/**
+ * Yield items page by page, threading each response's cursor into the next
+ * request. Ends when a stop condition hits, a page comes back empty or the
+ * node returns no new cursor.
+ */
+async function* paginate<T>(
+	fetchPage: (
+		cursor: string | undefined,
+		limit: number
+	) => Promise<{ cursor?: string | null; txs: T[] }>,
+	start: string | undefined,
+	pageSize: number,
+	maxItems: number,
+	stop: (item: T) => boolean
+): AsyncGenerator<T, void, undefined> {
+	let cursor = start
+	let yielded = 0
+	while (yielded < maxItems) {
+		const page = await fetchPage(cursor, Math.min(pageSize, maxItems - yielded))
+		for (const item of page.txs) {
+			if (stop(item)) return
+			yield item
+			if (++yielded >= maxItems) return
+		}
+		if (page.txs.length === 0 || !page.cursor || page.cursor === cursor) return
+		cursor = page.cursor
+	}
+}
+
+/**
+ * Whether `value` lies beyond `bound` in the iteration direction
+ */
+function isPast(value: number, bound: number | undefined, sort: 'asc' | 'desc' | undefined) {
+	if (bound === undefined) return false
+	return sort === 'desc' ? value < bound : value > bound
+}
 
 export class ChainAPI {
 	constructor(private client: AmadeusClient) {}
@@ -28,6 +115,7 @@ export class ChainAPI {
 	/**
 	 * Get the current chain tip (latest entry)
 	 *
+	 * @param options - Optional signal, timeout and cancellation group
 	 * @returns Promise resolving to the latest chain entry
 	 *
 	 * @example
@@ -36,13 +124,17 @@ export class ChainAPI {
 	 * console.log('Current height:', entry.header.height)
 	 * ```
 	 */
-	async getTip(): Promise<GetTipResponse> {
-		return this.client.get<GetTipResponse>('/api/chain/tip')
+	async getTip(options?: RequestOptions): Promise<GetTipResponse> {
+		return this.client.get<GetTipResponse>('/api/chain/tip', undefined, {
+			...options,
+			schema: GetTipResponseSchema
+		})
 	}
 
 	/**
 	 * Get chain statistics
 	 *
+	 * @param options - Optional signal, timeout and cancellation group
 	 * @returns Promise resolving to chain statistics
 	 *
 	 * @example
@@ -51,8 +143,11 @@ export class ChainAPI {
 	 * console.log('Tip height:', stats.height)
 	 * ```
 	 */
-	async getStats(): Promise<GetStatsResponse> {
-		return this.client.get<GetStatsResponse>('/api/chain/stats')
+	async getStats(options?: RequestOptions): Promise<GetStatsResponse> {
+		return this.client.get<GetStatsResponse>('/api/chain/stats', undefined, {
+			...options,
+			schema: GetStatsResponseSchema
+		})
 	}
 
 	/**
@@ -60,6 +155,7 @@ export class ChainAPI {
 	 *
 	 * @param hash - Entry hash (Base58 encoded)
 	 * @param filterOnFunction - Optional function filter
+	 * @param options - Optional signal, timeout and cancellation group
 	 * @returns Promise resolving to chain entry
 	 * @throws {Error} If hash is invalid
 	 *
@@ -68,17 +164,26 @@ export class ChainAPI {
 	 * const { entry } = await sdk.chain.getByHash('5Kd3N...')
 	 * ```
 	 */
-	async getByHash(hash: string, filterOnFunction?: string): Promise<GetByHashResponse> {
+	async getByHash(
+		hash: string,
+		filterOnFunction?: string,
+		options?: RequestOptions
+	): Promise<GetByHashResponse> {
 		validate(Base58HashSchema, hash)
-		return this.client.get<GetByHashResponse>(`/api/chain/hash/${hash}`, {
-			filter_on_function: filterOnFunction
-		})
+		return this.client.get<GetByHashResponse>(
+			`/api/chain/hash/${hash}`,
+			{
+				filter_on_function: filterOnFunction
+			},
+			{ ...options, schema: GetByHashResponseSchema }
+		)
 	}
 
 	/**
 	 * Get entries by height
 	 *
 	 * @param height - Block height (must be >= 0)
+	 * @param options - Optional signal, timeout and cancellation group
 	 * @returns Promise resolving to chain entries at the specified height
 	 * @throws {Error} If height is invalid
 	 *
@@ -87,15 +192,19 @@ export class ChainAPI {
 	 * const { entries } = await sdk.chain.getByHeight(1000)
 	 * ```
 	 */
-	async getByHeight(height: number): Promise<GetByHeightResponse> {
+	async getByHeight(height: number, options?: RequestOptions): Promise<GetByHeightResponse> {
 		validate(Schema.NonNegativeInt, height)
-		return this.client.get<GetByHeightResponse>(`/api/chain/height/${height}`)
+		return this.client.get<GetByHeightResponse>(`/api/chain/height/${height}`, undefined, {
+			...options,
+			schema: GetByHeightResponseSchema
+		})
 	}
 
 	/**
 	 * Get entries by height with transactions
 	 *
 	 * @param height - Block height (must be >= 0)
+	 * @param options - Optional signal, timeout and cancellation group
 	 * @returns Promise resolving to chain entries with transactions at the specified height
 	 * @throws {Error} If height is invalid
 	 *
@@ -104,15 +213,23 @@ export class ChainAPI {
 	 * const { entries } = await sdk.chain.getByHeightWithTxs(1000)
 	 * ```
 	 */
-	async getByHeightWithTxs(height: number): Promise<GetByHeightResponse> {
+	async getByHeightWithTxs(
+		height: number,
+		options?: RequestOptions
+	): Promise<GetByHeightResponse> {
 		validate(Schema.NonNegativeInt, height)
-		return this.client.get<GetByHeightResponse>(`/api/chain/height_with_txs/${height}`)
+		return this.client.get<GetByHeightResponse>(
+			`/api/chain/height_with_txs/${height}`,
+			undefined,
+			{ ...options, schema: GetByHeightResponseSchema }
+		)
 	}
 
 	/**
 	 * Get a specific transaction by ID
 	 *
 	 * @param txid - Transaction ID (Base58 encoded)
+	 * @param options - Optional signal, timeout and cancellation group
 	 * @returns Promise resolving to transaction data
 	 * @throws {Error} If transaction ID is invalid
 	 *
@@ -121,15 +238,19 @@ export class ChainAPI {
 	 * const tx = await sdk.chain.getTransaction('5Kd3N...')
 	 * ```
 	 */
-	async getTransaction(txid: string): Promise<Transaction> {
+	async getTransaction(txid: string, options?: RequestOptions): Promise<Transaction> {
 		validate(Base58HashSchema, txid)
-		return this.client.get<Transaction>(`/api/chain/tx/${txid}`)
+		return this.client.get<Transaction>(`/api/chain/tx/${txid}`, undefined, {
+			...options,
+			schema: TransactionSchema
+		})
 	}
 
 	/**
 	 * Get transactions in a specific entry
 	 *
 	 * @param entryHash - Entry hash (Base58 encoded)
+	 * @param options - Optional signal, timeout and cancellation group
 	 * @returns Promise resolving to transactions in the entry
 	 * @throws {Error} If entry hash is invalid
 	 *
@@ -138,10 +259,15 @@ export class ChainAPI {
 	 * const { txs } = await sdk.chain.getTransactionsInEntry('5Kd3N...')
 	 * ```
 	 */
-	async getTransactionsInEntry(entryHash: string): Promise<GetTransactionsInEntryResponse> {
+	async getTransactionsInEntry(
+		entryHash: string,
+		options?: RequestOptions
+	): Promise<GetTransactionsInEntryResponse> {
 		validate(Base58HashSchema, entryHash)
 		return this.client.get<GetTransactionsInEntryResponse>(
-			`/api/chain/txs_in_entry/${entryHash}`
+			`/api/chain/txs_in_entry/${entryHash}`,
+			undefined,
+			{ ...options, schema: GetTransactionsInEntryResponseSchema }
 		)
 	}
 
@@ -150,6 +276,7 @@ export class ChainAPI {
 	 *
 	 * @param account - Account address (Base58 encoded)
 	 * @param filters - Optional filters for transactions
+	 * @param options - Optional signal, timeout and cancellation group
 	 * @returns Promise resolving to transaction events
 	 * @throws {Error} If account address is invalid
 	 *
@@ -163,14 +290,16 @@ export class ChainAPI {
 	 */
 	async getTransactionEventsByAccount(
 		account: string,
-		filters: TransactionFilters = {}
+		filters: TransactionFilters = {},
+		options?: RequestOptions
 	): Promise<GetTransactionEventsByAccountResponse> {
 		validate(Base58HashSchema, account)
 		validate(TransactionFiltersSchema, filters)
 
 		return this.client.get<GetTransactionEventsByAccountResponse>(
 			`/api/chain/tx_events_by_account/${account}`,
-			filters as Record<string, unknown>
+			filters as Record<string, unknown>,
+			{ ...options, schema: GetTransactionEventsByAccountResponseSchema }
 		)
 	}
 
@@ -178,7 +307,10 @@ export class ChainAPI {
 	 * Query transactions by arbitrary filter (signer, receiver, contract, function).
 	 *
 	 * All filter fields are optional; provide only the ones you want to constrain.
-	 * Returns a cursor for pagination — pass it back as `cursor` in a subsequent call.
+	 * Returns a cursor for pagination — pass it back as `cursor` in a subsequent call,
+	 * or use `iterateByFilter` to page automatically.
+	 *
+	 * @throws {ValidationError} If a filter is invalid
 	 *
 	 * @example
 	 * ```ts
@@ -191,10 +323,103 @@ export class ChainAPI {
 	 * })
 	 * ```
 	 */
-	async getByFilter(filters: TxByFilterParams = {}): Promise<TxByFilterResponse> {
+	async getByFilter(
+		filters: TxByFilterParams = {},
+		options?: RequestOptions
+	): Promise<TxByFilterResponse> {
+		validate(TxByFilterParamsSchema, filters)
 		return this.client.get<TxByFilterResponse>(
 			'/api/chain/tx_by_filter',
-			filters as Record<string, unknown>
+			filters as Record<string, unknown>,
+			{ ...options, schema: TxByFilterResponseSchema }
+		)
+	}
+
+	/**
+	 * Iterate over every transaction matching a filter, fetching pages on demand.
+	 *
+	 * Starts at `filters.cursor` if given. Filters and options are validated
+	 * when the iterator is created; `signal`, `timeout` and `group` apply to
+	 * each page request.
+	 *
+	 * @param filters - Transaction filters (`limit` sets the page size)
+	 * @param options - Page size, stop conditions and request options
+	 * @returns Async iterator of transactions
+	 * @throws {ValidationError} If a filter or option is invalid
+	 *
+	 * @example
+	 * ```ts
+	 * for await (const tx of sdk.chain.iterateByFilter(
+	 *   { signer: '5Kd3N...', contract: 'Coin', sort: 'desc' },
+	 *   { maxItems: 500, untilHeight: 1_000_000 }
+	 * )) {
+	 *   console.log(tx.hash, tx.metadata.entry_height)
+	 * }
+	 * ```
+	 */
+	iterateByFilter(
+		filters: TxByFilterParams = {},
+		options: IterateByFilterOptions = {}
+	): AsyncGenerator<Transaction, void, undefined> {
+		validate(TxByFilterParamsSchema, filters)
+		validate(PaginationOptionsSchema, options)
+		const { pageSize, maxItems, stopWhen, untilHeight, ...requestOptions } = options
+
+		return paginate(
+			(cursor, limit) => this.getByFilter({ ...filters, cursor, limit }, requestOptions),
+			filters.cursor,
+			pageSize ?? (filters.limit || DEFAULT_PAGE_SIZE),
+			maxItems ?? Infinity,
+			(tx) => isPast(tx.metadata.entry_height, untilHeight, filters.sort) || !!stopWhen?.(tx)
+		)
+	}
+
+	/**
+	 * Iterate over every transaction event of an account, fetching pages on demand.
+	 *
+	 * Starts at `filters.cursor` if given. The account, filters and options are
+	 * validated when the iterator is created; `signal`, `timeout` and `group`
+	 * apply to each page request.
+	 *
+	 * @param account - Account address (Base58 encoded)
+	 * @param filters - Event filters (`limit` sets the page size)
+	 * @param options - Page size, stop conditions and request options
+	 * @returns Async iterator of transaction events
+	 * @throws {ValidationError} If the account, a filter or an option is invalid
+	 *
+	 * @example
+	 * ```ts
+	 * const since = Date.now() - 7 * 24 * 3600 * 1000
+	 * for await (const event of sdk.chain.iterateAccountEvents(
+	 *   '5Kd3N...',
+	 *   { sort: 'desc' },
+	 *   { untilTimestamp: since }
+	 * )) {
+	 *   console.log(event.type, event.amount, event.symbol)
+	 * }
+	 * ```
+	 */
+	iterateAccountEvents(
+		account: string,
+		filters: TransactionFilters = {},
+		options: IterateAccountEventsOptions = {}
+	): AsyncGenerator<TransactionEvent, void, undefined> {
+		validate(Base58HashSchema, account)
+		validate(TransactionFiltersSchema, filters)
+		validate(PaginationOptionsSchema, options)
+		const { pageSize, maxItems, stopWhen, untilTimestamp, ...requestOptions } = options
+
+		return paginate(
+			(cursor, limit) =>
+				this.getTransactionEventsByAccount(
+					account,
+					{ ...filters, cursor, limit },
+					requestOptions
+				),
+			filters.cursor,
+			pageSize ?? (filters.limit || DEFAULT_PAGE_SIZE),
+			maxItems ?? Infinity,
+			(event) => isPast(event.timestamp, untilTimestamp, filters.sort) || !!stopWhen?.(event)
 		)
 	}
 
@@ -207,7 +432,30 @@ export class ChainAPI {
 	 * console.log('Total tx:', kpi.total_tx)
 	 * ```
 	 */
-	async getKpi(): Promise<GetKpiResponse> {
-		return this.client.get<GetKpiResponse>('/api/chain/kpi')
+	async getKpi(options?: RequestOptions): Promise<GetKpiResponse> {
+		return this.client.get<GetKpiResponse>('/api/chain/kpi', undefined, {
+			...options,
+			schema: GetKpiResponseSchema
+		})
+	}
+
+	/**
+	 * Follow the chain: stream new entries in height order, then a `rooted`
+	 * event once each temporal entry is finalized or a `rollback` event if it
+	 * is replaced first.
+	 *
+	 * @param options - Start height, polling interval and whether to include transactions
+	 * @returns Follower to iterate with `for await`; stop it with `stop()` or a signal
+	 * @throws {ValidationError} If `fromHeight` or `pollInterval` is invalid
+	 *
+	 * @example
+	 * ```ts
+	 * for await (const event of sdk.chain.follow({ withTxs: true })) {
+	 *   if (event.type === 'entry') console.log(event.entry.header.height, event.entry.txs)
+	 * }
+	 * ```
+	 */
+	follow(options: ChainFollowerOptions = {}): ChainFollower {
+		return new ChainFollower(this, options)
 	}
 }
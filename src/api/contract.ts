@@ -4,8 +4,10 @@
  * Provides methods for interacting with smart contracts
  */
 
-import type { AmadeusClient } from '../client'
+import type { AmadeusClient, RequestOptions } from '../client'
 import type {
+	TransactionMetadata,
+	TransactionReceipt,
 	ValidateBytecodeResponse,
 	GetRichlistResponse,
 	ContractDataValue,
@@ -13,18 +15,56 @@ import type {
 	ContractViewResponse,
 	SerializableValue
 } from '../types'
-import { AmadeusSDKError } from '../types'
+import { TransactionFailedError, ValidationError } from '../errors'
+import { toBase58 } from '../encoding'
+import type { NonceManager } from '../nonce'
+import { LocalSigner } from '../signer'
+import type { SignerKey } from '../signer'
+import { TransactionBuilder } from '../transaction-builder'
 import { BytecodeSchema, ContractKeySchema } from '../schemas'
 import { validate } from '../validation'
 import { decodeContractState, encode } from '../serialization'
+import {
+	ContractViewResponseSchema,
+	GetRichlistResponseSchema,
+	ValidateBytecodeResponseSchema
+} from '../response-schemas'
+import { TransactionAPI } from './transaction'
+
+/** Options for `ContractAPI.deploy` */
+export interface DeployContractOptions extends RequestOptions {
+	/** Wait until the deploy transaction is finalized instead of just confirmed */
+	finalized?: boolean
+	/** Nonce manager for the deploy transaction (default: the shared default) */
+	nonceManager?: NonceManager
+}
+
+/** A deployed contract */
+export interface DeployContractResult {
+	/** Contract address: the deployer's public key (Base58) */
+	address: string
+	/** Deploy transaction hash (Base58) */
+	txHash: string
+	/** Logs from the node's bytecode validation */
+	validationLogs: string[]
+	/** Metadata of the entry that included the deploy transaction */
+	metadata: TransactionMetadata
+	/** Receipt of the deploy transaction */
+	receipt: TransactionReceipt
+}
 
 export class ContractAPI {
-	constructor(private client: AmadeusClient) {}
+	private transaction: TransactionAPI
+
+	constructor(private client: AmadeusClient) {
+		this.transaction = new TransactionAPI(client)
+	}
 
 	/**
 	 * Validate contract bytecode
 	 *
 	 * @param bytecode - Contract bytecode as Uint8Array or ArrayBuffer
+	 * @param options - Optional signal, timeout and cancellation group
 	 * @returns Promise resolving to validation result
 	 * @throws {AmadeusSDKError} If bytecode is invalid or empty
 	 *
@@ -33,16 +73,72 @@ export class ContractAPI {
 	 * const result = await sdk.contract.validateBytecode(wasmBytecode)
 	 * ```
 	 */
-	async validateBytecode(bytecode: Uint8Array | ArrayBuffer): Promise<ValidateBytecodeResponse> {
+	async validateBytecode(
+		bytecode: Uint8Array | ArrayBuffer,
+		options?: RequestOptions
+	): Promise<ValidateBytecodeResponse> {
 		validate(BytecodeSchema, bytecode)
 		const body = bytecode instanceof ArrayBuffer ? new Uint8Array(bytecode) : bytecode
-		return this.client.post<ValidateBytecodeResponse>('/api/contract/validate_bytecode', body)
+		return this.client.post<ValidateBytecodeResponse>('/api/contract/validate_bytecode', body, {
+			idempotent: true,
+			...options,
+			schema: ValidateBytecodeResponseSchema
+		})
+	}
+
+	/**
+	 * Deploy a WASM contract.
+	 *
+	 * Validates the bytecode with the node, signs a `Contract.deploy`
+	 * transaction, submits it and waits for it to be included (or finalized).
+	 * The contract lives at the deployer's address.
+	 *
+	 * @param bytecode - Contract bytecode as Uint8Array or ArrayBuffer
+	 * @param deployer - Base58 private key or `Signer` of the deploying account
+	 * @param options - Finality, nonce manager, signal, timeout and cancellation group
+	 * @returns Promise resolving to the contract address, transaction and validation logs
+	 * @throws {ApiError} If the node rejects the bytecode (`response.logs` has its logs)
+	 * @throws {TransactionRejectedError} If the node refuses the deploy transaction
+	 * @throws {TransactionFailedError} If the deploy transaction was included but failed
+	 *
+	 * @example
+	 * ```ts
+	 * const { address, validationLogs } = await sdk.contract.deploy(wasm, privateKey)
+	 * await sdk.contract.view({ contract: address, function: 'get_count' })
+	 * ```
+	 */
+	async deploy(
+		bytecode: Uint8Array | ArrayBuffer,
+		deployer: SignerKey,
+		options: DeployContractOptions = {}
+	): Promise<DeployContractResult> {
+		const { finalized, nonceManager, ...requestOptions } = options
+		const { logs = [] } = await this.validateBytecode(bytecode, requestOptions)
+
+		const signer = typeof deployer === 'string' ? new LocalSigner(deployer) : deployer
+		const { txHash, txPacked } = await new TransactionBuilder(signer, { nonceManager }).deploy({
+			bytecode
+		})
+		const { metadata, receipt } = await this.transaction.submitAndWait(txPacked, {
+			...requestOptions,
+			finalized
+		})
+		if (!receipt.success) throw new TransactionFailedError(txHash, receipt)
+
+		return {
+			address: toBase58(await signer.getPublicKey()),
+			txHash,
+			validationLogs: logs,
+			metadata,
+			receipt
+		}
 	}
 
 	/**
 	 * Get contract data by key
 	 *
 	 * @param key - Contract key as Uint8Array or Base58 string
+	 * @param options - Optional signal, timeout and cancellation group
 	 * @returns Promise resolving to contract data value (JSON-serializable)
 	 * @throws {AmadeusSDKError} If key is invalid
 	 *
@@ -51,15 +147,19 @@ export class ContractAPI {
 	 * const data = await sdk.contract.get(keyBytes)
 	 * ```
 	 */
-	async get(key: Uint8Array | string): Promise<ContractDataValue> {
+	async get(key: Uint8Array | string, options?: RequestOptions): Promise<ContractDataValue> {
 		validate(ContractKeySchema, key)
-		return this.client.post<ContractDataValue>('/api/contract/get', key)
+		return this.client.post<ContractDataValue>('/api/contract/get', key, {
+			idempotent: true,
+			...options
+		})
 	}
 
 	/**
 	 * Get contract data by key prefix
 	 *
 	 * @param key - Contract key prefix as Uint8Array or Base58 string
+	 * @param options - Optional signal, timeout and cancellation group
 	 * @returns Promise resolving to contract data matching the prefix (array of key-value pairs)
 	 * @throws {AmadeusSDKError} If key is invalid
 	 *
@@ -68,9 +168,15 @@ export class ContractAPI {
 	 * const data = await sdk.contract.getPrefix(keyPrefix)
 	 * ```
 	 */
-	async getPrefix(key: Uint8Array | string): Promise<ContractDataValue[]> {
+	async getPrefix(
+		key: Uint8Array | string,
+		options?: RequestOptions
+	): Promise<ContractDataValue[]> {
 		validate(ContractKeySchema, key)
-		return this.client.post<ContractDataValue[]>('/api/contract/get_prefix', key)
+		return this.client.post<ContractDataValue[]>('/api/contract/get_prefix', key, {
+			idempotent: true,
+			...options
+		})
 	}
 
 	/**
@@ -86,6 +192,7 @@ export class ContractAPI {
 	 * @param key - Prefix bytes, or a plain string sent as UTF-8. Contract key
 	 *   prefixes are raw byte strings (`bic:lockup_vault:vault:`), not Base58 —
 	 *   anything containing a public key must be passed as bytes.
+	 * @param options - Optional signal, timeout and cancellation group
 	 * @returns Promise resolving to `[key, value]` pairs of raw bytes
 	 *
 	 * @example
@@ -95,12 +202,18 @@ export class ContractAPI {
 	 * )
 	 * ```
 	 */
-	async getPrefixEntries(key: Uint8Array | string): Promise<Array<[Uint8Array, Uint8Array]>> {
+	async getPrefixEntries(
+		key: Uint8Array | string,
+		options?: RequestOptions
+	): Promise<Array<[Uint8Array, Uint8Array]>> {
 		const prefix = typeof key === 'string' ? new TextEncoder().encode(key) : key
 		if (prefix.length === 0) {
-			throw new AmadeusSDKError('Contract key prefix must not be empty')
+			throw new ValidationError('Contract key prefix must not be empty')
 		}
-		const bytes = await this.client.postBinary('/api/contract/get_prefix', prefix)
+		const bytes = await this.client.postBinary('/api/contract/get_prefix', prefix, {
+			idempotent: true,
+			...options
+		})
 		if (bytes.length === 0) return []
 		return decodeContractState(bytes)
 	}
@@ -108,6 +221,7 @@ export class ContractAPI {
 	/**
 	 * Get contract richlist (token holders)
 	 *
+	 * @param options - Optional signal, timeout and cancellation group
 	 * @returns Promise resolving to richlist entries
 	 *
 	 * @example
@@ -115,8 +229,11 @@ export class ContractAPI {
 	 * const { richlist } = await sdk.contract.getRichlist()
 	 * ```
 	 */
-	async getRichlist(): Promise<GetRichlistResponse> {
-		return this.client.get<GetRichlistResponse>('/api/contract/richlist')
+	async getRichlist(options?: RequestOptions): Promise<GetRichlistResponse> {
+		return this.client.get<GetRichlistResponse>('/api/contract/richlist', undefined, {
+			...options,
+			schema: GetRichlistResponseSchema
+		})
 	}
 
 	/**
@@ -126,6 +243,7 @@ export class ContractAPI {
 	 * state through the contract's own logic (e.g. computed balances, vault status).
 	 *
 	 * @param params - Contract, function, args, and optional caller pk
+	 * @param options - Optional signal, timeout and cancellation group
 	 * @returns Promise resolving to `{ success, result, logs }`
 	 *
 	 * @example
@@ -137,13 +255,20 @@ export class ContractAPI {
 	 * })
 	 * ```
 	 */
-	async view(params: ContractViewParams): Promise<ContractViewResponse> {
+	async view(
+		params: ContractViewParams,
+		options?: RequestOptions
+	): Promise<ContractViewResponse> {
 		const body: Record<string, SerializableValue> = {
 			contract: params.contract,
 			function: params.function,
 			args: params.args ?? []
 		}
 		if (params.pk) body.pk = params.pk
-		return this.client.post<ContractViewResponse>('/api/contract/view', encode(body))
+		return this.client.post<ContractViewResponse>('/api/contract/view', encode(body), {
+			idempotent: true,
+			...options,
+			schema: ContractViewResponseSchema
+		})
 	}
 }
@@ -4,11 +4,16 @@
  * Provides methods for querying epoch and validator information
  */
 
-import type { AmadeusClient } from '../client'
+import type { AmadeusClient, RequestOptions } from '../client'
 import type { EpochScore, GetEmissionAddressResponse, GetSolInEpochResponse } from '../types'
 import { Base58PublicKeySchema } from '../schemas'
 import { Schema } from 'effect'
 import { validate } from '../validation'
+import {
+	EpochScoreSchema,
+	GetEmissionAddressResponseSchema,
+	GetSolInEpochResponseSchema
+} from '../response-schemas'
 
 export class EpochAPI {
 	constructor(private client: AmadeusClient) {}
@@ -17,6 +22,7 @@ export class EpochAPI {
 	 * Get epoch score for all validators or a specific validator
 	 *
 	 * @param publicKey - Optional validator public key (Base58 encoded)
+	 * @param options - Optional signal, timeout and cancellation group
 	 * @returns Promise resolving to epoch score(s)
 	 * @throws {Error} If public key is invalid
 	 *
@@ -29,18 +35,19 @@ export class EpochAPI {
 	 * const score = await sdk.epoch.getScore('5Kd3N...')
 	 * ```
 	 */
-	async getScore(publicKey?: string): Promise<EpochScore> {
+	async getScore(publicKey?: string, options?: RequestOptions): Promise<EpochScore> {
 		if (publicKey) {
 			validate(Base58PublicKeySchema, publicKey)
 		}
 		const url = publicKey ? `/api/epoch/score/${publicKey}` : '/api/epoch/score'
-		return this.client.get<EpochScore>(url)
+		return this.client.get<EpochScore>(url, undefined, { ...options, schema: EpochScoreSchema })
 	}
 
 	/**
 	 * Get emission address for a public key
 	 *
 	 * @param publicKey - Validator public key (Base58 encoded)
+	 * @param options - Optional signal, timeout and cancellation group
 	 * @returns Promise resolving to emission address
 	 * @throws {Error} If public key is invalid
 	 *
@@ -49,10 +56,15 @@ export class EpochAPI {
 	 * const { emission_address } = await sdk.epoch.getEmissionAddress('5Kd3N...')
 	 * ```
 	 */
-	async getEmissionAddress(publicKey: string): Promise<GetEmissionAddressResponse> {
+	async getEmissionAddress(
+		publicKey: string,
+		options?: RequestOptions
+	): Promise<GetEmissionAddressResponse> {
 		validate(Base58PublicKeySchema, publicKey)
 		return this.client.get<GetEmissionAddressResponse>(
-			`/api/epoch/get_emission_address/${publicKey}`
+			`/api/epoch/get_emission_address/${publicKey}`,
+			undefined,
+			{ ...options, schema: GetEmissionAddressResponseSchema }
 		)
 	}
 
@@ -61,6 +73,7 @@ export class EpochAPI {
 	 *
 	 * @param epoch - Epoch number (must be >= 0)
 	 * @param solHash - Solution hash as string or Uint8Array
+	 * @param options - Optional signal, timeout and cancellation group
 	 * @returns Promise resolving to solution data
 	 * @throws {Error} If parameters are invalid
 	 *
@@ -71,7 +84,8 @@ export class EpochAPI {
 	 */
 	async getSolInEpoch(
 		epoch: number,
-		solHash: string | Uint8Array
+		solHash: string | Uint8Array,
+		options?: RequestOptions
 	): Promise<GetSolInEpochResponse> {
 		validate(Schema.NonNegativeInt, epoch)
 
@@ -80,22 +94,26 @@ export class EpochAPI {
 		}
 
 		const hash = typeof solHash === 'string' ? solHash : solHash.toString()
-		return this.client.get<GetSolInEpochResponse>(`/api/epoch/sol_in_epoch/${epoch}/${hash}`)
+		return this.client.get<GetSolInEpochResponse>(
+			`/api/epoch/sol_in_epoch/${epoch}/${hash}`,
+			undefined,
+			{ ...options, schema: GetSolInEpochResponseSchema }
+		)
 	}
 
 	/**
 	 * Get all epoch scores as array of [pk, score] tuples
 	 */
-	async getAllScores(): Promise<[string, number][]> {
-		const result = await this.getScore()
+	async getAllScores(options?: RequestOptions): Promise<[string, number][]> {
+		const result = await this.getScore(undefined, options)
 		return Array.isArray(result) ? result : []
 	}
 
 	/**
 	 * Get epoch score for a specific validator
 	 */
-	async getValidatorScore(publicKey: string): Promise<number> {
-		const result = await this.getScore(publicKey)
+	async getValidatorScore(publicKey: string, options?: RequestOptions): Promise<number> {
+		const result = await this.getScore(publicKey, options)
 		if (Array.isArray(result)) {
 			throw new Error('Unexpected array response for single validator score')
 		}
@@ -105,8 +123,11 @@ export class EpochAPI {
 	/**
 	 * Get top validators by score
 	 */
-	async getTopValidators(limit: number = 10): Promise<[string, number][]> {
-		const scores = await this.getAllScores()
+	async getTopValidators(
+		limit: number = 10,
+		options?: RequestOptions
+	): Promise<[string, number][]> {
+		const scores = await this.getAllScores(options)
 		return scores.sort((a, b) => b[1] - a[1]).slice(0, limit)
 	}
 }
@@ -4,7 +4,7 @@
  * Provides methods for querying network peer information
  */
 
-import type { AmadeusClient } from '../client'
+import type { AmadeusClient, RequestOptions } from '../client'
 import type {
 	GetNodesResponse,
 	GetTrainersResponse,
@@ -14,6 +14,13 @@ import type {
 } from '../types'
 import { Base58PublicKeySchema } from '../schemas'
 import { validate } from '../validation'
+import {
+	GetANRByPkResponseSchema,
+	GetANRsResponseSchema,
+	GetNodesResponseSchema,
+	GetRemovedTrainersResponseSchema,
+	GetTrainersResponseSchema
+} from '../response-schemas'
 
 export class PeerAPI {
 	constructor(private client: AmadeusClient) {}
@@ -21,6 +28,7 @@ export class PeerAPI {
 	/**
 	 * Get all nodes in the network
 	 *
+	 * @param options - Optional signal, timeout and cancellation group
 	 * @returns Promise resolving to network nodes
 	 *
 	 * @example
@@ -28,13 +36,17 @@ export class PeerAPI {
 	 * const { nodes } = await sdk.peer.getNodes()
 	 * ```
 	 */
-	async getNodes(): Promise<GetNodesResponse> {
-		return this.client.get<GetNodesResponse>('/api/peer/nodes')
+	async getNodes(options?: RequestOptions): Promise<GetNodesResponse> {
+		return this.client.get<GetNodesResponse>('/api/peer/nodes', undefined, {
+			...options,
+			schema: GetNodesResponseSchema
+		})
 	}
 
 	/**
 	 * Get all trainers (validators)
 	 *
+	 * @param options - Optional signal, timeout and cancellation group
 	 * @returns Promise resolving to trainer nodes
 	 *
 	 * @example
@@ -42,13 +54,17 @@ export class PeerAPI {
 	 * const { trainers } = await sdk.peer.getTrainers()
 	 * ```
 	 */
-	async getTrainers(): Promise<GetTrainersResponse> {
-		return this.client.get<GetTrainersResponse>('/api/peer/trainers')
+	async getTrainers(options?: RequestOptions): Promise<GetTrainersResponse> {
+		return this.client.get<GetTrainersResponse>('/api/peer/trainers', undefined, {
+			...options,
+			schema: GetTrainersResponseSchema
+		})
 	}
 
 	/**
 	 * Get removed trainers
 	 *
+	 * @param options - Optional signal, timeout and cancellation group
 	 * @returns Promise resolving to removed trainer nodes
 	 *
 	 * @example
@@ -56,13 +72,18 @@ export class PeerAPI {
 	 * const { removed_trainers } = await sdk.peer.getRemovedTrainers()
 	 * ```
 	 */
-	async getRemovedTrainers(): Promise<GetRemovedTrainersResponse> {
-		return this.client.get<GetRemovedTrainersResponse>('/api/peer/removed_trainers')
+	async getRemovedTrainers(options?: RequestOptions): Promise<GetRemovedTrainersResponse> {
+		return this.client.get<GetRemovedTrainersResponse>(
+			'/api/peer/removed_trainers',
+			undefined,
+			{ ...options, schema: GetRemovedTrainersResponseSchema }
+		)
 	}
 
 	/**
 	 * Get all ANR (Autonomous Network Registry) entries
 	 *
+	 * @param options - Optional signal, timeout and cancellation group
 	 * @returns Promise resolving to ANR entries
 	 *
 	 * @example
@@ -70,13 +91,17 @@ export class PeerAPI {
 	 * const { anrs } = await sdk.peer.getANRs()
 	 * ```
 	 */
-	async getANRs(): Promise<GetANRsResponse> {
-		return this.client.get<GetANRsResponse>('/api/peer/anr')
+	async getANRs(options?: RequestOptions): Promise<GetANRsResponse> {
+		return this.client.get<GetANRsResponse>('/api/peer/anr', undefined, {
+			...options,
+			schema: GetANRsResponseSchema
+		})
 	}
 
 	/**
 	 * Get ANR validators only
 	 *
+	 * @param options - Optional signal, timeout and cancellation group
 	 * @returns Promise resolving to ANR validator entries
 	 *
 	 * @example
@@ -84,14 +109,18 @@ export class PeerAPI {
 	 * const { anrs } = await sdk.peer.getANRValidators()
 	 * ```
 	 */
-	async getANRValidators(): Promise<GetANRsResponse> {
-		return this.client.get<GetANRsResponse>('/api/peer/anr_validators')
+	async getANRValidators(options?: RequestOptions): Promise<GetANRsResponse> {
+		return this.client.get<GetANRsResponse>('/api/peer/anr_validators', undefined, {
+			...options,
+			schema: GetANRsResponseSchema
+		})
 	}
 
 	/**
 	 * Get ANR entry by public key
 	 *
 	 * @param publicKey - Public key (Base58 encoded)
+	 * @param options - Optional signal, timeout and cancellation group
 	 * @returns Promise resolving to ANR entry
 	 * @throws {Error} If public key is invalid
 	 *
@@ -100,8 +129,11 @@ export class PeerAPI {
 	 * const { anr } = await sdk.peer.getANRByPk('5Kd3N...')
 	 * ```
 	 */
-	async getANRByPk(publicKey: string): Promise<GetANRByPkResponse> {
+	async getANRByPk(publicKey: string, options?: RequestOptions): Promise<GetANRByPkResponse> {
 		validate(Base58PublicKeySchema, publicKey)
-		return this.client.get<GetANRByPkResponse>(`/api/peer/anr/${publicKey}`)
+		return this.client.get<GetANRByPkResponse>(`/api/peer/anr/${publicKey}`, undefined, {
+			...options,
+			schema: GetANRByPkResponseSchema
+		})
 	}
 }
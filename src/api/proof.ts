@@ -4,11 +4,12 @@
  * Provides methods for querying validator proofs
  */
 
-import type { AmadeusClient } from '../client'
+import type { AmadeusClient, RequestOptions } from '../client'
 import type { ProofValidators, ContractStateProof } from '../types'
 import { Base58HashSchema } from '../schemas'
 import { toBase58 } from '../encoding'
 import { validate } from '../validation'
+import { ContractStateProofSchema, ProofValidatorsSchema } from '../response-schemas'
 
 export class ProofAPI {
 	constructor(private client: AmadeusClient) {}
@@ -17,6 +18,7 @@ export class ProofAPI {
 	 * Get validator proof for an entry hash
 	 *
 	 * @param entryHash - Entry hash (Base58 encoded)
+	 * @param options - Optional signal, timeout and cancellation group
 	 * @returns Promise resolving to validator proof data
 	 * @throws {Error} If entry hash is invalid
 	 *
@@ -25,9 +27,12 @@ export class ProofAPI {
 	 * const proof = await sdk.proof.getValidators('5Kd3N...')
 	 * ```
 	 */
-	async getValidators(entryHash: string): Promise<ProofValidators> {
+	async getValidators(entryHash: string, options?: RequestOptions): Promise<ProofValidators> {
 		validate(Base58HashSchema, entryHash)
-		return this.client.get<ProofValidators>(`/api/proof/validators/${entryHash}`)
+		return this.client.get<ProofValidators>(`/api/proof/validators/${entryHash}`, undefined, {
+			...options,
+			schema: ProofValidatorsSchema
+		})
 	}
 
 	/**
@@ -38,6 +43,7 @@ export class ProofAPI {
 	 *
 	 * @param key - Contract state key, either raw bytes or already-Base58-encoded
 	 * @param value - Optional value to verify against the proof (raw bytes or Base58)
+	 * @param options - Optional signal, timeout and cancellation group
 	 *
 	 * @example
 	 * ```ts
@@ -53,14 +59,21 @@ export class ProofAPI {
 	 */
 	async getContractStateProof(
 		key: Uint8Array | string,
-		value?: Uint8Array | string
+		value?: Uint8Array | string,
+		options?: RequestOptions
 	): Promise<ContractStateProof> {
 		const keyB58 = typeof key === 'string' ? key : toBase58(key)
 		const path = `/api/proof/contractstate/${keyB58}`
 		if (value === undefined) {
-			return this.client.get<ContractStateProof>(path)
+			return this.client.get<ContractStateProof>(path, undefined, {
+				...options,
+				schema: ContractStateProofSchema
+			})
 		}
 		const valueB58 = typeof value === 'string' ? value : toBase58(value)
-		return this.client.get<ContractStateProof>(`${path}/${valueB58}`)
+		return this.client.get<ContractStateProof>(`${path}/${valueB58}`, undefined, {
+			...options,
+			schema: ContractStateProofSchema
+		})
 	}
 }
@@ -6,7 +6,7 @@
  * to ask "how much has this account staked".
  */
 
-import type { AmadeusClient } from '../client'
+import type { AmadeusClient, RequestOptions } from '../client'
 import {
 	buildAllValidatorCommissionsKeyPrefix,
 	buildAllVaultsKeyPrefix,
@@ -26,7 +26,7 @@ import { ChainAPI } from './chain'
 import { ContractAPI } from './contract'
 
 /** Options shared by staking reads. */
-export interface StakingQueryOptions {
+export interface StakingQueryOptions extends RequestOptions {
 	/**
 	 * Reference epoch. Omit to read the chain tip and derive it — pass it
 	 * explicitly when making several calls so they resolve against one epoch
@@ -55,15 +55,16 @@ export class StakingAPI {
 	/**
 	 * Current epoch, derived from the chain tip height.
 	 *
+	 * @param options - Optional signal, timeout and cancellation group
 	 * @returns Promise resolving to the epoch number
 	 */
-	async getCurrentEpoch(): Promise<number> {
-		const { stats } = await this.chain.getStats()
+	async getCurrentEpoch(options?: RequestOptions): Promise<number> {
+		const { stats } = await this.chain.getStats(options)
 		return epochFromHeight(stats.height)
 	}
 
 	private async resolveEpoch(options?: StakingQueryOptions): Promise<number> {
-		return options?.currentEpoch ?? (await this.getCurrentEpoch())
+		return options?.currentEpoch ?? (await this.getCurrentEpoch(options))
 	}
 
 	/**
@@ -83,7 +84,10 @@ export class StakingAPI {
 		options?: StakingQueryOptions
 	): Promise<LockupVaultEntry[]> {
 		const currentEpoch = await this.resolveEpoch(options)
-		const entries = await this.contract.getPrefixEntries(buildOwnerVaultsKeyPrefix(publicKey))
+		const entries = await this.contract.getPrefixEntries(
+			buildOwnerVaultsKeyPrefix(publicKey),
+			options
+		)
 		const owner = typeof publicKey === 'string' ? publicKey : null
 		return parseLockupVaultEntries(entries, { currentEpoch }, owner)
 	}
@@ -108,7 +112,7 @@ export class StakingAPI {
 		options?: StakingQueryOptions
 	): Promise<StakingPosition> {
 		const currentEpoch = await this.resolveEpoch(options)
-		const vaults = await this.getVaults(publicKey, { currentEpoch })
+		const vaults = await this.getVaults(publicKey, { ...options, currentEpoch })
 		return { ...summarizeLockupVaults(vaults), vaults, epoch: currentEpoch }
 	}
 
@@ -120,7 +124,7 @@ export class StakingAPI {
 	 */
 	async getAllVaults(options?: StakingQueryOptions): Promise<LockupVaultEntry[]> {
 		const currentEpoch = await this.resolveEpoch(options)
-		const entries = await this.contract.getPrefixEntries(buildAllVaultsKeyPrefix())
+		const entries = await this.contract.getPrefixEntries(buildAllVaultsKeyPrefix(), options)
 		return parseLockupVaultEntries(entries, { currentEpoch })
 	}
 
@@ -137,7 +141,8 @@ export class StakingAPI {
 	): Promise<Record<string, ValidatorCommission>> {
 		const currentEpoch = await this.resolveEpoch(options)
 		const entries = await this.contract.getPrefixEntries(
-			buildAllValidatorCommissionsKeyPrefix()
+			buildAllValidatorCommissionsKeyPrefix(),
+			options
 		)
 		return parseValidatorCommissions(entries, { currentEpoch })
 	}
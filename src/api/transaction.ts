@@ -4,16 +4,115 @@
  * Provides methods for submitting transactions and querying transaction data
  */
 
-import type { AmadeusClient } from '../client'
+import type { AmadeusClient, RequestOptions } from '../client'
 import type {
+	ContractViewResponse,
 	SubmitTransactionResponse,
 	SubmitAndWaitTransactionResponse,
 	SubmitAndWaitOptions,
 	GetTransactionsInEntryResponse,
-	Transaction
+	GetByHashResponse,
+	GetTipResponse,
+	Transaction,
+	TransactionReceipt,
+	TransactionSimulation
 } from '../types'
-import { Base58HashSchema, TransactionDataSchema } from '../schemas'
-import { validate } from '../validation'
+import { AmadeusSDKError } from '../types'
+import { NotFoundError, TransactionFailedError, ValidationError, WaitTimeoutError } from '../errors'
+import {
+	Base58HashSchema,
+	TransactionDataSchema,
+	WaitForTransactionOptionsSchema
+} from '../schemas'
+import { validate, validateAddress } from '../validation'
+import { fromBase58, toBase58 } from '../encoding'
+import { encode } from '../serialization'
+import { decodeTransaction } from '../transaction-decoder'
+import { getExecutionErrorMessage } from '../transaction-errors'
+import { AMADEUS_PUBLIC_KEY_BYTE_LENGTH } from '../constants'
+import type { ContractCall } from '../contracts/contract-call'
+import { isRetryableError } from '../retry'
+import {
+	GetByHashResponseSchema,
+	GetTipResponseSchema,
+	ContractViewResponseSchema,
+	GetTransactionsInEntryResponseSchema,
+	SubmitAndWaitTransactionResponseSchema,
+	SubmitTransactionResponseSchema,
+	TransactionSchema
+} from '../response-schemas'
+
+/**
+ * Read the transaction hash out of a packed transaction.
+ * Returns undefined if the bytes are not a packed transaction.
+ */
+function packedTransactionHash(txPacked: Uint8Array | string): string | undefined {
+	try {
+		return toBase58(decodeTransaction(txPacked).hash)
+	} catch {
+		// Not decodable: the hash is unknown
+		return undefined
+	}
+}
+
+/**
+ * Signer public key as raw bytes
+ */
+function signerPublicKey(signerPk: Uint8Array | string): Uint8Array {
+	if (typeof signerPk === 'string') {
+		const result = validateAddress(signerPk)
+		if (!result.valid) throw new ValidationError(`Invalid signer public key: ${result.error}`)
+		return fromBase58(signerPk)
+	}
+	if (signerPk.length !== AMADEUS_PUBLIC_KEY_BYTE_LENGTH) {
+		throw new ValidationError(
+			`Invalid signer public key length: expected ${AMADEUS_PUBLIC_KEY_BYTE_LENGTH} bytes, got ${signerPk.length}`
+		)
+	}
+	return signerPk
+}
+
+/**
+ * How far a transaction being waited on has come.
+ *
+ * - `pending`: not on chain yet
+ * - `included`: in an entry, with fewer confirmations than requested; always
+ *   reported once when the transaction is first found
+ * - `confirmed`: has the requested confirmations, finality still pending
+ * - `finalized`: its entry reached finality
+ */
+export type TransactionWaitStage = 'pending' | 'included' | 'confirmed' | 'finalized'
+
+/**
+ * Reported by `waitFor` whenever the stage or confirmation count changes
+ */
+export interface TransactionWaitProgress {
+	/** Transaction hash */
+	hash: string
+	/** Current stage */
+	stage: TransactionWaitStage
+	/** Entries at or above the including entry (1 once included, 0 while pending) */
+	confirmations: number
+	/** The transaction, once included */
+	transaction?: Transaction
+}
+
+/** Options for `TransactionAPI.waitFor` */
+export interface WaitForTransactionOptions extends Omit<RequestOptions, 'timeout'> {
+	/** Entries at or above the including entry to wait for (default: 1, i.e. included) */
+	confirmations?: number
+	/** Also wait until the including entry reached finality */
+	finalized?: boolean
+	/** Give up after this many milliseconds (default: no limit) */
+	timeout?: number
+	/** Delay between polls in milliseconds (default: 1000) */
+	pollInterval?: number
+	/** Called whenever the stage or confirmation count changes */
+	onProgress?: (progress: TransactionWaitProgress) => void
+}
+
+/** Delay between `waitFor` polls when `pollInterval` is not set */
+const DEFAULT_WAIT_POLL_INTERVAL = 1_000
 
 export class TransactionAPI {
 	constructor(private client: AmadeusClient) {}
@@ -21,7 +120,12 @@ export class TransactionAPI {
 	/**
 	 * Submit a transaction to the network
 	 *
+	 * With a retry policy configured, a transient failure is only retried after
+	 * looking the transaction hash up on chain: if the node already accepted it,
+	 * its hash is returned instead of submitting again.
+	 *
 	 * @param txPacked - Packed transaction as Uint8Array or Base58 string
+	 * @param options - Optional signal, timeout and cancellation group
 	 * @returns Promise resolving to submission result
 	 * @throws {AmadeusSDKError} If transaction data is invalid
 	 *
@@ -35,9 +139,21 @@ export class TransactionAPI {
 	 * }
 	 * ```
 	 */
-	async submit(txPacked: Uint8Array | string): Promise<SubmitTransactionResponse> {
+	async submit(
+		txPacked: Uint8Array | string,
+		options?: RequestOptions
+	): Promise<SubmitTransactionResponse> {
 		validate(TransactionDataSchema, txPacked)
-		return this.client.post<SubmitTransactionResponse>('/api/tx/submit', txPacked)
+		return this.submitSafely(
+			txPacked,
+			options,
+			(attemptOptions) =>
+				this.client.post<SubmitTransactionResponse>('/api/tx/submit', txPacked, {
+					...attemptOptions,
+					schema: SubmitTransactionResponseSchema
+				}),
+			(tx) => ({ hash: tx.hash })
+		)
 	}
 
 	/**
@@ -45,7 +161,12 @@ export class TransactionAPI {
 	 *
 	 * Pass `{ finalized: true }` to wait for finality (consensus reached) instead
 	 * of just confirmation. Default behavior is to return as soon as the tx is
-	 * included in an entry.
+	 * included in an entry. `signal`, `timeout` and `group` apply to the single
+	 * long-held request.
+	 *
+	 * Retries follow the same rule as `submit()`: the transaction is looked up
+	 * first, and an on-chain result (finalized, if requested) is returned
+	 * without resubmitting.
 	 *
 	 * @example
 	 * ```ts
@@ -58,19 +179,262 @@ export class TransactionAPI {
 	 */
 	async submitAndWait(
 		txPacked: Uint8Array | string,
-		options: SubmitAndWaitOptions = {}
+		options: SubmitAndWaitOptions & RequestOptions = {}
 	): Promise<SubmitAndWaitTransactionResponse> {
 		validate(TransactionDataSchema, txPacked)
-		const endpoint = options.finalized
+		const { finalized, ...requestOptions } = options
+		const endpoint = finalized
 			? '/api/tx/submit_and_wait?finalized=true'
 			: '/api/tx/submit_and_wait'
-		return this.client.post<SubmitAndWaitTransactionResponse>(endpoint, txPacked)
+		return this.submitSafely(
+			txPacked,
+			requestOptions,
+			(attemptOptions) =>
+				this.client.post<SubmitAndWaitTransactionResponse>(endpoint, txPacked, {
+					...attemptOptions,
+					schema: SubmitAndWaitTransactionResponseSchema
+				}),
+			(tx) =>
+				!finalized || tx.metadata.status === 'finalized'
+					? { hash: tx.hash, metadata: tx.metadata, receipt: tx.receipt }
+					: undefined
+		)
+	}
+
+	/**
+	 * Simulate a contract call before signing it.
+	 *
+	 * Runs the call through `/api/contract/view` as `signerPk` against the
+	 * current chain tip. Nothing is signed, submitted or stored, so checks such
+	 * as `insufficient_funds` or `invalid_tier` surface before a nonce is spent.
+	 *
+	 * @param call - Call from `createContract(abi).method()`, `buildCoinTransfer()` and the like
+	 * @param signerPk - Public key that would sign the transaction (raw or Base58)
+	 * @param options - Optional signal, timeout and cancellation group
+	 * @returns The outcome; a failed call has `success: false` and its `error`
+	 * @throws {ValidationError} If `signerPk` is not a 48-byte public key
+	 *
+	 * @example
+	 * ```ts
+	 * const call = buildCoinTransfer({ recipient, amount: 10, symbol: 'AMA' })
+	 * const simulation = await sdk.transaction.simulate(call, keypair.publicKey)
+	 * if (!simulation.success) console.error(simulation.errorMessage)
+	 * ```
+	 */
+	async simulate(
+		call: ContractCall,
+		signerPk: Uint8Array | string,
+		options?: RequestOptions
+	): Promise<TransactionSimulation> {
+		const pk = signerPublicKey(signerPk)
+		const view = await this.client.post<ContractViewResponse>(
+			'/api/contract/view',
+			encode({ contract: call.contract, function: call.method, args: call.args, pk }),
+			{ idempotent: true, ...options, schema: ContractViewResponseSchema }
+		)
+		const simulation: TransactionSimulation = {
+			success: view.success,
+			result: view.result,
+			logs: [...view.logs]
+		}
+		if (!view.success) {
+			simulation.error = view.result || 'unknown'
+			simulation.errorMessage = getExecutionErrorMessage(simulation.error)
+		}
+		return simulation
+	}
+
+	/**
+	 * Submit with retries that can never double-submit.
+	 *
+	 * After a transient failure the transaction hash is looked up. If the
+	 * transaction is on chain, `fromChain` turns it into the result (or returns
+	 * undefined when it has not reached the requested state, in which case the
+	 * original error is thrown). Only a confirmed `not_found` leads to a
+	 * resubmission; if the lookup itself fails the original error is thrown.
+	 */
+	private async submitSafely<T>(
+		txPacked: Uint8Array | string,
+		options: RequestOptions | undefined,
+		submitOnce: (options: RequestOptions) => Promise<T>,
+		fromChain: (tx: Transaction) => T | undefined
+	): Promise<T> {
+		const policy = this.client.getRetryPolicy(options)
+		const attemptOptions: RequestOptions = { ...options, retry: false }
+		const hash = packedTransactionHash(txPacked)
+
+		for (let attempt = 1; ; attempt++) {
+			try {
+				return await submitOnce(attemptOptions)
+			} catch (error) {
+				if (
+					hash === undefined ||
+					attempt >= policy.maxAttempts ||
+					!isRetryableError(error, policy)
+				) {
+					throw error
+				}
+
+				let onChain: Transaction | undefined
+				try {
+					onChain = await this.get(hash, attemptOptions)
+				} catch (lookupError) {
+					if (!(lookupError instanceof AmadeusSDKError) || lookupError.status !== 404) {
+						throw error
+					}
+				}
+				if (onChain) {
+					const result = fromChain(onChain)
+					if (result === undefined) throw error
+					return result
+				}
+
+				await this.client.backoff(policy, attempt, options)
+			}
+		}
+	}
+
+	/**
+	 * Wait for a transaction until it has the requested confirmations and,
+	 * with `finalized`, until its entry reached finality.
+	 *
+	 * Polls `/api/chain/tx/{hash}`; the tip is only fetched when more than one
+	 * confirmation is requested, and the including entry only while finality is
+	 * pending. Retryable errors are retried at the next poll. `signal` and
+	 * `group` cancel the wait; `timeout` bounds the whole wait, each poll
+	 * included.
+	 *
+	 * @param txHash - Transaction hash (Base58 encoded)
+	 * @param options - Confirmations, finality, deadline and progress callback
+	 * @returns Promise resolving to the transaction receipt
+	 * @throws {TransactionFailedError} If the transaction was included but its execution failed
+	 * @throws {WaitTimeoutError} If `timeout` elapses first (not retryable)
+	 * @throws {CancelledError} If cancelled through `signal`, `group` or `sdk.cancel()`
+	 *
+	 * @example
+	 * ```ts
+	 * const { hash } = await sdk.transaction.submit(txPacked)
+	 * const receipt = await sdk.transaction.waitFor(hash, {
+	 *   confirmations: 3,
+	 *   finalized: true,
+	 *   timeout: 60_000,
+	 *   onProgress: ({ stage, confirmations }) => console.log(stage, confirmations)
+	 * })
+	 * ```
+	 */
+	async waitFor(
+		txHash: string,
+		options: WaitForTransactionOptions = {}
+	): Promise<TransactionReceipt> {
+		validate(Base58HashSchema, txHash)
+		validate(WaitForTransactionOptionsSchema, options)
+		const {
+			confirmations: required = 1,
+			finalized = false,
+			timeout,
+			pollInterval = DEFAULT_WAIT_POLL_INTERVAL,
+			onProgress,
+			...rest
+		} = options
+		const requestOptions: RequestOptions = { ...rest, cache: false }
+		const deadline = timeout === undefined ? Infinity : Date.now() + timeout
+		let reported: string | undefined
+		let found = false
+		const report = (progress: TransactionWaitProgress) => {
+			const key = `${progress.stage}:${progress.confirmations}`
+			if (key !== reported) {
+				reported = key
+				onProgress?.(progress)
+			}
+		}
+
+		for (;;) {
+			try {
+				// Each poll gets at most the time left before the deadline
+				const pollOptions =
+					timeout === undefined
+						? requestOptions
+						: {
+								...requestOptions,
+								timeout: Math.max(
+									1,
+									Math.min(deadline - Date.now(), this.client.getTimeout())
+								)
+							}
+				const progress = await this.checkProgress(txHash, required, finalized, pollOptions)
+				if (progress.transaction && !found) {
+					found = true
+					if (progress.stage !== 'included') report({ ...progress, stage: 'included' })
+				}
+				report(progress)
+
+				const receipt = progress.transaction?.receipt
+				if (receipt && !receipt.success) throw new TransactionFailedError(txHash, receipt)
+				if (receipt && progress.confirmations >= required) {
+					if (!finalized || progress.stage === 'finalized') return receipt
+				}
+			} catch (error) {
+				if (!(error instanceof AmadeusSDKError && error.isRetryable)) throw error
+			}
+
+			const remaining = deadline - Date.now()
+			if (timeout !== undefined && remaining <= 0) {
+				throw new WaitTimeoutError(
+					timeout,
+					`Transaction ${txHash} not ${finalized ? 'finalized' : 'confirmed'} after ${timeout}ms`
+				)
+			}
+			await this.client.delay(Math.min(pollInterval, remaining), requestOptions)
+		}
+	}
+
+	/**
+	 * Look up a transaction and work out its stage and confirmation count
+	 */
+	private async checkProgress(
+		hash: string,
+		required: number,
+		finalized: boolean,
+		options: RequestOptions
+	): Promise<TransactionWaitProgress> {
+		let transaction: Transaction
+		try {
+			transaction = await this.get(hash, options)
+		} catch (error) {
+			if (error instanceof NotFoundError) return { hash, stage: 'pending', confirmations: 0 }
+			throw error
+		}
+
+		const { entry_hash, entry_height, status } = transaction.metadata
+		let confirmations = 1
+		if (required > 1) {
+			const { entry: tip } = await this.client.get<GetTipResponse>(
+				'/api/chain/tip',
+				undefined,
+				{ ...options, schema: GetTipResponseSchema }
+			)
+			confirmations = Math.max(1, tip.header.height - entry_height + 1)
+		}
+
+		let isFinal = status === 'finalized'
+		if (!isFinal && finalized && confirmations >= required) {
+			const { entry } = await this.client.get<GetByHashResponse>(
+				`/api/chain/hash/${entry_hash}`,
+				undefined,
+				{ ...options, schema: GetByHashResponseSchema }
+			)
+			isFinal = entry.consensus?.finality_reached === true
+		}
+
+		const stage = isFinal ? 'finalized' : confirmations >= required ? 'confirmed' : 'included'
+		return { hash, stage, confirmations, transaction }
 	}
 
 	/**
 	 * Get transaction by ID
 	 *
 	 * @param txid - Transaction ID (Base58 encoded)
+	 * @param options - Optional signal, timeout and cancellation group
 	 * @returns Promise resolving to transaction data
 	 * @throws {AmadeusSDKError} If transaction ID is invalid
 	 *
@@ -79,15 +443,19 @@ export class TransactionAPI {
 	 * const tx = await sdk.transaction.get('5Kd3N...')
 	 * ```
 	 */
-	async get(txid: string): Promise<Transaction> {
+	async get(txid: string, options?: RequestOptions): Promise<Transaction> {
 		validate(Base58HashSchema, txid)
-		return this.client.get<Transaction>(`/api/chain/tx/${txid}`)
+		return this.client.get<Transaction>(`/api/chain/tx/${txid}`, undefined, {
+			...options,
+			schema: TransactionSchema
+		})
 	}
 
 	/**
 	 * Get transactions by entry hash
 	 *
 	 * @param entryHash - Entry hash (Base58 encoded)
+	 * @param options - Optional signal, timeout and cancellation group
 	 * @returns Promise resolving to transactions in the entry
 	 * @throws {AmadeusSDKError} If entry hash is invalid
 	 *
@@ -96,10 +464,15 @@ export class TransactionAPI {
 	 * const { txs } = await sdk.transaction.getByEntry('5Kd3N...')
 	 * ```
 	 */
-	async getByEntry(entryHash: string): Promise<GetTransactionsInEntryResponse> {
+	async getByEntry(
+		entryHash: string,
+		options?: RequestOptions
+	): Promise<GetTransactionsInEntryResponse> {
 		validate(Base58HashSchema, entryHash)
 		return this.client.get<GetTransactionsInEntryResponse>(
-			`/api/chain/txs_in_entry/${entryHash}`
+			`/api/chain/txs_in_entry/${entryHash}`,
+			undefined,
+			{ ...options, schema: GetTransactionsInEntryResponseSchema }
 		)
 	}
 }
@@ -4,10 +4,11 @@
  * Provides methods for querying wallet balances and information
  */
 
-import type { AmadeusClient } from '../client'
+import type { AmadeusClient, RequestOptions } from '../client'
 import type { WalletBalance, GetAllBalancesResponse } from '../types'
 import { Base58AddressSchema, NonEmptyStringSchema } from '../schemas'
 import { validate } from '../validation'
+import { GetAllBalancesResponseSchema, WalletBalanceSchema } from '../response-schemas'
 
 export class WalletAPI {
 	constructor(private client: AmadeusClient) {}
@@ -17,6 +18,7 @@ export class WalletAPI {
 	 *
 	 * @param address - Base58 encoded wallet address
 	 * @param symbol - Token symbol (default: 'AMA')
+	 * @param options - Optional signal, timeout and cancellation group
 	 * @returns Promise resolving to wallet balance
 	 * @throws {AmadeusSDKError} If address is invalid
 	 *
@@ -25,7 +27,11 @@ export class WalletAPI {
 	 * const balance = await sdk.wallet.getBalance('5Kd3N...', 'AMA')
 	 * ```
 	 */
-	async getBalance(address: string, symbol: string = 'AMA'): Promise<WalletBalance> {
+	async getBalance(
+		address: string,
+		symbol: string = 'AMA',
+		options?: RequestOptions
+	): Promise<WalletBalance> {
 		validate(Base58AddressSchema, address)
 		validate(NonEmptyStringSchema, symbol)
 
@@ -33,13 +39,17 @@ export class WalletAPI {
 			symbol === 'AMA'
 				? `/api/wallet/balance/${address}`
 				: `/api/wallet/balance/${address}/${symbol}`
-		return this.client.get<WalletBalance>(url)
+		return this.client.get<WalletBalance>(url, undefined, {
+			...options,
+			schema: WalletBalanceSchema
+		})
 	}
 
 	/**
 	 * Get all balances for an address
 	 *
 	 * @param address - Base58 encoded wallet address
+	 * @param options - Optional signal, timeout and cancellation group
 	 * @returns Promise resolving to all wallet balances
 	 * @throws {AmadeusSDKError} If address is invalid
 	 *
@@ -48,8 +58,15 @@ export class WalletAPI {
 	 * const { balances } = await sdk.wallet.getAllBalances('5Kd3N...')
 	 * ```
 	 */
-	async getAllBalances(address: string): Promise<GetAllBalancesResponse> {
+	async getAllBalances(
+		address: string,
+		options?: RequestOptions
+	): Promise<GetAllBalancesResponse> {
 		validate(Base58AddressSchema, address)
-		return this.client.get<GetAllBalancesResponse>(`/api/wallet/balance_all/${address}`)
+		return this.client.get<GetAllBalancesResponse>(
+			`/api/wallet/balance_all/${address}`,
+			undefined,
+			{ ...options, schema: GetAllBalancesResponseSchema }
+		)
 	}
 }
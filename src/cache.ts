@@ -0,0 +1,328 @@
+/**
+ * Response Cache
+ *
+ * Opt-in caching for GET requests: per-endpoint TTLs, deduplication of
+ * identical in-flight GETs and permanent caching for data that can never
+ * change — entries at or below the rooted height and finalized transactions.
+ * Storage is pluggable through `CacheStore`; `MemoryCacheStore` is built in,
+ * and IndexedDB, Redis or any other key-value store can implement the same
+ * interface.
+ */
+
+/**
+ * A cached response
+ */
+export interface CacheEntry {
+	/** Parsed response data */
+	value: unknown
+	/** Expiry time in ms since epoch, or `null` for data that never changes */
+	expiresAt: number | null
+}
+
+/**
+ * Storage backend for the cache. Methods may be sync or async.
+ *
+ * Values are plain JSON-compatible data, so stores may serialize them.
+ * Stores without `deletePrefix` keep invalidated entries until they are read
+ * again, so they should expire entries on their own at `expiresAt`.
+ */
+export interface CacheStore {
+	get(key: string): CacheEntry | undefined | Promise<CacheEntry | undefined>
+	set(key: string, entry: CacheEntry): void | Promise<void>
+	delete(key: string): void | Promise<void>
+	clear(): void | Promise<void>
+	/** Delete every key starting with `prefix` (used to drop invalidated entries) */
+	deletePrefix?(prefix: string): void | Promise<void>
+}
+
+/**
+ * TTL rule for requests whose path matches
+ */
+export interface CacheRule {
+	/** Exact path, or a RegExp tested against the path */
+	match: string | RegExp
+	/** Time to live in milliseconds (0 disables caching) */
+	ttl: number
+}
+
+/**
+ * Cache configuration
+ */
+export interface CacheOptions {
+	/** Storage backend (default: a new `MemoryCacheStore`) */
+	store?: CacheStore
+	/** TTL rules, checked in order before the defaults (`DEFAULT_CACHE_RULES`) */
+	rules?: CacheRule[]
+	/** TTL for GETs no rule matches, in milliseconds (default: 0, not cached) */
+	defaultTtl?: number
+	/** Share one request between identical concurrent GETs (default: true) */
+	dedupe?: boolean
+}
+
+/**
+ * Built-in TTL rules. Entries and transactions that turn out to be final are
+ * cached permanently regardless of their TTL.
+ */
+export const DEFAULT_CACHE_RULES: CacheRule[] = [
+	{ match: '/api/chain/tip', ttl: 1_000 },
+	{ match: '/api/chain/stats', ttl: 2_000 },
+	{ match: '/api/chain/kpi', ttl: 10_000 },
+	{ match: /^\/api\/chain\/(height|height_with_txs|hash)\//, ttl: 5_000 },
+	{ match: /^\/api\/chain\/tx\//, ttl: 5_000 },
+	{ match: /^\/api\/wallet\//, ttl: 5_000 },
+	{ match: /^\/api\/epoch\//, ttl: 10_000 },
+	{ match: /^\/api\/peer\//, ttl: 30_000 }
+]
+
+/**
+ * In-memory cache store with least-recently-used eviction
+ */
+export class MemoryCacheStore implements CacheStore {
+	private readonly entries = new Map<string, CacheEntry>()
+
+	/**
+	 * @param maxEntries - Entries kept before the least recently used is evicted (default: 1000)
+	 */
+	constructor(private readonly maxEntries = 1000) {}
+
+	/** Number of stored entries (expired ones included until evicted) */
+	get size(): number {
+		return this.entries.size
+	}
+
+	get(key: string): CacheEntry | undefined {
+		const entry = this.entries.get(key)
+		if (entry) {
+			// Refresh recency
+			this.entries.delete(key)
+			this.entries.set(key, entry)
+		}
+		return entry
+	}
+
+	set(key: string, entry: CacheEntry): void {
+		this.entries.delete(key)
+		this.entries.set(key, entry)
+		while (this.entries.size > this.maxEntries) {
+			const oldest = this.entries.keys().next().value as string
+			this.entries.delete(oldest)
+		}
+	}
+
+	delete(key: string): void {
+		this.entries.delete(key)
+	}
+
+	clear(): void {
+		this.entries.clear()
+	}
+
+	deletePrefix(prefix: string): void {
+		for (const key of [...this.entries.keys()]) {
+			if (key.startsWith(prefix)) this.entries.delete(key)
+		}
+	}
+}
+
+/**
+ * TTL for a path according to the rules
+ */
+export function cacheTtlFor(path: string, rules: CacheRule[], defaultTtl = 0): number {
+	for (const rule of rules) {
+		if (typeof rule.match === 'string' ? rule.match === path : rule.match.test(path)) {
+			return rule.ttl
+		}
+	}
+	return defaultTtl
+}
+
+function entryHeight(value: unknown): number | undefined {
+	const header = (value as { header?: { height?: unknown } } | null)?.header
+	return typeof header?.height === 'number' ? header.height : undefined
+}
+
+/**
+ * Rooted height reported by a response, if it carries one
+ * (`/api/chain/stats` does)
+ */
+export function rootedHeightOf(path: string, value: unknown): number | undefined {
+	if (path !== '/api/chain/stats') return undefined
+	const rooted = (value as { stats?: { rooted_height?: unknown } } | null)?.stats?.rooted_height
+	return typeof rooted === 'number' ? rooted : undefined
+}
+
+/**
+ * Whether a response can never change.
+ *
+ * - `/api/chain/tx/{hash}` once `metadata.status` is `finalized`
+ * - `/api/chain/height/{h}`, `/api/chain/height_with_txs/{h}` and
+ *   `/api/chain/hash/{hash}` when every returned entry is at or below the
+ *   rooted height
+ *
+ * @param path - Request path
+ * @param value - Parsed response
+ * @param rootedHeight - Latest rooted height seen, if any
+ */
+export function isFinalResponse(
+	path: string,
+	value: unknown,
+	rootedHeight: number | undefined
+): boolean {
+	if (/^\/api\/chain\/tx\/[^/]+$/.test(path)) {
+		const status = (value as { metadata?: { status?: unknown } } | null)?.metadata?.status
+		return status === 'finalized'
+	}
+
+	if (rootedHeight === undefined) return false
+
+	if (/^\/api\/chain\/(height|height_with_txs)\/\d+$/.test(path)) {
+		const entries = (value as { entries?: unknown } | null)?.entries
+		if (!Array.isArray(entries) || entries.length === 0) return false
+		return entries.every((entry) => {
+			const height = entryHeight(entry)
+			return height !== undefined && height <= rootedHeight
+		})
+	}
+
+	if (/^\/api\/chain\/hash\/[^/]+$/.test(path)) {
+		const height = entryHeight((value as { entry?: unknown } | null)?.entry)
+		return height !== undefined && height <= rootedHeight
+	}
+
+	return false
+}
+
+function canBeFinal(path: string): boolean {
+	return /^\/api\/chain\/(tx|height|height_with_txs|hash)\//.test(path)
+}
+
+function copy<T>(value: T): T {
+	return typeof structuredClone === 'function' ? structuredClone(value) : value
+}
+
+/**
+ * Cache layer used by the client for GET requests.
+ *
+ * TTL entries are stored under a generation prefix, so `invalidate()` drops
+ * them all at once in any store without enumerating keys, then removes the
+ * old generation from stores that implement `deletePrefix`. Final responses
+ * live outside the generations and survive invalidation.
+ */
+export class ResponseCache {
+	private readonly store: CacheStore
+	private readonly rules: CacheRule[]
+	private readonly defaultTtl: number
+	private readonly dedupe: boolean
+	private readonly inFlight = new Map<string, Promise<unknown>>()
+	private generation = 0
+	private rootedHeight?: number
+
+	constructor(options: CacheOptions = {}) {
+		this.store = options.store ?? new MemoryCacheStore()
+		this.rules = [...(options.rules ?? []), ...DEFAULT_CACHE_RULES]
+		this.defaultTtl = options.defaultTtl ?? 0
+		this.dedupe = options.dedupe ?? true
+	}
+
+	/** Latest rooted height seen in a `/api/chain/stats` response */
+	get knownRootedHeight(): number | undefined {
+		return this.rootedHeight
+	}
+
+	/**
+	 * Serve a GET from the cache, join an identical in-flight request, or load
+	 * it and store the result.
+	 *
+	 * @param path - Request path (selects the TTL rule)
+	 * @param key - Cache key (path and query)
+	 * @param load - Performs the request
+	 * @param fresh - Skip the cache and in-flight requests (the result is still stored)
+	 * @returns A copy of the response data
+	 */
+	async read<T>(path: string, key: string, load: () => Promise<T>, fresh = false): Promise<T> {
+		const ttl = cacheTtlFor(path, this.rules, this.defaultTtl)
+
+		if (!fresh) {
+			const hit =
+				(canBeFinal(path) ? await this.lookup(`final:${key}`) : undefined) ??
+				(ttl > 0 ? await this.lookup(`${this.generation}:${key}`) : undefined)
+			if (hit) return copy(hit.value as T)
+
+			const pending = this.dedupe ? this.inFlight.get(key) : undefined
+			if (pending) return copy((await pending) as T)
+		}
+
+		const generation = this.generation
+		const pending = load().then(async (value) => {
+			await this.save(path, key, value, ttl, generation)
+			return value
+		})
+		if (this.dedupe && !fresh) {
+			this.inFlight.set(key, pending)
+			pending
+				.finally(() => {
+					if (this.inFlight.get(key) === pending) this.inFlight.delete(key)
+				})
+				.catch(() => {
+					// Failures reach the callers awaiting `pending`
+				})
+		}
+		return copy(await pending)
+	}
+
+	/**
+	 * Drop every TTL-cached response. Final responses are kept.
+	 */
+	invalidate(): void {
+		void this.deleteGeneration(this.generation++)
+	}
+
+	/**
+	 * Drop everything, final responses included
+	 */
+	async clear(): Promise<void> {
+		this.generation++
+		this.inFlight.clear()
+		await this.store.clear()
+	}
+
+	private async deleteGeneration(generation: number): Promise<void> {
+		try {
+			await this.store.deletePrefix?.(`${generation}:`)
+		} catch {
+			// The entries are unreachable either way; the store's expiry removes them
+		}
+	}
+
+	private async lookup(key: string): Promise<CacheEntry | undefined> {
+		const entry = await this.store.get(key)
+		if (!entry) return undefined
+		if (entry.expiresAt !== null && entry.expiresAt <= Date.now()) {
+			await this.store.delete(key)
+			return undefined
+		}
+		return entry
+	}
+
+	private async save(
+		path: string,
+		key: string,
+		value: unknown,
+		ttl: number,
+		generation: number
+	): Promise<void> {
+		const rooted = rootedHeightOf(path, value)
+		if (rooted !== undefined && rooted > (this.rootedHeight ?? -1)) {
+			this.rootedHeight = rooted
+		}
+
+		if (isFinalResponse(path, value, this.rootedHeight)) {
+			await this.store.set(`final:${key}`, { value: copy(value), expiresAt: null })
+		} else if (ttl > 0 && generation === this.generation) {
+			await this.store.set(`${generation}:${key}`, {
+				value: copy(value),
+				expiresAt: Date.now() + ttl
+			})
+		}
+	}
+}
@@ -0,0 +1,254 @@
+/**
+ * Chain Follower
+ *
+ * Streams new chain entries in height order by polling `/api/chain/stats`.
+ * Entries at or below the node's `rooted_height` are final; entries above it
+ * are temporal and may still be replaced. The follower links every entry to
+ * the previous one through `header.prev_hash` and, when a temporal entry it
+ * already emitted turns out to be replaced, rolls it back before emitting the
+ * replacement.
+ */
+
+import type { ChainAPI } from './api/chain'
+import type { ChainEntry } from './types'
+import { AmadeusSDKError } from './types'
+import { CancelledError, NotFoundError } from './errors'
+import { ChainFollowerOptionsSchema } from './schemas'
+import { sleep } from './retry'
+import { validate } from './validation'
+
+/**
+ * Emitted for every new entry, in height order.
+ *
+ * Entries emitted with `rooted: false` get a `rooted` event once the chain
+ * finalizes them, or a `rollback` event if they are replaced first.
+ */
+export interface ChainEntryEvent {
+	type: 'entry'
+	/** The entry (with `txs` when following with `withTxs`) */
+	entry: ChainEntry
+	/** True if the entry was already at or below the rooted height */
+	rooted: boolean
+}
+
+/**
+ * Emitted when a temporal entry emitted earlier becomes rooted
+ */
+export interface ChainRootedEvent {
+	type: 'rooted'
+	/** The entry, as it was emitted */
+	entry: ChainEntry
+}
+
+/**
+ * Emitted when a temporal entry emitted earlier was replaced.
+ *
+ * Rollbacks come from the highest entry down; the replacements follow as
+ * `entry` events.
+ */
+export interface ChainRollbackEvent {
+	type: 'rollback'
+	/** The entry that is no longer part of the chain */
+	entry: ChainEntry
+}
+
+/**
+ * Event yielded by a `ChainFollower`
+ */
+export type ChainFollowerEvent = ChainEntryEvent | ChainRootedEvent | ChainRollbackEvent
+
+/**
+ * Chain follower options
+ */
+export interface ChainFollowerOptions {
+	/**
+	 * First height to emit (default: the tip height at the first poll).
+	 * Pass a saved `checkpoint + 1` to resume.
+	 */
+	fromHeight?: number
+	/** Fetch entries through `getByHeightWithTxs` so they carry their `txs` */
+	withTxs?: boolean
+	/** Delay between polls in milliseconds (default: 1000) */
+	pollInterval?: number
+	/** Stops the follower when aborted */
+	signal?: AbortSignal
+	/** Timeout for each request in milliseconds (default: the client timeout) */
+	timeout?: number
+}
+
+const DEFAULT_FOLLOWER_OPTIONS = {
+	pollInterval: 1_000,
+	withTxs: false
+}
+
+/**
+ * Follows the chain and yields entry, rooted and rollback events.
+ *
+ * Iterate it once; it runs until `stop()` is called, its signal aborts or a
+ * request fails with a non-retryable error. Retryable failures are retried at
+ * the next poll.
+ *
+ * @example
+ * ```ts
+ * const follower = sdk.chain.follow({ fromHeight: savedCheckpoint + 1 })
+ * for await (const event of follower) {
+ *   if (event.type === 'entry') index(event.entry)
+ *   if (event.type === 'rollback') unindex(event.entry)
+ *   if (follower.checkpoint !== undefined) save(follower.checkpoint)
+ * }
+ * ```
+ */
+export class ChainFollower implements AsyncIterable<ChainFollowerEvent> {
+	private readonly options: typeof DEFAULT_FOLLOWER_OPTIONS & ChainFollowerOptions
+	private readonly controller = new AbortController()
+	/** Emitted entries above the rooted height, in height order */
+	private readonly temporal: ChainEntry[] = []
+	/** Hashes of rolled-back entries, by height, so they are not picked again */
+	private readonly rejected = new Map<string, number>()
+	/** Highest emitted rooted entry */
+	private anchor?: ChainEntry
+	private nextHeight?: number
+	/** Removes the listener on `options.signal` */
+	private detachSignal?: () => void
+
+	/**
+	 * Create a follower
+	 *
+	 * @param chain - Chain API to poll
+	 * @param options - Follower options
+	 * @throws {ValidationError} If `fromHeight` or `pollInterval` is invalid
+	 */
+	constructor(
+		private readonly chain: ChainAPI,
+		options: ChainFollowerOptions = {}
+	) {
+		validate(ChainFollowerOptionsSchema, options)
+		this.options = { ...DEFAULT_FOLLOWER_OPTIONS, ...options }
+		this.nextHeight = options.fromHeight
+
+		const { signal } = options
+		if (signal?.aborted) {
+			this.stop()
+		} else if (signal) {
+			const onAbort = () => this.stop()
+			signal.addEventListener('abort', onAbort, { once: true })
+			this.detachSignal = () => signal.removeEventListener('abort', onAbort)
+		}
+	}
+
+	/**
+	 * Height of the highest rooted entry emitted so far.
+	 *
+	 * Everything up to it is final; persist it and pass `checkpoint + 1` as
+	 * `fromHeight` to resume without missing or repeating rooted entries.
+	 */
+	get checkpoint(): number | undefined {
+		return this.anchor?.header.height
+	}
+
+	/**
+	 * Stop following. A pending iteration ends without an error.
+	 */
+	stop(): void {
+		this.detachSignal?.()
+		this.controller.abort()
+	}
+
+	[Symbol.asyncIterator](): AsyncGenerator<ChainFollowerEvent, void, undefined> {
+		return this.run()
+	}
+
+	private async *run(): AsyncGenerator<ChainFollowerEvent, void, undefined> {
+		try {
+			while (!this.controller.signal.aborted) {
+				try {
+					yield* this.poll()
+				} catch (error) {
+					if (!(error instanceof AmadeusSDKError && error.isRetryable)) throw error
+				}
+				await sleep(this.options.pollInterval, [this.controller.signal])
+			}
+		} catch (error) {
+			if (error instanceof CancelledError && this.controller.signal.aborted) return
+			throw error
+		} finally {
+			this.detachSignal?.()
+		}
+	}
+
+	/**
+	 * Catch up with the node's tip, then promote entries that became rooted
+	 */
+	private async *poll(): AsyncGenerator<ChainFollowerEvent, void, undefined> {
+		const { stats } = await this.chain.getStats(this.requestOptions)
+		this.nextHeight ??= stats.height
+
+		for (;;) {
+			const head = this.temporal.at(-1)
+			// The tip was replaced without the height moving
+			if (head && head.header.height === stats.height && head.hash !== stats.tip_hash) {
+				yield this.rollback(head)
+				continue
+			}
+			const last = head ?? this.anchor
+			if (this.nextHeight > stats.height) break
+
+			const entries = await this.fetch(this.nextHeight)
+			if (entries.length === 0) break
+
+			const fresh = entries.filter((e) => !this.rejected.has(e.hash))
+			// Only rolled-back entries (e.g. a stale response): try again at the next poll
+			if (fresh.length === 0) break
+			let candidates = last ? fresh.filter((e) => e.header.prev_hash === last.hash) : fresh
+			if (candidates.length === 0) {
+				// The last temporal entry is not the parent of any entry at this height
+				if (head) {
+					yield this.rollback(head)
+					continue
+				}
+				// Rooted history is final, so there is nothing to roll back
+				candidates = fresh
+			}
+
+			const entry = candidates.find((e) => e.hash === stats.tip_hash) ?? candidates[0]
+			const rooted = entry.header.height <= stats.rooted_height
+			if (rooted) this.anchor = entry
+			else this.temporal.push(entry)
+			this.nextHeight = entry.header.height + 1
+			yield { type: 'entry', entry, rooted }
+		}
+
+		while (this.temporal.length > 0 && this.temporal[0].header.height <= stats.rooted_height) {
+			const [entry] = this.temporal.splice(0, 1)
+			this.anchor = entry
+			yield { type: 'rooted', entry }
+		}
+		for (const [hash, height] of this.rejected) {
+			if (height <= stats.rooted_height) this.rejected.delete(hash)
+		}
+	}
+
+	/** Drop the highest temporal entry and fetch its height again */
+	private rollback(entry: ChainEntry): ChainRollbackEvent {
+		this.temporal.pop()
+		this.rejected.set(entry.hash, entry.header.height)
+		this.nextHeight = entry.header.height
+		return { type: 'rollback', entry }
+	}
+
+	private async fetch(height: number): Promise<ChainEntry[]> {
+		try {
+			const { entries } = this.options.withTxs
+				? await this.chain.getByHeightWithTxs(height, this.requestOptions)
+				: await this.chain.getByHeight(height, this.requestOptions)
+			return entries
+		} catch (error) {
+			if (error instanceof NotFoundError) return []
+			throw error
+		}
+	}
+
+	private get requestOptions() {
+		return { signal: this.controller.signal, timeout: this.options.timeout, cache: false }
+	}
+}
@@ -1,15 +1,44 @@
 /**
  * HTTP Client
  *
- * Lightweight HTTP client using native fetch API (no axios dependency)
+ * Lightweight HTTP client (no axios dependency). Requests go through a pluggable
+ * `Transport`, fetch-based by default.
  * Provides request/response handling, timeout management, and error handling.
  */
 
-import type { AmadeusSDKConfig, ApiResponse } from './types'
+import type { AmadeusSDKConfig, ApiResponse, GetStatsResponse } from './types'
 import { AmadeusSDKError } from './types'
+import {
+	ApiError,
+	CancelledError,
+	HttpError,
+	NetworkError,
+	NotFoundError,
+	ResponseValidationError,
+	TimeoutError,
+	TransactionRejectedError,
+	ValidationError
+} from './errors'
 import { NODE_API_URL, DEFAULT_TIMEOUT, SDK_VERSION } from './constants'
 import { NonEmptyStringSchema } from './schemas'
 import { validate } from './validation'
+import type { RetryPolicy } from './retry'
+import {
+	DEFAULT_RETRY_POLICY,
+	NO_RETRY_POLICY,
+	isRetryableError,
+	nextRetryDelay,
+	resolveRetryPolicy,
+	sleep
+} from './retry'
+import { EndpointPool } from './endpoint-pool'
+import type { Transport, TransportResponse } from './transport'
+import { FetchTransport } from './transport'
+import type { Middleware, MiddlewareContext } from './middleware'
+import { ResponseCache } from './cache'
+import type { ResponseValidationIssue, ResponseValidationMode } from './response-schemas'
+import { checkResponse } from './response-schemas'
+import type { Schema } from 'effect'
 
 /**
  * Validates a URL string
@@ -23,27 +52,186 @@ function isValidUrl(url: string): boolean {
 	}
 }
 
+/**
+ * Validates a URL string and strips trailing slashes
+ */
+function normalizeBaseUrl(url: string): string {
+	if (!isValidUrl(url)) {
+		throw new ValidationError(`Invalid baseUrl: ${url}. Must be a valid HTTP/HTTPS URL.`)
+	}
+	return url.replace(/\/+$/, '')
+}
+
+/**
+ * Per-request options accepted by every client call and API module method
+ */
+export interface RequestOptions {
+	/** Aborting this signal cancels the request */
+	signal?: AbortSignal
+	/** Timeout for this request in milliseconds (overrides the client timeout) */
+	timeout?: number
+	/** Cancellation group the request belongs to */
+	group?: RequestGroup
+	/**
+	 * Whether repeating the request is harmless. Only idempotent requests are
+	 * retried; GET defaults to `true`, POST to `false`.
+	 */
+	idempotent?: boolean
+	/**
+	 * Set to `false` to bypass the response cache for this GET: the request
+	 * always goes to the node and does not join identical in-flight requests.
+	 * The fresh result still updates the cache.
+	 */
+	cache?: boolean
+	/**
+	 * Retry override for this request: `false` disables retries, `true` uses the
+	 * client policy (or the defaults if the client has none), and a partial
+	 * policy is merged over it.
+	 */
+	retry?: Partial<RetryPolicy> | boolean
+	/**
+	 * Schema the response is checked against when `responseValidation` is
+	 * enabled. The API modules set it; pass one for your own `client.get()` calls.
+	 */
+	schema?: Schema.Schema.AnyNoContext
+}
+
+/**
+ * Method, body and extra headers of a request, before the client adds its
+ * URL, default headers and signal
+ */
+interface RequestSpec {
+	method: string
+	body?: Uint8Array | string
+	headers?: Record<string, string>
+}
+
+/**
+ * Resolved client configuration
+ */
+interface ClientConfig {
+	baseUrl: string
+	timeout: number
+	headers: Record<string, string>
+}
+
+/**
+ * A set of requests that can be cancelled together.
+ *
+ * Cancelling a group aborts only the requests started with it, leaving other
+ * in-flight requests on the same client alone. The group stays usable after
+ * `cancel()` — requests started afterwards belong to a fresh generation.
+ *
+ * @example
+ * ```ts
+ * const screen = sdk.createRequestGroup()
+ * const tip = sdk.chain.getTip({ group: screen })
+ * const balance = sdk.wallet.getBalance(address, 'AMA', { group: screen })
+ *
+ * // Leaving the screen: abort its reads only
+ * screen.cancel()
+ * ```
+ */
+export class RequestGroup {
+	private controller = new AbortController()
+
+	/** Signal for the group's current generation of requests */
+	get signal(): AbortSignal {
+		return this.controller.signal
+	}
+
+	/**
+	 * Abort every in-flight request in the group
+	 */
+	cancel(): void {
+		this.controller.abort()
+		this.controller = new AbortController()
+	}
+}
+
+/**
+ * Forward aborts from external signals to a controller.
+ * Returns a function that detaches the listeners again.
+ */
+function linkSignals(
+	controller: AbortController,
+	signals: Array<AbortSignal | undefined>
+): () => void {
+	const onAbort = () => controller.abort()
+	const linked: AbortSignal[] = []
+	for (const signal of signals) {
+		if (!signal) continue
+		if (signal.aborted) {
+			controller.abort()
+			continue
+		}
+		signal.addEventListener('abort', onAbort, { once: true })
+		linked.push(signal)
+	}
+	return () => {
+		for (const signal of linked) {
+			signal.removeEventListener('abort', onAbort)
+		}
+	}
+}
+
+/**
+ * Settle with `promise`, or reject as cancelled as soon as a signal aborts.
+ * Used when several callers share one underlying request, so one caller's
+ * cancellation does not abort it for the others.
+ */
+function untilAborted<T>(promise: Promise<T>, signals: Array<AbortSignal | undefined>): Promise<T> {
+	const active = signals.filter((s): s is AbortSignal => s !== undefined)
+	if (active.length === 0) return promise
+	return new Promise<T>((resolve, reject) => {
+		const onAbort = () => {
+			cleanup()
+			reject(new CancelledError())
+		}
+		const cleanup = () => {
+			for (const signal of active) signal.removeEventListener('abort', onAbort)
+		}
+		if (active.some((s) => s.aborted)) {
+			onAbort()
+			return
+		}
+		for (const signal of active) signal.addEventListener('abort', onAbort, { once: true })
+		promise.then(
+			(value) => {
+				cleanup()
+				resolve(value)
+			},
+			(error: unknown) => {
+				cleanup()
+				reject(error)
+			}
+		)
+	})
+}
+
 export class AmadeusClient {
-	private config: Required<AmadeusSDKConfig>
-	private abortController: AbortController | null = null
+	private config: ClientConfig
+	private readonly transport: Transport
+	private readonly middleware: Middleware[] = []
+	private readonly responseCache?: ResponseCache
+	private requestSequence = 0
+	private retryPolicy: RetryPolicy
+	private readonly responseValidation: ResponseValidationMode
+	private readonly onValidationWarning: (issue: ResponseValidationIssue) => void
+	private readonly inFlight = new Set<AbortController>()
+	private cancellation = new AbortController()
+
+	private endpointPool?: EndpointPool
 
 	/**
 	 * Create a new AmadeusClient instance
 	 *
 	 * @param config - SDK configuration
-	 * @throws {AmadeusSDKError} If baseUrl is invalid
+	 * @throws {ValidationError} If baseUrl or an endpoint is invalid
 	 */
 	constructor(config: AmadeusSDKConfig) {
-		const baseUrl = config.baseUrl || NODE_API_URL
-
-		if (!isValidUrl(baseUrl)) {
-			throw new AmadeusSDKError(
-				`Invalid baseUrl: ${baseUrl}. Must be a valid HTTP/HTTPS URL.`
-			)
-		}
-
-		// Ensure baseUrl doesn't end with a slash
-		const normalizedBaseUrl = baseUrl.replace(/\/+$/, '')
+		const endpoints = (config.endpoints ?? []).map(normalizeBaseUrl)
+		const normalizedBaseUrl = endpoints[0] ?? normalizeBaseUrl(config.baseUrl || NODE_API_URL)
 
 		this.config = {
 			baseUrl: normalizedBaseUrl,
@@ -54,23 +242,79 @@ export class AmadeusClient {
 				...config.headers
 			}
 		}
+		this.retryPolicy = resolveRetryPolicy(config.retry)
+		this.transport = config.transport ?? new FetchTransport()
+		this.middleware.push(...(config.middleware ?? []))
+		this.responseValidation = config.responseValidation ?? 'off'
+		this.onValidationWarning =
+			config.onValidationWarning ??
+			((issue) =>
+				console.warn(`Unexpected response from ${issue.endpoint}: ${issue.message}`))
+		if (config.cache) {
+			this.responseCache = new ResponseCache(config.cache === true ? {} : config.cache)
+		}
+
+		if (endpoints.length > 0) {
+			this.endpointPool = new EndpointPool(endpoints, (url) => this.probe(url), config.pool)
+			this.endpointPool.start()
+		}
 	}
 
 	/**
 	 * Make a GET request
 	 *
+	 * With a response cache configured, cached data is served without a request
+	 * and identical concurrent GETs share one request.
+	 *
 	 * @param endpoint - API endpoint path
 	 * @param params - Optional query parameters
+	 * @param options - Optional signal, timeout and cancellation group
 	 * @returns Promise resolving to the response data
 	 */
-	async get<T = unknown>(endpoint: string, params?: Record<string, unknown>): Promise<T> {
+	async get<T = unknown>(
+		endpoint: string,
+		params?: Record<string, unknown>,
+		options: RequestOptions = {}
+	): Promise<T> {
 		validate(NonEmptyStringSchema, endpoint)
 
-		const url = this.buildUrl(endpoint, params)
-		const response = await this.request(url, {
-			method: 'GET'
-		})
-		return this.handleResponse(response) as Promise<T>
+		const load = (requestOptions: RequestOptions) =>
+			this.send(
+				endpoint,
+				params,
+				{
+					method: 'GET'
+				},
+				requestOptions,
+				async (response) =>
+					this.checkSchema(
+						endpoint,
+						await this.handleResponse(response, endpoint),
+						requestOptions
+					) as T
+			)
+
+		if (!this.responseCache) return load(options)
+
+		const url = new URL(this.buildUrl(endpoint, params))
+		const fresh = options.cache === false
+		const signals = [options.signal, options.group?.signal, this.cancellation.signal]
+		if (signals.some((s) => s?.aborted)) {
+			throw new CancelledError()
+		}
+
+		// The shared request is detached from this caller's signals; the caller
+		// stops waiting on cancellation while the request completes for others.
+		const shared = { ...options, signal: undefined, group: undefined }
+		return untilAborted(
+			this.responseCache.read(
+				url.pathname,
+				url.pathname + url.search,
+				() => load(shared),
+				fresh
+			),
+			signals
+		)
 	}
 
 	/**
@@ -78,22 +322,39 @@ export class AmadeusClient {
 	 *
 	 * @param endpoint - API endpoint path
 	 * @param data - Request body data (Uint8Array for binary, object for JSON)
+	 * @param options - Optional signal, timeout and cancellation group
 	 * @returns Promise resolving to the response data
 	 */
-	async post<T = unknown>(endpoint: string, data?: unknown): Promise<T> {
+	async post<T = unknown>(
+		endpoint: string,
+		data?: unknown,
+		options?: RequestOptions
+	): Promise<T> {
 		validate(NonEmptyStringSchema, endpoint)
 
-		const url = this.buildUrl(endpoint)
 		const { body, contentType } = this.prepareBody(data)
 
-		const response = await this.request(url, {
-			method: 'POST',
-			body,
-			headers: {
-				'Content-Type': contentType
-			}
-		})
-		return this.handleResponse(response) as Promise<T>
+		const result = await this.send(
+			endpoint,
+			undefined,
+			{
+				method: 'POST',
+				body,
+				headers: {
+					'Content-Type': contentType
+				}
+			},
+			options,
+			async (response) =>
+				this.checkSchema(
+					endpoint,
+					await this.handleResponse(response, endpoint),
+					options
+				) as T
+		)
+		// A submitted transaction can change balances and other cached reads
+		if (endpoint.startsWith('/api/tx/')) this.responseCache?.invalidate()
+		return result
 	}
 
 	/**
@@ -105,39 +366,270 @@ export class AmadeusClient {
 	 *
 	 * @param endpoint - API endpoint path
 	 * @param data - Request body data (Uint8Array for binary, object for JSON)
+	 * @param options - Optional signal, timeout and cancellation group
 	 * @returns Promise resolving to the raw response body
-	 * @throws {AmadeusSDKError} On a non-2xx response
+	 * @throws {HttpError} On a non-2xx response
 	 */
-	async postBinary(endpoint: string, data?: unknown): Promise<Uint8Array> {
+	async postBinary(
+		endpoint: string,
+		data?: unknown,
+		options?: RequestOptions
+	): Promise<Uint8Array> {
 		validate(NonEmptyStringSchema, endpoint)
 
-		const url = this.buildUrl(endpoint)
 		const { body, contentType } = this.prepareBody(data)
 
-		const response = await this.request(url, {
-			method: 'POST',
-			body,
-			headers: {
-				'Content-Type': contentType
+		return this.send(
+			endpoint,
+			undefined,
+			{
+				method: 'POST',
+				body,
+				headers: {
+					'Content-Type': contentType
+				}
+			},
+			options,
+			async (response) => {
+				if (!response.ok) {
+					// Reuse the JSON/text error decoding, which throws for !ok. The
+					// explicit throw after it keeps a future change to handleResponse
+					// from turning an error response into a bogus empty body.
+					await this.handleResponse(response, endpoint)
+					throw new HttpError(`HTTP ${response.status}`, response.status)
+				}
+
+				return new Uint8Array(await response.arrayBuffer())
 			}
-		})
+		)
+	}
 
-		if (!response.ok) {
-			// Reuse the JSON/text error decoding, which throws for !ok. The
-			// explicit throw after it keeps a future change to handleResponse
-			// from turning an error response into a bogus empty body.
-			await this.handleResponse(response)
-			throw new AmadeusSDKError(`HTTP ${response.status}`, response.status)
+	/**
+	 * Resolve the retry policy that applies to a request.
+	 *
+	 * Idempotency is not considered here; callers that can make a non-idempotent
+	 * request safe to repeat (such as transaction submission) use this directly.
+	 *
+	 * @param options - Per-request options
+	 * @returns Effective retry policy
+	 */
+	getRetryPolicy(options: RequestOptions = {}): RetryPolicy {
+		if (options.retry === undefined) return this.retryPolicy
+		if (options.retry === false) return NO_RETRY_POLICY
+		const base = this.retryPolicy.maxAttempts > 1 ? this.retryPolicy : DEFAULT_RETRY_POLICY
+		return options.retry === true ? base : { ...base, ...options.retry }
+	}
+
+	/**
+	 * Timeout of a request: its own `timeout`, or the client's
+	 *
+	 * @param options - Per-request options
+	 * @returns Timeout in milliseconds
+	 */
+	getTimeout(options: RequestOptions = {}): number {
+		return options.timeout && options.timeout > 0 ? options.timeout : this.config.timeout
+	}
+
+	/**
+	 * Wait out the backoff delay after a failed attempt.
+	 *
+	 * The wait is cancelled by the request's signal, its group and `cancel()`.
+	 *
+	 * @param policy - Retry policy in effect
+	 * @param attempt - Number of the attempt that just failed (1-based)
+	 * @param options - Per-request options
+	 * @param retryAfter - `Retry-After` header of the failed response, if any
+	 * @throws {CancelledError} If the request is cancelled while waiting
+	 */
+	async backoff(
+		policy: RetryPolicy,
+		attempt: number,
+		options: RequestOptions = {},
+		retryAfter?: string | null
+	): Promise<void> {
+		await this.delay(nextRetryDelay(policy, attempt, retryAfter), options)
+	}
+
+	/**
+	 * Wait between requests, cancellable like a request.
+	 *
+	 * @param ms - Delay in milliseconds
+	 * @param options - Per-request options whose signal and group cancel the wait
+	 * @throws {CancelledError} If cancelled by the signal, the group or `cancel()`
+	 */
+	async delay(ms: number, options: RequestOptions = {}): Promise<void> {
+		await sleep(ms, [options.signal, options.group?.signal, this.cancellation.signal])
+	}
+
+	/**
+	 * Run a request and read its response, retrying transient failures of
+	 * idempotent requests according to the retry policy.
+	 *
+	 * With an endpoint pool, each attempt first tries the best endpoint and an
+	 * idempotent request fails over through the remaining ones before the
+	 * attempt counts as failed.
+	 */
+	private async send<T>(
+		endpoint: string,
+		params: Record<string, unknown> | undefined,
+		init: RequestSpec,
+		options: RequestOptions = {},
+		read: (response: TransportResponse) => Promise<T>
+	): Promise<T> {
+		const idempotent = options.idempotent ?? init.method === 'GET'
+		const policy = idempotent ? this.getRetryPolicy(options) : NO_RETRY_POLICY
+		const requestId = this.nextRequestId()
+		let exchanges = 0
+
+		for (let attempt = 1; ; attempt++) {
+			const tried = new Set<string>()
+			let retryAfter: string | null = null
+			let failure: unknown
+
+			for (;;) {
+				const base = this.pool?.select(tried) ?? this.config.baseUrl
+				const started = Date.now()
+				retryAfter = null
+				try {
+					const context = this.createContext(
+						requestId,
+						++exchanges,
+						endpoint,
+						this.buildUrl(endpoint, params, base),
+						init
+					)
+					const result = await this.exchange(context, options, (response) => {
+						retryAfter = response.headers.get('retry-after')
+						return read(response)
+					})
+					this.pool?.reportSuccess(base)
+					this.pool?.notifyServed({
+						url: base,
+						endpoint,
+						method: init.method,
+						duration: Date.now() - started
+					})
+					return result
+				} catch (error) {
+					failure = error
+					if (!this.pool) break
+					this.pool.notifyServed({
+						url: base,
+						endpoint,
+						method: init.method,
+						duration: Date.now() - started,
+						error
+					})
+					if (!isRetryableError(error, DEFAULT_RETRY_POLICY)) break
+					this.pool.reportFailure(base)
+					tried.add(base)
+					if (!idempotent || this.pool.select(tried) === undefined) break
+				}
+			}
+
+			if (attempt >= policy.maxAttempts || !isRetryableError(failure, policy)) {
+				throw failure
+			}
+			await this.backoff(policy, attempt, options, retryAfter)
 		}
+	}
 
-		return new Uint8Array(await response.arrayBuffer())
+	/**
+	 * Fetch chain stats from a pool endpoint for a health check
+	 */
+	private async probe(baseUrl: string) {
+		const endpoint = '/api/chain/stats'
+		const context = this.createContext(
+			this.nextRequestId(),
+			1,
+			endpoint,
+			this.buildUrl(endpoint, undefined, baseUrl),
+			{ method: 'GET' }
+		)
+		const { stats } = await this.exchange(
+			context,
+			{ timeout: this.pool?.healthCheckTimeout },
+			(response) => this.handleResponse(response) as Promise<GetStatsResponse>
+		)
+		return stats
+	}
+
+	private nextRequestId(): string {
+		return globalThis.crypto?.randomUUID?.() ?? `req-${Date.now()}-${++this.requestSequence}`
+	}
+
+	private createContext(
+		requestId: string,
+		attempt: number,
+		endpoint: string,
+		url: string,
+		init: RequestSpec
+	): MiddlewareContext {
+		return {
+			requestId,
+			attempt,
+			method: init.method,
+			endpoint,
+			url,
+			headers: { ...this.config.headers, ...init.headers },
+			body: init.body,
+			startedAt: Date.now()
+		}
+	}
+
+	/**
+	 * Send one attempt through the middleware chain and the transport, then
+	 * read the response
+	 */
+	private async exchange<T>(
+		context: MiddlewareContext,
+		options: RequestOptions,
+		read: (response: TransportResponse) => Promise<T>
+	): Promise<T> {
+		let response: TransportResponse | undefined
+		try {
+			for (const middleware of this.middleware) {
+				await middleware.onRequest?.(context)
+			}
+			response = await this.request(
+				context.url,
+				{ method: context.method, body: context.body, headers: context.headers },
+				options
+			)
+			for (const middleware of [...this.middleware].reverse()) {
+				await middleware.onResponse?.({
+					...context,
+					response,
+					duration: Date.now() - context.startedAt
+				})
+			}
+			return await read(response)
+		} catch (error) {
+			for (const middleware of [...this.middleware].reverse()) {
+				try {
+					await middleware.onError?.({
+						...context,
+						error,
+						response,
+						duration: Date.now() - context.startedAt
+					})
+				} catch {
+					// Reporting must not replace the original failure
+				}
+			}
+			throw error
+		}
 	}
 
 	/**
 	 * Build full URL with query parameters
 	 */
-	private buildUrl(endpoint: string, params?: Record<string, unknown>): string {
-		const url = new URL(endpoint, this.config.baseUrl)
+	private buildUrl(
+		endpoint: string,
+		params?: Record<string, unknown>,
+		baseUrl: string = this.config.baseUrl
+	): string {
+		const url = new URL(endpoint, baseUrl)
 
 		if (params) {
 			for (const [key, value] of Object.entries(params)) {
@@ -153,23 +645,26 @@ export class AmadeusClient {
 	/**
 	 * Prepare request body and determine Content-Type
 	 */
-	private prepareBody(data?: unknown): { body: BodyInit | undefined; contentType: string } {
+	private prepareBody(data?: unknown): {
+		body: Uint8Array | string | undefined
+		contentType: string
+	} {
 		if (!data) {
 			return { body: undefined, contentType: 'application/octet-stream' }
 		}
 
 		// If it's already a Uint8Array or ArrayBuffer, send as binary
 		if (data instanceof Uint8Array) {
-			return { body: data as BodyInit, contentType: 'application/octet-stream' }
+			return { body: data, contentType: 'application/octet-stream' }
 		}
 		if (data instanceof ArrayBuffer) {
-			return { body: data as BodyInit, contentType: 'application/octet-stream' }
+			return { body: new Uint8Array(data), contentType: 'application/octet-stream' }
 		}
 
 		// If it's a Buffer (Node.js), convert to Uint8Array
 		if (typeof Buffer !== 'undefined' && Buffer.isBuffer(data)) {
 			return {
-				body: new Uint8Array(data) as BodyInit,
+				body: new Uint8Array(data),
 				contentType: 'application/octet-stream'
 			}
 		}
@@ -178,10 +673,10 @@ export class AmadeusClient {
 		if (typeof data === 'object' && data !== null) {
 			const obj = data as Record<string, unknown>
 			if ('txPacked' in obj && obj.txPacked instanceof Uint8Array) {
-				return { body: obj.txPacked as BodyInit, contentType: 'application/octet-stream' }
+				return { body: obj.txPacked, contentType: 'application/octet-stream' }
 			}
 			if ('tx_packed' in obj && obj.tx_packed instanceof Uint8Array) {
-				return { body: obj.tx_packed as BodyInit, contentType: 'application/octet-stream' }
+				return { body: obj.tx_packed, contentType: 'application/octet-stream' }
 			}
 		}
 
@@ -190,55 +685,79 @@ export class AmadeusClient {
 	}
 
 	/**
-	 * Make HTTP request with timeout
+	 * Make HTTP request with timeout through the transport.
+	 *
+	 * Every request gets its own AbortController, so concurrent requests never
+	 * share a timeout and cancelling one leaves the others running.
 	 */
-	private async request(url: string, options: RequestInit): Promise<Response> {
-		// Cancel previous request if any
-		if (this.abortController) {
-			this.abortController.abort()
-		}
-
-		this.abortController = new AbortController()
+	private async request(
+		url: string,
+		options: RequestSpec,
+		requestOptions: RequestOptions = {}
+	): Promise<TransportResponse> {
+		const timeout = this.getTimeout(requestOptions)
+
+		const controller = new AbortController()
+		let timedOut = false
 		const timeoutId = setTimeout(() => {
-			this.abortController?.abort()
-		}, this.config.timeout)
+			timedOut = true
+			controller.abort()
+		}, timeout)
+		const unlink = linkSignals(controller, [
+			requestOptions.signal,
+			requestOptions.group?.signal
+		])
+		this.inFlight.add(controller)
 
 		try {
-			const response = await fetch(url, {
-				...options,
-				headers: {
-					...this.config.headers,
-					...options.headers
-				},
-				signal: this.abortController.signal
-			})
+			if (controller.signal.aborted) {
+				throw new CancelledError()
+			}
 
-			clearTimeout(timeoutId)
-			return response
+			return await this.transport.request({
+				url,
+				method: options.method,
+				body: options.body,
+				headers: options.headers ?? {},
+				signal: controller.signal
+			})
 		} catch (error) {
-			clearTimeout(timeoutId)
+			if (error instanceof AmadeusSDKError) {
+				throw error
+			}
 			if (error instanceof Error) {
 				if (error.name === 'AbortError' || error.name === 'TimeoutError') {
-					throw new AmadeusSDKError(`Request timeout after ${this.config.timeout}ms`, 408)
+					if (timedOut) {
+						throw new TimeoutError(timeout)
+					}
+					throw new CancelledError()
 				}
-				throw new AmadeusSDKError(
-					`Request failed: ${error.message}`,
-					0,
-					error instanceof Error
-						? { message: error.message, name: error.name }
-						: { error: String(error) }
-				)
+				throw new NetworkError(`Request failed: ${error.message}`, {
+					message: error.message,
+					name: error.name
+				})
 			}
-			throw new AmadeusSDKError(`Request failed: ${String(error)}`, 0, {
+			throw new NetworkError(`Request failed: ${String(error)}`, {
 				error: String(error)
 			})
+		} finally {
+			clearTimeout(timeoutId)
+			unlink()
+			this.inFlight.delete(controller)
 		}
 	}
 
 	/**
 	 * Handle API response and parse errors
+	 *
+	 * @param response - Transport response
+	 * @param endpoint - API path, used to recognise transaction submissions
+	 * @throws {NotFoundError} On HTTP 404 or an API `not_found` error
+	 * @throws {HttpError} On any other non-2xx status
+	 * @throws {TransactionRejectedError} On an API error from a `/api/tx/*` endpoint
+	 * @throws {ApiError} On any other API error
 	 */
-	private async handleResponse(response: Response): Promise<unknown> {
+	private async handleResponse(response: TransportResponse, endpoint = ''): Promise<unknown> {
 		if (!response.ok) {
 			let errorData: unknown
 			const contentType = response.headers.get('content-type')
@@ -274,7 +793,13 @@ export class AmadeusClient {
 							: errorData
 						: response.statusText || 'Unknown error'
 
-			throw new AmadeusSDKError(
+			if (response.status === 404) {
+				throw new NotFoundError(
+					`HTTP ${response.status}: ${message}`,
+					errorData as Record<string, unknown>
+				)
+			}
+			throw new HttpError(
 				`HTTP ${response.status}: ${message}`,
 				response.status,
 				errorData as Record<string, unknown>
@@ -311,15 +836,19 @@ export class AmadeusClient {
 				const { error: _error, ...rest } = apiResponse
 				return rest
 			} else if (apiResponse.error === 'not_found') {
-				throw new AmadeusSDKError(
+				throw new NotFoundError(
 					'Resource not found',
-					404,
+					apiResponse as Record<string, unknown>
+				)
+			} else if (apiResponse.error && endpoint.startsWith('/api/tx/')) {
+				throw new TransactionRejectedError(
+					apiResponse.error,
 					apiResponse as Record<string, unknown>
 				)
 			} else {
-				throw new AmadeusSDKError(
+				throw new ApiError(
 					apiResponse.error || 'Unknown API error',
-					400,
+					undefined,
 					apiResponse as Record<string, unknown>
 				)
 			}
@@ -328,24 +857,51 @@ export class AmadeusClient {
 		return data
 	}
 
+	/**
+	 * Check response data against the request's schema according to the
+	 * `responseValidation` mode
+	 *
+	 * @returns The data, unchanged
+	 * @throws {ResponseValidationError} In strict mode, if the data does not match
+	 */
+	private checkSchema(endpoint: string, data: unknown, options: RequestOptions = {}): unknown {
+		if (!options.schema || this.responseValidation === 'off') return data
+
+		const message = checkResponse(options.schema, data)
+		if (message === undefined) return data
+
+		if (this.responseValidation === 'strict') {
+			throw new ResponseValidationError(endpoint, message, data as Record<string, unknown>)
+		}
+		this.onValidationWarning({ endpoint, message, data })
+		return data
+	}
+
 	/**
 	 * Get current configuration
 	 */
 	getConfig(): AmadeusSDKConfig {
-		return { ...this.config }
+		return {
+			...this.config,
+			baseUrl: this.pool?.select() ?? this.config.baseUrl,
+			retry: { ...this.retryPolicy },
+			responseValidation: this.responseValidation,
+			...(this.pool && { endpoints: this.pool.urls })
+		}
 	}
 
 	/**
-	 * Update base URL
+	 * Update base URL.
+	 *
+	 * Replaces the endpoint pool, if any, with this single endpoint.
 	 *
 	 * @param url - New base URL
-	 * @throws {AmadeusSDKError} If URL is invalid
+	 * @throws {ValidationError} If URL is invalid
 	 */
 	setBaseUrl(url: string): void {
-		if (!isValidUrl(url)) {
-			throw new AmadeusSDKError(`Invalid baseUrl: ${url}. Must be a valid HTTP/HTTPS URL.`)
-		}
-		this.config.baseUrl = url.replace(/\/+$/, '')
+		this.config.baseUrl = normalizeBaseUrl(url)
+		this.endpointPool?.stop()
+		this.endpointPool = undefined
 	}
 
 	/**
@@ -356,12 +912,60 @@ export class AmadeusClient {
 	}
 
 	/**
-	 * Cancel ongoing requests
+	 * Register middleware that runs around every request
+	 *
+	 * @param middleware - Hooks to add after the existing ones
+	 * @returns Function that removes the middleware again
+	 */
+	use(middleware: Middleware): () => void {
+		this.middleware.push(middleware)
+		return () => {
+			const index = this.middleware.indexOf(middleware)
+			if (index !== -1) this.middleware.splice(index, 1)
+		}
+	}
+
+	/**
+	 * Response cache, present when the client was configured with `cache`
+	 */
+	get cache(): ResponseCache | undefined {
+		return this.responseCache
+	}
+
+	/**
+	 * Endpoint pool, present when the client was configured with `endpoints`
+	 */
+	get pool(): EndpointPool | undefined {
+		return this.endpointPool
+	}
+
+	/**
+	 * Stop background work (endpoint health checks).
+	 * The client keeps working; it just stops probing endpoints.
+	 */
+	dispose(): void {
+		this.pool?.stop()
+	}
+
+	/**
+	 * Create a cancellation group for requests on this client
+	 */
+	createRequestGroup(): RequestGroup {
+		return new RequestGroup()
+	}
+
+	/**
+	 * Cancel every in-flight request on this client.
+	 *
+	 * To cancel a subset, start those requests with a `RequestGroup` and cancel
+	 * the group instead.
 	 */
 	cancel(): void {
-		if (this.abortController) {
-			this.abortController.abort()
-			this.abortController = null
+		for (const controller of this.inFlight) {
+			controller.abort()
 		}
+		this.inFlight.clear()
+		this.cancellation.abort()
+		this.cancellation = new AbortController()
 	}
 }
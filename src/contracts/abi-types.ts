@@ -18,6 +18,11 @@ export interface AbiInput {
 		readonly type?: string
 	}
 	readonly enum?: readonly string[]
+	/**
+	 * How the caller passes an `address` or `bytes` input. With `'base58'` the
+	 * value is decoded to raw bytes before it is sent; without it the text is sent as is.
+	 */
+	readonly encoding?: 'base58'
 }
 
 /**
@@ -35,12 +40,25 @@ export interface AbiFunction {
 }
 
 /**
- * Shape of any ABI definition (contractName, abi[], errors[], storage)
+ * Shape of an ABI event: a log line made of the event name followed by its
+ * space-separated fields, e.g. `transfer <receiver> <amount> <symbol>`.
+ * Field types: `string`, `address` (Base58), `bytes` (Base58), `integer`, `bool`.
+ */
+export interface AbiEvent {
+	readonly type: 'event'
+	readonly name: string
+	readonly inputs: readonly AbiInput[]
+	readonly description?: string
+}
+
+/**
+ * Shape of any ABI definition (contractName, abi[], events[], errors[], storage)
  */
 export interface AbiDefinition {
 	readonly contractName: string
 	readonly contractVersion?: string
 	readonly abi: readonly AbiFunction[]
+	readonly events?: readonly AbiEvent[]
 	readonly errors?: readonly unknown[]
 	readonly storage?: unknown
 }
@@ -0,0 +1,156 @@
+/**
+ * Coin Smart Contract ABI
+ *
+ * Built-in contract that holds AMA and custom token balances. Amounts are
+ * atomic units (integer strings); use `buildCoin*` to convert
+ * human-readable amounts with the token's decimals.
+ * Source of truth: ex/native/rdb/src/consensus/bic/coin.rs
+ */
+export const COIN_ABI = {
+	contractName: 'Coin',
+	contractVersion: '1.0.0',
+	abi: [
+		{
+			type: 'function',
+			name: 'transfer',
+			inputs: [
+				{
+					name: 'receiver',
+					type: 'address',
+					encoding: 'base58',
+					description:
+						'Recipient public key (48-byte raw bytes; Base58 when passed to createContract)'
+				},
+				{
+					name: 'amount',
+					type: 'string',
+					description: 'Amount in atomic units (positive integer as string)'
+				},
+				{
+					name: 'symbol',
+					type: 'string',
+					description: 'Token symbol (e.g. "AMA")'
+				}
+			],
+			outputs: [],
+			stateMutability: 'nonpayable',
+			description: 'Transfer tokens to another account',
+			requirements: [
+				'amount must be > 0',
+				'caller must hold at least `amount` of `symbol`',
+				'token must not be paused',
+				'token must not be soulbound'
+			]
+		},
+		{
+			type: 'function',
+			name: 'create_and_mint',
+			inputs: [
+				{
+					name: 'symbol',
+					type: 'string',
+					description: 'Token symbol (ASCII alphanumeric, 1-32 chars)'
+				},
+				{
+					name: 'amount',
+					type: 'string',
+					description: 'Initial supply in atomic units, minted to the caller'
+				},
+				{
+					name: 'decimals',
+					type: 'string',
+					description: 'Number of decimals (integer as string)'
+				},
+				{
+					name: 'mintable',
+					type: 'string',
+					enum: ['true', 'false'],
+					description: '"true" to allow minting more later'
+				},
+				{
+					name: 'pausable',
+					type: 'string',
+					enum: ['true', 'false'],
+					description: '"true" to allow pausing transfers'
+				},
+				{
+					name: 'soulbound',
+					type: 'string',
+					enum: ['true', 'false'],
+					description: '"true" to disable transfers'
+				}
+			],
+			outputs: [],
+			stateMutability: 'nonpayable',
+			description: 'Create a token owned by the caller and mint its initial supply',
+			requirements: [
+				'symbol must be ASCII alphanumeric, 1-32 chars',
+				'symbol must not already exist',
+				'amount must be > 0'
+			]
+		},
+		{
+			type: 'function',
+			name: 'mint',
+			inputs: [
+				{
+					name: 'symbol',
+					type: 'string',
+					description: 'Token symbol'
+				},
+				{
+					name: 'amount',
+					type: 'string',
+					description: 'Amount to mint in atomic units'
+				},
+				{
+					name: 'receiver',
+					type: 'address',
+					encoding: 'base58',
+					description:
+						'Recipient public key (48-byte raw bytes; Base58 when passed to createContract)'
+				}
+			],
+			outputs: [],
+			stateMutability: 'nonpayable',
+			description: 'Mint more of a token (token owner only)',
+			requirements: [
+				'token must exist and be mintable',
+				'caller must be the token owner',
+				'amount must be > 0'
+			]
+		},
+		{
+			type: 'function',
+			name: 'pause',
+			inputs: [
+				{
+					name: 'symbol',
+					type: 'string',
+					description: 'Token symbol'
+				},
+				{
+					name: 'direction',
+					type: 'string',
+					enum: ['true', 'false'],
+					description: '"true" to pause transfers, "false" to resume them'
+				}
+			],
+			outputs: [],
+			stateMutability: 'nonpayable',
+			description: 'Pause or resume transfers of a token (token owner only)',
+			requirements: ['token must exist and be pausable', 'caller must be the token owner']
+		}
+	],
+	storage: {
+		keys: [
+			{
+				name: 'balance',
+				pattern: 'account:{pk}:balance:{symbol}',
+				type: 'mapping',
+				description: 'Token balance of an account in atomic units'
+			}
+		]
+	},
+	errors: []
+} as const
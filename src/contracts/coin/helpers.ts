@@ -0,0 +1,137 @@
+/**
+ * Builder helpers for the Coin built-in contract.
+ *
+ * Each helper returns a `ContractCall` that can be passed to `TransactionBuilder`
+ * for signing and submission. Amounts are human-readable and converted to
+ * atomic units with the token's decimals; recipients are decoded from Base58
+ * to raw 48-byte public key bytes.
+ */
+
+import { toAtomicAma, toAtomicUnits } from '../../conversion'
+import { fromBase58 } from '../../encoding'
+import { ValidationError } from '../../errors'
+import { validateAddress } from '../../validation'
+import type { ContractCall } from '../contract-call'
+import type {
+	CoinCreateAndMintParams,
+	CoinMintParams,
+	CoinPauseParams,
+	CoinTransferParams
+} from './types'
+
+function checkSymbol(symbol: string): string {
+	if (!/^[A-Za-z0-9]{1,32}$/.test(symbol)) {
+		throw new ValidationError(`symbol must be 1-32 ASCII letters or digits, got '${symbol}'`)
+	}
+	return symbol
+}
+
+/** Without `decimals` the amount is converted like AMA, with `toAtomicAma()` */
+function positiveAtomic(amount: number | string, decimals?: number): string {
+	const atomic = decimals === undefined ? toAtomicAma(amount) : toAtomicUnits(amount, decimals)
+	if (!(atomic > 0)) {
+		throw new ValidationError(`amount must be greater than 0, got ${String(amount)}`)
+	}
+	return atomic.toString()
+}
+
+function recipientBytes(recipient: string): Uint8Array {
+	const result = validateAddress(recipient)
+	if (!result.valid) throw new ValidationError(`Invalid recipient: ${result.error}`)
+	return fromBase58(recipient)
+}
+
+/**
+ * Build a `Coin.transfer` ContractCall.
+ *
+ * Without `decimals` the amount is converted with `toAtomicAma()` (9 decimals).
+ *
+ * @throws {ValidationError} If the recipient is invalid or the amount is not positive
+ *
+ * @example
+ * ```ts
+ * const call = buildCoinTransfer({
+ *   recipient: '5Kd3N...',
+ *   amount: 10.5,
+ *   symbol: 'AMA'
+ * })
+ * TransactionBuilder.signCall(privateKey, call)
+ * ```
+ */
+export function buildCoinTransfer(params: CoinTransferParams): ContractCall {
+	return {
+		contract: 'Coin',
+		method: 'transfer',
+		args: [
+			recipientBytes(params.recipient),
+			positiveAtomic(params.amount, params.decimals),
+			params.symbol
+		]
+	}
+}
+
+/**
+ * Build a `Coin.create_and_mint` ContractCall.
+ *
+ * The caller becomes the token owner and receives the initial supply.
+ *
+ * @throws {ValidationError} If the symbol, amount or decimals are invalid
+ *
+ * @example
+ * ```ts
+ * const call = buildCoinCreateAndMint({
+ *   symbol: 'USDX',
+ *   amount: '1000000',
+ *   decimals: 6,
+ *   mintable: true
+ * })
+ * ```
+ */
+export function buildCoinCreateAndMint(params: CoinCreateAndMintParams): ContractCall {
+	return {
+		contract: 'Coin',
+		method: 'create_and_mint',
+		args: [
+			checkSymbol(params.symbol),
+			positiveAtomic(params.amount, params.decimals),
+			params.decimals.toString(),
+			params.mintable ? 'true' : 'false',
+			params.pausable ? 'true' : 'false',
+			params.soulbound ? 'true' : 'false'
+		]
+	}
+}
+
+/**
+ * Build a `Coin.mint` ContractCall.
+ *
+ * Only callable by the token owner, for mintable tokens.
+ *
+ * @throws {ValidationError} If the symbol, amount or recipient is invalid
+ */
+export function buildCoinMint(params: CoinMintParams): ContractCall {
+	return {
+		contract: 'Coin',
+		method: 'mint',
+		args: [
+			checkSymbol(params.symbol),
+			positiveAtomic(params.amount, params.decimals),
+			recipientBytes(params.recipient)
+		]
+	}
+}
+
+/**
+ * Build a `Coin.pause` ContractCall.
+ *
+ * Only callable by the token owner, for pausable tokens.
+ *
+ * @throws {ValidationError} If the symbol is invalid
+ */
+export function buildCoinPause(params: CoinPauseParams): ContractCall {
+	return {
+		contract: 'Coin',
+		method: 'pause',
+		args: [checkSymbol(params.symbol), params.paused ? 'true' : 'false']
+	}
+}
@@ -0,0 +1,3 @@
+export * from './abi'
+export * from './types'
+export * from './helpers'
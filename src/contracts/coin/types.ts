@@ -0,0 +1,65 @@
+/**
+ * Type definitions for the Coin built-in contract.
+ */
+
+/** Parameters for `Coin.transfer(receiver, amount, symbol)` */
+export interface CoinTransferParams {
+	/** Base58-encoded recipient address */
+	recipient: string
+	/** Amount in human-readable units (e.g. 10.5 AMA) */
+	amount: number | string
+	/** Token symbol (e.g. 'AMA') */
+	symbol: string
+	/** Token decimals (default: 9, as for AMA) */
+	decimals?: number
+}
+
+/** Parameters for `Coin.create_and_mint(symbol, amount, decimals, mintable, pausable, soulbound)` */
+export interface CoinCreateAndMintParams {
+	/** Token symbol (ASCII alphanumeric, 1-32 chars) */
+	symbol: string
+	/** Initial supply in human-readable units, minted to the caller */
+	amount: number | string
+	/** Token decimals */
+	decimals: number
+	/** Allow minting more later (default: false) */
+	mintable?: boolean
+	/** Allow pausing transfers (default: false) */
+	pausable?: boolean
+	/** Disable transfers (default: false) */
+	soulbound?: boolean
+}
+
+/** Parameters for `Coin.mint(symbol, amount, receiver)` */
+export interface CoinMintParams {
+	/** Token symbol */
+	symbol: string
+	/** Amount in human-readable units */
+	amount: number | string
+	/** Token decimals, as created */
+	decimals: number
+	/** Base58-encoded recipient address */
+	recipient: string
+}
+
+/** Parameters for `Coin.pause(symbol, direction)` */
+export interface CoinPauseParams {
+	/** Token symbol */
+	symbol: string
+	/** True to pause transfers, false to resume them */
+	paused: boolean
+}
+
+/** Inputs for builder convenience methods that need a private key */
+export interface CoinCreateAndMintInput extends CoinCreateAndMintParams {
+	/** Base58-encoded sender private key (seed) */
+	senderPrivkey: string
+}
+
+export interface CoinMintInput extends CoinMintParams {
+	senderPrivkey: string
+}
+
+export interface CoinPauseInput extends CoinPauseParams {
+	senderPrivkey: string
+}
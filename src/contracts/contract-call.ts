@@ -5,9 +5,13 @@
  * compile-time type safety and runtime validation.
  */
 
+import { AMADEUS_PUBLIC_KEY_BYTE_LENGTH } from '../constants'
+import { fromBase58 } from '../encoding'
+import { ValidationError } from '../errors'
 import type { SerializableValue } from '../types'
 import type {
 	AbiDefinition,
+	AbiInput,
 	ExtractContractName,
 	ExtractFunctionNames,
 	FunctionParams
@@ -42,6 +46,7 @@ export interface ContractCall<
  * - Validates function exists in ABI
  * - Validates all required params are present
  * - Validates enum constraints on inputs that declare them
+ * - Decodes inputs marked `encoding: 'base58'` to raw bytes
  *
  * @example
  * ```ts
@@ -87,7 +92,7 @@ export function buildContractCall<
 			}
 		}
 
-		args.push(value)
+		args.push(encodeArg(input, value, `${abi.contractName}.${String(functionName)}`))
 	}
 
 	return {
@@ -96,3 +101,24 @@ export function buildContractCall<
 		args
 	}
 }
+
+/**
+ * Decode an input marked `encoding: 'base58'` to raw bytes; `address` inputs
+ * must decode to a 48-byte public key. Other inputs are sent as text.
+ */
+function encodeArg(input: AbiInput, value: string, fn: string): SerializableValue {
+	if (input.encoding !== 'base58') return value
+
+	let bytes: Uint8Array
+	try {
+		bytes = fromBase58(value)
+	} catch {
+		throw new ValidationError(`Parameter "${input.name}" for ${fn} must be Base58`)
+	}
+	if (input.type === 'address' && bytes.length !== AMADEUS_PUBLIC_KEY_BYTE_LENGTH) {
+		throw new ValidationError(
+			`Parameter "${input.name}" for ${fn} must be a ${AMADEUS_PUBLIC_KEY_BYTE_LENGTH}-byte public key, got ${bytes.length} bytes`
+		)
+	}
+	return bytes
+}
@@ -20,11 +20,17 @@
  * // Signed — bind a private key, methods return BuildTransactionResult directly
  * const signed = createContract(LOCKUP_PRIME_ABI).connect(privateKey)
  * const result = signed.lock({ amount: toAtomicAma(100).toString(), tier: '30d' })
+ *
+ * // Or bind a Signer (KMS, remote, ...), methods return promises
+ * const remote = createContract(LOCKUP_PRIME_ABI).connect(signer)
+ * const pending = await remote.lock({ amount: toAtomicAma(100).toString(), tier: '30d' })
  * ```
  */
 
 import type { BuildTransactionResult } from '../types'
 import { signContractCall } from '../signing'
+import type { NonceOptions } from '../nonce'
+import type { Signer, SignerKey } from '../signer'
 import type { AbiDefinition, AbiInput } from './abi-types'
 import type { ContractCall } from './contract-call'
 import { buildContractCall } from './contract-call'
@@ -51,12 +57,13 @@ type ContractMethods<TAbi extends AbiDefinition> = {
 }
 
 /**
- * Same as ContractMethods but methods return signed `BuildTransactionResult`.
+ * Same as ContractMethods but methods return signed `BuildTransactionResult`
+ * (or a promise of it, for a `Signer`).
  */
-type SignedContractMethods<TAbi extends AbiDefinition> = {
+type SignedContractMethods<TAbi extends AbiDefinition, TResult> = {
 	readonly [F in TAbi['abi'][number] as F['name']]: F['inputs'] extends readonly []
-		? () => BuildTransactionResult
-		: (params: InputsToParams<F['inputs']>) => BuildTransactionResult
+		? () => TResult
+		: (params: InputsToParams<F['inputs']>) => TResult
 }
 
 // ── Public types ────────────────────────────────────────────────────
@@ -80,8 +87,17 @@ export type TypedContract<TAbi extends AbiDefinition> = ContractMethods<TAbi> &
 	 * derives keys, builds, and signs in one step.
 	 *
 	 * @param privateKey - Base58 encoded private key (seed)
+	 * @param options - Explicit nonce or nonce manager for every signed call
+	 */
+	connect(privateKey: string, options?: NonceOptions): SignedContract<TAbi>
+	/**
+	 * Bind a `Signer` to produce an `AsyncSignedContract` where every method
+	 * builds and signs in one step and resolves once the signer has signed.
+	 *
+	 * @param signer - Signer holding the key
+	 * @param options - Explicit nonce or nonce manager for every signed call
 	 */
-	connect(privateKey: string): SignedContract<TAbi>
+	connect(signer: Signer, options?: NonceOptions): AsyncSignedContract<TAbi>
 }
 
 /**
@@ -90,7 +106,25 @@ export type TypedContract<TAbi extends AbiDefinition> = ContractMethods<TAbi> &
  * Every ABI function is a method that returns `BuildTransactionResult`
  * (txHash + txPacked ready for submission).
  */
-export type SignedContract<TAbi extends AbiDefinition> = SignedContractMethods<TAbi> & {
+export type SignedContract<TAbi extends AbiDefinition> = SignedContractMethods<
+	TAbi,
+	BuildTransactionResult
+> & {
+	/** The original ABI definition */
+	readonly abi: TAbi
+	/** Contract name extracted from ABI */
+	readonly contractName: TAbi['contractName']
+}
+
+/**
+ * A `Signer`-bound contract interface.
+ *
+ * Every ABI function is a method that resolves to `BuildTransactionResult`.
+ */
+export type AsyncSignedContract<TAbi extends AbiDefinition> = SignedContractMethods<
+	TAbi,
+	Promise<BuildTransactionResult>
+> & {
 	/** The original ABI definition */
 	readonly abi: TAbi
 	/** Contract name extracted from ABI */
@@ -156,8 +190,8 @@ export function createContract<TAbi extends AbiDefinition>(abi: TAbi): TypedCont
 	const contract: Record<string, unknown> = {
 		abi,
 		contractName: abi.contractName,
-		connect(privateKey: string) {
-			return createSignedContract(abi, privateKey)
+		connect(sender: SignerKey, options?: NonceOptions) {
+			return createSignedContract(abi, sender, options)
 		}
 	}
 
@@ -175,8 +209,9 @@ export function createContract<TAbi extends AbiDefinition>(abi: TAbi): TypedCont
  */
 function createSignedContract<TAbi extends AbiDefinition>(
 	abi: TAbi,
-	privateKey: string
-): SignedContract<TAbi> {
+	sender: SignerKey,
+	options: NonceOptions = {}
+): SignedContract<TAbi> | AsyncSignedContract<TAbi> {
 	const contract: Record<string, unknown> = {
 		abi,
 		contractName: abi.contractName
@@ -185,9 +220,9 @@ function createSignedContract<TAbi extends AbiDefinition>(
 	for (const fn of abi.abi) {
 		contract[fn.name] = (params?: Record<string, string>) => {
 			const call = buildContractCall(abi, fn.name as never, (params ?? {}) as never)
-			return signContractCall(privateKey, call)
+			return signContractCall(sender, call, options)
 		}
 	}
 
-	return contract as SignedContract<TAbi>
+	return contract as SignedContract<TAbi> | AsyncSignedContract<TAbi>
 }
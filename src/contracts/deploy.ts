@@ -0,0 +1,49 @@
+/**
+ * Contract Deployment (Special Case)
+ *
+ * Deployment goes through the built-in `Contract` contract, which has no ABI:
+ * `Contract.deploy(wasm)` takes the raw WASM bytecode as its only argument and
+ * stores it under the signer's account. The deployed contract's address is
+ * the signer's public key, so calls to it use that Base58 key as `contract`.
+ */
+
+import { Contract, ContractFunction } from '../types'
+import type { ContractCall } from './contract-call'
+
+/**
+ * Parameters for building a contract deployment call
+ */
+export interface ContractDeployParams {
+	/** WASM bytecode */
+	bytecode: Uint8Array | ArrayBuffer
+}
+
+/**
+ * Deployment input for builder convenience methods that need a private key
+ */
+export interface ContractDeployInput extends ContractDeployParams {
+	/** Base58-encoded sender private key (seed) */
+	senderPrivkey: string
+}
+
+/**
+ * Build a `Contract.deploy` ContractCall.
+ *
+ * Check the bytecode first with `sdk.contract.validateBytecode`, or use
+ * `sdk.contract.deploy`, which validates, signs, submits and waits.
+ *
+ * @example
+ * ```ts
+ * const call = buildContractDeploy({ bytecode: wasm })
+ * const { txPacked } = TransactionBuilder.signCall(privateKey, call)
+ * ```
+ */
+export function buildContractDeploy(params: ContractDeployParams): ContractCall {
+	const bytecode =
+		params.bytecode instanceof ArrayBuffer ? new Uint8Array(params.bytecode) : params.bytecode
+	return {
+		contract: Contract.CONTRACT,
+		method: ContractFunction.DEPLOY,
+		args: [bytecode]
+	}
+}
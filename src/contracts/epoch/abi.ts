@@ -0,0 +1,105 @@
+/**
+ * Epoch Smart Contract ABI
+ *
+ * Built-in contract that tracks solutions, emission addresses and the
+ * validator (trainer) set of each epoch.
+ * Source of truth: ex/native/rdb/src/consensus/bic/epoch.rs
+ */
+export const EPOCH_ABI = {
+	contractName: 'Epoch',
+	contractVersion: '1.0.0',
+	abi: [
+		{
+			type: 'function',
+			name: 'submit_sol',
+			inputs: [
+				{
+					name: 'sol',
+					type: 'bytes',
+					encoding: 'base58',
+					description: 'Solution (1264 raw bytes; Base58 when passed to createContract)'
+				}
+			],
+			outputs: [],
+			stateMutability: 'nonpayable',
+			description: 'Submit a proof-of-work solution for the current epoch',
+			requirements: [
+				'sol must be 1264 bytes',
+				'sol epoch must be the current epoch',
+				'sol pop must be a valid proof of possession of sol pk',
+				'sol must not have been submitted before'
+			]
+		},
+		{
+			type: 'function',
+			name: 'set_emission_address',
+			inputs: [
+				{
+					name: 'address',
+					type: 'address',
+					encoding: 'base58',
+					description: 'Public key that receives the emissions (48-byte raw bytes)'
+				}
+			],
+			outputs: [],
+			stateMutability: 'nonpayable',
+			description: "Set the address that receives the caller's validator emissions",
+			requirements: ['address must be a 48-byte public key']
+		},
+		{
+			type: 'function',
+			name: 'slash_trainer',
+			inputs: [
+				{
+					name: 'epoch',
+					type: 'string',
+					description: 'Current epoch (integer as string)'
+				},
+				{
+					name: 'malicious_pk',
+					type: 'address',
+					encoding: 'base58',
+					description: 'Public key of the trainer to remove (48-byte raw bytes)'
+				},
+				{
+					name: 'signature',
+					type: 'bytes',
+					encoding: 'base58',
+					description:
+						'Aggregate BLS signature of the trainers voting to slash (96 bytes)'
+				},
+				{
+					name: 'mask_size',
+					type: 'string',
+					description: 'Number of trainers in the epoch (integer as string)'
+				},
+				{
+					name: 'mask',
+					type: 'bytes',
+					encoding: 'base58',
+					description: 'Bitmask of the trainers that signed, most significant bit first'
+				}
+			],
+			outputs: [],
+			stateMutability: 'nonpayable',
+			description: 'Remove a malicious trainer from the current epoch',
+			requirements: [
+				'epoch must be the current epoch',
+				'malicious_pk must be a current trainer',
+				'signers in mask must reach the slashing quorum',
+				'signature must verify against the masked trainers'
+			]
+		}
+	],
+	storage: {
+		keys: [
+			{
+				name: 'emission_address',
+				pattern: 'bic:epoch:emission_address:{pk}',
+				type: 'mapping',
+				description: 'Emission address of a validator (raw 48-byte pk)'
+			}
+		]
+	},
+	errors: []
+} as const
@@ -0,0 +1,148 @@
+/**
+ * Builder helpers for the Epoch built-in contract.
+ *
+ * Each helper validates its inputs and returns a `ContractCall` that can be
+ * passed to `TransactionBuilder` for signing and submission. Public keys are
+ * decoded from Base58 to raw 48-byte bytes; solutions, signatures and masks
+ * accept raw bytes or Base58.
+ */
+
+import { BLS_DST, blsVerify } from '../../crypto'
+import { fromBase58 } from '../../encoding'
+import { ValidationError } from '../../errors'
+import { validateAddress } from '../../validation'
+import type { ContractCall } from '../contract-call'
+import type {
+	EpochBytesInput,
+	EpochSetEmissionAddressParams,
+	EpochSlashTrainerParams,
+	EpochSolution,
+	EpochSubmitSolParams
+} from './types'
+
+/** Byte length of an epoch solution */
+export const EPOCH_SOLUTION_SIZE = 1264
+
+function toBytes(value: EpochBytesInput, name: string): Uint8Array {
+	if (typeof value !== 'string') return value
+	try {
+		return fromBase58(value)
+	} catch {
+		throw new ValidationError(`${name} must be bytes or Base58`)
+	}
+}
+
+function publicKeyBytes(publicKey: string, name: string): Uint8Array {
+	const result = validateAddress(publicKey)
+	if (!result.valid) throw new ValidationError(`Invalid ${name}: ${result.error}`)
+	return fromBase58(publicKey)
+}
+
+function nonNegativeInteger(value: number | bigint | string, name: string): string {
+	const text = value.toString()
+	if (!/^\d+$/.test(text)) {
+		throw new ValidationError(`${name} must be a non-negative integer, got ${text}`)
+	}
+	return BigInt(text).toString()
+}
+
+/**
+ * Take a solution apart.
+ *
+ * Layout: `epoch` (u32 little-endian) · `segment_vr_hash` (32) · `pk` (48) ·
+ * `pop` (96) · `computor` (48) · `nonce` (12) · `tensor_c` (1024).
+ *
+ * @param sol - Solution (raw or Base58)
+ * @returns The solution's fields
+ * @throws {ValidationError} If the solution is not `EPOCH_SOLUTION_SIZE` bytes
+ */
+export function parseEpochSolution(sol: EpochBytesInput): EpochSolution {
+	const bytes = toBytes(sol, 'sol')
+	if (bytes.length !== EPOCH_SOLUTION_SIZE) {
+		throw new ValidationError(`sol must be ${EPOCH_SOLUTION_SIZE} bytes, got ${bytes.length}`)
+	}
+	let offset = 4
+	const take = (length: number) => bytes.slice(offset, (offset += length))
+	return {
+		epoch: new DataView(bytes.buffer, bytes.byteOffset, 4).getUint32(0, true),
+		segmentVrHash: take(32),
+		pk: take(48),
+		pop: take(96),
+		computor: take(48),
+		nonce: take(12),
+		tensorC: take(1024)
+	}
+}
+
+/**
+ * Build an `Epoch.submit_sol` ContractCall.
+ *
+ * Checks the size of the solution and its proof of possession, which the
+ * node would otherwise reject on chain.
+ *
+ * @throws {ValidationError} If the solution is malformed or its `pop` does not verify
+ */
+export function buildEpochSubmitSol(params: EpochSubmitSolParams): ContractCall {
+	const sol = toBytes(params.sol, 'sol')
+	const { pk, pop } = parseEpochSolution(sol)
+	if (!blsVerify(pop, pk, pk, BLS_DST.POP)) {
+		throw new ValidationError('sol pop is not a valid proof of possession of sol pk')
+	}
+	return {
+		contract: 'Epoch',
+		method: 'submit_sol',
+		args: [sol]
+	}
+}
+
+/**
+ * Build an `Epoch.set_emission_address` ContractCall.
+ *
+ * @throws {ValidationError} If the address is not a Base58 48-byte public key
+ */
+export function buildEpochSetEmissionAddress(params: EpochSetEmissionAddressParams): ContractCall {
+	return {
+		contract: 'Epoch',
+		method: 'set_emission_address',
+		args: [publicKeyBytes(params.address, 'emission address')]
+	}
+}
+
+/**
+ * Build an `Epoch.slash_trainer` ContractCall.
+ *
+ * `mask` holds one bit per trainer of the epoch, most significant bit first,
+ * padded to whole bytes.
+ *
+ * @throws {ValidationError} If a key, the signature, the epoch or the mask is malformed
+ */
+export function buildEpochSlashTrainer(params: EpochSlashTrainerParams): ContractCall {
+	const signature = toBytes(params.signature, 'signature')
+	if (signature.length !== 96) {
+		throw new ValidationError(`signature must be 96 bytes, got ${signature.length}`)
+	}
+	const { maskSize } = params
+	if (!Number.isInteger(maskSize) || maskSize <= 0) {
+		throw new ValidationError(`maskSize must be a positive integer, got ${maskSize}`)
+	}
+	const mask = toBytes(params.mask, 'mask')
+	if (mask.length !== Math.ceil(maskSize / 8)) {
+		throw new ValidationError(
+			`mask must be ${Math.ceil(maskSize / 8)} bytes for ${maskSize} trainers, got ${mask.length}`
+		)
+	}
+	if (maskSize % 8 !== 0 && (mask[mask.length - 1] & (0xff >> (maskSize % 8))) !== 0) {
+		throw new ValidationError(`mask has bits set past trainer ${maskSize}`)
+	}
+	return {
+		contract: 'Epoch',
+		method: 'slash_trainer',
+		args: [
+			nonNegativeInteger(params.epoch, 'epoch'),
+			publicKeyBytes(params.maliciousPk, 'malicious trainer key'),
+			signature,
+			maskSize.toString(),
+			mask
+		]
+	}
+}
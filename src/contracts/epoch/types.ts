@@ -0,0 +1,64 @@
+/**
+ * Type definitions for the Epoch built-in contract.
+ */
+
+/** Binary value as raw bytes or Base58 */
+export type EpochBytesInput = Uint8Array | string
+
+/** Parameters for `Epoch.submit_sol(sol)` */
+export interface EpochSubmitSolParams {
+	/** Solution (1264 bytes, raw or Base58) */
+	sol: EpochBytesInput
+}
+
+/** Parameters for `Epoch.set_emission_address(address)` */
+export interface EpochSetEmissionAddressParams {
+	/** Base58-encoded public key that receives the emissions */
+	address: string
+}
+
+/** Parameters for `Epoch.slash_trainer(epoch, malicious_pk, signature, mask_size, mask)` */
+export interface EpochSlashTrainerParams {
+	/** Current epoch */
+	epoch: number | bigint | string
+	/** Base58-encoded public key of the trainer to remove */
+	maliciousPk: string
+	/** Aggregate signature of the trainers voting to slash (96 bytes, raw or Base58) */
+	signature: EpochBytesInput
+	/** Number of trainers in the epoch */
+	maskSize: number
+	/** Bitmask of the trainers that signed (raw or Base58) */
+	mask: EpochBytesInput
+}
+
+/** A solution taken apart, see `parseEpochSolution` */
+export interface EpochSolution {
+	/** Epoch the solution was computed for */
+	epoch: number
+	/** Hash of the segment VR it was computed against (32 bytes) */
+	segmentVrHash: Uint8Array
+	/** Public key of the validator the solution counts for (48 bytes) */
+	pk: Uint8Array
+	/** Proof of possession of `pk`: its signature of itself under `BLS_DST.POP` (96 bytes) */
+	pop: Uint8Array
+	/** Public key of the machine that computed it (48 bytes) */
+	computor: Uint8Array
+	/** Nonce (12 bytes) */
+	nonce: Uint8Array
+	/** Result tensor (1024 bytes) */
+	tensorC: Uint8Array
+}
+
+/** Inputs for builder convenience methods that need a private key */
+export interface EpochSubmitSolInput extends EpochSubmitSolParams {
+	/** Base58-encoded sender private key (seed) */
+	senderPrivkey: string
+}
+
+export interface EpochSetEmissionAddressInput extends EpochSetEmissionAddressParams {
+	senderPrivkey: string
+}
+
+export interface EpochSlashTrainerInput extends EpochSlashTrainerParams {
+	senderPrivkey: string
+}
@@ -2,6 +2,8 @@ export * from './abi-types'
 export * from './contract-call'
 export * from './contract'
 export * from './coin'
+export * from './deploy'
+export * from './epoch'
 export * from './lockup-prime'
 export * from './lockup'
 export * from './lockup-vault'
@@ -2,10 +2,12 @@
  * Token Conversion Utilities
  *
  * This module provides functions for converting between atomic units
- * and human-readable token amounts for the AMA token.
+ * and human-readable token amounts, for the AMA token and for tokens with
+ * any number of decimals.
  */
 
 import { AMA_TOKEN_DECIMALS, AMA_TOKEN_DECIMALS_MULTIPLIER } from './constants'
+import { ValidationError } from './errors'
 
 /**
  * Convert atomic AMA units to human-readable AMA amount
@@ -57,3 +59,87 @@ export function toAtomicAma(ama: number | string): number {
 	const [int, frac = ''] = num.toFixed(AMA_TOKEN_DECIMALS).split('.')
 	return parseInt(int + frac, 10)
 }
+
+function checkDecimals(decimals: number): void {
+	if (!Number.isInteger(decimals) || decimals < 0 || decimals > 100) {
+		throw new ValidationError(`decimals must be an integer from 0 to 100, got ${decimals}`)
+	}
+}
+
+/**
+ * Shortest round-trip decimal form of a number, with exponent notation
+ * (`1e-7`, `1.5e+21`) expanded
+ */
+function plainDecimal(amount: number): string {
+	const text = String(amount)
+	const match = /^(\d+)(?:\.(\d+))?e([+-]\d+)$/.exec(text)
+	if (!match) return text
+	const [, int, frac = '', exponent] = match
+	const digits = int + frac
+	const point = int.length + Number(exponent)
+	if (point <= 0) return `0.${'0'.repeat(-point)}${digits}`
+	if (point >= digits.length) return digits + '0'.repeat(point - digits.length)
+	return `${digits.slice(0, point)}.${digits.slice(point)}`
+}
+
+/**
+ * Convert a human-readable token amount to atomic units, for a token with
+ * the given number of decimals
+ *
+ * Strings are converted exactly, numbers from their shortest decimal form
+ * (`0.1`, not its binary expansion); extra fractional digits are truncated
+ * (never rounded up).
+ *
+ * @param amount - Human-readable amount (number or decimal string)
+ * @param decimals - Token decimals (AMA: 9)
+ * @returns Atomic units
+ * @throws {ValidationError} If the amount is negative or not a decimal number
+ *
+ * @example
+ * ```ts
+ * toAtomicUnits('12.5', 6)  // Returns 12500000n
+ * toAtomicUnits(1, 18)      // Returns 1000000000000000000n
+ * ```
+ */
+export function toAtomicUnits(amount: number | string, decimals: number): bigint {
+	checkDecimals(decimals)
+	if (typeof amount === 'number' && !Number.isFinite(amount)) {
+		throw new ValidationError(`Invalid amount: ${amount}`)
+	}
+	const text = typeof amount === 'number' ? plainDecimal(amount) : amount.trim()
+	const match = /^(\d*)(?:\.(\d*))?$/.exec(text)
+	if (!match || (match[1] === '' && !match[2])) {
+		throw new ValidationError(`Invalid amount: ${String(amount)}`)
+	}
+	const [, int, frac = ''] = match
+	return BigInt((int || '0') + frac.slice(0, decimals).padEnd(decimals, '0'))
+}
+
+/**
+ * Convert atomic units to a human-readable decimal string, for a token with
+ * the given number of decimals
+ *
+ * @param atomic - Atomic units (bigint, integer string or safe integer)
+ * @param decimals - Token decimals (AMA: 9)
+ * @returns Exact decimal string without trailing zeros
+ * @throws {ValidationError} If the value is not a non-negative integer
+ *
+ * @example
+ * ```ts
+ * fromAtomicUnits(12500000n, 6)  // Returns '12.5'
+ * ```
+ */
+export function fromAtomicUnits(atomic: bigint | string | number, decimals: number): string {
+	checkDecimals(decimals)
+	let value: bigint
+	try {
+		value = BigInt(atomic)
+	} catch {
+		throw new ValidationError(`Invalid atomic amount: ${String(atomic)}`)
+	}
+	if (value < 0n) throw new ValidationError(`Invalid atomic amount: ${String(atomic)}`)
+	const digits = value.toString().padStart(decimals + 1, '0')
+	const int = digits.slice(0, digits.length - decimals)
+	const frac = digits.slice(digits.length - decimals).replace(/0+$/, '')
+	return frac ? `${int}.${frac}` : int
+}
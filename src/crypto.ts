@@ -2,13 +2,15 @@
  * Cryptographic Utilities for Amadeus Protocol
  *
  * This module provides cryptographic functions for key generation and BLS12-381 operations
- * used by the Amadeus protocol.
+ * used by the Amadeus protocol: signing and verification under explicit domain separation
+ * tags (DSTs), signature and public key aggregation, and batch verification.
  */
 
 import { bls12_381 as bls } from '@noble/curves/bls12-381'
 
 import { AMADEUS_SEED_BYTE_LENGTH } from './constants'
 import { toBase58, fromBase58 } from './encoding'
+import { ValidationError } from './errors'
 
 // Constant: BLS12-381 group order
 const BLS12_381_ORDER = BigInt('0x73eda753299d7d483339d80809a1d80553bda402fffe5bfeffffffff00000001')
@@ -176,3 +178,245 @@ export function generateKeypair(): KeyPair {
 		privateKey: toBase58(seed64)
 	}
 }
+
+// ============================================================================
+// BLS12-381 SIGNATURES
+// ============================================================================
+
+/**
+ * Domain separation tags used by the Amadeus chain. A signature made under one
+ * tag never verifies under another, so a transaction signature cannot be
+ * replayed as, say, an entry signature.
+ */
+export const BLS_DST = {
+	/** Transaction hashes */
+	TX: 'AMADEUS_SIG_BLS12381G2_XMD:SHA-256_SSWU_RO_TX_',
+	/** Entry hashes, signed by validators */
+	ENTRY: 'AMADEUS_SIG_BLS12381G2_XMD:SHA-256_SSWU_RO_ENTRY_',
+	/** Attestations of entry mutations */
+	ATTESTATION: 'AMADEUS_SIG_BLS12381G2_XMD:SHA-256_SSWU_RO_ATT_',
+	/** Proofs of possession of a validator key */
+	POP: 'AMADEUS_SIG_BLS12381G2_XMD:SHA-256_SSWU_RO_POP_',
+	/** Entry VRF outputs */
+	VRF: 'AMADEUS_SIG_BLS12381G2_XMD:SHA-256_SSWU_RO_VRF_',
+	/** Validator set motions */
+	MOTION: 'AMADEUS_SIG_BLS12381G2_XMD:SHA-256_SSWU_RO_MOTION_',
+	/** Node messages */
+	NODE: 'AMADEUS_SIG_BLS12381G2_XMD:SHA-256_SSWU_RO_NODE_',
+	/** Signed node addresses (ANR) */
+	ANR: 'AMADEUS_SIG_BLS12381G2_XMD:SHA-256_SSWU_RO_ANR_',
+	/** Off-chain messages signed by wallets (`ama_signMessage`) */
+	MESSAGE: 'AMADEUS_SIG_BLS12381G2_XMD:SHA-256_SSWU_RO_MSG_'
+} as const
+
+/**
+ * Public key (48 bytes) or signature (96 bytes), raw or Base58
+ */
+export type BlsBytes = Uint8Array | string
+
+/**
+ * One signature to check in a batch
+ */
+export interface BlsBatchItem {
+	/** Signature (96 bytes, raw or Base58) */
+	signature: BlsBytes
+	/** Signed message, usually a 32-byte hash */
+	message: Uint8Array
+	/** Signer public key (48 bytes, raw or Base58) */
+	publicKey: BlsBytes
+}
+
+function bytes(value: BlsBytes): Uint8Array {
+	return typeof value === 'string' ? fromBase58(value) : value
+}
+
+/**
+ * Accepts a Base58 seed, a 64-byte seed or a 32-byte secret key
+ */
+function secretKeyBytes(secretKey: string | Uint8Array): Uint8Array {
+	if (typeof secretKey === 'string') return deriveSkAndSeed64FromBase58Seed(secretKey).sk
+	if (secretKey.length === AMADEUS_SEED_BYTE_LENGTH) return reduce512To256LE(secretKey)
+	if (secretKey.length === 32) return secretKey
+	throw new ValidationError('Secret key must be a 64-byte seed or a 32-byte key')
+}
+
+/**
+ * Sign a message
+ *
+ * @param message - Message to sign, usually a 32-byte hash
+ * @param secretKey - Base58 seed, 64-byte seed or 32-byte secret key
+ * @param dst - Domain separation tag (default: `BLS_DST.TX`)
+ * @returns 96-byte signature
+ *
+ * @example
+ * ```ts
+ * const signature = blsSign(txHash, privateKey)
+ * blsVerify(signature, txHash, publicKey) // true
+ * ```
+ */
+export function blsSign(
+	message: Uint8Array,
+	secretKey: string | Uint8Array,
+	dst: string = BLS_DST.TX
+): Uint8Array {
+	return bls.sign(message, secretKeyBytes(secretKey), { DST: dst })
+}
+
+/**
+ * Verify a signature. Never throws: malformed keys and signatures are invalid.
+ *
+ * @param signature - Signature (raw or Base58)
+ * @param message - Signed message
+ * @param publicKey - Signer public key (raw or Base58)
+ * @param dst - Domain separation tag the message was signed under (default: `BLS_DST.TX`)
+ * @returns True if the signature is valid
+ */
+export function blsVerify(
+	signature: BlsBytes,
+	message: Uint8Array,
+	publicKey: BlsBytes,
+	dst: string = BLS_DST.TX
+): boolean {
+	try {
+		return bls.verify(bytes(signature), message, bytes(publicKey), { DST: dst })
+	} catch {
+		return false
+	}
+}
+
+/**
+ * Add signatures together. The result verifies against the aggregated public
+ * keys (same message, see `verifyAggregate`) or against each key and message
+ * pair (`bls.verifyBatch`).
+ *
+ * @param signatures - Signatures (raw or Base58)
+ * @returns 96-byte aggregate signature
+ * @throws {ValidationError} If the list is empty or a signature is malformed
+ */
+export function aggregateSignatures(signatures: BlsBytes[]): Uint8Array {
+	if (signatures.length === 0) throw new ValidationError('No signatures to aggregate')
+	try {
+		return bls.aggregateSignatures(signatures.map(bytes))
+	} catch (error) {
+		throw new ValidationError(`Invalid signature: ${(error as Error).message}`)
+	}
+}
+
+/**
+ * Add public keys together.
+ *
+ * Only aggregate keys whose owners proved possession of the secret key (as
+ * validators do); otherwise a crafted key can forge an aggregate signature.
+ *
+ * @param publicKeys - Public keys (raw or Base58)
+ * @returns 48-byte aggregate public key
+ * @throws {ValidationError} If the list is empty or a key is malformed
+ */
+export function aggregatePublicKeys(publicKeys: BlsBytes[]): Uint8Array {
+	if (publicKeys.length === 0) throw new ValidationError('No public keys to aggregate')
+	try {
+		return bls.aggregatePublicKeys(publicKeys.map(bytes))
+	} catch (error) {
+		throw new ValidationError(`Invalid public key: ${(error as Error).message}`)
+	}
+}
+
+/**
+ * Verify an aggregate signature of one message by several signers, e.g. the
+ * validators that signed an entry. Never throws.
+ *
+ * @param signature - Aggregate signature (raw or Base58)
+ * @param message - Message every signer signed
+ * @param publicKeys - Signer public keys (raw or Base58)
+ * @param dst - Domain separation tag (default: `BLS_DST.TX`)
+ * @returns True if all the signers signed the message
+ *
+ * @example
+ * ```ts
+ * const signers = unmaskPublicKeys(fromBase58(entry.mask), validators)
+ * verifyAggregate(signature, entryHash, signers, BLS_DST.ENTRY)
+ * ```
+ */
+export function verifyAggregate(
+	signature: BlsBytes,
+	message: Uint8Array,
+	publicKeys: BlsBytes[],
+	dst: string = BLS_DST.TX
+): boolean {
+	if (publicKeys.length === 0) return false
+	try {
+		return bls.verify(bytes(signature), message, aggregatePublicKeys(publicKeys), { DST: dst })
+	} catch {
+		return false
+	}
+}
+
+/**
+ * Verify many independent signatures at once, in about half the pairings of
+ * checking them one by one. Each signature is weighted by a random scalar, so
+ * invalid signatures cannot cancel each other out. Never throws.
+ *
+ * @param items - Signatures with their messages and public keys
+ * @param dst - Domain separation tag of every signature (default: `BLS_DST.TX`)
+ * @returns True if every signature is valid (and for an empty batch)
+ *
+ * @example
+ * ```ts
+ * const ok = verifyBatch(txs.map((txu) => ({
+ *   signature: txu.signature,
+ *   message: txu.hash,
+ *   publicKey: txu.tx.signer as Uint8Array
+ * })))
+ * ```
+ */
+export function verifyBatch(items: BlsBatchItem[], dst: string = BLS_DST.TX): boolean {
+	if (items.length === 0) return true
+	try {
+		const sigs = bls.longSignatures
+		const G1 = bls.G1.Point
+		const G2 = bls.G2.Point
+		let signature = G2.ZERO
+		const messages = []
+		const publicKeys = []
+		for (const item of items) {
+			const weight = randomWeight()
+			signature = signature.add(
+				sigs.Signature.fromBytes(bytes(item.signature)).multiply(weight)
+			)
+			publicKeys.push(G1.fromBytes(bytes(item.publicKey)).multiply(weight))
+			messages.push(sigs.hash(item.message, dst))
+		}
+		return sigs.verifyBatch(signature, messages, publicKeys)
+	} catch {
+		return false
+	}
+}
+
+/** Random non-zero 64-bit scalar */
+function randomWeight(): bigint {
+	const random = new BigUint64Array(1)
+	crypto.getRandomValues(random)
+	return random[0] + 1n
+}
+
+/**
+ * Select the entries of a list whose bits are set in a participation mask,
+ * e.g. the validators that signed an entry (`ChainEntry.mask`). Bit `i` is
+ * bit `7 - i % 8` of byte `i / 8`, as in the node's bitstrings.
+ *
+ * @param mask - Mask bytes (decode a Base58 `mask` with `fromBase58`)
+ * @param items - Full list, in mask order (e.g. the epoch's validators)
+ * @returns The selected items, in order
+ * @throws {ValidationError} If the mask has bits set past the end of the list
+ */
+export function unmaskPublicKeys<T>(mask: Uint8Array, items: T[]): T[] {
+	const selected: T[] = []
+	for (let i = 0; i < mask.length * 8; i++) {
+		if ((mask[i >> 3] & (0x80 >> (i & 7))) === 0) continue
+		if (i >= items.length) {
+			throw new ValidationError(`Mask selects index ${i} of a ${items.length}-item list`)
+		}
+		selected.push(items[i])
+	}
+	return selected
+}
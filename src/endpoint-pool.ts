@@ -0,0 +1,315 @@
+/**
+ * Endpoint Pool
+ *
+ * Tracks the health of several RPC endpoints serving the same chain and picks
+ * the best one for each request. Endpoints are probed via `/api/chain/stats`;
+ * the pool prefers the highest `rooted_height`, then the lowest latency, and
+ * ejects endpoints that lag behind or keep failing.
+ */
+
+import type { ChainStats } from './types'
+
+/**
+ * Health state of an endpoint.
+ *
+ * - `unknown`: not probed yet
+ * - `healthy`: serving requests
+ * - `lagging`: rooted height too far behind the best endpoint (ejected until the next check)
+ * - `failing`: probe failed or too many consecutive request failures (ejected for a while)
+ */
+export type EndpointStatus = 'unknown' | 'healthy' | 'lagging' | 'failing'
+
+/**
+ * Health snapshot of a single endpoint
+ */
+export interface EndpointHealth {
+	/** Endpoint base URL */
+	url: string
+	/** Current status */
+	status: EndpointStatus
+	/** Tip height reported by the last successful probe */
+	height?: number
+	/** Rooted height reported by the last successful probe */
+	rootedHeight?: number
+	/** Round-trip time of the last successful probe in milliseconds */
+	latency?: number
+	/** Consecutive failed requests or probes */
+	consecutiveFailures: number
+	/** Time of the last probe (ms since epoch) */
+	lastCheckedAt?: number
+	/** A failing endpoint is tried again after this time (ms since epoch) */
+	ejectedUntil?: number
+}
+
+/**
+ * Emitted after every request attempt the pool routed
+ */
+export interface EndpointServedEvent {
+	/** Endpoint base URL that handled the attempt */
+	url: string
+	/** API path requested */
+	endpoint: string
+	/** HTTP method */
+	method: string
+	/** Duration of the attempt in milliseconds */
+	duration: number
+	/** Error thrown by the attempt, if it failed */
+	error?: unknown
+}
+
+/**
+ * Emitted whenever an endpoint's status changes
+ */
+export interface EndpointStatusChangeEvent {
+	/** Endpoint base URL */
+	url: string
+	/** Status before the change */
+	previous: EndpointStatus
+	/** Status after the change */
+	status: EndpointStatus
+	/** Health snapshot after the change */
+	health: EndpointHealth
+}
+
+/**
+ * Endpoint pool options
+ */
+export interface EndpointPoolOptions {
+	/** Interval between health checks in milliseconds (default: 30000, 0 disables) */
+	healthCheckInterval?: number
+	/** Timeout for a single health probe in milliseconds (default: 5000) */
+	healthCheckTimeout?: number
+	/** Rooted heights an endpoint may trail the best one before it is ejected (default: 5) */
+	maxLag?: number
+	/** Consecutive request failures before an endpoint is ejected (default: 3) */
+	failureThreshold?: number
+	/** How long a failing endpoint stays ejected in milliseconds (default: 60000) */
+	ejectionDuration?: number
+	/** Called after every request attempt with the endpoint that handled it */
+	onRequestServed?: (event: EndpointServedEvent) => void
+	/** Called whenever an endpoint changes status */
+	onStatusChange?: (event: EndpointStatusChangeEvent) => void
+}
+
+/**
+ * Fetches chain stats from an endpoint for a health check
+ */
+export type EndpointProbe = (url: string) => Promise<ChainStats>
+
+const DEFAULT_POOL_OPTIONS = {
+	healthCheckInterval: 30_000,
+	healthCheckTimeout: 5_000,
+	maxLag: 5,
+	failureThreshold: 3,
+	ejectionDuration: 60_000
+}
+
+/**
+ * Pool of RPC endpoints with health checks and ordered failover.
+ *
+ * The client owns the pool: it asks `select()` for an endpoint before each
+ * attempt and reports the outcome back. Create one through the
+ * `endpoints` config option rather than directly.
+ *
+ * @example
+ * ```ts
+ * const sdk = new AmadeusSDK({
+ *   endpoints: ['https://mainnet-rpc.ama.one/api', 'https://rpc-mirror.example/api'],
+ *   pool: {
+ *     onRequestServed: ({ url, endpoint }) => console.log(`${endpoint} served by ${url}`)
+ *   }
+ * })
+ * console.log(sdk.client.pool?.getHealth())
+ * ```
+ */
+export class EndpointPool {
+	private readonly health: EndpointHealth[]
+	private readonly options: typeof DEFAULT_POOL_OPTIONS & EndpointPoolOptions
+	private timer?: ReturnType<typeof setInterval>
+	private checking?: Promise<EndpointHealth[]>
+
+	/**
+	 * Create a pool
+	 *
+	 * @param urls - Endpoint base URLs, in order of preference before the first check
+	 * @param probe - Fetches chain stats from an endpoint
+	 * @param options - Pool options
+	 */
+	constructor(
+		urls: string[],
+		private readonly probe: EndpointProbe,
+		options: EndpointPoolOptions = {}
+	) {
+		this.health = urls.map((url) => ({ url, status: 'unknown', consecutiveFailures: 0 }))
+		this.options = { ...DEFAULT_POOL_OPTIONS, ...options }
+	}
+
+	/** Endpoint base URLs in configuration order */
+	get urls(): string[] {
+		return this.health.map((h) => h.url)
+	}
+
+	/** Timeout for a single health probe in milliseconds */
+	get healthCheckTimeout(): number {
+		return this.options.healthCheckTimeout
+	}
+
+	/**
+	 * Health snapshot of every endpoint
+	 */
+	getHealth(): EndpointHealth[] {
+		return this.health.map((h) => ({ ...h }))
+	}
+
+	/**
+	 * Pick the best endpoint for the next attempt.
+	 *
+	 * Available endpoints are ranked by rooted height (highest first), then
+	 * latency (lowest first), then configuration order. When every endpoint is
+	 * ejected the pool still returns one, so requests never fail without trying.
+	 *
+	 * @param exclude - Endpoints already tried for this request
+	 * @returns Endpoint base URL, or undefined if every endpoint is excluded
+	 */
+	select(exclude: ReadonlySet<string> = new Set()): string | undefined {
+		const candidates = this.health.filter((h) => !exclude.has(h.url))
+		if (candidates.length === 0) return undefined
+
+		const now = Date.now()
+		const available = candidates.filter((h) => this.isAvailable(h, now))
+		const ranked = (available.length > 0 ? available : candidates)
+			.map((h, order) => ({ h, order }))
+			.sort(
+				(a, b) =>
+					(b.h.rootedHeight ?? -1) - (a.h.rootedHeight ?? -1) ||
+					(a.h.latency ?? Infinity) - (b.h.latency ?? Infinity) ||
+					a.order - b.order
+			)
+		return ranked[0].h.url
+	}
+
+	/**
+	 * Record a successful request
+	 */
+	reportSuccess(url: string): void {
+		const health = this.find(url)
+		if (!health) return
+		health.consecutiveFailures = 0
+		if (health.status === 'failing') {
+			health.ejectedUntil = undefined
+			this.setStatus(health, 'healthy')
+		}
+	}
+
+	/**
+	 * Record an endpoint-level failure (network error, timeout or 5xx).
+	 * Ejects the endpoint once `failureThreshold` is reached.
+	 */
+	reportFailure(url: string): void {
+		const health = this.find(url)
+		if (!health) return
+		health.consecutiveFailures++
+		if (health.consecutiveFailures >= this.options.failureThreshold) {
+			health.ejectedUntil = Date.now() + this.options.ejectionDuration
+			this.setStatus(health, 'failing')
+		}
+	}
+
+	/**
+	 * Notify the `onRequestServed` hook
+	 */
+	notifyServed(event: EndpointServedEvent): void {
+		this.options.onRequestServed?.(event)
+	}
+
+	/**
+	 * Probe every endpoint and update its status.
+	 *
+	 * Concurrent calls share the check in progress.
+	 *
+	 * @returns Health snapshot after the check
+	 */
+	checkHealth(): Promise<EndpointHealth[]> {
+		this.checking ??= this.runHealthCheck().finally(() => {
+			this.checking = undefined
+		})
+		return this.checking
+	}
+
+	/**
+	 * Start periodic health checks (runs one immediately).
+	 * Does nothing if `healthCheckInterval` is 0 or checks are already running.
+	 */
+	start(): void {
+		if (this.timer || this.options.healthCheckInterval <= 0) return
+		void this.checkHealth()
+		this.timer = setInterval(() => void this.checkHealth(), this.options.healthCheckInterval)
+		// Don't keep Node processes alive just for health checks
+		if (typeof this.timer === 'object' && 'unref' in this.timer) this.timer.unref()
+	}
+
+	/**
+	 * Stop periodic health checks
+	 */
+	stop(): void {
+		if (this.timer) clearInterval(this.timer)
+		this.timer = undefined
+	}
+
+	private async runHealthCheck(): Promise<EndpointHealth[]> {
+		const results = await Promise.all(
+			this.health.map(async (health) => {
+				const started = Date.now()
+				try {
+					const stats = await this.probe(health.url)
+					return { health, stats, latency: Date.now() - started }
+				} catch {
+					return { health }
+				}
+			})
+		)
+
+		const now = Date.now()
+		const best = Math.max(-1, ...results.map((r) => (r.stats ? r.stats.rooted_height : -1)))
+
+		for (const { health, stats, latency } of results) {
+			health.lastCheckedAt = now
+			if (!stats) {
+				health.consecutiveFailures++
+				health.ejectedUntil = now + this.options.ejectionDuration
+				this.setStatus(health, 'failing')
+				continue
+			}
+			health.height = stats.height
+			health.rootedHeight = stats.rooted_height
+			health.latency = latency
+			health.consecutiveFailures = 0
+			health.ejectedUntil = undefined
+			this.setStatus(
+				health,
+				best - stats.rooted_height > this.options.maxLag ? 'lagging' : 'healthy'
+			)
+		}
+
+		return this.getHealth()
+	}
+
+	private isAvailable(health: EndpointHealth, now: number): boolean {
+		if (health.status === 'lagging') return false
+		if (health.status === 'failing') {
+			return health.ejectedUntil !== undefined && health.ejectedUntil <= now
+		}
+		return true
+	}
+
+	private find(url: string): EndpointHealth | undefined {
+		return this.health.find((h) => h.url === url)
+	}
+
+	private setStatus(health: EndpointHealth, status: EndpointStatus): void {
+		const previous = health.status
+		if (previous === status) return
+		health.status = status
+		this.options.onStatusChange?.({ url: health.url, previous, status, health: { ...health } })
+	}
+}
@@ -0,0 +1,314 @@
+/**
+ * Error Types
+ *
+ * Every failure the SDK throws is an `AmadeusSDKError`. The subclasses below
+ * tell failures apart without matching on messages: each carries a stable
+ * `code` and an `isRetryable` classification, and keeps the `status` values
+ * earlier versions used (0 for network failures, 408 for timeouts, 404 for
+ * missing resources, 400 for API-level errors).
+ *
+ * @example
+ * ```ts
+ * try {
+ *   await sdk.transaction.submit(txPacked)
+ * } catch (error) {
+ *   if (error instanceof TransactionRejectedError) {
+ *     console.error(error.reason, error.message)
+ *   } else if (error instanceof AmadeusSDKError && error.isRetryable) {
+ *     // try again later
+ *   }
+ * }
+ * ```
+ */
+
+import { AmadeusSDKError } from './types'
+import type {
+	TransactionExecutionError,
+	TransactionReceipt,
+	TransactionSimulation,
+	TransactionValidationError
+} from './types'
+import { getExecutionErrorMessage, getTransactionErrorMessage } from './transaction-errors'
+
+/**
+ * Stable identifier of an error kind
+ */
+export type AmadeusErrorCode =
+	| 'SDK_ERROR'
+	| 'NETWORK_ERROR'
+	| 'TIMEOUT'
+	| 'CANCELLED'
+	| 'NOT_FOUND'
+	| 'HTTP_ERROR'
+	| 'API_ERROR'
+	| 'VALIDATION_ERROR'
+	| 'INVALID_RESPONSE'
+	| 'TRANSACTION_REJECTED'
+	| 'TRANSACTION_FAILED'
+	| 'SIMULATION_FAILED'
+	| 'PROVIDER_ERROR'
+
+/**
+ * HTTP statuses that indicate a transient failure
+ */
+export const TRANSIENT_HTTP_STATUSES: readonly number[] = [408, 425, 429, 500, 502, 503, 504]
+
+/**
+ * The request never got a response (DNS, connection or transport failure)
+ */
+export class NetworkError extends AmadeusSDKError {
+	override readonly code = 'NETWORK_ERROR'
+
+	constructor(message: string, response?: Record<string, unknown>) {
+		super(message, 0, response)
+		this.name = 'NetworkError'
+	}
+
+	override get isRetryable(): boolean {
+		return true
+	}
+}
+
+/**
+ * The request did not complete within its timeout
+ */
+export class TimeoutError extends AmadeusSDKError {
+	override readonly code = 'TIMEOUT'
+
+	/**
+	 * @param timeout - Timeout that elapsed, in milliseconds
+	 * @param message - Error message (defaults to a request timeout message)
+	 */
+	constructor(
+		public readonly timeout: number,
+		message = `Request timeout after ${timeout}ms`
+	) {
+		super(message, 408)
+		this.name = 'TimeoutError'
+	}
+
+	override get isRetryable(): boolean {
+		return true
+	}
+}
+
+/**
+ * A wait (e.g. `transaction.waitFor`) reached its overall deadline. Unlike a
+ * request timeout it is final: the awaited condition did not happen in time,
+ * and repeating the wait will not make it happen sooner.
+ */
+export class WaitTimeoutError extends TimeoutError {
+	/**
+	 * @param timeout - Deadline that elapsed, in milliseconds
+	 * @param message - Error message
+	 */
+	constructor(timeout: number, message: string) {
+		super(timeout, message)
+		this.name = 'WaitTimeoutError'
+	}
+
+	override get isRetryable(): boolean {
+		return false
+	}
+}
+
+/**
+ * The request was cancelled through its signal, its group or `sdk.cancel()`
+ */
+export class CancelledError extends AmadeusSDKError {
+	override readonly code = 'CANCELLED'
+
+	constructor() {
+		super('Request cancelled')
+		this.name = 'CancelledError'
+	}
+}
+
+/**
+ * The node has no such resource (HTTP 404 or an API `not_found` error)
+ */
+export class NotFoundError extends AmadeusSDKError {
+	override readonly code = 'NOT_FOUND'
+
+	constructor(message = 'Resource not found', response?: Record<string, unknown>) {
+		super(message, 404, response)
+		this.name = 'NotFoundError'
+	}
+}
+
+/**
+ * The node answered with a non-2xx status
+ */
+export class HttpError extends AmadeusSDKError {
+	override readonly code = 'HTTP_ERROR'
+
+	constructor(message: string, status: number, response?: Record<string, unknown>) {
+		super(message, status, response)
+		this.name = 'HttpError'
+	}
+
+	/** True for 408, 425, 429 and 5xx gateway/availability statuses */
+	override get isRetryable(): boolean {
+		return TRANSIENT_HTTP_STATUSES.includes(this.status ?? -1)
+	}
+}
+
+/**
+ * The node answered with an `error` field other than `ok`
+ */
+export class ApiError extends AmadeusSDKError {
+	override readonly code: AmadeusErrorCode = 'API_ERROR'
+
+	/**
+	 * @param apiError - Value of the response's `error` field
+	 * @param message - Error message (defaults to `apiError`)
+	 * @param response - The response body
+	 */
+	constructor(
+		public readonly apiError: string,
+		message: string = apiError,
+		response?: Record<string, unknown>
+	) {
+		super(message, 400, response)
+		this.name = 'ApiError'
+	}
+}
+
+/**
+ * The node refused a submitted transaction.
+ *
+ * `reason` is the node's error code, usually a `TransactionValidationError`
+ * or `TransactionExecutionError` value; the message is its human-readable
+ * description from `getTransactionErrorMessage`.
+ */
+export class TransactionRejectedError extends ApiError {
+	override readonly code: AmadeusErrorCode = 'TRANSACTION_REJECTED'
+
+	constructor(
+		public readonly reason: TransactionValidationError | TransactionExecutionError | string,
+		response?: Record<string, unknown>
+	) {
+		super(reason, `${getTransactionErrorMessage(reason)} (${reason})`, response)
+		this.name = 'TransactionRejectedError'
+	}
+}
+
+/**
+ * A transaction was included on chain but its execution failed.
+ *
+ * `reason` is the receipt's `result`, usually a `TransactionExecutionError`
+ * value; the receipt keeps the execution logs.
+ */
+export class TransactionFailedError extends AmadeusSDKError {
+	override readonly code = 'TRANSACTION_FAILED'
+
+	/** Execution error code from the receipt */
+	readonly reason: TransactionExecutionError | string
+
+	/**
+	 * @param hash - Transaction hash
+	 * @param receipt - Receipt of the failed execution
+	 */
+	constructor(
+		public readonly hash: string,
+		public readonly receipt: TransactionReceipt
+	) {
+		const reason = receipt.result ?? 'unknown'
+		super(`${getTransactionErrorMessage(reason)} (${reason})`)
+		this.name = 'TransactionFailedError'
+		this.reason = reason
+	}
+}
+
+/**
+ * A simulated contract call failed, so the transaction was not signed.
+ *
+ * `reason` is the simulation's execution error, usually a
+ * `TransactionExecutionError` value; the simulation keeps the logs.
+ */
+export class SimulationFailedError extends AmadeusSDKError {
+	override readonly code = 'SIMULATION_FAILED'
+
+	/** Execution error code from the simulation */
+	readonly reason: TransactionExecutionError | string
+
+	/**
+	 * @param simulation - The failed simulation
+	 */
+	constructor(public readonly simulation: TransactionSimulation) {
+		const reason = simulation.error ?? 'unknown'
+		super(`${getExecutionErrorMessage(reason)} (${reason})`)
+		this.name = 'SimulationFailedError'
+		this.reason = reason
+	}
+}
+
+/**
+ * An argument or configuration value was rejected before any request was made
+ */
+export class ValidationError extends AmadeusSDKError {
+	override readonly code = 'VALIDATION_ERROR'
+
+	constructor(message: string) {
+		super(message)
+		this.name = 'ValidationError'
+	}
+}
+
+/**
+ * A node response did not match its schema (strict `responseValidation`)
+ */
+export class ResponseValidationError extends AmadeusSDKError {
+	override readonly code = 'INVALID_RESPONSE'
+
+	/**
+	 * @param endpoint - API path of the request
+	 * @param issues - Description of the mismatches
+	 * @param response - The response data
+	 */
+	constructor(
+		public readonly endpoint: string,
+		public readonly issues: string,
+		response?: Record<string, unknown>
+	) {
+		super(`Unexpected response from ${endpoint}: ${issues}`, undefined, response)
+		this.name = 'ResponseValidationError'
+	}
+}
+
+/**
+ * Error codes of wallet provider requests, following EIP-1193 / JSON-RPC
+ */
+export enum ProviderErrorCode {
+	/** The user rejected the request */
+	USER_REJECTED = 4001,
+	/** The dApp is not connected, or the account is not available to it */
+	UNAUTHORIZED = 4100,
+	/** The wallet does not support the method */
+	UNSUPPORTED_METHOD = 4200,
+	/** The provider is disconnected from the wallet */
+	DISCONNECTED = 4900,
+	/** The request parameters are invalid */
+	INVALID_PARAMS = -32602,
+	/** The wallet failed to handle the request */
+	INTERNAL = -32603
+}
+
+/**
+ * A wallet provider request failed; `rpcCode` tells why
+ */
+export class ProviderRpcError extends AmadeusSDKError {
+	override readonly code = 'PROVIDER_ERROR'
+
+	/**
+	 * @param rpcCode - Provider error code
+	 * @param message - Error message
+	 */
+	constructor(
+		public readonly rpcCode: ProviderErrorCode | number,
+		message: string
+	) {
+		super(message)
+		this.name = 'ProviderRpcError'
+	}
+}
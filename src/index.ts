@@ -35,6 +35,7 @@
  */
 
 export * from './types'
+export * from './errors'
 export * from './constants'
 export * from './networks'
 export * from './serialization'
@@ -48,8 +49,24 @@ export * from './validation'
 export * from './formatters'
 export * from './explorer'
 export * from './transaction-errors'
+export * from './nonce'
+export * from './signer'
 export * from './transaction-builder'
+export * from './transaction-decoder'
+export * from './log-decoder'
+export * from './transaction-describer'
+export * from './offline-signing'
+export * from './wallet-provider'
 export * from './client'
+export * from './retry'
+export * from './endpoint-pool'
+export * from './transport'
+export * from './recording'
+export * from './middleware'
+export * from './cache'
+export * from './response-schemas'
+export * from './chain-follower'
+export * from './transaction-lifecycle'
 export * from './api'
 export * from './sdk'
 export * from './contracts'
@@ -0,0 +1,285 @@
+/**
+ * Log Decoding
+ *
+ * Turns the logs in `TransactionReceipt.logs` and `ContractViewResponse.logs`
+ * into typed events. The node ASCII-dumps each log: printable bytes stay as
+ * they are, other bytes become `\xNN` escapes. Event logs are the event name
+ * followed by its space-separated fields; they are matched against the
+ * built-in contracts' events and any ABI `events` you pass. Anything else is
+ * returned as raw bytes, hex and (when printable) text.
+ */
+
+import { bytesToHex } from '@noble/hashes/utils'
+
+import { AMADEUS_PUBLIC_KEY_BYTE_LENGTH } from './constants'
+import type { AbiDefinition, AbiEvent } from './contracts/abi-types'
+import { fromBase58 } from './encoding'
+
+/**
+ * Log events of the built-in contracts, by contract name
+ */
+export const BUILTIN_LOG_EVENTS: Readonly<Record<string, readonly AbiEvent[]>> = {
+	Coin: [
+		event('transfer', ['receiver', 'address'], ['amount', 'integer'], ['symbol', 'string']),
+		event(
+			'create_and_mint',
+			['symbol', 'string'],
+			['amount', 'integer'],
+			['decimals', 'integer'],
+			['mintable', 'bool'],
+			['pausable', 'bool'],
+			['soulbound', 'bool']
+		),
+		event('mint', ['symbol', 'string'], ['amount', 'integer'], ['receiver', 'address']),
+		event('pause', ['symbol', 'string'], ['direction', 'bool'])
+	],
+	LockupPrime: [
+		event('lock', ['amount', 'integer'], ['tier', 'string'], ['vaultIndex', 'integer']),
+		event('unlock', ['vaultIndex', 'integer'], ['amount', 'integer']),
+		event('daily_checkin', ['vaultIndex', 'integer'], ['streak', 'integer'])
+	],
+	LockupVault: [
+		event(
+			'lock',
+			['vaultIndex', 'integer'],
+			['amount', 'integer'],
+			['tier', 'string'],
+			['validator', 'address']
+		),
+		event('unlock', ['vaultIndex', 'integer'], ['unlockAtEpoch', 'integer']),
+		event('set_validator', ['vaultIndex', 'integer'], ['validator', 'address']),
+		event('set_payout_address', ['vaultIndex', 'integer'], ['payoutAddress', 'address'])
+	],
+	Nft: [
+		event(
+			'transfer',
+			['receiver', 'address'],
+			['amount', 'integer'],
+			['collection', 'string'],
+			['token', 'string']
+		),
+		event(
+			'mint',
+			['receiver', 'address'],
+			['amount', 'integer'],
+			['collection', 'string'],
+			['token', 'string']
+		),
+		event('create_collection', ['collection', 'string'], ['soulbound', 'bool'])
+	]
+}
+
+/**
+ * Decoded event field: text, Base58 address, raw bytes, integer or flag
+ */
+export type LogFieldValue = string | Uint8Array | bigint | boolean
+
+/**
+ * A log recognized as a contract event
+ */
+export interface DecodedLogEvent {
+	kind: 'event'
+	/** Contract that defines the event */
+	contract: string
+	/** Event name */
+	event: string
+	/** Fields by name */
+	fields: Record<string, LogFieldValue>
+	/** The log as received */
+	raw: string
+}
+
+/**
+ * A log in no known format
+ */
+export interface UnknownLog {
+	kind: 'unknown'
+	/** The log as received */
+	raw: string
+	/** Log bytes, with `\xNN` escapes undone */
+	bytes: Uint8Array
+	/** Log bytes as hex */
+	hex: string
+	/** Log text, when the bytes are printable UTF-8 */
+	text?: string
+}
+
+/**
+ * Decoded log
+ */
+export type DecodedLog = DecodedLogEvent | UnknownLog
+
+/**
+ * Log decoding options
+ */
+export interface DecodeLogsOptions {
+	/**
+	 * Contract the logs come from (e.g. the transaction's `action.contract`).
+	 * Its events are tried first, which settles names several contracts share.
+	 */
+	contract?: string
+	/** ABIs whose `events` are recognized too, e.g. your WASM contracts */
+	abis?: readonly AbiDefinition[]
+}
+
+const utf8 = new TextDecoder('utf-8', { fatal: true })
+
+function event(name: string, ...fields: [name: string, type: string][]): AbiEvent {
+	return {
+		type: 'event',
+		name,
+		inputs: fields.map(([fieldName, type]) => ({ name: fieldName, type }))
+	}
+}
+
+/**
+ * Undo the node's ASCII dump of a log
+ *
+ * @param log - Log string from a receipt or view response
+ * @returns The log bytes: `\xNN` escapes and `\\` decoded, other characters as UTF-8
+ */
+export function parseLogDump(log: string): Uint8Array {
+	const bytes: number[] = []
+	const encoder = new TextEncoder()
+	for (let i = 0; i < log.length; i++) {
+		const char = log[i]
+		if (
+			char === '\\' &&
+			log[i + 1] === 'x' &&
+			/^[0-9a-fA-F]{2}$/.test(log.slice(i + 2, i + 4))
+		) {
+			bytes.push(parseInt(log.slice(i + 2, i + 4), 16))
+			i += 3
+		} else if (char === '\\' && log[i + 1] === '\\') {
+			bytes.push(0x5c)
+			i += 1
+		} else {
+			bytes.push(...encoder.encode(char))
+		}
+	}
+	return new Uint8Array(bytes)
+}
+
+/**
+ * Decode one log
+ *
+ * @param log - Log string from a receipt or view response
+ * @param options - Source contract and extra ABIs
+ * @returns The event, or the raw log when no event matches
+ *
+ * @example
+ * ```ts
+ * const decoded = decodeLog('transfer 5Kd3N... 1000000000 AMA', { contract: 'Coin' })
+ * // { kind: 'event', contract: 'Coin', event: 'transfer',
+ * //   fields: { receiver: '5Kd3N...', amount: 1000000000n, symbol: 'AMA' }, raw: ... }
+ * ```
+ */
+export function decodeLog(log: string, options: DecodeLogsOptions = {}): DecodedLog {
+	const bytes = parseLogDump(log)
+	const text = printableText(bytes)
+	if (text !== undefined) {
+		const [name, ...tokens] = text.split(' ')
+		for (const [contract, events] of candidateEvents(options)) {
+			for (const candidate of events) {
+				if (candidate.name !== name || candidate.inputs.length !== tokens.length) continue
+				const fields = decodeFields(candidate, tokens)
+				if (fields) return { kind: 'event', contract, event: name, fields, raw: log }
+			}
+		}
+	}
+	return {
+		kind: 'unknown',
+		raw: log,
+		bytes,
+		hex: bytesToHex(bytes),
+		...(text === undefined ? {} : { text })
+	}
+}
+
+/**
+ * Decode the logs of a receipt or view response
+ *
+ * @param logs - Log strings
+ * @param options - Source contract and extra ABIs
+ * @returns One decoded log per input log, in order
+ *
+ * @example
+ * ```ts
+ * const { receipt } = await sdk.transaction.get(txHash)
+ * for (const log of decodeLogs(receipt.logs, { contract: 'Coin' })) {
+ *   if (log.kind === 'event') console.log(log.event, log.fields)
+ * }
+ * ```
+ */
+export function decodeLogs(logs: readonly string[], options: DecodeLogsOptions = {}): DecodedLog[] {
+	return logs.map((log) => decodeLog(log, options))
+}
+
+/** Events to try, the source contract's first */
+function candidateEvents(options: DecodeLogsOptions): [string, readonly AbiEvent[]][] {
+	const all: [string, readonly AbiEvent[]][] = [
+		...(options.abis ?? []).map((abi): [string, readonly AbiEvent[]] => [
+			abi.contractName,
+			abi.events ?? []
+		]),
+		...Object.entries(BUILTIN_LOG_EVENTS)
+	]
+	if (options.contract === undefined) return all
+	return [
+		...all.filter(([contract]) => contract === options.contract),
+		...all.filter(([contract]) => contract !== options.contract)
+	]
+}
+
+function decodeFields(
+	candidate: AbiEvent,
+	tokens: string[]
+): Record<string, LogFieldValue> | undefined {
+	const fields: Record<string, LogFieldValue> = {}
+	for (const [i, input] of candidate.inputs.entries()) {
+		const value = decodeField(input.type, tokens[i])
+		if (value === undefined) return undefined
+		fields[input.name] = value
+	}
+	return fields
+}
+
+function decodeField(type: string, token: string): LogFieldValue | undefined {
+	switch (type) {
+		case 'integer':
+			return /^-?\d+$/.test(token) ? BigInt(token) : undefined
+		case 'bool':
+			return token === 'true' ? true : token === 'false' ? false : undefined
+		case 'address': {
+			const bytes = base58(token)
+			return bytes?.length === AMADEUS_PUBLIC_KEY_BYTE_LENGTH ? token : undefined
+		}
+		case 'bytes':
+			return base58(token)
+		default:
+			return token === '' ? undefined : token
+	}
+}
+
+function base58(token: string): Uint8Array | undefined {
+	try {
+		return fromBase58(token)
+	} catch {
+		return undefined
+	}
+}
+
+/** ASCII control character other than tab and newline */
+function isControl(byte: number): boolean {
+	return (byte < 0x20 && byte !== 0x09 && byte !== 0x0a) || byte === 0x7f
+}
+
+/** The bytes as text, if they are UTF-8 without control characters */
+function printableText(bytes: Uint8Array): string | undefined {
+	try {
+		const text = utf8.decode(bytes)
+		return bytes.some(isControl) ? undefined : text
+	} catch {
+		return undefined
+	}
+}
@@ -0,0 +1,84 @@
+/**
+ * Middleware
+ *
+ * Hooks that run around every request the client sends: before it goes out,
+ * when a response arrives and when an attempt fails. Use them for rotating
+ * auth headers, logging, metrics, request IDs and error reporting instead of
+ * wrapping each API module.
+ *
+ * Hooks run once per attempt, so a retried or failed-over request passes
+ * through them several times with the same `requestId` and increasing
+ * `attempt`. `onRequest` hooks run in registration order; `onResponse` and
+ * `onError` hooks run in reverse order.
+ */
+
+import type { TransportResponse } from './transport'
+
+/**
+ * Request about to be sent
+ */
+export interface MiddlewareContext {
+	/** Identifier shared by every attempt of one logical request */
+	requestId: string
+	/** Attempt number, 1-based, counting retries and failovers */
+	attempt: number
+	/** HTTP method */
+	method: string
+	/** API path, e.g. `/api/chain/tip` */
+	endpoint: string
+	/** Absolute URL, including the endpoint base and query */
+	url: string
+	/** Outgoing headers; `onRequest` hooks may add, change or remove entries */
+	headers: Record<string, string>
+	/** Request body */
+	body?: Uint8Array | string
+	/** Time the attempt started (ms since epoch) */
+	startedAt: number
+}
+
+/**
+ * A response received for an attempt (any status)
+ */
+export interface MiddlewareResponseContext extends MiddlewareContext {
+	response: TransportResponse
+	/** Time from `startedAt` to the response, in milliseconds */
+	duration: number
+}
+
+/**
+ * A failed attempt: network error, timeout, cancellation, HTTP or API error
+ */
+export interface MiddlewareErrorContext extends MiddlewareContext {
+	error: unknown
+	/** The response, when the failure came from its status or body */
+	response?: TransportResponse
+	/** Time from `startedAt` to the failure, in milliseconds */
+	duration: number
+}
+
+/**
+ * Request/response middleware.
+ *
+ * An error thrown by `onRequest` or `onResponse` fails the attempt. Errors
+ * thrown by `onError` are ignored so they never mask the original failure.
+ *
+ * @example
+ * ```ts
+ * sdk.use({
+ *   onRequest: async (ctx) => {
+ *     ctx.headers['Authorization'] = `Bearer ${await tokens.current()}`
+ *     ctx.headers['X-Request-Id'] = ctx.requestId
+ *   },
+ *   onResponse: ({ endpoint, response, duration }) =>
+ *     metrics.timing('rpc', duration, { endpoint, status: response.status }),
+ *   onError: ({ requestId, error }) => reporter.capture(error, { requestId })
+ * })
+ * ```
+ */
+export interface Middleware {
+	/** Optional name, for debugging */
+	name?: string
+	onRequest?(context: MiddlewareContext): void | Promise<void>
+	onResponse?(context: MiddlewareResponseContext): void | Promise<void>
+	onError?(context: MiddlewareErrorContext): void | Promise<void>
+}
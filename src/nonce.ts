@@ -0,0 +1,164 @@
+/**
+ * Nonce Management
+ *
+ * Every transaction carries a nonce that must be unique per signer. The node
+ * only accepts nonces above the signer's last one, so nonces are derived from
+ * the clock (`ms * 1_000_000`) and bumped by one whenever the clock has not
+ * moved past the last nonce handed out. A `NonceStore` keeps the last nonce
+ * across restarts; an injected clock makes transaction hashes reproducible.
+ */
+
+import { toBase58 } from './encoding'
+
+/**
+ * Hands out transaction nonces
+ */
+export interface NonceManager {
+	/**
+	 * Next nonce for a signer
+	 *
+	 * @param signer - Signer public key
+	 * @returns A nonce greater than every nonce previously returned for the signer
+	 */
+	next(signer: Uint8Array): bigint
+}
+
+/**
+ * Nonce control for building a transaction
+ */
+export interface NonceOptions {
+	/** Use this nonce as is instead of asking the nonce manager */
+	nonce?: bigint
+	/** Nonce manager to ask (default: `getDefaultNonceManager()`) */
+	nonceManager?: NonceManager
+}
+
+/**
+ * Persists the last nonce of each signer.
+ *
+ * Synchronous so that transaction building stays synchronous; back it with
+ * any key-value storage (`localStorage`, a file read at startup, ...).
+ */
+export interface NonceStore {
+	/** Last nonce saved for a signer (Base58 public key) */
+	load(signer: string): bigint | undefined
+	/** Save the last nonce handed out for a signer */
+	save(signer: string, nonce: bigint): void
+}
+
+/**
+ * Minimal synchronous key-value storage, e.g. `localStorage`
+ */
+export interface NonceStorage {
+	getItem(key: string): string | null
+	setItem(key: string, value: string): void
+}
+
+/**
+ * Monotonic nonce manager options
+ */
+export interface MonotonicNonceManagerOptions {
+	/** Current time in milliseconds (default: `Date.now`) */
+	clock?: () => number
+	/** Keeps the last nonce per signer across restarts */
+	store?: NonceStore
+}
+
+/** Nonces are milliseconds scaled by this factor, leaving room for same-millisecond bumps */
+const NONCE_SCALE = 1_000_000n
+
+/**
+ * Nonce manager that is strictly increasing per signer.
+ *
+ * Nonces follow the clock; two transactions in the same millisecond (or a
+ * clock that went backwards) get the last nonce plus one. With a fixed clock
+ * the sequence is fully deterministic.
+ *
+ * @example
+ * ```ts
+ * // Reproducible hashes in tests
+ * const nonces = new MonotonicNonceManager({ clock: () => 1_700_000_000_000 })
+ * const builder = new TransactionBuilder(privateKey, { nonceManager: nonces })
+ *
+ * // Survive restarts in the browser
+ * const persisted = new MonotonicNonceManager({ store: createStorageNonceStore(localStorage) })
+ * ```
+ */
+export class MonotonicNonceManager implements NonceManager {
+	private readonly last = new Map<string, bigint>()
+	private readonly clock: () => number
+	private readonly store?: NonceStore
+
+	/**
+	 * @param options - Clock and persistence
+	 */
+	constructor(options: MonotonicNonceManagerOptions = {}) {
+		this.clock = options.clock ?? Date.now
+		this.store = options.store
+	}
+
+	next(signer: Uint8Array): bigint {
+		const key = toBase58(signer)
+		const previous = this.last.get(key) ?? this.store?.load(key)
+		const fromClock = BigInt(Math.floor(this.clock())) * NONCE_SCALE
+		const nonce = previous !== undefined && fromClock <= previous ? previous + 1n : fromClock
+		this.last.set(key, nonce)
+		this.store?.save(key, nonce)
+		return nonce
+	}
+}
+
+/**
+ * In-memory nonce store, mainly for tests
+ */
+export class MemoryNonceStore implements NonceStore {
+	private readonly nonces = new Map<string, bigint>()
+
+	load(signer: string): bigint | undefined {
+		return this.nonces.get(signer)
+	}
+
+	save(signer: string, nonce: bigint): void {
+		this.nonces.set(signer, nonce)
+	}
+}
+
+/**
+ * Nonce store on top of a `localStorage`-like storage
+ *
+ * @param storage - Synchronous key-value storage
+ * @param prefix - Key prefix (default: `amadeus:nonce:`)
+ * @returns A nonce store keeping one key per signer
+ */
+export function createStorageNonceStore(
+	storage: NonceStorage,
+	prefix = 'amadeus:nonce:'
+): NonceStore {
+	return {
+		load(signer) {
+			const value = storage.getItem(prefix + signer)
+			return value === null ? undefined : BigInt(value)
+		},
+		save(signer, nonce) {
+			storage.setItem(prefix + signer, nonce.toString())
+		}
+	}
+}
+
+let defaultNonceManager: NonceManager = new MonotonicNonceManager()
+
+/**
+ * Nonce manager used when a build call does not pass one
+ */
+export function getDefaultNonceManager(): NonceManager {
+	return defaultNonceManager
+}
+
+/**
+ * Replace the process-wide default nonce manager
+ *
+ * @param manager - New default
+ */
+export function setDefaultNonceManager(manager: NonceManager): void {
+	defaultNonceManager = manager
+}
@@ -0,0 +1,525 @@
+/**
+ * Offline (Air-Gapped) Signing
+ *
+ * Moves an unsigned transaction to a machine holding the key and the
+ * signature back, as text that fits a file, a clipboard or a series of QR
+ * codes:
+ *
+ * 1. Online: `createUnsignedEnvelope` + `encodeEnvelope` (+ `splitEnvelope`)
+ * 2. Offline: `parseUnsignedEnvelope`, review `summary`, `signEnvelope`
+ * 3. Online: `assembleSignedTransaction` and submit the packed transaction
+ *
+ * Envelopes are versioned and self-describing. Every step recomputes the
+ * hash from the transaction body and rejects anything that does not match,
+ * so a corrupted or tampered envelope never gets signed or submitted.
+ */
+
+import type { PrivKey } from '@noble/curves/abstract/utils'
+import { bls12_381 as bls } from '@noble/curves/bls12-381'
+import { sha256 } from '@noble/hashes/sha2'
+
+import { base64ToUint8Array, fromBase58, toBase58, uint8ArrayToBase64 } from './encoding'
+import { ValidationError } from './errors'
+import { decode, encode } from './serialization'
+import { normalizeSignerSk, signHash } from './signing'
+import { decodeTransactionBody, verifyTransaction } from './transaction-decoder'
+import type {
+	BuildTransactionResult,
+	DecodedTransactionBody,
+	DecodedValue,
+	SerializableValue,
+	UnsignedTransactionWithHash
+} from './types'
+
+/** Current envelope format version */
+export const ENVELOPE_VERSION = 1
+
+/** Envelope kind of an unsigned transaction */
+export const UNSIGNED_ENVELOPE_TYPE = 'amadeus/unsigned-tx'
+
+/** Envelope kind of a detached transaction signature */
+export const SIGNATURE_ENVELOPE_TYPE = 'amadeus/tx-signature'
+
+const PART_PREFIX = 'amadeus/part'
+
+/**
+ * Text form of an envelope
+ *
+ * - `json`: readable, includes the summary
+ * - `base58` / `base64`: compact, the summary is rebuilt when parsing
+ */
+export type EnvelopeFormat = 'json' | 'base58' | 'base64'
+
+/**
+ * Human-readable description of an unsigned transaction, for review before signing
+ */
+export interface TransactionSummary {
+	/** Signer public key (Base58) */
+	signer: string
+	/** Nonce as a decimal string */
+	nonce: string
+	contract: string
+	function: string
+	/** Arguments as UTF-8 text when printable, Base58 otherwise */
+	args: string[]
+	attachedSymbol?: string
+	attachedAmount?: string
+}
+
+/**
+ * Portable unsigned transaction
+ */
+export interface UnsignedTransactionEnvelope {
+	type: typeof UNSIGNED_ENVELOPE_TYPE
+	version: number
+	/** Network the transaction is meant for (e.g. `mainnet`) */
+	network: string
+	/** Canonical encoding of the transaction body (Base58) */
+	tx: string
+	/** `sha256(tx)` (Base58) */
+	hash: string
+	summary: TransactionSummary
+}
+
+/**
+ * Signature produced offline for an unsigned transaction envelope
+ */
+export interface TransactionSignatureEnvelope {
+	type: typeof SIGNATURE_ENVELOPE_TYPE
+	version: number
+	network: string
+	/** Hash that was signed (Base58) */
+	hash: string
+	/** Signer public key (Base58) */
+	signer: string
+	/** BLS signature (Base58) */
+	signature: string
+}
+
+/**
+ * Any envelope
+ */
+export type TransactionEnvelope = UnsignedTransactionEnvelope | TransactionSignatureEnvelope
+
+const utf8 = new TextDecoder('utf-8', { fatal: true })
+const textDecoder = new TextDecoder()
+const PRINTABLE = /^[\x20-\x7e]*$/
+
+function describeBytes(bytes: Uint8Array): string {
+	try {
+		const text = utf8.decode(bytes)
+		if (PRINTABLE.test(text)) return text
+	} catch {
+		// Not UTF-8, fall through to Base58
+	}
+	return toBase58(bytes)
+}
+
+function summarize(tx: DecodedTransactionBody): TransactionSummary {
+	const { action } = tx
+	const summary: TransactionSummary = {
+		signer: toBase58(tx.signer),
+		nonce: tx.nonce.toString(),
+		contract: action.contract,
+		function: action.function,
+		args: action.args.map((arg) =>
+			arg instanceof Uint8Array ? describeBytes(arg) : String(arg)
+		)
+	}
+	if (action.attached_symbol !== undefined) summary.attachedSymbol = action.attached_symbol
+	if (action.attached_amount !== undefined) summary.attachedAmount = action.attached_amount
+	return summary
+}
+
+function sameSummary(a: TransactionSummary, b: TransactionSummary): boolean {
+	const keys = Object.keys(b) as (keyof TransactionSummary)[]
+	return (
+		Object.keys(a).length === keys.length &&
+		keys.every((key) => JSON.stringify(a[key]) === JSON.stringify(b[key]))
+	)
+}
+
+function sameBytes(a: Uint8Array, b: Uint8Array): boolean {
+	return a.length === b.length && a.every((byte, i) => byte === b[i])
+}
+
+function bytesField(value: string, name: string): Uint8Array {
+	try {
+		return fromBase58(value)
+	} catch {
+		throw new ValidationError(`Invalid envelope: ${name} is not Base58`)
+	}
+}
+
+/**
+ * Check an unsigned envelope and return it with a freshly computed summary
+ */
+function checkUnsigned(envelope: UnsignedTransactionEnvelope): UnsignedTransactionEnvelope {
+	const txEncoded = bytesField(envelope.tx, 'tx')
+	if (!sameBytes(sha256(txEncoded), bytesField(envelope.hash, 'hash'))) {
+		throw new ValidationError('Invalid envelope: hash does not match the transaction')
+	}
+	const summary = summarize(decodeTransactionBody(txEncoded))
+	if (envelope.summary !== undefined && !sameSummary(envelope.summary, summary)) {
+		throw new ValidationError('Invalid envelope: summary does not match the transaction')
+	}
+	return { ...envelope, summary }
+}
+
+function checkSignature(envelope: TransactionSignatureEnvelope): TransactionSignatureEnvelope {
+	if (bytesField(envelope.hash, 'hash').length !== 32) {
+		throw new ValidationError('Invalid envelope: hash must be 32 bytes')
+	}
+	if (bytesField(envelope.signer, 'signer').length !== 48) {
+		throw new ValidationError('Invalid envelope: signer must be 48 bytes')
+	}
+	if (bytesField(envelope.signature, 'signature').length !== 96) {
+		throw new ValidationError('Invalid envelope: signature must be 96 bytes')
+	}
+	return envelope
+}
+
+/**
+ * Check the common fields of a parsed envelope and dispatch on its type
+ */
+function checkEnvelope(value: unknown): TransactionEnvelope {
+	if (typeof value !== 'object' || value === null) {
+		throw new ValidationError('Invalid envelope: expected an object')
+	}
+	const envelope = value as Record<string, unknown>
+	if (envelope.version !== ENVELOPE_VERSION) {
+		throw new ValidationError(`Unsupported envelope version: ${String(envelope.version)}`)
+	}
+	if (typeof envelope.network !== 'string' || envelope.network === '') {
+		throw new ValidationError('Invalid envelope: network is required')
+	}
+	const strings = (...names: string[]) => {
+		for (const name of names) {
+			if (typeof envelope[name] !== 'string') {
+				throw new ValidationError(`Invalid envelope: ${name} must be a string`)
+			}
+		}
+	}
+	switch (envelope.type) {
+		case UNSIGNED_ENVELOPE_TYPE:
+			strings('tx', 'hash')
+			return checkUnsigned(value as UnsignedTransactionEnvelope)
+		case SIGNATURE_ENVELOPE_TYPE:
+			strings('hash', 'signer', 'signature')
+			return checkSignature(value as TransactionSignatureEnvelope)
+		default:
+			throw new ValidationError(`Unknown envelope type: ${String(envelope.type)}`)
+	}
+}
+
+/**
+ * Binary fields of an envelope; Base58 fields travel as raw bytes
+ */
+function toBinary(envelope: TransactionEnvelope): Record<string, SerializableValue> {
+	const common = { type: envelope.type, version: envelope.version, network: envelope.network }
+	if (envelope.type === UNSIGNED_ENVELOPE_TYPE) {
+		return { ...common, tx: fromBase58(envelope.tx), hash: fromBase58(envelope.hash) }
+	}
+	return {
+		...common,
+		hash: fromBase58(envelope.hash),
+		signer: fromBase58(envelope.signer),
+		signature: fromBase58(envelope.signature)
+	}
+}
+
+function fromBinary(bytes: Uint8Array): unknown {
+	let decoded: DecodedValue
+	try {
+		decoded = decode(bytes)
+	} catch {
+		throw new ValidationError('Invalid envelope: not a canonical encoding')
+	}
+	if (!(decoded instanceof Map)) throw new ValidationError('Invalid envelope: expected a map')
+
+	const envelope: Record<string, unknown> = {}
+	for (const [key, value] of decoded) {
+		if (!(key instanceof Uint8Array)) {
+			throw new ValidationError('Invalid envelope: bad field name')
+		}
+		const name = textDecoder.decode(key)
+		if (typeof value === 'bigint') {
+			envelope[name] = Number(value)
+		} else if (value instanceof Uint8Array) {
+			envelope[name] =
+				name === 'type' || name === 'network' ? textDecoder.decode(value) : toBase58(value)
+		}
+	}
+	return envelope
+}
+
+/**
+ * Wrap an unsigned transaction into a portable envelope.
+ *
+ * @param unsigned - Result of `TransactionBuilder.build` / `buildUnsigned`
+ * @param network - Network the transaction is meant for (e.g. `mainnet`)
+ * @returns Envelope carrying the transaction, its hash and a readable summary
+ * @throws {ValidationError} If the hash does not match the transaction
+ *
+ * @example
+ * ```ts
+ * const unsigned = TransactionBuilder.build(signerPk, 'Coin', 'transfer', args)
+ * const text = encodeEnvelope(createUnsignedEnvelope(unsigned, 'mainnet'))
+ * const qrCodes = splitEnvelope(text, 500)
+ * ```
+ */
+export function createUnsignedEnvelope(
+	unsigned: UnsignedTransactionWithHash,
+	network: string
+): UnsignedTransactionEnvelope {
+	return checkEnvelope({
+		type: UNSIGNED_ENVELOPE_TYPE,
+		version: ENVELOPE_VERSION,
+		network,
+		tx: toBase58(encode(unsigned.tx)),
+		hash: toBase58(unsigned.hash)
+	}) as UnsignedTransactionEnvelope
+}
+
+/**
+ * Serialize an envelope to text.
+ *
+ * Base58 and Base64 forms are prefixed with the envelope type, version and
+ * format (`amadeus/unsigned-tx:1:base58:...`) so that they stay self-describing.
+ *
+ * @param envelope - Envelope to serialize
+ * @param format - Text form (default: `base58`)
+ * @returns Envelope text
+ */
+export function encodeEnvelope(
+	envelope: TransactionEnvelope,
+	format: EnvelopeFormat = 'base58'
+): string {
+	if (format === 'json') return JSON.stringify(envelope)
+	const bytes = encode(toBinary(envelope))
+	const payload = format === 'base58' ? toBase58(bytes) : uint8ArrayToBase64(bytes)
+	return `${envelope.type}:${envelope.version}:${format}:${payload}`
+}
+
+/**
+ * Parse and check envelope text in any of the `encodeEnvelope` forms.
+ *
+ * @param text - Envelope text
+ * @returns The envelope, with the summary of unsigned transactions recomputed
+ * @throws {ValidationError} If the text is malformed, of an unknown version,
+ *         or its hash or summary does not match the transaction
+ */
+export function parseEnvelope(text: string): TransactionEnvelope {
+	const trimmed = text.trim()
+	if (trimmed.startsWith('{')) {
+		let parsed: unknown
+		try {
+			parsed = JSON.parse(trimmed)
+		} catch {
+			throw new ValidationError('Invalid envelope: malformed JSON')
+		}
+		return checkEnvelope(parsed)
+	}
+
+	const [type, version, format, payload, ...rest] = trimmed.split(':')
+	if (payload === undefined || rest.length > 0 || (format !== 'base58' && format !== 'base64')) {
+		throw new ValidationError('Invalid envelope: unrecognized text form')
+	}
+	let bytes: Uint8Array
+	try {
+		bytes = format === 'base58' ? fromBase58(payload) : base64ToUint8Array(payload)
+	} catch {
+		throw new ValidationError(`Invalid envelope: payload is not ${format}`)
+	}
+	const envelope = fromBinary(bytes) as Record<string, unknown>
+	if (envelope.type !== type || String(envelope.version) !== version) {
+		throw new ValidationError('Invalid envelope: header does not match the payload')
+	}
+	return checkEnvelope(envelope)
+}
+
+/**
+ * Parse and check an unsigned transaction envelope.
+ *
+ * @param input - Envelope text or object
+ * @returns The checked envelope
+ * @throws {ValidationError} If the input is not a valid unsigned envelope
+ */
+export function parseUnsignedEnvelope(
+	input: string | UnsignedTransactionEnvelope
+): UnsignedTransactionEnvelope {
+	const envelope = typeof input === 'string' ? parseEnvelope(input) : checkEnvelope(input)
+	if (envelope.type !== UNSIGNED_ENVELOPE_TYPE) {
+		throw new ValidationError(`Expected an unsigned transaction envelope, got ${envelope.type}`)
+	}
+	return envelope
+}
+
+/**
+ * Parse and check a signature envelope.
+ *
+ * @param input - Envelope text or object
+ * @returns The checked envelope
+ * @throws {ValidationError} If the input is not a valid signature envelope
+ */
+export function parseSignatureEnvelope(
+	input: string | TransactionSignatureEnvelope
+): TransactionSignatureEnvelope {
+	const envelope = typeof input === 'string' ? parseEnvelope(input) : checkEnvelope(input)
+	if (envelope.type !== SIGNATURE_ENVELOPE_TYPE) {
+		throw new ValidationError(`Expected a signature envelope, got ${envelope.type}`)
+	}
+	return envelope
+}
+
+/**
+ * Sign an unsigned transaction envelope, typically on the offline machine.
+ *
+ * @param input - Unsigned envelope text or object
+ * @param signerSk - Private key of the transaction signer
+ * @returns Signature envelope to carry back online
+ * @throws {ValidationError} If the envelope is invalid or the key is not the signer's
+ *
+ * @example
+ * ```ts
+ * const unsigned = parseUnsignedEnvelope(joinEnvelope(scannedParts))
+ * confirm(unsigned.summary)
+ * const reply = encodeEnvelope(signEnvelope(unsigned, privateKey))
+ * ```
+ */
+export function signEnvelope(
+	input: string | UnsignedTransactionEnvelope,
+	signerSk: PrivKey | string | Uint8Array
+): TransactionSignatureEnvelope {
+	const envelope = parseUnsignedEnvelope(input)
+	const signer = toBase58(bls.getPublicKey(normalizeSignerSk(signerSk)))
+	if (signer !== envelope.summary.signer) {
+		throw new ValidationError('Signing key does not match the transaction signer')
+	}
+	return {
+		type: SIGNATURE_ENVELOPE_TYPE,
+		version: ENVELOPE_VERSION,
+		network: envelope.network,
+		hash: envelope.hash,
+		signer,
+		signature: toBase58(signHash(fromBase58(envelope.hash), signerSk))
+	}
+}
+
+/**
+ * Combine an unsigned envelope with its offline signature into a packed
+ * transaction ready for submission.
+ *
+ * @param unsignedInput - Unsigned envelope text or object
+ * @param signatureInput - Signature envelope text or object
+ * @returns Transaction hash and packed transaction
+ * @throws {ValidationError} If the envelopes do not belong together or the
+ *         signature does not verify
+ *
+ * @example
+ * ```ts
+ * const { txPacked } = assembleSignedTransaction(unsignedText, signatureText)
+ * await sdk.transaction.submit(txPacked)
+ * ```
+ */
+export function assembleSignedTransaction(
+	unsignedInput: string | UnsignedTransactionEnvelope,
+	signatureInput: string | TransactionSignatureEnvelope
+): BuildTransactionResult {
+	const unsigned = parseUnsignedEnvelope(unsignedInput)
+	const signature = parseSignatureEnvelope(signatureInput)
+	if (signature.hash !== unsigned.hash) {
+		throw new ValidationError('Signature envelope is for a different transaction')
+	}
+	if (signature.network !== unsigned.network) {
+		throw new ValidationError(
+			`Signature envelope is for ${signature.network}, transaction is for ${unsigned.network}`
+		)
+	}
+	if (signature.signer !== unsigned.summary.signer) {
+		throw new ValidationError('Signature envelope signer does not match the transaction signer')
+	}
+
+	const txPacked = encode({
+		tx: decode(fromBase58(unsigned.tx)) as SerializableValue,
+		hash: fromBase58(unsigned.hash),
+		signature: fromBase58(signature.signature)
+	})
+	const result = verifyTransaction(txPacked)
+	if (result.error !== 'ok') {
+		throw new ValidationError(`Signed transaction does not verify (${result.error})`)
+	}
+	return { txHash: unsigned.hash, txPacked }
+}
+
+function checksum(text: string): string {
+	return toBase58(sha256(new TextEncoder().encode(text)).slice(0, 4))
+}
+
+/**
+ * Split envelope text into parts of at most `maxLength` payload characters,
+ * e.g. one per QR code.
+ *
+ * Each part reads `amadeus/part:<index>/<total>:<checksum>:<chunk>`; the
+ * checksum covers the whole text so `joinEnvelope` can detect parts that
+ * are missing, mixed up or corrupted.
+ *
+ * @param text - Envelope text from `encodeEnvelope`
+ * @param maxLength - Maximum chunk length
+ * @returns Parts in order
+ */
+export function splitEnvelope(text: string, maxLength: number): string[] {
+	if (!Number.isInteger(maxLength) || maxLength <= 0) {
+		throw new ValidationError('maxLength must be a positive integer')
+	}
+	const sum = checksum(text)
+	const total = Math.max(1, Math.ceil(text.length / maxLength))
+	return Array.from(
+		{ length: total },
+		(_, i) =>
+			`${PART_PREFIX}:${i + 1}/${total}:${sum}:${text.slice(i * maxLength, (i + 1) * maxLength)}`
+	)
+}
+
+/**
+ * Reassemble envelope text from the parts produced by `splitEnvelope`.
+ *
+ * Parts may be given in any order and repeated (as when scanning QR codes).
+ *
+ * @param parts - Scanned parts
+ * @returns The original envelope text
+ * @throws {ValidationError} If a part is malformed or missing, or the parts
+ *         come from different envelopes
+ */
+export function joinEnvelope(parts: string[]): string {
+	const chunks = new Map<number, string>()
+	let total: number | undefined
+	let sum: string | undefined
+
+	for (const part of parts) {
+		const match = /^amadeus\/part:(\d+)\/(\d+):([1-9A-HJ-NP-Za-km-z]+):(.*)$/s.exec(part.trim())
+		if (!match) throw new ValidationError('Invalid envelope part')
+		const [, index, count, partSum, chunk] = match
+		if (
+			(total !== undefined && Number(count) !== total) ||
+			(sum !== undefined && partSum !== sum)
+		) {
+			throw new ValidationError('Envelope parts come from different envelopes')
+		}
+		total = Number(count)
+		sum = partSum
+		if (Number(index) < 1 || Number(index) > total) {
+			throw new ValidationError(`Envelope part ${index} is out of range`)
+		}
+		chunks.set(Number(index), chunk)
+	}
+
+	if (total === undefined) throw new ValidationError('No envelope parts given')
+	const missing = Array.from({ length: total }, (_, i) => i + 1).filter((i) => !chunks.has(i))
+	if (missing.length > 0) {
+		throw new ValidationError(`Missing envelope parts: ${missing.join(', ')}`)
+	}
+	const text = Array.from({ length: total }, (_, i) => chunks.get(i + 1)).join('')
+	if (checksum(text) !== sum) throw new ValidationError('Envelope checksum mismatch')
+	return text
+}
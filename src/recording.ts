@@ -0,0 +1,228 @@
+/**
+ * Record and Replay
+ *
+ * `RecordingTransport` wraps another transport and captures every
+ * request/response pair (binary bodies included) into a fixture.
+ * `ReplayTransport` serves a fixture back without network access and fails
+ * loudly on any request it has no recording for, so tests that depend on live
+ * RPC data can run offline and deterministically.
+ *
+ * Fixtures are plain JSON-serializable objects; storing them is up to the
+ * caller, so this module runs in browsers as well as Node.js.
+ */
+
+import { AmadeusSDKError } from './types'
+import { base64ToUint8Array, uint8ArrayToBase64 } from './encoding'
+import type { Transport, TransportRequest, TransportResponse } from './transport'
+import { FetchTransport, createTransportResponse } from './transport'
+
+/**
+ * Response headers kept in recordings (the client reads nothing else)
+ */
+const RECORDED_HEADERS = ['content-type', 'retry-after']
+
+/**
+ * A request body in a fixture
+ */
+export interface RecordedBody {
+	/** `base64` for binary bodies, `utf8` for text */
+	encoding: 'base64' | 'utf8'
+	data: string
+}
+
+/**
+ * One recorded request/response pair
+ */
+export interface RecordedExchange {
+	request: {
+		method: string
+		/** Path and query, without the origin, so fixtures work against any endpoint */
+		path: string
+		body?: RecordedBody
+	}
+	/** The response, or the transport error message for failed requests */
+	response:
+		| {
+				status: number
+				statusText: string
+				headers: Record<string, string>
+				/** Response body, base64 encoded */
+				body: string
+		  }
+		| { error: string }
+}
+
+/**
+ * A fixture file
+ */
+export interface Fixture {
+	version: 1
+	exchanges: RecordedExchange[]
+}
+
+function recordBody(body: Uint8Array | string | undefined): RecordedBody | undefined {
+	if (body === undefined) return undefined
+	return typeof body === 'string'
+		? { encoding: 'utf8', data: body }
+		: { encoding: 'base64', data: uint8ArrayToBase64(body) }
+}
+
+function pathOf(url: string): string {
+	const parsed = new URL(url)
+	return parsed.pathname + parsed.search
+}
+
+function requestKey(method: string, path: string, body: RecordedBody | undefined): string {
+	return `${method.toUpperCase()} ${path} ${body ? `${body.encoding}:${body.data}` : ''}`
+}
+
+/**
+ * Transport that records every exchange made through another transport
+ *
+ * @example
+ * ```ts
+ * const recorder = new RecordingTransport()
+ * const sdk = new AmadeusSDK({ transport: recorder })
+ *
+ * await sdk.staking.getPosition(address)
+ * await writeFile('fixtures/staking.json', JSON.stringify(recorder.toFixture()))
+ * ```
+ */
+export class RecordingTransport implements Transport {
+	/** Exchanges recorded so far, in completion order */
+	readonly exchanges: RecordedExchange[] = []
+
+	/**
+	 * @param inner - Transport that performs the requests (default: `FetchTransport`)
+	 */
+	constructor(private readonly inner: Transport = new FetchTransport()) {}
+
+	async request(request: TransportRequest): Promise<TransportResponse> {
+		const recorded: RecordedExchange['request'] = {
+			method: request.method.toUpperCase(),
+			path: pathOf(request.url),
+			body: recordBody(request.body)
+		}
+
+		let response: TransportResponse
+		try {
+			response = await this.inner.request(request)
+		} catch (error) {
+			// Cancellations are not part of the backend's behaviour
+			if (!(error instanceof Error && error.name === 'AbortError')) {
+				this.exchanges.push({
+					request: recorded,
+					response: { error: error instanceof Error ? error.message : String(error) }
+				})
+			}
+			throw error
+		}
+
+		const body = new Uint8Array(await response.arrayBuffer())
+		const headers: Record<string, string> = {}
+		for (const name of RECORDED_HEADERS) {
+			const value = response.headers.get(name)
+			if (value !== null) headers[name] = value
+		}
+
+		this.exchanges.push({
+			request: recorded,
+			response: {
+				status: response.status,
+				statusText: response.statusText,
+				headers,
+				body: uint8ArrayToBase64(body)
+			}
+		})
+
+		// The original body has been consumed; hand back a replayable copy
+		return createTransportResponse(body, {
+			status: response.status,
+			statusText: response.statusText,
+			headers
+		})
+	}
+
+	/**
+	 * Fixture containing every exchange recorded so far
+	 */
+	toFixture(): Fixture {
+		return { version: 1, exchanges: [...this.exchanges] }
+	}
+}
+
+/**
+ * Transport that serves recorded exchanges.
+ *
+ * A request matches a recording with the same method, path, query and body.
+ * Identical requests are served in recorded order, each recording once. A
+ * request without a remaining match throws an `AmadeusSDKError`.
+ *
+ * @example
+ * ```ts
+ * const replay = new ReplayTransport(await readFile('fixtures/staking.json', 'utf8'))
+ * const sdk = new AmadeusSDK({ transport: replay })
+ *
+ * const position = await sdk.staking.getPosition(address)
+ * replay.assertAllUsed()
+ * ```
+ */
+export class ReplayTransport implements Transport {
+	private readonly pending: RecordedExchange[]
+
+	/**
+	 * @param fixture - Fixture object or its JSON text
+	 * @throws {AmadeusSDKError} If the fixture is malformed
+	 */
+	constructor(fixture: Fixture | string) {
+		const parsed = typeof fixture === 'string' ? (JSON.parse(fixture) as Fixture) : fixture
+		if (parsed?.version !== 1 || !Array.isArray(parsed.exchanges)) {
+			throw new AmadeusSDKError('Invalid fixture: expected { version: 1, exchanges: [...] }')
+		}
+		this.pending = [...parsed.exchanges]
+	}
+
+	/** Recordings not served yet */
+	get unused(): RecordedExchange[] {
+		return [...this.pending]
+	}
+
+	async request(request: TransportRequest): Promise<TransportResponse> {
+		if (request.signal.aborted) {
+			const error = new Error('The operation was aborted.')
+			error.name = 'AbortError'
+			throw error
+		}
+
+		const method = request.method.toUpperCase()
+		const path = pathOf(request.url)
+		const key = requestKey(method, path, recordBody(request.body))
+		const index = this.pending.findIndex(
+			(e) => requestKey(e.request.method, e.request.path, e.request.body) === key
+		)
+		if (index === -1) {
+			throw new AmadeusSDKError(`No recorded response for ${method} ${path}`)
+		}
+
+		const [{ response }] = this.pending.splice(index, 1)
+		if ('error' in response) {
+			throw new Error(response.error)
+		}
+		return createTransportResponse(base64ToUint8Array(response.body), {
+			status: response.status,
+			statusText: response.statusText,
+			headers: response.headers
+		})
+	}
+
+	/**
+	 * Throw if any recording was never requested
+	 *
+	 * @throws {AmadeusSDKError} Listing the unused recordings
+	 */
+	assertAllUsed(): void {
+		if (this.pending.length === 0) return
+		const list = this.pending.map((e) => `${e.request.method} ${e.request.path}`).join(', ')
+		throw new AmadeusSDKError(`${this.pending.length} recorded response(s) not used: ${list}`)
+	}
+}
@@ -0,0 +1,368 @@
+/**
+ * Response Schemas
+ *
+ * Effect Schemas mirroring the response types in `types.ts`, used to check
+ * node responses at runtime when `responseValidation` is enabled. Responses are
+ * only checked, never transformed: the data returned to callers is exactly
+ * what the node sent, unknown extra fields included.
+ *
+ * Error codes, event types and function names are checked as plain strings so
+ * a node adding a new code does not count as drift.
+ */
+
+import { Either, ParseResult, Schema } from 'effect'
+
+// ============================================================================
+// Validation Modes
+// ============================================================================
+
+/**
+ * How responses are checked against their schema.
+ *
+ * - `off`: no checks (default)
+ * - `strict`: a mismatching response fails the request with an `AmadeusSDKError`
+ * - `lenient`: a mismatching response is reported and returned unchanged
+ */
+export type ResponseValidationMode = 'off' | 'strict' | 'lenient'
+
+/**
+ * A response that did not match its schema
+ */
+export interface ResponseValidationIssue {
+	/** API path, e.g. `/api/chain/tip` */
+	endpoint: string
+	/** Description of every mismatch */
+	message: string
+	/** The response data as received (with the `error: 'ok'` envelope stripped) */
+	data: unknown
+}
+
+/**
+ * Check data against a response schema
+ *
+ * @param schema - Response schema
+ * @param data - Parsed response
+ * @returns Description of the mismatches, or undefined if the data matches
+ */
+export function checkResponse(
+	schema: Schema.Schema.AnyNoContext,
+	data: unknown
+): string | undefined {
+	const result = Schema.decodeUnknownEither(schema, { errors: 'all' })(data)
+	return Either.isLeft(result)
+		? ParseResult.TreeFormatter.formatErrorSync(result.left)
+		: undefined
+}
+
+// ============================================================================
+// Transaction Schemas
+// ============================================================================
+
+export const TransactionActionResponseSchema = Schema.Struct({
+	op: Schema.Literal('call'),
+	contract: Schema.String,
+	function: Schema.String,
+	args: Schema.Array(Schema.Union(Schema.String, Schema.Number, Schema.Boolean)),
+	attached_symbol: Schema.optional(Schema.String),
+	attached_amount: Schema.optional(Schema.String)
+}).annotations({ identifier: 'TransactionActionResponse' })
+
+export const TransactionMetadataSchema = Schema.Struct({
+	entry_hash: Schema.String,
+	entry_height: Schema.Number,
+	status: Schema.optional(Schema.String),
+	tx_event: Schema.optional(Schema.String)
+}).annotations({ identifier: 'TransactionMetadata' })
+
+export const TransactionReceiptSchema = Schema.Struct({
+	result: Schema.NullOr(Schema.String),
+	logs: Schema.Array(Schema.String),
+	success: Schema.Boolean,
+	exec_used: Schema.String
+}).annotations({ identifier: 'TransactionReceipt' })
+
+export const TransactionSchema = Schema.Struct({
+	hash: Schema.String,
+	signature: Schema.String,
+	tx: Schema.Struct({
+		signer: Schema.String,
+		nonce: Schema.Number,
+		action: TransactionActionResponseSchema
+	}),
+	metadata: TransactionMetadataSchema,
+	result: Schema.Struct({ error: Schema.NullOr(Schema.String) }),
+	receipt: TransactionReceiptSchema
+}).annotations({ identifier: 'Transaction' })
+
+export const TransactionEventSchema = Schema.Struct({
+	type: Schema.String,
+	txid: Schema.String,
+	amount: Schema.String,
+	symbol: Schema.String,
+	timestamp: Schema.Number
+}).annotations({ identifier: 'TransactionEvent' })
+
+// ============================================================================
+// Chain Schemas
+// ============================================================================
+
+export const ChainEntryHeaderSchema = Schema.Struct({
+	slot: Schema.Number,
+	height: Schema.Number,
+	prev_slot: Schema.Number,
+	prev_hash: Schema.String,
+	dr: Schema.String,
+	vr: Schema.String,
+	signer: Schema.String,
+	root_tx: Schema.optional(Schema.String),
+	root_validator: Schema.optional(Schema.String)
+}).annotations({ identifier: 'ChainEntryHeader' })
+
+export const ChainEntrySchema = Schema.Struct({
+	header: ChainEntryHeaderSchema,
+	hash: Schema.String,
+	tx_count: Schema.Number,
+	mask: Schema.optional(Schema.String),
+	mask_size: Schema.optional(Schema.Number),
+	consensus: Schema.optional(
+		Schema.Struct({
+			score: Schema.Number,
+			finality_reached: Schema.Boolean,
+			mut_hash: Schema.String
+		})
+	),
+	next_entry_hash_finality_reached: Schema.optional(Schema.String),
+	txs_filtered: Schema.optional(Schema.Array(TransactionSchema)),
+	txs: Schema.optional(Schema.Array(TransactionSchema))
+}).annotations({ identifier: 'ChainEntry' })
+
+export const ChainStatsValidatorSchema = Schema.Struct({
+	commission_bps: Schema.Number,
+	commission_pending: Schema.optional(
+		Schema.Struct({ bps: Schema.Number, epoch: Schema.Number })
+	),
+	sols: Schema.Number,
+	in_validator_set: Schema.Boolean,
+	staked: Schema.Number,
+	staked_flat: Schema.Number
+}).annotations({ identifier: 'ChainStatsValidator' })
+
+export const ChainStatsSchema = Schema.Struct({
+	height: Schema.Number,
+	rooted_height: Schema.Number,
+	tip_hash: Schema.String,
+	tip: ChainEntrySchema,
+	tx_pool_size: Schema.Number,
+	cur_validator: Schema.String,
+	next_validator: Schema.String,
+	emission_for_epoch: Schema.Number,
+	circulating: Schema.Number,
+	burned: Schema.Number,
+	total_supply_y3: Schema.Number,
+	total_supply_y30: Schema.Number,
+	diff_bits: Schema.Number,
+	pflops: Schema.Number,
+	txs_per_sec: Schema.Number,
+	segment_vr_hash: Schema.String,
+	total_supply: Schema.optional(Schema.Number),
+	total_locked: Schema.optional(Schema.Number),
+	supply_computed_at_height: Schema.optional(Schema.Number),
+	validators: Schema.optional(
+		Schema.Record({ key: Schema.String, value: ChainStatsValidatorSchema })
+	)
+}).annotations({ identifier: 'ChainStats' })
+
+export const ChainKpiSchema = Schema.Struct({
+	ama_burned: Schema.Number,
+	fees_paid: Schema.Number,
+	active_validator_keys: Schema.Number,
+	active_peers: Schema.Number,
+	block_time: Schema.Number,
+	total_tx: Schema.Number,
+	uaw: Schema.Number
+}).annotations({ identifier: 'ChainKpi' })
+
+export const GetTipResponseSchema = Schema.Struct({ entry: ChainEntrySchema }).annotations({
+	identifier: 'GetTipResponse'
+})
+
+export const GetStatsResponseSchema = Schema.Struct({ stats: ChainStatsSchema }).annotations({
+	identifier: 'GetStatsResponse'
+})
+
+export const GetByHashResponseSchema = Schema.Struct({ entry: ChainEntrySchema }).annotations({
+	identifier: 'GetByHashResponse'
+})
+
+export const GetByHeightResponseSchema = Schema.Struct({
+	entries: Schema.Array(ChainEntrySchema)
+}).annotations({ identifier: 'GetByHeightResponse' })
+
+export const GetTransactionsInEntryResponseSchema = Schema.Struct({
+	txs: Schema.Array(TransactionSchema)
+}).annotations({ identifier: 'GetTransactionsInEntryResponse' })
+
+export const GetTransactionEventsByAccountResponseSchema = Schema.Struct({
+	cursor: Schema.String,
+	txs: Schema.Array(TransactionEventSchema)
+}).annotations({ identifier: 'GetTransactionEventsByAccountResponse' })
+
+export const TxByFilterResponseSchema = Schema.Struct({
+	cursor: Schema.NullOr(Schema.String),
+	txs: Schema.Array(TransactionSchema)
+}).annotations({ identifier: 'TxByFilterResponse' })
+
+export const GetKpiResponseSchema = Schema.Struct({ kpi: ChainKpiSchema }).annotations({
+	identifier: 'GetKpiResponse'
+})
+
+// ============================================================================
+// Wallet Schemas
+// ============================================================================
+
+export const TokenBalanceSchema = Schema.Struct({
+	float: Schema.Number,
+	symbol: Schema.String,
+	flat: Schema.Number
+}).annotations({ identifier: 'TokenBalance' })
+
+export const WalletBalanceSchema = Schema.Struct({ balance: TokenBalanceSchema }).annotations({
+	identifier: 'WalletBalance'
+})
+
+export const GetAllBalancesResponseSchema = Schema.Struct({
+	balances: Schema.Array(TokenBalanceSchema)
+}).annotations({ identifier: 'GetAllBalancesResponse' })
+
+// ============================================================================
+// Contract Schemas
+// ============================================================================
+
+export const ValidateBytecodeResponseSchema = Schema.Struct({
+	error: Schema.optional(Schema.String),
+	logs: Schema.optional(Schema.Array(Schema.String))
+}).annotations({ identifier: 'ValidateBytecodeResponse' })
+
+export const RichlistEntrySchema = Schema.Struct({
+	pk: Schema.String,
+	symbol: Schema.String,
+	flat: Schema.Number,
+	float: Schema.Number
+}).annotations({ identifier: 'RichlistEntry' })
+
+export const GetRichlistResponseSchema = Schema.Struct({
+	richlist: Schema.Array(RichlistEntrySchema)
+}).annotations({ identifier: 'GetRichlistResponse' })
+
+export const ContractViewResponseSchema = Schema.Struct({
+	success: Schema.Boolean,
+	result: Schema.String,
+	logs: Schema.Array(Schema.String)
+}).annotations({ identifier: 'ContractViewResponse' })
+
+// ============================================================================
+// Epoch Schemas
+// ============================================================================
+
+export const EpochScoreSchema = Schema.Union(
+	Schema.Array(Schema.Tuple(Schema.String, Schema.Number)),
+	Schema.Struct({ score: Schema.Number })
+).annotations({ identifier: 'EpochScore' })
+
+export const GetEmissionAddressResponseSchema = Schema.Struct({
+	emission_address: Schema.NullOr(Schema.String)
+}).annotations({ identifier: 'GetEmissionAddressResponse' })
+
+export const GetSolInEpochResponseSchema = Schema.Struct({}).annotations({
+	identifier: 'GetSolInEpochResponse'
+})
+
+// ============================================================================
+// Peer Schemas
+// ============================================================================
+
+export const PeerInfoSchema = Schema.Struct({
+	pk: Schema.String,
+	version: Schema.String,
+	latency: Schema.optional(Schema.Number),
+	temporal_height: Schema.optional(Schema.Number),
+	temporal_hash: Schema.optional(Schema.String),
+	rooted_height: Schema.optional(Schema.Number),
+	rooted_hash: Schema.optional(Schema.String),
+	is_trainer: Schema.optional(Schema.Boolean),
+	slot_speed: Schema.optional(Schema.Number),
+	online: Schema.optional(Schema.Boolean),
+	in_slot: Schema.optional(Schema.Boolean)
+}).annotations({ identifier: 'PeerInfo' })
+
+export const ANRInfoSchema = Schema.Struct({
+	pk: Schema.String,
+	pop: Schema.String,
+	signature: Schema.String,
+	ip4: Schema.String,
+	port: Schema.Number,
+	handshaked: Schema.Boolean,
+	isChainPop: Schema.Boolean,
+	version: Schema.String,
+	ts: Schema.Number
+}).annotations({ identifier: 'ANRInfo' })
+
+export const GetNodesResponseSchema = Schema.Struct({
+	nodes: Schema.Array(PeerInfoSchema)
+}).annotations({ identifier: 'GetNodesResponse' })
+
+export const GetTrainersResponseSchema = Schema.Struct({
+	trainers: Schema.Array(PeerInfoSchema)
+}).annotations({ identifier: 'GetTrainersResponse' })
+
+export const GetRemovedTrainersResponseSchema = Schema.Struct({
+	removed_trainers: Schema.Array(PeerInfoSchema)
+}).annotations({ identifier: 'GetRemovedTrainersResponse' })
+
+export const GetANRsResponseSchema = Schema.Struct({
+	anrs: Schema.Array(ANRInfoSchema)
+}).annotations({ identifier: 'GetANRsResponse' })
+
+export const GetANRByPkResponseSchema = Schema.Struct({ anr: ANRInfoSchema }).annotations({
+	identifier: 'GetANRByPkResponse'
+})
+
+// ============================================================================
+// Transaction Submission Schemas
+// ============================================================================
+
+export const SubmitTransactionResponseSchema = Schema.Struct({
+	hash: Schema.String
+}).annotations({ identifier: 'SubmitTransactionResponse' })
+
+export const SubmitAndWaitTransactionResponseSchema = Schema.Struct({
+	hash: Schema.String,
+	metadata: TransactionMetadataSchema,
+	receipt: TransactionReceiptSchema
+}).annotations({ identifier: 'SubmitAndWaitTransactionResponse' })
+
+// ============================================================================
+// Proof Schemas
+// ============================================================================
+
+export const ValidatorProofDataSchema = Schema.Struct({
+	root: Schema.String,
+	path: Schema.String,
+	hash: Schema.String,
+	nodes: Schema.Array(Schema.Struct({ direction: Schema.String, hash: Schema.String }))
+}).annotations({ identifier: 'ValidatorProofData' })
+
+export const ProofValidatorsSchema = Schema.Struct({
+	key: Schema.String,
+	value: Schema.String,
+	validators: Schema.Array(Schema.String),
+	proof: ValidatorProofDataSchema
+}).annotations({ identifier: 'ProofValidators' })
+
+export const ContractStateProofSchema = Schema.Struct({
+	namespace: Schema.String,
+	key: Schema.String,
+	proof: ValidatorProofDataSchema,
+	value: Schema.optional(Schema.String),
+	result: Schema.optional(Schema.Boolean)
+}).annotations({ identifier: 'ContractStateProof' })
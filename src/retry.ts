@@ -0,0 +1,170 @@
+/**
+ * Retry Policy
+ *
+ * Backoff, jitter and failure classification for retrying transient node
+ * failures. The client applies a policy to idempotent requests; transaction
+ * submission uses the same policy but only resubmits once it has checked the
+ * transaction is not already on chain.
+ */
+
+import { AmadeusSDKError } from './types'
+import { CancelledError, TRANSIENT_HTTP_STATUSES } from './errors'
+
+/**
+ * Retry policy configuration
+ */
+export interface RetryPolicy {
+	/** Total attempts including the first one (1 disables retries) */
+	maxAttempts: number
+	/** Delay before the first retry in milliseconds */
+	initialDelay: number
+	/** Upper bound for a single delay in milliseconds */
+	maxDelay: number
+	/** Factor the delay grows by after each attempt */
+	multiplier: number
+	/** Randomize each delay between 0 and its computed value ("full jitter") */
+	jitter: boolean
+	/** HTTP statuses treated as transient */
+	retryableStatuses: number[]
+	/** Wait for the server's `Retry-After` header when present (capped at `maxDelay`) */
+	respectRetryAfter: boolean
+}
+
+/**
+ * Policy used when retries are enabled with `retry: true`
+ */
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+	maxAttempts: 3,
+	initialDelay: 250,
+	maxDelay: 5000,
+	multiplier: 2,
+	jitter: true,
+	retryableStatuses: [...TRANSIENT_HTTP_STATUSES],
+	respectRetryAfter: true
+}
+
+/**
+ * Policy that never retries (the client default)
+ */
+export const NO_RETRY_POLICY: RetryPolicy = { ...DEFAULT_RETRY_POLICY, maxAttempts: 1 }
+
+/**
+ * Resolve the `retry` config value into a complete policy.
+ *
+ * `true` enables the default policy, `false`/`undefined` disables retries and
+ * a partial policy is merged over the defaults.
+ *
+ * @param retry - Config value
+ * @returns Complete retry policy
+ */
+export function resolveRetryPolicy(retry?: Partial<RetryPolicy> | boolean): RetryPolicy {
+	if (retry === true) return { ...DEFAULT_RETRY_POLICY }
+	if (!retry) return { ...NO_RETRY_POLICY }
+	const policy = { ...DEFAULT_RETRY_POLICY, ...retry }
+	policy.maxAttempts = Math.max(1, Math.floor(policy.maxAttempts))
+	return policy
+}
+
+/**
+ * Delay before retrying after a failed attempt.
+ *
+ * @param policy - Retry policy
+ * @param attempt - Number of the attempt that just failed (1-based)
+ * @param random - Random source in [0, 1), injectable for tests
+ * @returns Delay in milliseconds
+ */
+export function computeBackoffDelay(
+	policy: RetryPolicy,
+	attempt: number,
+	random: () => number = Math.random
+): number {
+	const exponential = policy.initialDelay * policy.multiplier ** Math.max(0, attempt - 1)
+	const capped = Math.min(policy.maxDelay, exponential)
+	return policy.jitter ? Math.floor(random() * capped) : capped
+}
+
+/**
+ * Parse a `Retry-After` header (delta-seconds or HTTP date) into milliseconds.
+ *
+ * @param value - Header value
+ * @param now - Current time in ms, injectable for tests
+ * @returns Delay in milliseconds, or undefined if absent or unparseable
+ */
+export function parseRetryAfter(
+	value: string | null | undefined,
+	now: number = Date.now()
+): number | undefined {
+	if (!value) return undefined
+	const trimmed = value.trim()
+	if (/^\d+$/.test(trimmed)) {
+		return Number.parseInt(trimmed, 10) * 1000
+	}
+	const date = Date.parse(trimmed)
+	if (Number.isNaN(date)) return undefined
+	return Math.max(0, date - now)
+}
+
+/**
+ * Delay before the next attempt, preferring the server's `Retry-After` hint
+ * when the policy honours it.
+ *
+ * @param policy - Retry policy
+ * @param attempt - Number of the attempt that just failed (1-based)
+ * @param retryAfter - `Retry-After` header of the failed response, if any
+ * @returns Delay in milliseconds
+ */
+export function nextRetryDelay(
+	policy: RetryPolicy,
+	attempt: number,
+	retryAfter?: string | null
+): number {
+	if (policy.respectRetryAfter) {
+		const hinted = parseRetryAfter(retryAfter)
+		if (hinted !== undefined) return Math.min(hinted, policy.maxDelay)
+	}
+	return computeBackoffDelay(policy, attempt)
+}
+
+/**
+ * Whether a failure is transient under the given policy.
+ *
+ * Network failures (status 0) and the policy's retryable HTTP statuses are;
+ * cancellations, validation errors and API-level errors are not.
+ *
+ * @param error - Error thrown by the client
+ * @param policy - Retry policy
+ */
+export function isRetryableError(error: unknown, policy: RetryPolicy): boolean {
+	if (!(error instanceof AmadeusSDKError) || error.status === undefined) return false
+	return error.status === 0 || policy.retryableStatuses.includes(error.status)
+}
+
+/**
+ * Wait for `ms` milliseconds, rejecting early if any signal aborts.
+ *
+ * @param ms - Delay in milliseconds
+ * @param signals - Signals that cancel the wait
+ * @throws {CancelledError} If a signal aborts
+ */
+export function sleep(ms: number, signals: Array<AbortSignal | undefined> = []): Promise<void> {
+	return new Promise((resolve, reject) => {
+		const active = signals.filter((s): s is AbortSignal => s !== undefined)
+		if (active.some((s) => s.aborted)) {
+			reject(new CancelledError())
+			return
+		}
+		const onAbort = () => {
+			clearTimeout(timer)
+			cleanup()
+			reject(new CancelledError())
+		}
+		const cleanup = () => {
+			for (const signal of active) signal.removeEventListener('abort', onAbort)
+		}
+		const timer = setTimeout(() => {
+			cleanup()
+			resolve()
+		}, ms)
+		for (const signal of active) signal.addEventListener('abort', onAbort, { once: true })
+	})
+}
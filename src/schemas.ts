@@ -70,6 +70,63 @@ export const TransactionFiltersSchema = Schema.Struct({
 	identifier: 'TransactionFilters'
 })
 
+/**
+ * Schema for `/api/chain/tx_by_filter` filters
+ * Validates optional fields when they are present; `contract` and
+ * `contract_b58` are mutually exclusive
+ */
+export const TxByFilterParamsSchema = Schema.Struct({
+	signer: Schema.optional(Base58PublicKeySchema),
+	arg0: Schema.optional(Base58HashSchema),
+	contract: Schema.optional(Schema.String.pipe(Schema.nonEmptyString())),
+	contract_b58: Schema.optional(Base58AddressSchema),
+	function: Schema.optional(Schema.String.pipe(Schema.nonEmptyString())),
+	limit: Schema.optional(Schema.NonNegativeInt),
+	sort: Schema.optional(TransactionSortSchema),
+	cursor: Schema.optional(Base58HashSchema)
+})
+	.pipe(
+		Schema.filter((filters) => !(filters.contract && filters.contract_b58), {
+			message: () => 'Pass either contract or contract_b58, not both'
+		})
+	)
+	.annotations({
+		identifier: 'TxByFilterParams'
+	})
+
+/**
+ * Schema for the paging and stop options of the chain iterators
+ */
+export const PaginationOptionsSchema = Schema.Struct({
+	pageSize: Schema.optional(Schema.Int.pipe(Schema.positive())),
+	maxItems: Schema.optional(Schema.NonNegativeInt),
+	untilHeight: Schema.optional(Schema.NonNegativeInt),
+	untilTimestamp: Schema.optional(Schema.NonNegativeInt)
+}).annotations({
+	identifier: 'PaginationOptions'
+})
+
+/**
+ * Schema for the depth, deadline and polling options of `transaction.waitFor`
+ */
+export const WaitForTransactionOptionsSchema = Schema.Struct({
+	confirmations: Schema.optional(Schema.Int.pipe(Schema.positive())),
+	timeout: Schema.optional(Schema.NonNegativeInt),
+	pollInterval: Schema.optional(Schema.NonNegativeInt)
+}).annotations({
+	identifier: 'WaitForTransactionOptions'
+})
+
+/**
+ * Schema for the start height and polling options of the chain follower
+ */
+export const ChainFollowerOptionsSchema = Schema.Struct({
+	fromHeight: Schema.optional(Schema.NonNegativeInt),
+	pollInterval: Schema.optional(Schema.NonNegativeInt)
+}).annotations({
+	identifier: 'ChainFollowerOptions'
+})
+
 /**
  * Schema for non-empty string
  */
@@ -5,7 +5,8 @@
  * This is the primary entry point for interacting with the Amadeus Protocol.
  */
 
-import { AmadeusClient } from './client'
+import { AmadeusClient, RequestGroup } from './client'
+import type { Middleware } from './middleware'
 import type { AmadeusSDKConfig } from './types'
 import {
 	ChainAPI,
@@ -18,6 +19,10 @@ import {
 	StakingAPI
 } from './api'
 import { SDK_VERSION, NODE_API_URL } from './constants'
+import type { ContractCall } from './contracts/contract-call'
+import type { SignerKey } from './signer'
+import { TransactionLifecycle } from './transaction-lifecycle'
+import type { ExecuteTransactionOptions, TransactionLifecycleResult } from './transaction-lifecycle'
 
 /**
  * Main Amadeus SDK class
@@ -83,6 +88,8 @@ export class AmadeusSDK {
 	/** Staking API module for LockupVault positions */
 	public readonly staking: StakingAPI
 
+	private readonly lifecycle: TransactionLifecycle
+
 	/**
 	 * Create a new AmadeusSDK instance
 	 *
@@ -113,6 +120,7 @@ export class AmadeusSDK {
 		this.epoch = new EpochAPI(this.client)
 		this.proof = new ProofAPI(this.client)
 		this.staking = new StakingAPI(this.client)
+		this.lifecycle = new TransactionLifecycle(this.client, this.transaction)
 	}
 
 	/**
@@ -144,7 +152,104 @@ export class AmadeusSDK {
 	}
 
 	/**
-	 * Cancel ongoing requests
+	 * Register request/response middleware.
+	 *
+	 * Hooks run around every request from every API module: `onRequest` before
+	 * it is sent (and may edit headers), `onResponse` when a response arrives and
+	 * `onError` when an attempt fails.
+	 *
+	 * @param middleware - Middleware hooks
+	 * @returns Function that removes the middleware
+	 *
+	 * @example
+	 * ```ts
+	 * const remove = sdk.use({
+	 *   onRequest: (ctx) => {
+	 *     ctx.headers['X-Request-Id'] = ctx.requestId
+	 *   },
+	 *   onResponse: ({ method, endpoint, response, duration }) =>
+	 *     logger.info({ method, endpoint, status: response.status, duration })
+	 * })
+	 * ```
+	 */
+	use(middleware: Middleware): () => void {
+		return this.client.use(middleware)
+	}
+
+	/**
+	 * Run a contract call through its whole lifecycle: optional preflight
+	 * simulation, sign, submit, wait and interpret the receipt.
+	 *
+	 * An ambiguous submission (timeout, dropped connection) is resolved by
+	 * looking the transaction hash up before resubmitting the same signed
+	 * bytes. Validation errors (the node refused the transaction) and execution
+	 * errors (it failed on chain or in the preflight) are returned, not thrown.
+	 *
+	 * @param call - Call from `createContract(abi).method()`, `buildCoinTransfer()` and the like
+	 * @param signer - Base58 private key or `Signer`
+	 * @param options - Preflight, confirmations, finality, timeout and `onEvent`
+	 * @returns The outcome, discriminated by `status`
+	 * @throws {WaitTimeoutError} If `timeout` elapses before the transaction is confirmed
+	 * @throws {CancelledError} If cancelled through `signal`, `group` or `sdk.cancel()`
+	 *
+	 * @example
+	 * ```ts
+	 * const call = buildCoinTransfer({ recipient, amount: 10, symbol: 'AMA' })
+	 * const result = await sdk.execute(call, privateKey, {
+	 *   preflight: true,
+	 *   finalized: true,
+	 *   onEvent: (event) => console.log(event.type)
+	 * })
+	 * if (result.status === 'success') console.log(result.metadata.entry_height)
+	 * else console.error(result.status, result.message)
+	 * ```
+	 */
+	execute(
+		call: ContractCall,
+		signer: SignerKey,
+		options?: ExecuteTransactionOptions
+	): Promise<TransactionLifecycleResult> {
+		return this.lifecycle.execute(call, signer, options)
+	}
+
+	/**
+	 * Clear the response cache, permanent entries included.
+	 * Does nothing when caching is disabled.
+	 */
+	async clearCache(): Promise<void> {
+		await this.client.cache?.clear()
+	}
+
+	/**
+	 * Create a cancellation group.
+	 *
+	 * Pass it as `{ group }` to any API method, then call `group.cancel()` to
+	 * abort only those requests.
+	 *
+	 * @example
+	 * ```ts
+	 * const screen = sdk.createRequestGroup()
+	 * await Promise.all([
+	 *   sdk.chain.getStats({ group: screen }),
+	 *   sdk.wallet.getAllBalances(address, { group: screen })
+	 * ])
+	 * // on unmount
+	 * screen.cancel()
+	 * ```
+	 */
+	createRequestGroup(): RequestGroup {
+		return this.client.createRequestGroup()
+	}
+
+	/**
+	 * Stop background work such as endpoint health checks
+	 */
+	dispose(): void {
+		this.client.dispose()
+	}
+
+	/**
+	 * Cancel every in-flight request
 	 */
 	cancel(): void {
 		this.client.cancel()
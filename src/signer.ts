@@ -0,0 +1,116 @@
+/**
+ * Signers
+ *
+ * A `Signer` holds the key behind a transaction and only exposes its public
+ * key and a way to sign transaction hashes. Both are async so the key can
+ * live anywhere: in memory (`LocalSigner`), in a KMS or HSM, in a remote
+ * service or in an isolated process. Every builder and contract path that
+ * takes a Base58 private key also takes a `Signer`, and then returns promises.
+ */
+
+import type { PrivKey } from '@noble/curves/abstract/utils'
+
+import { deriveSkAndSeed64FromBase58Seed, getPublicKey } from './crypto'
+import { toBase58 } from './encoding'
+import { signHash, signMessageHash } from './signing'
+import type { BuildTransactionResult } from './types'
+
+/**
+ * Signs transactions on behalf of one account
+ *
+ * @example
+ * ```ts
+ * // A KMS-backed signer
+ * const kmsSigner: Signer = {
+ *   getPublicKey: async () => fromBase58(await kms.publicKey(keyId)),
+ *   signHash: async (hash) => kms.sign(keyId, hash)
+ * }
+ * const result = await new TransactionBuilder(kmsSigner).transfer({ recipient, amount: 1, symbol: 'AMA' })
+ * ```
+ */
+export interface Signer {
+	/** Signer public key (48 bytes) */
+	getPublicKey(): Promise<Uint8Array>
+	/**
+	 * Sign a transaction hash
+	 *
+	 * @param hash - 32-byte `sha256` of the encoded transaction
+	 * @returns 96-byte BLS signature of the hash under the transaction DST (`BLS_DST.TX`)
+	 */
+	signHash(hash: Uint8Array): Promise<Uint8Array>
+	/**
+	 * Sign a message hash; needed to answer `ama_signMessage`
+	 *
+	 * @param hash - 32-byte `hashMessage` of the message
+	 * @returns 96-byte BLS signature of the hash under the message DST (`BLS_DST.MESSAGE`)
+	 */
+	signMessageHash?(hash: Uint8Array): Promise<Uint8Array>
+}
+
+/**
+ * What signing paths accept: a Base58 private key (seed) or a `Signer`
+ */
+export type SignerKey = string | Signer
+
+/**
+ * Result of a signing path: synchronous for a private key, a promise for a `Signer`
+ */
+export type SignerResult<K extends SignerKey, T = BuildTransactionResult> = K extends Signer
+	? Promise<T>
+	: T
+
+/**
+ * Check whether a value is a `Signer`
+ *
+ * @param value - Value to check
+ * @returns True for objects with `getPublicKey` and `signHash` functions
+ */
+export function isSigner(value: unknown): value is Signer {
+	return (
+		typeof value === 'object' &&
+		value !== null &&
+		typeof (value as Signer).getPublicKey === 'function' &&
+		typeof (value as Signer).signHash === 'function'
+	)
+}
+
+/**
+ * Signer backed by a Base58 private key (seed) held in memory
+ *
+ * @example
+ * ```ts
+ * const signer = new LocalSigner(keypair.privateKey)
+ * const { txHash, txPacked } = await createContract(LOCKUP_ABI).connect(signer).unlock({ vaultIndex: '1' })
+ * ```
+ */
+export class LocalSigner implements Signer {
+	/** Signer public key */
+	readonly publicKey: Uint8Array
+	private readonly sk: PrivKey
+
+	/**
+	 * @param privateKey - Base58 encoded private key (seed)
+	 */
+	constructor(privateKey: string) {
+		const { seed64, sk } = deriveSkAndSeed64FromBase58Seed(privateKey)
+		this.publicKey = getPublicKey(seed64)
+		this.sk = sk
+	}
+
+	/** Signer address (Base58 public key) */
+	get address(): string {
+		return toBase58(this.publicKey)
+	}
+
+	async getPublicKey(): Promise<Uint8Array> {
+		return this.publicKey
+	}
+
+	async signHash(hash: Uint8Array): Promise<Uint8Array> {
+		return signHash(hash, this.sk)
+	}
+
+	async signMessageHash(hash: Uint8Array): Promise<Uint8Array> {
+		return signMessageHash(hash, this.sk)
+	}
+}
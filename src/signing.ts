@@ -10,9 +10,12 @@ import type { PrivKey } from '@noble/curves/abstract/utils'
 import { bls12_381 as bls } from '@noble/curves/bls12-381'
 import { sha256 } from '@noble/hashes/sha2'
 
-import { deriveSkAndSeed64FromBase58Seed, getPublicKey } from './crypto'
+import { BLS_DST, deriveSkAndSeed64FromBase58Seed, getPublicKey } from './crypto'
 import { toBase58 } from './encoding'
 import { encode } from './serialization'
+import { getDefaultNonceManager } from './nonce'
+import type { NonceOptions } from './nonce'
+import type { Signer, SignerKey, SignerResult } from './signer'
 import type {
 	BuildTransactionResult,
 	SerializableValue,
@@ -23,11 +26,12 @@ import type {
 import type { ContractCall } from './contracts/contract-call'
 
 /** Domain Separation Tag for transaction signatures */
-const TX_DST = 'AMADEUS_SIG_BLS12381G2_XMD:SHA-256_SSWU_RO_TX_'
+export const TX_DST = BLS_DST.TX
 
-/** Generate a transaction nonce based on current timestamp */
-function generateNonce(): bigint {
-	return BigInt(Date.now()) * 1_000_000n
+/** Explicit nonce, or the next one from the given or default nonce manager */
+function resolveNonce(signerPk: Uint8Array, options: NonceOptions): bigint {
+	if (options.nonce !== undefined) return options.nonce
+	return (options.nonceManager ?? getDefaultNonceManager()).next(signerPk)
 }
 
 /**
@@ -44,12 +48,16 @@ export function normalizeSignerSk(signerSk: PrivKey | string | Uint8Array): Priv
 
 /**
  * Build an unsigned transaction from raw contract/method/args.
+ *
+ * The nonce comes from `options.nonce`, else from `options.nonceManager`,
+ * else from the default nonce manager.
  */
 export function buildUnsigned(
 	signerPk: Uint8Array,
 	contract: string,
 	method: string,
-	args: SerializableValue[]
+	args: SerializableValue[],
+	options: NonceOptions = {}
 ): UnsignedTransactionWithHash {
 	const action: TransactionAction = {
 		op: 'call',
@@ -59,7 +67,7 @@ export function buildUnsigned(
 	}
 	const tx: UnsignedTransaction = {
 		signer: signerPk,
-		nonce: generateNonce(),
+		nonce: resolveNonce(signerPk, options),
 		action
 	}
 	const txEncoded = encode(tx)
@@ -67,6 +75,23 @@ export function buildUnsigned(
 	return { tx, hash }
 }
 
+/**
+ * Sign a transaction hash with the transaction DST.
+ */
+export function signHash(hash: Uint8Array, signerSk: PrivKey | string | Uint8Array): Uint8Array {
+	return bls.sign(hash, normalizeSignerSk(signerSk), { DST: TX_DST })
+}
+
+/**
+ * Sign a message hash (`hashMessage`) with the message DST.
+ */
+export function signMessageHash(
+	hash: Uint8Array,
+	signerSk: PrivKey | string | Uint8Array
+): Uint8Array {
+	return bls.sign(hash, normalizeSignerSk(signerSk), { DST: BLS_DST.MESSAGE })
+}
+
 /**
  * Sign an already-built unsigned transaction.
  */
@@ -74,8 +99,21 @@ export function signUnsigned(
 	unsignedTx: UnsignedTransactionWithHash,
 	signerSk: PrivKey | string | Uint8Array
 ): BuildTransactionResult {
-	const sk = normalizeSignerSk(signerSk)
-	const signature = bls.sign(unsignedTx.hash, sk, { DST: TX_DST })
+	const signature = signHash(unsignedTx.hash, signerSk)
+	return {
+		txHash: toBase58(unsignedTx.hash),
+		txPacked: encode({ tx: unsignedTx.tx, hash: unsignedTx.hash, signature })
+	}
+}
+
+/**
+ * Sign an already-built unsigned transaction with a `Signer`.
+ */
+export async function signUnsignedWithSigner(
+	unsignedTx: UnsignedTransactionWithHash,
+	signer: Signer
+): Promise<BuildTransactionResult> {
+	const signature = await signer.signHash(unsignedTx.hash)
 	return {
 		txHash: toBase58(unsignedTx.hash),
 		txPacked: encode({ tx: unsignedTx.tx, hash: unsignedTx.hash, signature })
@@ -90,33 +128,69 @@ export function buildAndSignRaw(
 	signerSk: PrivKey | string | Uint8Array,
 	contract: string,
 	method: string,
-	args: SerializableValue[]
+	args: SerializableValue[],
+	options: NonceOptions = {}
 ): BuildTransactionResult {
-	const unsignedTx = buildUnsigned(signerPk, contract, method, args)
+	const unsignedTx = buildUnsigned(signerPk, contract, method, args, options)
 	return signUnsigned(unsignedTx, signerSk)
 }
 
+/**
+ * Build and sign a transaction from raw contract/method/args with a `Signer`.
+ */
+export async function buildAndSignWithSigner(
+	signer: Signer,
+	contract: string,
+	method: string,
+	args: SerializableValue[],
+	options: NonceOptions = {}
+): Promise<BuildTransactionResult> {
+	const unsignedTx = buildUnsigned(await signer.getPublicKey(), contract, method, args, options)
+	return signUnsignedWithSigner(unsignedTx, signer)
+}
+
 /**
  * Build an unsigned transaction from a ContractCall.
  */
 export function buildUnsignedFromCall(
 	signerPk: Uint8Array,
-	call: ContractCall
+	call: ContractCall,
+	options: NonceOptions = {}
 ): UnsignedTransactionWithHash {
-	return buildUnsigned(signerPk, call.contract, call.method, call.args)
+	return buildUnsigned(signerPk, call.contract, call.method, call.args, options)
 }
 
 /**
  * Highest-level: derive keys from a Base58 private key and sign a ContractCall.
+ * With a `Signer` instead of a private key, resolves asynchronously.
  *
  * This is the core function behind `TransactionBuilder.signCall()` and
  * `createContract(ABI).connect(key).method()`.
  */
 export function signContractCall(
 	senderPrivkey: string,
-	call: ContractCall
-): BuildTransactionResult {
-	const { seed64, sk } = deriveSkAndSeed64FromBase58Seed(senderPrivkey)
+	call: ContractCall,
+	options?: NonceOptions
+): BuildTransactionResult
+export function signContractCall(
+	signer: Signer,
+	call: ContractCall,
+	options?: NonceOptions
+): Promise<BuildTransactionResult>
+export function signContractCall<K extends SignerKey>(
+	sender: K,
+	call: ContractCall,
+	options?: NonceOptions
+): SignerResult<K>
+export function signContractCall(
+	sender: SignerKey,
+	call: ContractCall,
+	options: NonceOptions = {}
+): BuildTransactionResult | Promise<BuildTransactionResult> {
+	if (typeof sender !== 'string') {
+		return buildAndSignWithSigner(sender, call.contract, call.method, call.args, options)
+	}
+	const { seed64, sk } = deriveSkAndSeed64FromBase58Seed(sender)
 	const signerPubKey = getPublicKey(seed64)
-	return buildAndSignRaw(signerPubKey, sk, call.contract, call.method, call.args)
+	return buildAndSignRaw(signerPubKey, sk, call.contract, call.method, call.args, options)
 }
@@ -23,20 +23,36 @@
  * const call = lockupPrime.lock({ amount: toAtomicAma(100).toString(), tier: '30d' })
  * const result = TransactionBuilder.signCall('5Kd3N...', call)
  * ```
+ *
+ * ## Signers
+ *
+ * Anywhere a Base58 private key is accepted, a `Signer` (KMS, remote or
+ * isolated-process key) works too; signing paths then return promises.
+ *
+ * ```ts
+ * const builder = new TransactionBuilder(signer)
+ * const { txHash, txPacked } = await builder.transfer({ recipient, amount: 1, symbol: 'AMA' })
+ * ```
  */
 
 import type { PrivKey } from '@noble/curves/abstract/utils'
 
 import { deriveSkAndSeed64FromBase58Seed, getPublicKey } from './crypto'
+import { SimulationFailedError } from './errors'
 import { toAtomicAma } from './conversion'
 import {
 	buildUnsigned,
 	buildUnsignedFromCall,
 	buildAndSignRaw,
+	buildAndSignWithSigner,
 	signUnsigned,
+	signUnsignedWithSigner,
 	signContractCall,
 	normalizeSignerSk
 } from './signing'
+import type { NonceManager, NonceOptions } from './nonce'
+import { isSigner } from './signer'
+import type { Signer, SignerKey, SignerResult } from './signer'
 import type {
 	BuildTransactionResult,
 	LockupPrimeDailyCheckinInput,
@@ -44,13 +60,42 @@ import type {
 	LockupPrimeUnlockInput,
 	LockupUnlockInput,
 	SerializableValue,
+	TransactionSimulation,
 	TransferTransactionInput,
 	UnsignedTransactionWithHash
 } from './types'
 import type { AbiDefinition } from './contracts/abi-types'
 import type { ContractCall } from './contracts/contract-call'
-import { createContract, type SignedContract } from './contracts/contract'
-import { buildCoinTransfer } from './contracts/coin'
+import { createContract, type AsyncSignedContract, type SignedContract } from './contracts/contract'
+import {
+	buildCoinCreateAndMint,
+	buildCoinMint,
+	buildCoinPause,
+	buildCoinTransfer
+} from './contracts/coin/helpers'
+import type {
+	CoinCreateAndMintInput,
+	CoinCreateAndMintParams,
+	CoinMintInput,
+	CoinMintParams,
+	CoinPauseInput,
+	CoinPauseParams
+} from './contracts/coin/types'
+import { buildContractDeploy } from './contracts/deploy'
+import type { ContractDeployInput, ContractDeployParams } from './contracts/deploy'
+import {
+	buildEpochSetEmissionAddress,
+	buildEpochSlashTrainer,
+	buildEpochSubmitSol
+} from './contracts/epoch/helpers'
+import type {
+	EpochSetEmissionAddressInput,
+	EpochSetEmissionAddressParams,
+	EpochSlashTrainerInput,
+	EpochSlashTrainerParams,
+	EpochSubmitSolInput,
+	EpochSubmitSolParams
+} from './contracts/epoch/types'
 import { LOCKUP_PRIME_ABI } from './contracts/lockup-prime/abi'
 import { LOCKUP_ABI } from './contracts/lockup/abi'
 import { buildNftTransfer, buildNftMint, buildNftCreateCollection } from './contracts/nft/helpers'
@@ -63,6 +108,37 @@ import type {
 	NftCreateCollectionParams
 } from './contracts/nft/types'
 
+/**
+ * Convenience input whose `senderPrivkey` may also be a `Signer`
+ */
+type SenderInput<T, S extends SignerKey> = Omit<T, 'senderPrivkey'> & { senderPrivkey: S }
+
+const KEY_REQUIRED =
+	'Private key required. Initialize builder with private key or signer, or use static method.'
+
+/**
+ * TransactionBuilder options
+ */
+export interface TransactionBuilderOptions {
+	/** Nonce manager for this builder's transactions (default: the shared default) */
+	nonceManager?: NonceManager
+}
+
+/**
+ * Simulates contract calls for `simulateAndSignCall`; `sdk.transaction` is one
+ */
+export interface TransactionSimulator {
+	simulate(call: ContractCall, signerPk: Uint8Array): Promise<TransactionSimulation>
+}
+
+/**
+ * A transaction signed after a successful simulation
+ */
+export interface SimulatedTransactionResult extends BuildTransactionResult {
+	/** The simulation the transaction passed */
+	simulation: TransactionSimulation
+}
+
 /**
  * Transaction Builder for Amadeus Protocol
  *
@@ -83,26 +159,54 @@ import type {
  * const { txHash, txPacked } = builder.buildAndSign('Coin', 'transfer', [
  *   recipientBytes, '1000000000', 'AMA'
  * ])
+ *
+ * // With a Signer, every method that needs the key returns a promise
+ * const remote = new TransactionBuilder(signer)
+ * const result = await remote.contract(LOCKUP_ABI).unlock({ vaultIndex: '1' })
  * ```
  */
-export class TransactionBuilder {
+export class TransactionBuilder<K extends SignerKey = string> {
 	private readonly privateKey: string | null
+	private readonly signer: Signer | null
+	private readonly nonceOptions: NonceOptions
 	private signerPk: Uint8Array | null = null
 	private signerSk: PrivKey | null = null
 
 	/**
 	 * Create a new TransactionBuilder instance
 	 *
-	 * @param privateKey - Optional Base58 encoded private key (seed). If provided,
-	 *                     the builder will use this key for all transactions.
+	 * @param privateKey - Optional Base58 encoded private key (seed) or `Signer`.
+	 *                     If provided, the builder will use it for all transactions;
+	 *                     with a `Signer`, methods that need the key return promises.
+	 * @param options - Nonce manager for every transaction this builder creates
+	 *                  (default: the process-wide default nonce manager)
 	 */
-	constructor(privateKey?: string) {
-		this.privateKey = privateKey || null
+	constructor(privateKey?: K, options: TransactionBuilderOptions = {}) {
+		this.privateKey = typeof privateKey === 'string' && privateKey ? privateKey : null
+		this.signer = typeof privateKey === 'object' ? privateKey : null
+		this.nonceOptions = { nonceManager: options.nonceManager }
 		if (this.privateKey) {
 			this.initializeKeys()
 		}
 	}
 
+	/**
+	 * Run a path that needs the key: synchronously with the private key, or
+	 * asynchronously with the `Signer`
+	 */
+	private withSigner<T>(
+		local: () => T,
+		remote: (signer: Signer) => Promise<T>
+	): SignerResult<K, T> {
+		return (this.signer ? remote(this.signer) : local()) as SignerResult<K, T>
+	}
+
+	private requireKey(message: string): void {
+		if (!this.privateKey && !this.signer) {
+			throw new Error(message)
+		}
+	}
+
 	/**
 	 * Initialize signer keys from the private key
 	 */
@@ -174,11 +278,17 @@ export class TransactionBuilder {
 	 * builder.contract(SOME_NEW_ABI).someFunction({ param: 'value' })
 	 * ```
 	 */
-	contract<TAbi extends AbiDefinition>(abi: TAbi): SignedContract<TAbi> {
+	contract<TAbi extends AbiDefinition>(
+		abi: TAbi
+	): K extends Signer ? AsyncSignedContract<TAbi> : SignedContract<TAbi> {
+		type Result = K extends Signer ? AsyncSignedContract<TAbi> : SignedContract<TAbi>
+		if (this.signer) {
+			return createContract(abi).connect(this.signer, this.nonceOptions) as Result
+		}
 		if (!this.privateKey) {
-			throw new Error('Private key required. Initialize builder with private key.')
+			throw new Error('Private key required. Initialize builder with private key or signer.')
 		}
-		return createContract(abi).connect(this.privateKey)
+		return createContract(abi).connect(this.privateKey, this.nonceOptions) as Result
 	}
 
 	// ========================================================================
@@ -188,9 +298,9 @@ export class TransactionBuilder {
 	/**
 	 * Derive keys from a Base58 private key and sign a ContractCall.
 	 *
-	 * @param senderPrivkey - Base58 encoded private key (seed)
+	 * @param senderPrivkey - Base58 encoded private key (seed), or a `Signer`
 	 * @param call - A ContractCall from createContract(), buildContractCall(), or buildCoinTransfer()
-	 * @returns Transaction hash and packed transaction
+	 * @returns Transaction hash and packed transaction (a promise of them for a `Signer`)
 	 *
 	 * @example
 	 * ```ts
@@ -199,15 +309,23 @@ export class TransactionBuilder {
 	 * const { txHash, txPacked } = TransactionBuilder.signCall('5Kd3N...', call)
 	 * ```
 	 */
-	static signCall(senderPrivkey: string, call: ContractCall): BuildTransactionResult {
-		return signContractCall(senderPrivkey, call)
+	static signCall<S extends SignerKey>(
+		senderPrivkey: S,
+		call: ContractCall,
+		options?: NonceOptions
+	): SignerResult<S> {
+		return signContractCall(senderPrivkey, call, options)
 	}
 
 	/**
 	 * Build an unsigned transaction from a ContractCall (static)
 	 */
-	static buildFromCall(call: ContractCall, signerPk: Uint8Array): UnsignedTransactionWithHash {
-		return buildUnsignedFromCall(signerPk, call)
+	static buildFromCall(
+		call: ContractCall,
+		signerPk: Uint8Array,
+		options?: NonceOptions
+	): UnsignedTransactionWithHash {
+		return buildUnsignedFromCall(signerPk, call, options)
 	}
 
 	/**
@@ -216,25 +334,98 @@ export class TransactionBuilder {
 	static buildAndSignCall(
 		signerPk: Uint8Array,
 		signerSk: PrivKey | string | Uint8Array,
-		call: ContractCall
-	): BuildTransactionResult {
-		return buildAndSignRaw(signerPk, signerSk, call.contract, call.method, call.args)
+		call: ContractCall,
+		options?: NonceOptions
+	): BuildTransactionResult
+	static buildAndSignCall(
+		signerPk: Uint8Array,
+		signer: Signer,
+		call: ContractCall,
+		options?: NonceOptions
+	): Promise<BuildTransactionResult>
+	static buildAndSignCall(
+		signerPk: Uint8Array,
+		signerSk: PrivKey | string | Uint8Array | Signer,
+		call: ContractCall,
+		options?: NonceOptions
+	): BuildTransactionResult | Promise<BuildTransactionResult> {
+		if (!isSigner(signerSk)) {
+			return buildAndSignRaw(
+				signerPk,
+				signerSk,
+				call.contract,
+				call.method,
+				call.args,
+				options
+			)
+		}
+		return signUnsignedWithSigner(buildUnsignedFromCall(signerPk, call, options), signerSk)
 	}
 
 	/**
 	 * Build an unsigned transaction from a ContractCall (instance)
 	 */
-	buildFromCall(call: ContractCall): UnsignedTransactionWithHash {
-		return buildUnsignedFromCall(this.requirePk(), call)
+	buildFromCall(call: ContractCall): SignerResult<K, UnsignedTransactionWithHash> {
+		return this.withSigner(
+			() => buildUnsignedFromCall(this.requirePk(), call, this.nonceOptions),
+			async (signer) =>
+				buildUnsignedFromCall(await signer.getPublicKey(), call, this.nonceOptions)
+		)
 	}
 
 	/**
 	 * Build and sign a transaction from a ContractCall (instance)
 	 */
-	buildAndSignCall(call: ContractCall): BuildTransactionResult {
-		const pk = this.requirePk()
-		const sk = this.getSignerSk()
-		return buildAndSignRaw(pk, sk, call.contract, call.method, call.args)
+	buildAndSignCall(call: ContractCall): SignerResult<K> {
+		return this.withSigner(
+			() => {
+				const pk = this.requirePk()
+				const sk = this.getSignerSk()
+				return buildAndSignRaw(
+					pk,
+					sk,
+					call.contract,
+					call.method,
+					call.args,
+					this.nonceOptions
+				)
+			},
+			(signer) =>
+				buildAndSignWithSigner(
+					signer,
+					call.contract,
+					call.method,
+					call.args,
+					this.nonceOptions
+				)
+		)
+	}
+
+	/**
+	 * Simulate a ContractCall as the builder's signer, and sign it only if
+	 * the simulation succeeds
+	 *
+	 * @param call - The call to simulate and sign
+	 * @param simulator - Runs the simulation, e.g. `sdk.transaction`
+	 * @returns The signed transaction and its simulation
+	 * @throws {SimulationFailedError} If the call would fail; nothing is signed
+	 *
+	 * @example
+	 * ```ts
+	 * const call = createContract(LOCKUP_PRIME_ABI).lock({ amount, tier: '30d' })
+	 * const { txPacked } = await builder.simulateAndSignCall(call, sdk.transaction)
+	 * await sdk.transaction.submit(txPacked)
+	 * ```
+	 */
+	async simulateAndSignCall(
+		call: ContractCall,
+		simulator: TransactionSimulator
+	): Promise<SimulatedTransactionResult> {
+		this.requireKey(KEY_REQUIRED)
+		const signerPk = this.signer ? await this.signer.getPublicKey() : this.requirePk()
+		const simulation = await simulator.simulate(call, signerPk)
+		if (!simulation.success) throw new SimulationFailedError(simulation)
+		return { ...(await this.buildAndSignCall(call)), simulation }
 	}
 
 	// ========================================================================
@@ -249,8 +440,19 @@ export class TransactionBuilder {
 		method: string,
 		args: SerializableValue[],
 		signerPk?: Uint8Array
-	): UnsignedTransactionWithHash {
-		return buildUnsigned(this.requirePk(signerPk), contract, method, args)
+	): SignerResult<K, UnsignedTransactionWithHash> {
+		return this.withSigner(
+			() =>
+				buildUnsigned(this.requirePk(signerPk), contract, method, args, this.nonceOptions),
+			async (signer) =>
+				buildUnsigned(
+					signerPk ?? (await signer.getPublicKey()),
+					contract,
+					method,
+					args,
+					this.nonceOptions
+				)
+		)
 	}
 
 	/**
@@ -259,8 +461,14 @@ export class TransactionBuilder {
 	sign(
 		unsignedTx: UnsignedTransactionWithHash,
 		signerSk?: PrivKey | string | Uint8Array
-	): BuildTransactionResult {
-		return signUnsigned(unsignedTx, this.getSignerSk(signerSk))
+	): SignerResult<K> {
+		return this.withSigner(
+			() => signUnsigned(unsignedTx, this.getSignerSk(signerSk)),
+			async (signer) =>
+				signerSk
+					? signUnsigned(unsignedTx, signerSk)
+					: signUnsignedWithSigner(unsignedTx, signer)
+		)
 	}
 
 	/**
@@ -272,10 +480,21 @@ export class TransactionBuilder {
 		args: SerializableValue[],
 		signerPk?: Uint8Array,
 		signerSk?: PrivKey | string | Uint8Array
-	): BuildTransactionResult {
-		const pk = this.requirePk(signerPk)
-		const sk = this.getSignerSk(signerSk)
-		return buildAndSignRaw(pk, sk, contract, method, args)
+	): SignerResult<K> {
+		return this.withSigner(
+			() => {
+				const pk = this.requirePk(signerPk)
+				const sk = this.getSignerSk(signerSk)
+				return buildAndSignRaw(pk, sk, contract, method, args, this.nonceOptions)
+			},
+			async (signer) => {
+				const pk = signerPk ?? (await signer.getPublicKey())
+				const unsignedTx = buildUnsigned(pk, contract, method, args, this.nonceOptions)
+				return signerSk
+					? signUnsigned(unsignedTx, signerSk)
+					: signUnsignedWithSigner(unsignedTx, signer)
+			}
+		)
 	}
 
 	/**
@@ -285,9 +504,10 @@ export class TransactionBuilder {
 		signerPk: Uint8Array,
 		contract: string,
 		method: string,
-		args: SerializableValue[]
+		args: SerializableValue[],
+		options?: NonceOptions
 	): UnsignedTransactionWithHash {
-		return buildUnsigned(signerPk, contract, method, args)
+		return buildUnsigned(signerPk, contract, method, args, options)
 	}
 
 	/**
@@ -296,8 +516,18 @@ export class TransactionBuilder {
 	static sign(
 		unsignedTx: UnsignedTransactionWithHash,
 		signerSk: PrivKey | string | Uint8Array
-	): BuildTransactionResult {
-		return signUnsigned(unsignedTx, signerSk)
+	): BuildTransactionResult
+	static sign(
+		unsignedTx: UnsignedTransactionWithHash,
+		signer: Signer
+	): Promise<BuildTransactionResult>
+	static sign(
+		unsignedTx: UnsignedTransactionWithHash,
+		signerSk: PrivKey | string | Uint8Array | Signer
+	): BuildTransactionResult | Promise<BuildTransactionResult> {
+		return isSigner(signerSk)
+			? signUnsignedWithSigner(unsignedTx, signerSk)
+			: signUnsigned(unsignedTx, signerSk)
 	}
 
 	/**
@@ -308,9 +538,32 @@ export class TransactionBuilder {
 		signerSk: PrivKey | string | Uint8Array,
 		contract: string,
 		method: string,
-		args: SerializableValue[]
-	): BuildTransactionResult {
-		return buildAndSignRaw(signerPk, signerSk, contract, method, args)
+		args: SerializableValue[],
+		options?: NonceOptions
+	): BuildTransactionResult
+	static buildAndSign(
+		signerPk: Uint8Array,
+		signer: Signer,
+		contract: string,
+		method: string,
+		args: SerializableValue[],
+		options?: NonceOptions
+	): Promise<BuildTransactionResult>
+	static buildAndSign(
+		signerPk: Uint8Array,
+		signerSk: PrivKey | string | Uint8Array | Signer,
+		contract: string,
+		method: string,
+		args: SerializableValue[],
+		options?: NonceOptions
+	): BuildTransactionResult | Promise<BuildTransactionResult> {
+		if (!isSigner(signerSk)) {
+			return buildAndSignRaw(signerPk, signerSk, contract, method, args, options)
+		}
+		return signUnsignedWithSigner(
+			buildUnsigned(signerPk, contract, method, args, options),
+			signerSk
+		)
 	}
 
 	// ========================================================================
@@ -322,19 +575,15 @@ export class TransactionBuilder {
 	 */
 	buildTransfer(
 		input: Omit<TransferTransactionInput, 'senderPrivkey'>
-	): UnsignedTransactionWithHash {
+	): SignerResult<K, UnsignedTransactionWithHash> {
 		return this.buildFromCall(buildCoinTransfer(input))
 	}
 
 	/**
 	 * Build and sign a Coin transfer transaction
 	 */
-	transfer(input: Omit<TransferTransactionInput, 'senderPrivkey'>): BuildTransactionResult {
-		if (!this.privateKey) {
-			throw new Error(
-				'Private key required. Initialize builder with private key or use static method.'
-			)
-		}
+	transfer(input: Omit<TransferTransactionInput, 'senderPrivkey'>): SignerResult<K> {
+		this.requireKey(KEY_REQUIRED)
 		return this.buildAndSignCall(buildCoinTransfer(input))
 	}
 
@@ -355,17 +604,67 @@ export class TransactionBuilder {
 	/**
 	 * Build and sign a Coin transfer transaction (static)
 	 */
-	static buildSignedTransfer(input: TransferTransactionInput): BuildTransactionResult {
+	static buildSignedTransfer<S extends SignerKey = string>(
+		input: SenderInput<TransferTransactionInput, S>
+	): SignerResult<S> {
 		return TransactionBuilder.signCall(
 			input.senderPrivkey,
 			buildCoinTransfer({
 				recipient: input.recipient,
 				amount: input.amount,
-				symbol: input.symbol
+				symbol: input.symbol,
+				decimals: input.decimals
 			})
 		)
 	}
 
+	// ========================================================================
+	// Coin custom tokens (instance)
+	// ========================================================================
+
+	/** Build and sign a `Coin.create_and_mint` transaction */
+	coinCreateAndMint(input: CoinCreateAndMintParams): SignerResult<K> {
+		this.requireKey(KEY_REQUIRED)
+		return this.buildAndSignCall(buildCoinCreateAndMint(input))
+	}
+
+	/** Build and sign a `Coin.mint` transaction */
+	coinMint(input: CoinMintParams): SignerResult<K> {
+		this.requireKey(KEY_REQUIRED)
+		return this.buildAndSignCall(buildCoinMint(input))
+	}
+
+	/** Build and sign a `Coin.pause` transaction */
+	coinPause(input: CoinPauseParams): SignerResult<K> {
+		this.requireKey(KEY_REQUIRED)
+		return this.buildAndSignCall(buildCoinPause(input))
+	}
+
+	// ========================================================================
+	// Coin custom tokens (static)
+	// ========================================================================
+
+	/** Build and sign a `Coin.create_and_mint` transaction (static) */
+	static buildSignedCoinCreateAndMint<S extends SignerKey = string>(
+		input: SenderInput<CoinCreateAndMintInput, S>
+	): SignerResult<S> {
+		return TransactionBuilder.signCall(input.senderPrivkey, buildCoinCreateAndMint(input))
+	}
+
+	/** Build and sign a `Coin.mint` transaction (static) */
+	static buildSignedCoinMint<S extends SignerKey = string>(
+		input: SenderInput<CoinMintInput, S>
+	): SignerResult<S> {
+		return TransactionBuilder.signCall(input.senderPrivkey, buildCoinMint(input))
+	}
+
+	/** Build and sign a `Coin.pause` transaction (static) */
+	static buildSignedCoinPause<S extends SignerKey = string>(
+		input: SenderInput<CoinPauseInput, S>
+	): SignerResult<S> {
+		return TransactionBuilder.signCall(input.senderPrivkey, buildCoinPause(input))
+	}
+
 	// ========================================================================
 	// LockupPrime (instance)
 	// ========================================================================
@@ -373,22 +672,24 @@ export class TransactionBuilder {
 	/**
 	 * Build and sign a LockupPrime lock transaction
 	 */
-	lockupPrimeLock(input: Omit<LockupPrimeLockInput, 'senderPrivkey'>): BuildTransactionResult {
-		return this.contract(LOCKUP_PRIME_ABI).lock({
-			amount: toAtomicAma(input.amount).toString(),
-			tier: input.tier
-		})
+	lockupPrimeLock(input: Omit<LockupPrimeLockInput, 'senderPrivkey'>): SignerResult<K> {
+		return this.signContract(
+			createContract(LOCKUP_PRIME_ABI).lock({
+				amount: toAtomicAma(input.amount).toString(),
+				tier: input.tier
+			})
+		)
 	}
 
 	/**
 	 * Build and sign a LockupPrime unlock transaction
 	 */
-	lockupPrimeUnlock(
-		input: Omit<LockupPrimeUnlockInput, 'senderPrivkey'>
-	): BuildTransactionResult {
-		return this.contract(LOCKUP_PRIME_ABI).unlock({
-			vaultIndex: input.vaultIndex.toString()
-		})
+	lockupPrimeUnlock(input: Omit<LockupPrimeUnlockInput, 'senderPrivkey'>): SignerResult<K> {
+		return this.signContract(
+			createContract(LOCKUP_PRIME_ABI).unlock({
+				vaultIndex: input.vaultIndex.toString()
+			})
+		)
 	}
 
 	/**
@@ -396,10 +697,12 @@ export class TransactionBuilder {
 	 */
 	lockupPrimeDailyCheckin(
 		input: Omit<LockupPrimeDailyCheckinInput, 'senderPrivkey'>
-	): BuildTransactionResult {
-		return this.contract(LOCKUP_PRIME_ABI).daily_checkin({
-			vaultIndex: input.vaultIndex.toString()
-		})
+	): SignerResult<K> {
+		return this.signContract(
+			createContract(LOCKUP_PRIME_ABI).daily_checkin({
+				vaultIndex: input.vaultIndex.toString()
+			})
+		)
 	}
 
 	// ========================================================================
@@ -409,10 +712,20 @@ export class TransactionBuilder {
 	/**
 	 * Build and sign a Lockup unlock transaction
 	 */
-	lockupUnlock(input: Omit<LockupUnlockInput, 'senderPrivkey'>): BuildTransactionResult {
-		return this.contract(LOCKUP_ABI).unlock({
-			vaultIndex: input.vaultIndex.toString()
-		})
+	lockupUnlock(input: Omit<LockupUnlockInput, 'senderPrivkey'>): SignerResult<K> {
+		return this.signContract(
+			createContract(LOCKUP_ABI).unlock({
+				vaultIndex: input.vaultIndex.toString()
+			})
+		)
+	}
+
+	/**
+	 * Sign an ABI-built call with the builder's key, like `contract(abi).method()`
+	 */
+	private signContract(call: ContractCall): SignerResult<K> {
+		this.requireKey(KEY_REQUIRED)
+		return this.buildAndSignCall(call)
 	}
 
 	// ========================================================================
@@ -422,7 +735,9 @@ export class TransactionBuilder {
 	/**
 	 * Build and sign a LockupPrime lock transaction (static)
 	 */
-	static buildSignedLockupPrimeLock(input: LockupPrimeLockInput): BuildTransactionResult {
+	static buildSignedLockupPrimeLock<S extends SignerKey = string>(
+		input: SenderInput<LockupPrimeLockInput, S>
+	): SignerResult<S> {
 		const call = createContract(LOCKUP_PRIME_ABI).lock({
 			amount: toAtomicAma(input.amount).toString(),
 			tier: input.tier
@@ -433,7 +748,9 @@ export class TransactionBuilder {
 	/**
 	 * Build and sign a LockupPrime unlock transaction (static)
 	 */
-	static buildSignedLockupPrimeUnlock(input: LockupPrimeUnlockInput): BuildTransactionResult {
+	static buildSignedLockupPrimeUnlock<S extends SignerKey = string>(
+		input: SenderInput<LockupPrimeUnlockInput, S>
+	): SignerResult<S> {
 		const call = createContract(LOCKUP_PRIME_ABI).unlock({
 			vaultIndex: input.vaultIndex.toString()
 		})
@@ -443,9 +760,9 @@ export class TransactionBuilder {
 	/**
 	 * Build and sign a LockupPrime daily check-in transaction (static)
 	 */
-	static buildSignedLockupPrimeDailyCheckin(
-		input: LockupPrimeDailyCheckinInput
-	): BuildTransactionResult {
+	static buildSignedLockupPrimeDailyCheckin<S extends SignerKey = string>(
+		input: SenderInput<LockupPrimeDailyCheckinInput, S>
+	): SignerResult<S> {
 		const call = createContract(LOCKUP_PRIME_ABI).daily_checkin({
 			vaultIndex: input.vaultIndex.toString()
 		})
@@ -459,7 +776,9 @@ export class TransactionBuilder {
 	/**
 	 * Build and sign a Lockup unlock transaction (static)
 	 */
-	static buildSignedLockupUnlock(input: LockupUnlockInput): BuildTransactionResult {
+	static buildSignedLockupUnlock<S extends SignerKey = string>(
+		input: SenderInput<LockupUnlockInput, S>
+	): SignerResult<S> {
 		const call = createContract(LOCKUP_ABI).unlock({
 			vaultIndex: input.vaultIndex.toString()
 		})
@@ -471,32 +790,20 @@ export class TransactionBuilder {
 	// ========================================================================
 
 	/** Build and sign an `Nft.transfer` transaction */
-	nftTransfer(input: NftTransferParams): BuildTransactionResult {
-		if (!this.privateKey) {
-			throw new Error(
-				'Private key required. Initialize builder with private key or use static method.'
-			)
-		}
+	nftTransfer(input: NftTransferParams): SignerResult<K> {
+		this.requireKey(KEY_REQUIRED)
 		return this.buildAndSignCall(buildNftTransfer(input))
 	}
 
 	/** Build and sign an `Nft.mint` transaction (collection owner only) */
-	nftMint(input: NftMintParams): BuildTransactionResult {
-		if (!this.privateKey) {
-			throw new Error(
-				'Private key required. Initialize builder with private key or use static method.'
-			)
-		}
+	nftMint(input: NftMintParams): SignerResult<K> {
+		this.requireKey(KEY_REQUIRED)
 		return this.buildAndSignCall(buildNftMint(input))
 	}
 
 	/** Build and sign an `Nft.create_collection` transaction */
-	nftCreateCollection(input: NftCreateCollectionParams): BuildTransactionResult {
-		if (!this.privateKey) {
-			throw new Error(
-				'Private key required. Initialize builder with private key or use static method.'
-			)
-		}
+	nftCreateCollection(input: NftCreateCollectionParams): SignerResult<K> {
+		this.requireKey(KEY_REQUIRED)
 		return this.buildAndSignCall(buildNftCreateCollection(input))
 	}
 
@@ -505,17 +812,87 @@ export class TransactionBuilder {
 	// ========================================================================
 
 	/** Build and sign an `Nft.transfer` transaction (static) */
-	static buildSignedNftTransfer(input: NftTransferInput): BuildTransactionResult {
+	static buildSignedNftTransfer<S extends SignerKey = string>(
+		input: SenderInput<NftTransferInput, S>
+	): SignerResult<S> {
 		return TransactionBuilder.signCall(input.senderPrivkey, buildNftTransfer(input))
 	}
 
 	/** Build and sign an `Nft.mint` transaction (static) */
-	static buildSignedNftMint(input: NftMintInput): BuildTransactionResult {
+	static buildSignedNftMint<S extends SignerKey = string>(
+		input: SenderInput<NftMintInput, S>
+	): SignerResult<S> {
 		return TransactionBuilder.signCall(input.senderPrivkey, buildNftMint(input))
 	}
 
 	/** Build and sign an `Nft.create_collection` transaction (static) */
-	static buildSignedNftCreateCollection(input: NftCreateCollectionInput): BuildTransactionResult {
+	static buildSignedNftCreateCollection<S extends SignerKey = string>(
+		input: SenderInput<NftCreateCollectionInput, S>
+	): SignerResult<S> {
 		return TransactionBuilder.signCall(input.senderPrivkey, buildNftCreateCollection(input))
 	}
+
+	// ========================================================================
+	// Epoch (instance)
+	// ========================================================================
+
+	/** Build and sign an `Epoch.submit_sol` transaction */
+	epochSubmitSol(input: EpochSubmitSolParams): SignerResult<K> {
+		this.requireKey(KEY_REQUIRED)
+		return this.buildAndSignCall(buildEpochSubmitSol(input))
+	}
+
+	/** Build and sign an `Epoch.set_emission_address` transaction */
+	epochSetEmissionAddress(input: EpochSetEmissionAddressParams): SignerResult<K> {
+		this.requireKey(KEY_REQUIRED)
+		return this.buildAndSignCall(buildEpochSetEmissionAddress(input))
+	}
+
+	/** Build and sign an `Epoch.slash_trainer` transaction */
+	epochSlashTrainer(input: EpochSlashTrainerParams): SignerResult<K> {
+		this.requireKey(KEY_REQUIRED)
+		return this.buildAndSignCall(buildEpochSlashTrainer(input))
+	}
+
+	// ========================================================================
+	// Epoch (static)
+	// ========================================================================
+
+	/** Build and sign an `Epoch.submit_sol` transaction (static) */
+	static buildSignedEpochSubmitSol<S extends SignerKey = string>(
+		input: SenderInput<EpochSubmitSolInput, S>
+	): SignerResult<S> {
+		return TransactionBuilder.signCall(input.senderPrivkey, buildEpochSubmitSol(input))
+	}
+
+	/** Build and sign an `Epoch.set_emission_address` transaction (static) */
+	static buildSignedEpochSetEmissionAddress<S extends SignerKey = string>(
+		input: SenderInput<EpochSetEmissionAddressInput, S>
+	): SignerResult<S> {
+		return TransactionBuilder.signCall(input.senderPrivkey, buildEpochSetEmissionAddress(input))
+	}
+
+	/** Build and sign an `Epoch.slash_trainer` transaction (static) */
+	static buildSignedEpochSlashTrainer<S extends SignerKey = string>(
+		input: SenderInput<EpochSlashTrainerInput, S>
+	): SignerResult<S> {
+		return TransactionBuilder.signCall(input.senderPrivkey, buildEpochSlashTrainer(input))
+	}
+
+	// ========================================================================
+	// Contract deployment
+	// ========================================================================
+
+	/** Build and sign a `Contract.deploy` transaction; the contract lives at the signer's address */
+	deploy(input: ContractDeployParams): SignerResult<K> {
+		this.requireKey(KEY_REQUIRED)
+		return this.buildAndSignCall(buildContractDeploy(input))
+	}
+
+	/** Build and sign a `Contract.deploy` transaction (static) */
+	static buildSignedDeploy<S extends SignerKey = string>(
+		input: SenderInput<ContractDeployInput, S>
+	): SignerResult<S> {
+		return TransactionBuilder.signCall(input.senderPrivkey, buildContractDeploy(input))
+	}
 }
@@ -0,0 +1,253 @@
+/**
+ * Transaction Decoding and Verification
+ *
+ * Takes a packed transaction (`{ tx, hash, signature }` in VecPack) apart and
+ * checks it the way a node does: canonical encoding, the structure of the
+ * action, `hash == sha256(tx_encoded)` and the BLS signature of the hash by
+ * the signer, under the same DST used for signing.
+ */
+
+import { sha256 } from '@noble/hashes/sha2'
+
+import { BLS_DST, blsVerify, verifyBatch } from './crypto'
+import type { BlsBatchItem } from './crypto'
+import { fromBase58 } from './encoding'
+import { ValidationError } from './errors'
+import { decode, encode } from './serialization'
+import { getTransactionErrorMessage } from './transaction-errors'
+import type {
+	DecodedTransaction,
+	DecodedTransactionBody,
+	DecodedValue,
+	TransactionValidationResult
+} from './types'
+import { TransactionValidationError } from './types'
+
+type Unpacked = { txu: DecodedTransaction } | { error: TransactionValidationError }
+
+const utf8 = new TextDecoder('utf-8', { fatal: true })
+
+/**
+ * Turn a decoded map with binary keys into a plain record
+ */
+function toRecord(value: DecodedValue | undefined): Record<string, DecodedValue> | undefined {
+	if (!(value instanceof Map)) return undefined
+	const record: Record<string, DecodedValue> = {}
+	for (const [key, entry] of value) {
+		const name = text(key)
+		if (name === undefined) return undefined
+		record[name] = entry
+	}
+	return record
+}
+
+function text(value: DecodedValue | undefined): string | undefined {
+	if (!(value instanceof Uint8Array)) return undefined
+	try {
+		return utf8.decode(value)
+	} catch {
+		return undefined
+	}
+}
+
+/**
+ * Decode bytes, mapping any decoding failure to `undefined`
+ */
+function tryDecode(txPacked: Uint8Array | string): DecodedValue | undefined {
+	try {
+		return decode(typeof txPacked === 'string' ? fromBase58(txPacked) : txPacked)
+	} catch {
+		return undefined
+	}
+}
+
+/**
+ * Decode and structurally check a packed transaction
+ */
+function unpack(txPacked: Uint8Array | string): Unpacked {
+	const packed = toRecord(tryDecode(txPacked))
+	if (
+		!packed ||
+		packed.tx === undefined ||
+		!(packed.hash instanceof Uint8Array) ||
+		!(packed.signature instanceof Uint8Array)
+	) {
+		return { error: TransactionValidationError.TX_NOT_CANONICAL }
+	}
+
+	const body = unpackBody(packed.tx)
+	if ('error' in body) return body
+	return {
+		txu: {
+			tx: body.tx,
+			tx_encoded: encode(packed.tx),
+			hash: packed.hash,
+			signature: packed.signature
+		}
+	}
+}
+
+/**
+ * Structurally check a decoded transaction body (`{ signer, nonce, action }`)
+ */
+function unpackBody(
+	decoded: DecodedValue | undefined
+): { tx: DecodedTransactionBody } | { error: TransactionValidationError } {
+	const tx = toRecord(decoded)
+	if (!tx || !(tx.signer instanceof Uint8Array)) {
+		return { error: TransactionValidationError.TX_NOT_CANONICAL }
+	}
+	if (typeof tx.nonce !== 'bigint') return { error: TransactionValidationError.NONCE_NOT_INTEGER }
+
+	const action = toRecord(tx.action)
+	if (!action) return { error: TransactionValidationError.TX_NOT_CANONICAL }
+	if (text(action.op) !== 'call') return { error: TransactionValidationError.OP_MUST_BE_CALL }
+	const contract = text(action.contract)
+	if (contract === undefined) return { error: TransactionValidationError.CONTRACT_MUST_BE_BINARY }
+	const fn = text(action.function)
+	if (fn === undefined) return { error: TransactionValidationError.FUNCTION_MUST_BE_BINARY }
+	if (!Array.isArray(action.args)) return { error: TransactionValidationError.ARGS_MUST_BE_LIST }
+	const args: Uint8Array[] = []
+	for (const arg of action.args) {
+		if (!(arg instanceof Uint8Array)) {
+			return { error: TransactionValidationError.ARG_MUST_BE_BINARY }
+		}
+		args.push(arg)
+	}
+
+	return {
+		tx: {
+			signer: tx.signer,
+			nonce: tx.nonce,
+			action: {
+				op: 'call',
+				contract,
+				function: fn,
+				args,
+				attached_symbol: text(action.attached_symbol),
+				attached_amount: text(action.attached_amount)
+			}
+		}
+	}
+}
+
+function invalid(error: TransactionValidationError): ValidationError {
+	return new ValidationError(
+		`Invalid packed transaction: ${getTransactionErrorMessage(error)} (${error})`
+	)
+}
+
+/**
+ * Decode a packed transaction.
+ *
+ * Only the structure is checked; use `verifyTransaction` to also check the
+ * hash and signature.
+ *
+ * @param txPacked - Packed transaction as Uint8Array or Base58 string
+ * @returns The signer, `bigint` nonce, action (contract, function and binary
+ *          args), canonical `tx_encoded`, embedded hash and signature. Args are
+ *          not decoded; `describeTransaction` reads them against the known ABIs.
+ * @throws {ValidationError} If the bytes are not a well-formed transaction
+ *
+ * @example
+ * ```ts
+ * const { tx, hash } = decodeTransaction(txPacked)
+ * console.log(toBase58(tx.signer), tx.nonce, tx.action.contract, tx.action.function)
+ * ```
+ */
+export function decodeTransaction(txPacked: Uint8Array | string): DecodedTransaction {
+	const result = unpack(txPacked)
+	if ('error' in result) throw invalid(result.error)
+	return result.txu
+}
+
+/**
+ * Decode an encoded transaction body, i.e. the `tx_encoded` bytes that the
+ * transaction hash is computed over.
+ *
+ * @param txEncoded - Canonical encoding of `{ signer, nonce, action }`
+ * @returns The decoded body, checked like `decodeTransaction` checks it
+ * @throws {ValidationError} If the bytes are not a well-formed transaction body
+ */
+export function decodeTransactionBody(txEncoded: Uint8Array): DecodedTransactionBody {
+	const result = unpackBody(tryDecode(txEncoded))
+	if ('error' in result) throw invalid(result.error)
+	return result.tx
+}
+
+/**
+ * Decode a packed transaction and verify its hash and signature.
+ *
+ * Recomputes `sha256(tx_encoded)`, compares it with the embedded hash and
+ * checks the BLS signature against the signer's public key. Never throws;
+ * the error codes match the node's (`TransactionValidationError`).
+ *
+ * @param txPacked - Packed transaction as Uint8Array or Base58 string
+ * @returns `{ error: 'ok', txu }`, or `{ error }` with the first check that failed
+ *
+ * @example
+ * ```ts
+ * const result = verifyTransaction(txPackedFromDapp)
+ * if (result.error !== 'ok') {
+ *   throw new Error(getTransactionErrorMessage(result.error))
+ * }
+ * showConfirmation(result.txu.tx.action)
+ * ```
+ */
+export function verifyTransaction(txPacked: Uint8Array | string): TransactionValidationResult {
+	const result = checkHash(txPacked)
+	return 'txu' in result ? checkSignature(result.txu) : result
+}
+
+/**
+ * Verify many packed transactions, checking their signatures as one batch.
+ *
+ * Same checks and results as `verifyTransaction`, in input order. The
+ * signatures are verified together with `verifyBatch`; only if the batch
+ * fails are they checked one by one to find the invalid ones.
+ *
+ * @param txPacked - Packed transactions as Uint8Array or Base58 strings
+ * @returns One `verifyTransaction` result per transaction
+ *
+ * @example
+ * ```ts
+ * const results = verifyTransactions(packedTxs)
+ * const invalid = results.filter((result) => result.error !== 'ok')
+ * ```
+ */
+export function verifyTransactions(
+	txPacked: (Uint8Array | string)[]
+): TransactionValidationResult[] {
+	const results = txPacked.map(checkHash)
+	const batch = results.flatMap((result) => ('txu' in result ? [signatureOf(result.txu)] : []))
+	if (verifyBatch(batch, BLS_DST.TX)) return results
+
+	return results.map((result) => ('txu' in result ? checkSignature(result.txu) : result))
+}
+
+/**
+ * Decode a packed transaction and check `hash == sha256(tx_encoded)`
+ */
+function checkHash(txPacked: Uint8Array | string): TransactionValidationResult {
+	const result = unpack(txPacked)
+	if ('error' in result) return result
+
+	const { txu } = result
+	const hash = sha256(txu.tx_encoded)
+	if (hash.length !== txu.hash.length || hash.some((byte, i) => byte !== txu.hash[i])) {
+		return { error: TransactionValidationError.INVALID_HASH }
+	}
+	return { error: 'ok', txu }
+}
+
+function checkSignature(txu: DecodedTransaction): TransactionValidationResult {
+	const { signature, message, publicKey } = signatureOf(txu)
+	if (!blsVerify(signature, message, publicKey, BLS_DST.TX)) {
+		return { error: TransactionValidationError.INVALID_SIGNATURE }
+	}
+	return { error: 'ok', txu }
+}
+
+function signatureOf(txu: DecodedTransaction): BlsBatchItem {
+	return { signature: txu.signature, message: txu.hash, publicKey: txu.tx.signer }
+}
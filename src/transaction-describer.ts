@@ -0,0 +1,437 @@
+/**
+ * Transaction Describer
+ *
+ * Renders a contract call or a packed transaction as a structured summary
+ * for confirmation screens: a one-line title, labelled arguments, the amount,
+ * recipient and lock tier, the network fee and warnings. Arguments are
+ * interpreted with the ABI `inputs` of the built-in contracts (and any ABI
+ * you pass); every text comes from a message table you can translate.
+ */
+
+import { AMA_TOKEN_DECIMALS, AMA_TRANSFER_FEE, AMADEUS_PUBLIC_KEY_BYTE_LENGTH } from './constants'
+import type { AbiDefinition, AbiFunction, AbiInput } from './contracts/abi-types'
+import { COIN_ABI } from './contracts/coin/abi'
+import type { ContractCall } from './contracts/contract-call'
+import { EPOCH_ABI } from './contracts/epoch/abi'
+import { LOCKUP_ABI } from './contracts/lockup/abi'
+import { LOCKUP_PRIME_ABI } from './contracts/lockup-prime/abi'
+import { LockupPrime } from './contracts/lockup-prime/helpers'
+import type { LockupTier } from './contracts/lockup-prime/types'
+import { NFT_ABI } from './contracts/nft/abi'
+import { fromAtomicUnits, toAtomicUnits } from './conversion'
+import { fromBase58, toBase58 } from './encoding'
+import type { NetworkType } from './networks'
+import { decodeTransaction } from './transaction-decoder'
+import type { DecodedTransaction, SerializableValue } from './types'
+
+/**
+ * Message templates by key. `{name}` placeholders are replaced with values:
+ *
+ * - `<Contract>.<method>`: title of a call; placeholders are argument names
+ *   (`{amount}` includes the symbol, `{tier}` is the tier label)
+ * - `call`: title of calls without a template or ABI description
+ * - `label.<argument>`: label of an argument (default: its name)
+ * - `warning.<code>`: text of a warning
+ */
+export type DescriberMessages = Readonly<Record<string, string>>
+
+/**
+ * English messages, the default
+ */
+export const DEFAULT_DESCRIBER_MESSAGES: DescriberMessages = {
+	'Coin.transfer': 'Send {amount} to {receiver}',
+	'Coin.create_and_mint': 'Create token {symbol} with a supply of {amount}',
+	'Coin.mint': 'Mint {amount} to {receiver}',
+	'Coin.pause': 'Set token {symbol} paused: {direction}',
+	'Nft.transfer': 'Send {amount} #{token} to {receiver}',
+	'Nft.mint': 'Mint {amount} #{token} to {receiver}',
+	'Nft.create_collection': 'Create NFT collection {collection}',
+	'LockupPrime.lock': 'Lock {amount} for {tier}',
+	'LockupPrime.unlock': 'Unlock prime vault #{vaultIndex}',
+	'LockupPrime.daily_checkin': 'Daily check-in for prime vault #{vaultIndex}',
+	'Lockup.unlock': 'Unlock vault #{vaultIndex}',
+	call: 'Call {contract}.{method}',
+	'label.receiver': 'Recipient',
+	'label.amount': 'Amount',
+	'label.symbol': 'Token',
+	'label.decimals': 'Decimals',
+	'label.mintable': 'Mintable',
+	'label.pausable': 'Pausable',
+	'label.soulbound': 'Soulbound',
+	'label.direction': 'Paused',
+	'label.collection': 'Collection',
+	'label.token': 'Token ID',
+	'label.tier': 'Lock period',
+	'label.vaultIndex': 'Vault',
+	'label.address': 'Address',
+	'label.sol': 'Solution',
+	'warning.unknown_function':
+		'{contract}.{method} is not a known function; check the raw arguments',
+	'warning.argument_count': 'Expected {expected} arguments, got {actual}',
+	'warning.invalid_argument': '{label} is not a valid {type}',
+	'warning.unknown_decimals': 'Decimals of {symbol} are unknown; the amount is in atomic units',
+	'warning.early_unlock':
+		'Unlocking before the lock period ends forfeits {penalty}% of the amount',
+	'warning.soulbound': 'Soulbound tokens can never be transferred',
+	'warning.self_transfer': 'The recipient is the signer',
+	'warning.attached_funds': 'Also sends {amount} to the contract'
+}
+
+/**
+ * Why a transaction deserves a second look
+ *
+ * - `unknown_function`: no ABI describes the call
+ * - `argument_count`: the call has more or fewer arguments than its ABI
+ * - `invalid_argument`: an argument does not parse as its ABI type
+ * - `unknown_decimals`: the token's decimals are unknown, so the amount is atomic
+ * - `early_unlock`: unlocking early costs a penalty
+ * - `soulbound`: the created tokens can never be transferred
+ * - `self_transfer`: the recipient is the signer
+ * - `attached_funds`: the transaction also sends tokens to the contract
+ */
+export type TransactionWarningCode =
+	| 'unknown_function'
+	| 'argument_count'
+	| 'invalid_argument'
+	| 'unknown_decimals'
+	| 'early_unlock'
+	| 'soulbound'
+	| 'self_transfer'
+	| 'attached_funds'
+
+/**
+ * Warning about a transaction
+ */
+export interface TransactionWarning {
+	code: TransactionWarningCode
+	/** Localized text */
+	message: string
+}
+
+/**
+ * Argument of a described call, in ABI order
+ */
+export interface DescribedArgument {
+	/** ABI input name (`arg<i>` without an ABI) */
+	name: string
+	/** Localized label */
+	label: string
+	/** Display value: text, Base58 for addresses and bytes */
+	value: string
+	/** ABI input type */
+	type: string
+}
+
+/**
+ * Token amount of a described call
+ */
+export interface DescribedAmount {
+	/** Atomic units as an integer string */
+	atomic: string
+	/** Amount in token units (atomic when the decimals are unknown) */
+	value: string
+	/** Token symbol or NFT collection */
+	symbol: string
+	/** Token decimals, when known */
+	decimals?: number
+}
+
+/**
+ * Structured summary of a transaction for confirmation screens
+ */
+export interface TransactionDescription {
+	contract: string
+	method: string
+	/** Localized one-line summary, e.g. `Send 10.5 AMA to 5Kd3N...` */
+	title: string
+	/** ABI description of the function, when known */
+	description?: string
+	args: DescribedArgument[]
+	/** Amount moved, locked or minted */
+	amount?: DescribedAmount
+	/** Recipient public key (Base58) */
+	recipient?: string
+	/** LockupPrime tier of a lock */
+	tier?: LockupTier
+	/** Network fee in AMA */
+	fee: DescribedAmount
+	warnings: TransactionWarning[]
+	/** Signer public key (Base58), for packed transactions */
+	signer?: string
+	/** Nonce as a decimal string, for packed transactions */
+	nonce?: string
+	/** Transaction hash (Base58), for packed transactions */
+	txHash?: string
+}
+
+/**
+ * Describer options
+ */
+export interface DescribeTransactionOptions {
+	/** ABIs to describe calls with besides the built-in contracts, e.g. your WASM contracts */
+	abis?: readonly AbiDefinition[]
+	/** Decimals of custom tokens by symbol, to show their amounts in token units */
+	tokenDecimals?: Readonly<Record<string, number>>
+	/** Network whose lock tier durations to show (default: mainnet) */
+	network?: NetworkType
+	/** Translated messages; missing keys fall back to `DEFAULT_DESCRIBER_MESSAGES` */
+	messages?: Partial<DescriberMessages>
+}
+
+const BUILTIN_ABIS: readonly AbiDefinition[] = [
+	COIN_ABI,
+	NFT_ABI,
+	LOCKUP_PRIME_ABI,
+	LOCKUP_ABI,
+	EPOCH_ABI
+]
+
+const EARLY_UNLOCK_PENALTY = Number(LOCKUP_PRIME_ABI.constants.values.EARLY_UNLOCK_PENALTY)
+
+const utf8 = new TextDecoder('utf-8', { fatal: true })
+const PRINTABLE = /^[\x20-\x7e]*$/
+
+/**
+ * Describe a contract call before it is signed
+ *
+ * @param call - Call from `createContract(abi).method()`, `buildCoinTransfer()` and the like
+ * @param options - Extra ABIs, token decimals, network and messages
+ * @returns Structured, localized summary
+ *
+ * @example
+ * ```ts
+ * const description = describeCall(buildCoinTransfer({ recipient, amount: 10.5, symbol: 'AMA' }))
+ * // description.title === 'Send 10.5 AMA to 5Kd3N...'
+ * // description.fee.value === '0.02'
+ * ```
+ */
+export function describeCall(
+	call: ContractCall,
+	options: DescribeTransactionOptions = {}
+): TransactionDescription {
+	return describe(call.contract, call.method, call.args, options)
+}
+
+/**
+ * Describe a packed transaction, e.g. one a dApp asks a wallet to submit
+ *
+ * Besides the call, the summary has the signer, nonce and hash, and warns
+ * about attached funds and transfers to the signer.
+ *
+ * @param tx - Packed transaction (bytes or Base58) or `decodeTransaction()` output
+ * @param options - Extra ABIs, token decimals, network and messages
+ * @returns Structured, localized summary
+ * @throws {ValidationError} If the transaction is malformed
+ */
+export function describeTransaction(
+	tx: Uint8Array | string | DecodedTransaction,
+	options: DescribeTransactionOptions = {}
+): TransactionDescription {
+	const txu = typeof tx === 'string' || tx instanceof Uint8Array ? decodeTransaction(tx) : tx
+	const { signer, nonce, action } = txu.tx
+	const description = describe(action.contract, action.function, action.args, options)
+	const signerBase58 = toBase58(signer)
+	const text = messagesOf(options)
+
+	if (description.recipient === signerBase58) {
+		description.warnings.push(warning(text, 'self_transfer', {}))
+	}
+	if (action.attached_symbol !== undefined && action.attached_amount !== undefined) {
+		const attached = describeAmount(action.attached_amount, action.attached_symbol, options)
+		description.warnings.push(
+			warning(text, 'attached_funds', { amount: formatAmount(attached) })
+		)
+	}
+	return {
+		...description,
+		signer: signerBase58,
+		nonce: nonce.toString(),
+		txHash: toBase58(txu.hash)
+	}
+}
+
+function describe(
+	contract: string,
+	method: string,
+	args: readonly SerializableValue[],
+	options: DescribeTransactionOptions
+): TransactionDescription {
+	const text = messagesOf(options)
+	const fn = findFunction(contract, method, options.abis)
+	const warnings: TransactionWarning[] = []
+	const inputs: readonly AbiInput[] =
+		fn?.inputs ?? args.map((_, i) => ({ name: `arg${i}`, type: 'bytes' }))
+
+	if (!fn) warnings.push(warning(text, 'unknown_function', { contract, method }))
+	else if (fn.inputs.length !== args.length) {
+		warnings.push(
+			warning(text, 'argument_count', {
+				expected: String(fn.inputs.length),
+				actual: String(args.length)
+			})
+		)
+	}
+
+	const described: DescribedArgument[] = []
+	const values: Record<string, string> = {}
+	for (const [i, input] of inputs.entries()) {
+		if (i >= args.length) break
+		const label = text[`label.${input.name}`] ?? input.name
+		const value = argumentValue(input, args[i])
+		if (value === undefined) {
+			warnings.push(warning(text, 'invalid_argument', { label, type: input.type }))
+		}
+		const display = value ?? displayBytes(args[i])
+		described.push({ name: input.name, label, value: display, type: input.type })
+		if (value !== undefined) values[input.name] = value
+	}
+
+	const description: TransactionDescription = {
+		contract,
+		method,
+		title: '',
+		...(fn?.description === undefined ? {} : { description: fn.description }),
+		args: described,
+		fee: describeAmount(toAtomicUnits(AMA_TRANSFER_FEE, AMA_TOKEN_DECIMALS), 'AMA', options),
+		warnings
+	}
+	if (fn) interpret(description, values, options, text)
+
+	const params: Record<string, string> = { contract, method, ...values }
+	if (description.amount) params.amount = formatAmount(description.amount)
+	if (description.tier) params.tier = description.tier.label
+	const template = text[`${contract}.${method}`] ?? fn?.description ?? text.call
+	description.title = fill(template, params)
+	return description
+}
+
+/** Amount, recipient, tier and warnings of the known contracts */
+function interpret(
+	description: TransactionDescription,
+	values: Record<string, string>,
+	options: DescribeTransactionOptions,
+	text: DescriberMessages
+): void {
+	const { contract, method, warnings } = description
+	const { receiver, amount, symbol, collection, tier } = values
+
+	if (receiver !== undefined) description.recipient = receiver
+	if (amount !== undefined && /^\d+$/.test(amount)) {
+		if (contract === 'Coin' && symbol !== undefined) {
+			const decimals =
+				method === 'create_and_mint' && /^\d+$/.test(values.decimals ?? '')
+					? Number(values.decimals)
+					: undefined
+			description.amount = describeAmount(amount, symbol, options, decimals)
+			if (description.amount.decimals === undefined) {
+				warnings.push(warning(text, 'unknown_decimals', { symbol }))
+			}
+		} else if (contract === 'Nft' && collection !== undefined) {
+			description.amount = { atomic: amount, value: amount, symbol: collection, decimals: 0 }
+		} else if (contract === 'LockupPrime') {
+			description.amount = describeAmount(amount, 'AMA', options)
+		}
+	}
+	if (contract === 'LockupPrime' && tier !== undefined) {
+		const lockTier = LockupPrime.getTier(tier, options.network)
+		if (lockTier) description.tier = lockTier
+	}
+	if (contract === 'LockupPrime' && method === 'unlock') {
+		warnings.push(
+			warning(text, 'early_unlock', { penalty: String(EARLY_UNLOCK_PENALTY * 100) })
+		)
+	}
+	if (values.soulbound === 'true') warnings.push(warning(text, 'soulbound', {}))
+}
+
+function findFunction(
+	contract: string,
+	method: string,
+	abis: readonly AbiDefinition[] = []
+): AbiFunction | undefined {
+	for (const abi of [...abis, ...BUILTIN_ABIS]) {
+		if (abi.contractName !== contract) continue
+		const fn = abi.abi.find((entry) => entry.name === method)
+		if (fn) return fn
+	}
+	return undefined
+}
+
+/** Display value of an argument, or undefined if it does not parse as its type */
+function argumentValue(input: AbiInput, arg: SerializableValue): string | undefined {
+	if (input.type === 'address' || input.type === 'bytes') {
+		let bytes: Uint8Array | undefined
+		if (arg instanceof Uint8Array) bytes = arg
+		else if (typeof arg === 'string') {
+			try {
+				bytes = fromBase58(arg)
+			} catch {
+				return undefined
+			}
+		}
+		if (!bytes) return undefined
+		if (input.type === 'address' && bytes.length !== AMADEUS_PUBLIC_KEY_BYTE_LENGTH) {
+			return undefined
+		}
+		return toBase58(bytes)
+	}
+
+	const value = arg instanceof Uint8Array ? printable(arg) : scalar(arg)
+	if (value === undefined) return undefined
+	if (input.enum && !input.enum.includes(value)) return undefined
+	return value
+}
+
+function scalar(arg: SerializableValue): string | undefined {
+	if (typeof arg === 'string' || typeof arg === 'number' || typeof arg === 'bigint') {
+		return String(arg)
+	}
+	return undefined
+}
+
+function printable(bytes: Uint8Array): string | undefined {
+	try {
+		const text = utf8.decode(bytes)
+		return PRINTABLE.test(text) ? text : undefined
+	} catch {
+		return undefined
+	}
+}
+
+function displayBytes(arg: SerializableValue): string {
+	if (arg instanceof Uint8Array) return printable(arg) ?? toBase58(arg)
+	return scalar(arg) ?? typeof arg
+}
+
+function describeAmount(
+	atomic: bigint | string,
+	symbol: string,
+	options: DescribeTransactionOptions,
+	knownDecimals?: number
+): DescribedAmount {
+	const decimals =
+		knownDecimals ?? (symbol === 'AMA' ? AMA_TOKEN_DECIMALS : options.tokenDecimals?.[symbol])
+	const amount = atomic.toString()
+	if (decimals === undefined) return { atomic: amount, value: amount, symbol }
+	return { atomic: amount, value: fromAtomicUnits(amount, decimals), symbol, decimals }
+}
+
+function formatAmount(amount: DescribedAmount): string {
+	return `${amount.value} ${amount.symbol}`
+}
+
+function messagesOf(options: DescribeTransactionOptions): DescriberMessages {
+	return { ...DEFAULT_DESCRIBER_MESSAGES, ...options.messages } as DescriberMessages
+}
+
+function warning(
+	text: DescriberMessages,
+	code: TransactionWarningCode,
+	params: Record<string, string>
+): TransactionWarning {
+	return { code, message: fill(text[`warning.${code}`] ?? code, params) }
+}
+
+function fill(template: string, params: Record<string, string>): string {
+	return template.replace(/\{(\w+)\}/g, (match, name: string) => params[name] ?? match)
+}
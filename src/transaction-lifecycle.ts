@@ -0,0 +1,334 @@
+/**
+ * Transaction Lifecycle
+ *
+ * Runs a contract call from start to finish: optional preflight simulation,
+ * build and sign, submit, wait for inclusion or finality, and interpret the
+ * receipt. When a submission ends ambiguously (timeout, dropped connection,
+ * transient status) the transaction hash is looked up before the same signed
+ * bytes are submitted again, so a call is never signed twice.
+ */
+
+import type { AmadeusClient, RequestGroup, RequestOptions } from './client'
+import type { TransactionAPI, TransactionWaitProgress } from './api/transaction'
+import type { ContractCall } from './contracts/contract-call'
+import {
+	NotFoundError,
+	SimulationFailedError,
+	TransactionFailedError,
+	TransactionRejectedError
+} from './errors'
+import type { NonceManager } from './nonce'
+import { LocalSigner } from './signer'
+import type { SignerKey } from './signer'
+import { TransactionBuilder } from './transaction-builder'
+import { AmadeusSDKError } from './types'
+import type {
+	Transaction,
+	TransactionExecutionError,
+	TransactionMetadata,
+	TransactionReceipt,
+	TransactionSimulation,
+	TransactionValidationError
+} from './types'
+
+/**
+ * Emitted as a transaction moves through its lifecycle
+ *
+ * - `preflight`: the simulation finished (successful or not)
+ * - `signed`: the transaction was built and signed
+ * - `submitted`: the node accepted a submission
+ * - `ambiguous`: a submission failed without telling whether the node got it
+ * - `recovered`: after an ambiguous submission, the transaction was found on chain
+ * - `progress`: the wait reached a new stage or confirmation count
+ */
+export type TransactionLifecycleEvent =
+	| { type: 'preflight'; simulation: TransactionSimulation }
+	| { type: 'signed'; txHash: string }
+	| { type: 'submitted'; txHash: string; attempt: number }
+	| { type: 'ambiguous'; txHash: string; attempt: number; error: AmadeusSDKError }
+	| { type: 'recovered'; txHash: string }
+	| { type: 'progress'; txHash: string; progress: TransactionWaitProgress }
+
+/**
+ * Options for `sdk.execute`
+ */
+export interface ExecuteTransactionOptions {
+	/** Simulate the call first and stop before signing if it would fail */
+	preflight?: boolean
+	/** Entries at or above the including entry to wait for (default: 1, i.e. included) */
+	confirmations?: number
+	/** Also wait until the including entry reached finality */
+	finalized?: boolean
+	/** Give up waiting after this many milliseconds (default: no limit) */
+	timeout?: number
+	/** Delay between polls and between submission attempts in milliseconds (default: 1000) */
+	pollInterval?: number
+	/** Submissions to try after ambiguous failures (default: 3) */
+	maxSubmitAttempts?: number
+	/** Nonce manager for the transaction (default: the shared default) */
+	nonceManager?: NonceManager
+	/** Called for every lifecycle event */
+	onEvent?: (event: TransactionLifecycleEvent) => void
+	/** Aborting this signal cancels the lifecycle */
+	signal?: AbortSignal
+	/** Cancellation group the lifecycle's requests belong to */
+	group?: RequestGroup
+}
+
+/**
+ * The transaction executed successfully
+ */
+export interface TransactionLifecycleSuccess {
+	status: 'success'
+	/** Transaction hash (Base58) */
+	txHash: string
+	/** Execution receipt */
+	receipt: TransactionReceipt
+	/** Entry that included the transaction */
+	metadata: TransactionMetadata
+	/** True if the wait ended at finality */
+	finalized: boolean
+	/** Preflight simulation, when requested */
+	simulation?: TransactionSimulation
+}
+
+/**
+ * The node refused the transaction; it never reached the chain
+ */
+export interface TransactionLifecycleValidationFailure {
+	status: 'validation_error'
+	/** Transaction hash (Base58) */
+	txHash: string
+	/** Why the node refused it */
+	reason: TransactionValidationError | TransactionExecutionError | string
+	/** Human-readable reason */
+	message: string
+	error: TransactionRejectedError
+}
+
+/**
+ * The call failed to execute: on chain, or in the preflight simulation
+ * (then nothing was signed and `txHash` is undefined)
+ */
+export interface TransactionLifecycleExecutionFailure {
+	status: 'execution_error'
+	/** Transaction hash (Base58), if it was signed */
+	txHash?: string
+	/** Execution error code */
+	reason: TransactionExecutionError | string
+	/** Human-readable reason */
+	message: string
+	/** Receipt of the failed execution, if it reached the chain */
+	receipt?: TransactionReceipt
+	/** Preflight simulation, when requested */
+	simulation?: TransactionSimulation
+	error: TransactionFailedError | SimulationFailedError
+}
+
+/**
+ * A submission ended ambiguously, the node refused the resubmission and the
+ * transaction is not on chain yet. The node may still hold the first copy,
+ * so the transaction can still be included: follow up with
+ * `sdk.transaction.waitFor(txHash, { timeout })`.
+ */
+export interface TransactionLifecycleUnknownOutcome {
+	status: 'unknown'
+	/** Transaction hash (Base58) */
+	txHash: string
+	/** Why the node refused the resubmission */
+	reason: TransactionValidationError | TransactionExecutionError | string
+	/** Human-readable reason */
+	message: string
+	error: TransactionRejectedError
+}
+
+/**
+ * Outcome of `sdk.execute`, discriminated by `status`
+ */
+export type TransactionLifecycleResult =
+	| TransactionLifecycleSuccess
+	| TransactionLifecycleValidationFailure
+	| TransactionLifecycleExecutionFailure
+	| TransactionLifecycleUnknownOutcome
+
+const DEFAULT_MAX_SUBMIT_ATTEMPTS = 3
+const DEFAULT_POLL_INTERVAL = 1_000
+
+/**
+ * Runs contract calls through their whole lifecycle; `sdk.execute` uses one
+ */
+export class TransactionLifecycle {
+	constructor(
+		private readonly client: AmadeusClient,
+		private readonly transaction: TransactionAPI
+	) {}
+
+	/**
+	 * Simulate (optionally), sign, submit and wait for a contract call.
+	 *
+	 * Validation and execution errors are returned as results, and so is a
+	 * refusal after an ambiguous submission (`unknown`); network errors that
+	 * outlast the submission attempts, timeouts and cancellations are thrown.
+	 *
+	 * @param call - Call from `createContract(abi).method()`, `buildCoinTransfer()` and the like
+	 * @param signer - Base58 private key or `Signer`
+	 * @param options - Preflight, wait, retry and event options
+	 * @returns The outcome, discriminated by `status`
+	 * @throws {WaitTimeoutError} If `timeout` elapses before the transaction is confirmed
+	 * @throws {CancelledError} If cancelled through `signal`, `group` or `sdk.cancel()`
+	 */
+	async execute(
+		call: ContractCall,
+		signer: SignerKey,
+		options: ExecuteTransactionOptions = {}
+	): Promise<TransactionLifecycleResult> {
+		const { onEvent, signal, group } = options
+		const requestOptions: RequestOptions = { signal, group }
+		const emit = (event: TransactionLifecycleEvent) => onEvent?.(event)
+		const resolved = typeof signer === 'string' ? new LocalSigner(signer) : signer
+
+		let simulation: TransactionSimulation | undefined
+		if (options.preflight) {
+			simulation = await this.transaction.simulate(
+				call,
+				await resolved.getPublicKey(),
+				requestOptions
+			)
+			emit({ type: 'preflight', simulation })
+			if (!simulation.success) {
+				const error = new SimulationFailedError(simulation)
+				return executionFailure(error, error.reason, { simulation })
+			}
+		}
+
+		const builder = new TransactionBuilder(resolved, { nonceManager: options.nonceManager })
+		const { txHash, txPacked } = await builder.buildAndSignCall(call)
+		emit({ type: 'signed', txHash })
+
+		let refusal: TransactionRejectedError | undefined
+		try {
+			refusal = await this.submit(txHash, txPacked, options, requestOptions, emit)
+		} catch (error) {
+			if (!(error instanceof TransactionRejectedError)) throw error
+			return {
+				status: 'validation_error',
+				txHash,
+				reason: error.reason,
+				message: error.message,
+				error
+			}
+		}
+		if (refusal) {
+			return {
+				status: 'unknown',
+				txHash,
+				reason: refusal.reason,
+				message: refusal.message,
+				error: refusal
+			}
+		}
+
+		let transaction: Transaction | undefined
+		let receipt: TransactionReceipt
+		try {
+			receipt = await this.transaction.waitFor(txHash, {
+				...requestOptions,
+				confirmations: options.confirmations,
+				finalized: options.finalized,
+				timeout: options.timeout,
+				pollInterval: options.pollInterval,
+				onProgress: (progress) => {
+					transaction = progress.transaction ?? transaction
+					emit({ type: 'progress', txHash, progress })
+				}
+			})
+		} catch (error) {
+			if (!(error instanceof TransactionFailedError)) throw error
+			return executionFailure(error, error.reason, {
+				txHash,
+				receipt: error.receipt,
+				simulation
+			})
+		}
+
+		transaction ??= await this.transaction.get(txHash, requestOptions)
+		return {
+			status: 'success',
+			txHash,
+			receipt,
+			metadata: transaction.metadata,
+			finalized: options.finalized === true,
+			...(simulation ? { simulation } : {})
+		}
+	}
+
+	/**
+	 * Submit the signed bytes until the node accepts them or the transaction
+	 * turns up on chain. Resubmitting the same bytes cannot execute twice:
+	 * they carry the same nonce and hash.
+	 *
+	 * @returns The refusal of a resubmission whose earlier copy may still be
+	 * included, or undefined once the transaction was accepted or found
+	 */
+	private async submit(
+		txHash: string,
+		txPacked: Uint8Array,
+		options: ExecuteTransactionOptions,
+		requestOptions: RequestOptions,
+		emit: (event: TransactionLifecycleEvent) => void
+	): Promise<TransactionRejectedError | undefined> {
+		const maxAttempts = options.maxSubmitAttempts ?? DEFAULT_MAX_SUBMIT_ATTEMPTS
+		let ambiguous = false
+
+		for (let attempt = 1; ; attempt++) {
+			try {
+				await this.transaction.submit(txPacked, { ...requestOptions, retry: false })
+				emit({ type: 'submitted', txHash, attempt })
+				return undefined
+			} catch (error) {
+				if (error instanceof TransactionRejectedError) {
+					if (!ambiguous) throw error
+					// The node may be refusing a copy of what it already holds
+					if (await this.isOnChain(txHash, requestOptions)) {
+						emit({ type: 'recovered', txHash })
+						return undefined
+					}
+					return error
+				}
+				if (!(error instanceof AmadeusSDKError && error.isRetryable)) throw error
+
+				ambiguous = true
+				emit({ type: 'ambiguous', txHash, attempt, error })
+				if (await this.isOnChain(txHash, requestOptions)) {
+					emit({ type: 'recovered', txHash })
+					return undefined
+				}
+				if (attempt >= maxAttempts) throw error
+				await this.client.delay(
+					options.pollInterval ?? DEFAULT_POLL_INTERVAL,
+					requestOptions
+				)
+			}
+		}
+	}
+
+	/** Whether the transaction is on chain; unknown counts as not */
+	private async isOnChain(txHash: string, options: RequestOptions): Promise<boolean> {
+		try {
+			await this.transaction.get(txHash, { ...options, cache: false, retry: false })
+			return true
+		} catch (error) {
+			if (error instanceof NotFoundError) return false
+			if (error instanceof AmadeusSDKError && error.isRetryable) return false
+			throw error
+		}
+	}
+}
+
+function executionFailure(
+	error: TransactionFailedError | SimulationFailedError,
+	reason: TransactionExecutionError | string,
+	details: Pick<TransactionLifecycleExecutionFailure, 'txHash' | 'receipt' | 'simulation'>
+): TransactionLifecycleExecutionFailure {
+	return { status: 'execution_error', reason, message: error.message, error, ...details }
+}
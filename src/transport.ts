@@ -0,0 +1,255 @@
+/**
+ * Transport Layer
+ *
+ * The client never talks to the network itself: every request goes through a
+ * `Transport`. The default `FetchTransport` uses the global `fetch`; supply
+ * your own for a custom fetch implementation, a proxy, an IPC bridge or, with
+ * `InMemoryTransport`, a fake backend in tests.
+ */
+
+/**
+ * A request handed to a transport
+ */
+export interface TransportRequest {
+	/** Absolute request URL */
+	url: string
+	/** HTTP method */
+	method: string
+	/** Request headers (client headers merged with per-request ones) */
+	headers: Record<string, string>
+	/** Request body: bytes for binary payloads, a string for JSON */
+	body?: Uint8Array | string
+	/** Aborted on timeout or cancellation; transports should reject with an `AbortError` */
+	signal: AbortSignal
+}
+
+/**
+ * The subset of the Fetch `Response` the client reads.
+ * A native `Response` satisfies it.
+ */
+export interface TransportResponse {
+	ok: boolean
+	status: number
+	statusText: string
+	headers: { get(name: string): string | null }
+	json(): Promise<unknown>
+	text(): Promise<string>
+	arrayBuffer(): Promise<ArrayBuffer>
+}
+
+/**
+ * Sends requests on behalf of the client.
+ *
+ * Reject with an error named `AbortError` when the request's signal aborts;
+ * any other rejection is reported as a network failure.
+ */
+export interface Transport {
+	request(request: TransportRequest): Promise<TransportResponse>
+}
+
+/**
+ * Default transport built on the Fetch API
+ *
+ * @example
+ * ```ts
+ * import { fetch, Agent } from 'undici'
+ *
+ * const sdk = new AmadeusSDK({
+ *   transport: new FetchTransport({
+ *     fetch: (url, init) => fetch(url, { ...init, dispatcher: new Agent({ keepAliveTimeout: 10_000 }) })
+ *   })
+ * })
+ * ```
+ */
+export class FetchTransport implements Transport {
+	/**
+	 * @param options.fetch - Fetch implementation (defaults to the global `fetch`, resolved per request)
+	 * @param options.init - Extra `RequestInit` fields applied to every request (e.g. `credentials`)
+	 */
+	constructor(
+		private readonly options: {
+			fetch?: typeof fetch
+			init?: Omit<RequestInit, 'method' | 'headers' | 'body' | 'signal'>
+		} = {}
+	) {}
+
+	request(request: TransportRequest): Promise<TransportResponse> {
+		const fetchImpl = this.options.fetch ?? fetch
+		return fetchImpl(request.url, {
+			...this.options.init,
+			method: request.method,
+			headers: request.headers,
+			body: request.body as BodyInit | undefined,
+			signal: request.signal
+		})
+	}
+}
+
+/**
+ * Build a `TransportResponse` from a body.
+ *
+ * Objects are serialized as JSON, `Uint8Array` bodies are served as
+ * `application/octet-stream` and strings as `text/plain`, unless a
+ * `content-type` header is given.
+ *
+ * @param body - Response body
+ * @param init - Status and headers (status defaults to 200)
+ * @returns Response usable by the client
+ */
+export function createTransportResponse(
+	body: unknown,
+	init: { status?: number; statusText?: string; headers?: Record<string, string> } = {}
+): TransportResponse {
+	const status = init.status ?? 200
+	const headers = new Map(
+		Object.entries(init.headers ?? {}).map(([k, v]) => [k.toLowerCase(), v] as const)
+	)
+
+	let bytes: Uint8Array
+	if (body instanceof Uint8Array) {
+		bytes = body
+		if (!headers.has('content-type')) headers.set('content-type', 'application/octet-stream')
+	} else if (typeof body === 'string') {
+		bytes = new TextEncoder().encode(body)
+		if (!headers.has('content-type')) headers.set('content-type', 'text/plain')
+	} else {
+		bytes = new TextEncoder().encode(body === undefined ? '' : JSON.stringify(body))
+		if (!headers.has('content-type')) headers.set('content-type', 'application/json')
+	}
+
+	const text = () => new TextDecoder().decode(bytes)
+	return {
+		ok: status >= 200 && status < 300,
+		status,
+		statusText: init.statusText ?? '',
+		headers: { get: (name) => headers.get(name.toLowerCase()) ?? null },
+		json: async () => JSON.parse(text()),
+		text: async () => text(),
+		arrayBuffer: async () =>
+			bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength) as ArrayBuffer
+	}
+}
+
+/**
+ * A request as seen by an `InMemoryTransport` handler
+ */
+export interface InMemoryRequest {
+	/** HTTP method */
+	method: string
+	/** Parsed request URL */
+	url: URL
+	/** URL path, e.g. `/api/chain/tip` */
+	path: string
+	/** Query parameters */
+	query: Record<string, string>
+	/** Request headers */
+	headers: Record<string, string>
+	/** Request body */
+	body?: Uint8Array | string
+	/** Named groups captured by a RegExp route */
+	params: Record<string, string>
+}
+
+/**
+ * Route handler for `InMemoryTransport`.
+ *
+ * Return a plain value to answer `200` with it as JSON (or bytes/text, see
+ * `createTransportResponse`), or a `TransportResponse` for full control.
+ */
+export type InMemoryHandler = (request: InMemoryRequest) => unknown | Promise<unknown>
+
+interface InMemoryRoute {
+	method: string
+	path: string | RegExp
+	handler: InMemoryHandler
+}
+
+function isTransportResponse(value: unknown): value is TransportResponse {
+	return (
+		typeof value === 'object' &&
+		value !== null &&
+		'status' in value &&
+		'arrayBuffer' in value &&
+		typeof (value as TransportResponse).arrayBuffer === 'function'
+	)
+}
+
+function abortError(): Error {
+	const error = new Error('The operation was aborted.')
+	error.name = 'AbortError'
+	return error
+}
+
+/**
+ * Transport that answers requests from registered handlers, without any
+ * network access. Unmatched requests get a `404` answer.
+ *
+ * @example
+ * ```ts
+ * const backend = new InMemoryTransport()
+ *   .route('GET', '/api/chain/tip', () => ({ error: 'ok', entry: fakeEntry }))
+ *   .route('GET', /^\/api\/chain\/tx\/(?<hash>\w+)$/, ({ params }) => ({
+ *     error: 'ok',
+ *     ...fakeTxs[params.hash]
+ *   }))
+ *
+ * const sdk = new AmadeusSDK({ transport: backend })
+ * await sdk.chain.getTip()
+ * expect(backend.requests).toHaveLength(1)
+ * ```
+ */
+export class InMemoryTransport implements Transport {
+	private readonly routes: InMemoryRoute[] = []
+
+	/** Every request received, in order */
+	readonly requests: InMemoryRequest[] = []
+
+	/**
+	 * Register a handler. Later registrations take precedence.
+	 *
+	 * @param method - HTTP method, or `*` for any
+	 * @param path - Exact path, or a RegExp tested against the path
+	 * @param handler - Produces the response
+	 * @returns This transport, for chaining
+	 */
+	route(method: string, path: string | RegExp, handler: InMemoryHandler): this {
+		this.routes.unshift({ method: method.toUpperCase(), path, handler })
+		return this
+	}
+
+	async request(request: TransportRequest): Promise<TransportResponse> {
+		if (request.signal.aborted) throw abortError()
+
+		const url = new URL(request.url)
+		const incoming: InMemoryRequest = {
+			method: request.method.toUpperCase(),
+			url,
+			path: url.pathname,
+			query: Object.fromEntries(url.searchParams),
+			headers: request.headers,
+			body: request.body,
+			params: {}
+		}
+		this.requests.push(incoming)
+
+		for (const route of this.routes) {
+			if (route.method !== '*' && route.method !== incoming.method) continue
+			if (typeof route.path === 'string') {
+				if (route.path !== incoming.path) continue
+			} else {
+				const match = route.path.exec(incoming.path)
+				if (!match) continue
+				incoming.params = { ...match.groups }
+			}
+
+			const result = await route.handler(incoming)
+			if (request.signal.aborted) throw abortError()
+			return isTransportResponse(result) ? result : createTransportResponse(result)
+		}
+
+		return createTransportResponse(
+			{ error: `no route for ${incoming.method} ${incoming.path}` },
+			{ status: 404, statusText: 'Not Found' }
+		)
+	}
+}
@@ -4,6 +4,14 @@
  * This module contains all TypeScript type definitions used throughout the SDK.
  */
 
+import type { RetryPolicy } from './retry'
+import type { EndpointPoolOptions } from './endpoint-pool'
+import type { Transport } from './transport'
+import type { Middleware } from './middleware'
+import type { CacheOptions } from './cache'
+import type { ResponseValidationIssue, ResponseValidationMode } from './response-schemas'
+import type { AmadeusErrorCode } from './errors'
+
 // ============================================================================
 // Core Types
 // ============================================================================
@@ -65,6 +73,36 @@ export interface AmadeusSDKConfig {
 	timeout?: number
 	/** Custom headers to include in requests */
 	headers?: Record<string, string>
+	/**
+	 * Retry policy for transient failures (network errors, 408, 429, 5xx).
+	 * `true` enables the defaults; omitted or `false` disables retries.
+	 */
+	retry?: Partial<RetryPolicy> | boolean
+	/**
+	 * Several RPC endpoints serving the same chain. When set, requests go to the
+	 * healthiest endpoint and idempotent requests fail over to the next one;
+	 * `baseUrl` is ignored.
+	 */
+	endpoints?: string[]
+	/** Health check and failover options for `endpoints` */
+	pool?: EndpointPoolOptions
+	/** Sends requests (default: `FetchTransport` using the global `fetch`) */
+	transport?: Transport
+	/** Middleware run around every request, in order (see also `sdk.use()`) */
+	middleware?: Middleware[]
+	/**
+	 * Response cache for GET requests. `true` enables it with the default TTL
+	 * rules and an in-memory store; omitted or `false` disables it.
+	 */
+	cache?: CacheOptions | boolean
+	/**
+	 * Check node responses against the SDK's response schemas: `strict` fails
+	 * the request on a mismatch, `lenient` reports it through
+	 * `onValidationWarning` and returns the data unchanged (default: `off`)
+	 */
+	responseValidation?: ResponseValidationMode
+	/** Receives lenient-mode mismatches (default: `console.warn`) */
+	onValidationWarning?: (issue: ResponseValidationIssue) => void
 }
 
 /**
@@ -77,9 +115,14 @@ export interface ApiResponse {
 }
 
 /**
- * SDK error class
+ * SDK error class.
+ *
+ * Base of every error the SDK throws; see `errors.ts` for the subclasses.
  */
 export class AmadeusSDKError extends Error {
+	/** Stable identifier of the error kind */
+	readonly code: AmadeusErrorCode = 'SDK_ERROR'
+
 	constructor(
 		message: string,
 		public status?: number,
@@ -88,6 +131,11 @@ export class AmadeusSDKError extends Error {
 		super(message)
 		this.name = 'AmadeusSDKError'
 	}
+
+	/** Whether the same request may succeed if repeated later */
+	get isRetryable(): boolean {
+		return false
+	}
 }
 
 // ============================================================================
@@ -308,8 +356,10 @@ export interface TransactionActionResponse {
 export interface TransactionActionBody {
 	op: 'call'
 	contract: string
-	function: ContractFunction
+	function: ContractFunction | string
 	args: (string | Uint8Array)[]
+	attached_symbol?: string
+	attached_amount?: string
 }
 
 /**
@@ -360,11 +410,28 @@ export interface TransactionUnpacked {
 	}
 }
 
+/**
+ * Transaction body decoded from packed bytes. Nonces exceed 2^53, so the
+ * nonce is a `bigint`; args are left as the raw bytes the contract receives.
+ */
+export interface DecodedTransactionBody {
+	signer: Uint8Array
+	nonce: bigint
+	action: TransactionActionBody & { args: Uint8Array[] }
+}
+
+/**
+ * Unpacked transaction decoded from packed bytes
+ */
+export interface DecodedTransaction extends Omit<TransactionUnpacked, 'tx'> {
+	tx: DecodedTransactionBody
+}
+
 /**
  * Transaction validation result
  */
 export type TransactionValidationResult =
-	| { error: 'ok'; txu: TransactionUnpacked }
+	| { error: 'ok'; txu: DecodedTransaction }
 	| { error: TransactionValidationError }
 
 /**
@@ -389,6 +456,8 @@ export interface TransferTransactionInput {
 	amount: number
 	/** Token symbol (e.g., 'AMA') */
 	symbol: string
+	/** Token decimals (default: 9, as for AMA) */
+	decimals?: number
 }
 
 export interface LockupPrimeLockInput {
@@ -565,6 +634,8 @@ export interface ChainEntry {
 	 * `filterOnFunction`.
 	 */
 	txs_filtered?: Transaction[]
+	/** Transactions — only set on `chain.getByHeightWithTxs` responses */
+	txs?: Transaction[]
 }
 
 /**
@@ -1019,6 +1090,23 @@ export interface ContractViewResponse {
 	logs: string[]
 }
 
+/**
+ * Outcome of `sdk.transaction.simulate`: a contract call run through
+ * `/api/contract/view` as its signer, without creating a transaction.
+ */
+export interface TransactionSimulation {
+	/** True if the call would execute without error */
+	success: boolean
+	/** Value returned by the contract (the error code when it failed) */
+	result: string
+	/** Logs emitted during execution */
+	logs: string[]
+	/** Execution error, when it failed */
+	error?: TransactionExecutionError | string
+	/** Human-readable message for `error` (from `getExecutionErrorMessage`) */
+	errorMessage?: string
+}
+
 // ----------------------------------------------------------------------------
 // Chain KPI / Filter Types
 // ----------------------------------------------------------------------------
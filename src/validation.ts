@@ -14,7 +14,7 @@ import {
 	MIN_TRANSFERABLE_AMOUNT
 } from './constants'
 import { fromBase58 } from './encoding'
-import { AmadeusSDKError } from './types'
+import { ValidationError } from './errors'
 
 /**
  * Helper function to extract error message from Effect Schema ParseError
@@ -36,7 +36,7 @@ function getErrorMessage(error: unknown): string {
 
 /**
  * Helper function to validate and decode a value using a schema
- * Throws AmadeusSDKError if validation fails
+ * Throws ValidationError if validation fails
  * @param schema - Effect Schema to validate against
  * @param value - Value to validate
  * @returns Validated value
@@ -45,8 +45,8 @@ export function validate<T>(schema: Schema.Schema<T>, value: unknown): T {
 	try {
 		return Schema.decodeUnknownSync(schema)(value)
 	} catch (error) {
-		// Convert Effect Schema ParseError to AmadeusSDKError
-		throw new AmadeusSDKError(getErrorMessage(error))
+		// Convert Effect Schema ParseError to ValidationError
+		throw new ValidationError(getErrorMessage(error))
 	}
 }
 
@@ -0,0 +1,103 @@
+/**
+ * Wallet Provider Channels
+ *
+ * A channel carries protocol messages between the dApp and the wallet.
+ * `createWindowChannel` uses `window.postMessage` (in-page provider and
+ * extension content script); `createMemoryChannel` connects both ends in
+ * the same process for tests.
+ */
+
+import { isWalletMessage } from './protocol'
+import type { WalletMessage } from './protocol'
+
+/**
+ * One end of a dApp ↔ wallet connection
+ */
+export interface WalletChannel {
+	/** Send a message to the other end */
+	send(message: WalletMessage): void
+	/**
+	 * Receive messages from the other end
+	 *
+	 * @returns A function that stops listening
+	 */
+	listen(listener: (message: WalletMessage) => void): () => void
+}
+
+/**
+ * Create two connected in-memory channel ends.
+ *
+ * Messages are delivered asynchronously and structured-cloned, like
+ * `postMessage`, so tests catch values that would not survive a real channel.
+ *
+ * @returns `[dappEnd, walletEnd]`
+ *
+ * @example
+ * ```ts
+ * const [dappEnd, walletEnd] = createMemoryChannel()
+ * const provider = new InjectedProvider(dappEnd)
+ * const wallet = new WalletRequestHandler(walletEnd, { accounts: [privateKey], network: 'testnet', approve })
+ * ```
+ */
+export function createMemoryChannel(): [WalletChannel, WalletChannel] {
+	const listeners: [
+		Set<(message: WalletMessage) => void>,
+		Set<(message: WalletMessage) => void>
+	] = [new Set(), new Set()]
+
+	const end = (own: number): WalletChannel => ({
+		send(message) {
+			const copy = structuredClone(message)
+			queueMicrotask(() => {
+				for (const listener of listeners[1 - own]) listener(copy)
+			})
+		},
+		listen(listener) {
+			listeners[own].add(listener)
+			return () => listeners[own].delete(listener)
+		}
+	})
+
+	return [end(0), end(1)]
+}
+
+/**
+ * The parts of `window` a window channel uses
+ */
+export interface MessageTarget {
+	postMessage(message: unknown, targetOrigin: string): void
+	addEventListener(type: 'message', listener: (event: MessageEvent) => void): void
+	removeEventListener(type: 'message', listener: (event: MessageEvent) => void): void
+}
+
+/**
+ * Channel over `window.postMessage`, shared by the page and a wallet's
+ * content script. Each end only picks up the other end's messages: the dApp
+ * end receives responses and events, the wallet end receives requests.
+ *
+ * @param target - The window both ends live in
+ * @param side - Which end this is
+ * @param targetOrigin - Origin passed to `postMessage` (default: `'/'`, same origin)
+ * @returns A channel end
+ */
+export function createWindowChannel(
+	target: MessageTarget,
+	side: 'dapp' | 'wallet',
+	targetOrigin = '/'
+): WalletChannel {
+	return {
+		send(message) {
+			target.postMessage(message, targetOrigin)
+		},
+		listen(listener) {
+			const onMessage = (event: MessageEvent) => {
+				if (event.source !== null && event.source !== (target as unknown)) return
+				const message: unknown = event.data
+				if (!isWalletMessage(message)) return
+				if ((message.kind === 'request') === (side === 'wallet')) listener(message)
+			}
+			target.addEventListener('message', onMessage)
+			return () => target.removeEventListener('message', onMessage)
+		}
+	}
+}
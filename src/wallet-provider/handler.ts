@@ -0,0 +1,281 @@
+/**
+ * Wallet Request Handler
+ *
+ * Wallet side of the provider protocol: answers dApp requests arriving on a
+ * `WalletChannel`, asks the user (through `approve`) before connecting or
+ * signing, and signs with `TransactionBuilder` and the account's `Signer`.
+ */
+
+import { toBase58 } from '../encoding'
+import { ProviderErrorCode, ProviderRpcError } from '../errors'
+import type { NonceManager } from '../nonce'
+import { createUnsignedEnvelope } from '../offline-signing'
+import type { TransactionSummary } from '../offline-signing'
+import { LocalSigner } from '../signer'
+import type { Signer, SignerKey } from '../signer'
+import { TransactionBuilder } from '../transaction-builder'
+import type { WalletChannel } from './channel'
+import { WALLET_PROTOCOL, fromWalletCallArgs, hashMessage } from './protocol'
+import type {
+	WalletEvent,
+	WalletEvents,
+	WalletMethod,
+	WalletRequestMessage,
+	WalletSignedMessage,
+	WalletSignedTransaction
+} from './protocol'
+
+/**
+ * What the user is asked to approve
+ */
+export type WalletApprovalRequest =
+	| { method: 'ama_requestAccounts' }
+	| { method: 'ama_signTransaction'; account: string; summary: TransactionSummary }
+	| { method: 'ama_signMessage'; account: string; message: string }
+
+/**
+ * Wallet request handler options
+ */
+export interface WalletRequestHandlerOptions {
+	/** Accounts the wallet offers: Base58 private keys or `Signer`s */
+	accounts: SignerKey[]
+	/** Network the wallet is on */
+	network: string
+	/** Ask the user; resolve `false` to reject the request */
+	approve: (request: WalletApprovalRequest) => boolean | Promise<boolean>
+	/** Nonce manager for signed transactions (default: the shared default) */
+	nonceManager?: NonceManager
+}
+
+interface Account {
+	address: string
+	signer: Signer
+}
+
+/**
+ * Serves provider requests from one dApp connection
+ *
+ * @example
+ * ```ts
+ * const wallet = new WalletRequestHandler(createWindowChannel(window, 'wallet'), {
+ *   accounts: [vault.signer],
+ *   network: 'mainnet',
+ *   approve: (request) => showApprovalPopup(request)
+ * })
+ * wallet.setNetwork('testnet') // dApps receive `networkChanged`
+ * ```
+ */
+export class WalletRequestHandler {
+	private accounts: Promise<Account[]>
+	private network: string
+	private connected = false
+	private readonly stopListening: () => void
+
+	/**
+	 * @param channel - Wallet end of the channel to the dApp
+	 * @param options - Accounts, network and approval prompt
+	 */
+	constructor(
+		private readonly channel: WalletChannel,
+		private readonly options: WalletRequestHandlerOptions
+	) {
+		this.accounts = loadAccounts(options.accounts)
+		this.network = options.network
+		this.stopListening = channel.listen((message) => {
+			if (message.kind === 'request') void this.handle(message)
+		})
+	}
+
+	/**
+	 * Replace the offered accounts; a connected dApp receives `accountsChanged`
+	 *
+	 * @param accounts - Base58 private keys or `Signer`s
+	 */
+	async setAccounts(accounts: SignerKey[]): Promise<void> {
+		this.accounts = loadAccounts(accounts)
+		const loaded = await this.accounts
+		if (this.connected) {
+			this.emit(
+				'accountsChanged',
+				loaded.map((account) => account.address)
+			)
+		}
+	}
+
+	/**
+	 * Switch networks; a connected dApp receives `networkChanged`
+	 *
+	 * @param network - New network
+	 */
+	setNetwork(network: string): void {
+		this.network = network
+		if (this.connected) this.emit('networkChanged', network)
+	}
+
+	/**
+	 * Disconnect the dApp; it receives `accountsChanged` with no accounts and `disconnect`
+	 */
+	disconnect(): void {
+		if (!this.connected) return
+		this.connected = false
+		this.emit('accountsChanged', [])
+		this.emit('disconnect', undefined)
+	}
+
+	/**
+	 * Stop answering requests
+	 */
+	dispose(): void {
+		this.stopListening()
+	}
+
+	private async handle(request: WalletRequestMessage): Promise<void> {
+		try {
+			const result = await this.dispatch(request.method as WalletMethod, request.params)
+			this.channel.send({
+				protocol: WALLET_PROTOCOL,
+				kind: 'response',
+				id: request.id,
+				result
+			})
+		} catch (error) {
+			const { rpcCode, message } =
+				error instanceof ProviderRpcError
+					? error
+					: {
+							rpcCode: ProviderErrorCode.INTERNAL,
+							message: error instanceof Error ? error.message : String(error)
+						}
+			this.channel.send({
+				protocol: WALLET_PROTOCOL,
+				kind: 'response',
+				id: request.id,
+				error: { code: rpcCode, message }
+			})
+		}
+	}
+
+	private async dispatch(method: WalletMethod, params: unknown): Promise<unknown> {
+		switch (method) {
+			case 'ama_requestAccounts':
+				if (!this.connected) {
+					await this.approve({ method })
+					this.connected = true
+				}
+				return this.addresses()
+			case 'ama_accounts':
+				return this.connected ? this.addresses() : []
+			case 'ama_network':
+				return this.network
+			case 'ama_signTransaction':
+				return this.signTransaction(params)
+			case 'ama_signMessage':
+				return this.signMessage(params)
+			default:
+				throw new ProviderRpcError(
+					ProviderErrorCode.UNSUPPORTED_METHOD,
+					`Unsupported method: ${String(method)}`
+				)
+		}
+	}
+
+	private async signTransaction(params: unknown): Promise<WalletSignedTransaction> {
+		const request = paramsObject(params)
+		if (typeof request.contract !== 'string' || typeof request.method !== 'string') {
+			throw new ProviderRpcError(
+				ProviderErrorCode.INVALID_PARAMS,
+				'contract and method must be strings'
+			)
+		}
+		const args = fromWalletCallArgs(request.args)
+		const account = await this.account(request.account)
+
+		const builder = new TransactionBuilder(account.signer, {
+			nonceManager: this.options.nonceManager
+		})
+		const unsigned = await builder.build(request.contract, request.method, args)
+		const { summary } = createUnsignedEnvelope(unsigned, this.network)
+		await this.approve({ method: 'ama_signTransaction', account: account.address, summary })
+
+		const { txHash, txPacked } = await builder.sign(unsigned)
+		return { txHash, txPacked: toBase58(txPacked) }
+	}
+
+	private async signMessage(params: unknown): Promise<WalletSignedMessage> {
+		const request = paramsObject(params)
+		if (typeof request.message !== 'string') {
+			throw new ProviderRpcError(ProviderErrorCode.INVALID_PARAMS, 'message must be a string')
+		}
+		const { address, signer } = await this.account(request.account)
+		if (!signer.signMessageHash) {
+			throw new ProviderRpcError(
+				ProviderErrorCode.UNSUPPORTED_METHOD,
+				`Account ${address} cannot sign messages`
+			)
+		}
+		await this.approve({
+			method: 'ama_signMessage',
+			account: address,
+			message: request.message
+		})
+
+		const signature = await signer.signMessageHash(hashMessage(request.message))
+		return { account: address, signature: toBase58(signature) }
+	}
+
+	/** Connected account to sign with: the requested one, or the first */
+	private async account(address: unknown): Promise<Account> {
+		if (!this.connected) {
+			throw new ProviderRpcError(
+				ProviderErrorCode.UNAUTHORIZED,
+				'Not connected; call ama_requestAccounts first'
+			)
+		}
+		const accounts = await this.accounts
+		const account =
+			address === undefined ? accounts[0] : accounts.find((a) => a.address === address)
+		if (!account) {
+			throw new ProviderRpcError(
+				ProviderErrorCode.UNAUTHORIZED,
+				address === undefined
+					? 'No accounts available'
+					: `Unknown account: ${String(address)}`
+			)
+		}
+		return account
+	}
+
+	private async approve(request: WalletApprovalRequest): Promise<void> {
+		if (!(await this.options.approve(request))) {
+			throw new ProviderRpcError(ProviderErrorCode.USER_REJECTED, 'User rejected the request')
+		}
+	}
+
+	private async addresses(): Promise<string[]> {
+		return (await this.accounts).map((account) => account.address)
+	}
+
+	private emit<E extends WalletEvent>(event: E, data: WalletEvents[E]): void {
+		this.channel.send({ protocol: WALLET_PROTOCOL, kind: 'event', event, data })
+	}
+}
+
+/**
+ * Resolve account addresses. Invalid private keys throw right away; a
+ * failing `Signer` surfaces on the next request that needs the accounts.
+ */
+function loadAccounts(keys: SignerKey[]): Promise<Account[]> {
+	const signers = keys.map((key) => (typeof key === 'string' ? new LocalSigner(key) : key))
+	const accounts = Promise.all(
+		signers.map(async (signer) => ({ address: toBase58(await signer.getPublicKey()), signer }))
+	)
+	accounts.catch(() => undefined)
+	return accounts
+}
+
+function paramsObject(params: unknown): Record<string, unknown> {
+	if (typeof params !== 'object' || params === null) {
+		throw new ProviderRpcError(ProviderErrorCode.INVALID_PARAMS, 'params must be an object')
+	}
+	return params as Record<string, unknown>
+}
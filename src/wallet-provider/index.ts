@@ -0,0 +1,4 @@
+export * from './protocol'
+export * from './channel'
+export * from './provider'
+export * from './handler'
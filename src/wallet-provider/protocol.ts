@@ -0,0 +1,247 @@
+/**
+ * Wallet Provider Protocol
+ *
+ * Messages exchanged between a dApp (through an `InjectedProvider`) and a
+ * wallet (through a `WalletRequestHandler`). Every message is JSON-safe so
+ * it can cross `window.postMessage`, extension messaging or any other
+ * channel: binary values travel as Base58 strings.
+ */
+
+import { sha256 } from '@noble/hashes/sha2'
+
+import { BLS_DST, blsVerify } from '../crypto'
+import { fromBase58, toBase58 } from '../encoding'
+import { ProviderErrorCode, ProviderRpcError } from '../errors'
+import type { ContractCall } from '../contracts/contract-call'
+
+/** Tag on every protocol message, so channels can ignore unrelated traffic */
+export const WALLET_PROTOCOL = 'amadeus-wallet'
+
+/**
+ * Contract call argument on the wire: text, or bytes as `{ bytes: Base58 }`
+ */
+export type WalletCallArg = string | { bytes: string }
+
+/**
+ * Transaction the dApp asks the wallet to sign. The wallet picks the nonce.
+ */
+export interface WalletTransactionRequest {
+	/** Account to sign with (Base58 public key; default: the first connected account) */
+	account?: string
+	contract: string
+	method: string
+	args: WalletCallArg[]
+}
+
+/**
+ * Transaction signed by the wallet
+ */
+export interface WalletSignedTransaction {
+	/** Transaction hash (Base58) */
+	txHash: string
+	/** Packed transaction (Base58) */
+	txPacked: string
+}
+
+/**
+ * Message the dApp asks the wallet to sign
+ */
+export interface WalletMessageRequest {
+	/** Account to sign with (default: the first connected account) */
+	account?: string
+	/** UTF-8 text to sign */
+	message: string
+}
+
+/**
+ * Message signed by the wallet
+ */
+export interface WalletSignedMessage {
+	/** Account that signed (Base58 public key) */
+	account: string
+	/** BLS signature of `hashMessage(message)` (Base58) */
+	signature: string
+}
+
+/**
+ * Provider methods with their parameters and results
+ */
+export interface WalletMethods {
+	/** Ask the user to connect; resolves with the connected accounts */
+	ama_requestAccounts: { params: undefined; result: string[] }
+	/** Connected accounts, empty when not connected */
+	ama_accounts: { params: undefined; result: string[] }
+	/** Network the wallet is on (e.g. `mainnet`) */
+	ama_network: { params: undefined; result: string }
+	/** Build and sign a transaction after the user approves it */
+	ama_signTransaction: { params: WalletTransactionRequest; result: WalletSignedTransaction }
+	/** Sign a text message after the user approves it */
+	ama_signMessage: { params: WalletMessageRequest; result: WalletSignedMessage }
+}
+
+/**
+ * Provider method name
+ */
+export type WalletMethod = keyof WalletMethods
+
+/**
+ * Provider events with their payloads
+ */
+export interface WalletEvents {
+	/** Connected accounts changed (empty when the wallet disconnected the dApp) */
+	accountsChanged: string[]
+	/** The wallet switched networks */
+	networkChanged: string
+	/** The wallet disconnected the dApp */
+	disconnect: undefined
+}
+
+/**
+ * Provider event name
+ */
+export type WalletEvent = keyof WalletEvents
+
+/**
+ * dApp → wallet
+ */
+export interface WalletRequestMessage {
+	protocol: typeof WALLET_PROTOCOL
+	kind: 'request'
+	id: number
+	method: string
+	params?: unknown
+}
+
+/**
+ * wallet → dApp, answering the request with the same `id`
+ */
+export interface WalletResponseMessage {
+	protocol: typeof WALLET_PROTOCOL
+	kind: 'response'
+	id: number
+	result?: unknown
+	error?: { code: number; message: string }
+}
+
+/**
+ * wallet → dApp, unprompted
+ */
+export interface WalletEventMessage {
+	protocol: typeof WALLET_PROTOCOL
+	kind: 'event'
+	event: string
+	data?: unknown
+}
+
+/**
+ * Any protocol message
+ */
+export type WalletMessage = WalletRequestMessage | WalletResponseMessage | WalletEventMessage
+
+/**
+ * Check whether a received value is a protocol message
+ *
+ * @param value - Received value
+ * @returns True for objects tagged with `WALLET_PROTOCOL` and a known kind
+ */
+export function isWalletMessage(value: unknown): value is WalletMessage {
+	if (typeof value !== 'object' || value === null) return false
+	const message = value as Partial<WalletMessage>
+	return (
+		message.protocol === WALLET_PROTOCOL &&
+		(message.kind === 'request' || message.kind === 'response' || message.kind === 'event')
+	)
+}
+
+/**
+ * Turn a `ContractCall` into a signing request
+ *
+ * @param call - Call from `createContract(abi).method()` or `buildContractCall()`
+ * @param account - Account to sign with
+ * @returns JSON-safe transaction request
+ * @throws {ProviderRpcError} If an argument is neither text nor bytes
+ */
+export function toWalletTransactionRequest(
+	call: ContractCall,
+	account?: string
+): WalletTransactionRequest {
+	const args = call.args.map((arg): WalletCallArg => {
+		if (typeof arg === 'string') return arg
+		if (arg instanceof Uint8Array) return { bytes: toBase58(arg) }
+		throw new ProviderRpcError(
+			ProviderErrorCode.INVALID_PARAMS,
+			`Unsupported argument for ${call.contract}.${call.method}: ${typeof arg}`
+		)
+	})
+	return {
+		...(account === undefined ? {} : { account }),
+		contract: call.contract,
+		method: call.method,
+		args
+	}
+}
+
+/**
+ * Decode the arguments of a signing request
+ *
+ * @param args - Wire arguments
+ * @returns Text and binary arguments for the transaction builder
+ * @throws {ProviderRpcError} If an argument is malformed
+ */
+export function fromWalletCallArgs(args: unknown): (string | Uint8Array)[] {
+	if (!Array.isArray(args)) {
+		throw new ProviderRpcError(ProviderErrorCode.INVALID_PARAMS, 'args must be a list')
+	}
+	return args.map((arg: unknown) => {
+		if (typeof arg === 'string') return arg
+		const bytes = (arg as { bytes?: unknown } | null)?.bytes
+		if (typeof bytes === 'string') {
+			try {
+				return fromBase58(bytes)
+			} catch {
+				// Reported below
+			}
+		}
+		throw new ProviderRpcError(
+			ProviderErrorCode.INVALID_PARAMS,
+			'Each argument must be a string or { bytes: Base58 }'
+		)
+	})
+}
+
+/**
+ * Prefix of signed messages. Packed transactions start with a map tag
+ * (`0x07`), so a message hash can never be a transaction hash.
+ */
+const MESSAGE_PREFIX = '\x19Amadeus Signed Message:\n'
+
+/**
+ * Hash a message for signing
+ *
+ * @param message - UTF-8 text or bytes
+ * @returns `sha256(prefix || length || message)`
+ */
+export function hashMessage(message: string | Uint8Array): Uint8Array {
+	const bytes = typeof message === 'string' ? new TextEncoder().encode(message) : message
+	const prefix = new TextEncoder().encode(`${MESSAGE_PREFIX}${bytes.length}`)
+	const data = new Uint8Array(prefix.length + bytes.length)
+	data.set(prefix)
+	data.set(bytes, prefix.length)
+	return sha256(data)
+}
+
+/**
+ * Verify a message signature from `ama_signMessage`, made under `BLS_DST.MESSAGE`
+ *
+ * @param message - Signed text or bytes
+ * @param signature - Signature (Base58)
+ * @param account - Signer public key (Base58)
+ * @returns True if the account signed the message
+ */
+export function verifyMessage(
+	message: string | Uint8Array,
+	signature: string,
+	account: string
+): boolean {
+	return blsVerify(signature, hashMessage(message), account, BLS_DST.MESSAGE)
+}
@@ -0,0 +1,218 @@
+/**
+ * Injected Wallet Provider
+ *
+ * What a wallet injects into the page (e.g. as `window.amadeus`) and what a
+ * dApp talks to instead of handling seeds: it forwards requests over a
+ * `WalletChannel` and surfaces wallet events.
+ */
+
+import { fromBase58 } from '../encoding'
+import { ProviderErrorCode, ProviderRpcError, TimeoutError } from '../errors'
+import type { BuildTransactionResult } from '../types'
+import type { ContractCall } from '../contracts/contract-call'
+import type { WalletChannel } from './channel'
+import { WALLET_PROTOCOL, toWalletTransactionRequest } from './protocol'
+import type {
+	WalletEvent,
+	WalletEvents,
+	WalletMessage,
+	WalletMethod,
+	WalletMethods,
+	WalletSignedMessage
+} from './protocol'
+
+/**
+ * Wallet provider interface for dApps
+ */
+export interface AmadeusProvider {
+	/**
+	 * Send a request to the wallet
+	 *
+	 * @throws {ProviderRpcError} If the wallet rejects or fails the request
+	 */
+	request<M extends WalletMethod>(args: {
+		method: M
+		params?: WalletMethods[M]['params']
+	}): Promise<WalletMethods[M]['result']>
+	/**
+	 * Subscribe to a wallet event
+	 *
+	 * @returns A function that unsubscribes
+	 */
+	on<E extends WalletEvent>(event: E, listener: (data: WalletEvents[E]) => void): () => void
+}
+
+/**
+ * Injected provider options
+ */
+export interface InjectedProviderOptions {
+	/** Reject requests unanswered after this many ms (default: none, approvals take time) */
+	timeout?: number
+}
+
+interface PendingRequest {
+	resolve(result: unknown): void
+	reject(error: Error): void
+	timer?: ReturnType<typeof setTimeout>
+}
+
+/**
+ * Reference provider that forwards requests over a channel
+ *
+ * @example
+ * ```ts
+ * // Wallet content script
+ * window.amadeus = new InjectedProvider(createWindowChannel(window, 'dapp'))
+ *
+ * // dApp
+ * const [account] = await window.amadeus.connect()
+ * const call = createContract(LOCKUP_ABI).unlock({ vaultIndex: '1' })
+ * const { txPacked } = await window.amadeus.signTransaction(call)
+ * await sdk.transaction.submit(txPacked)
+ * ```
+ */
+export class InjectedProvider implements AmadeusProvider {
+	private readonly pending = new Map<number, PendingRequest>()
+	private readonly listeners = new Map<string, Set<(data: never) => void>>()
+	private readonly stopListening: () => void
+	private nextId = 1
+
+	/**
+	 * @param channel - dApp end of the channel to the wallet
+	 * @param options - Request timeout
+	 */
+	constructor(
+		private readonly channel: WalletChannel,
+		private readonly options: InjectedProviderOptions = {}
+	) {
+		this.stopListening = channel.listen((message) => this.receive(message))
+	}
+
+	request<M extends WalletMethod>(args: {
+		method: M
+		params?: WalletMethods[M]['params']
+	}): Promise<WalletMethods[M]['result']> {
+		const id = this.nextId++
+		return new Promise((resolve, reject) => {
+			const pending: PendingRequest = {
+				resolve: resolve as (result: unknown) => void,
+				reject
+			}
+			const { timeout } = this.options
+			if (timeout !== undefined) {
+				pending.timer = setTimeout(() => {
+					this.pending.delete(id)
+					reject(
+						new TimeoutError(
+							timeout,
+							`Wallet did not answer ${args.method} after ${timeout}ms`
+						)
+					)
+				}, timeout)
+			}
+			this.pending.set(id, pending)
+			this.channel.send({
+				protocol: WALLET_PROTOCOL,
+				kind: 'request',
+				id,
+				method: args.method,
+				params: args.params
+			})
+		})
+	}
+
+	on<E extends WalletEvent>(event: E, listener: (data: WalletEvents[E]) => void): () => void {
+		let listeners = this.listeners.get(event)
+		if (!listeners) {
+			listeners = new Set()
+			this.listeners.set(event, listeners)
+		}
+		listeners.add(listener)
+		return () => listeners.delete(listener)
+	}
+
+	/**
+	 * Ask the user to connect the dApp
+	 *
+	 * @returns Connected accounts (Base58 public keys)
+	 */
+	connect(): Promise<string[]> {
+		return this.request({ method: 'ama_requestAccounts' })
+	}
+
+	/**
+	 * Connected accounts, empty when not connected
+	 */
+	getAccounts(): Promise<string[]> {
+		return this.request({ method: 'ama_accounts' })
+	}
+
+	/**
+	 * Network the wallet is on
+	 */
+	getNetwork(): Promise<string> {
+		return this.request({ method: 'ama_network' })
+	}
+
+	/**
+	 * Have the wallet build and sign a contract call
+	 *
+	 * @param call - Contract call to sign
+	 * @param account - Account to sign with (default: the first connected account)
+	 * @returns Transaction hash and packed transaction, ready for `sdk.transaction.submit`
+	 */
+	async signTransaction(call: ContractCall, account?: string): Promise<BuildTransactionResult> {
+		const { txHash, txPacked } = await this.request({
+			method: 'ama_signTransaction',
+			params: toWalletTransactionRequest(call, account)
+		})
+		return { txHash, txPacked: fromBase58(txPacked) }
+	}
+
+	/**
+	 * Have the wallet sign a text message; check it with `verifyMessage`
+	 *
+	 * @param message - UTF-8 text
+	 * @param account - Account to sign with (default: the first connected account)
+	 */
+	signMessage(message: string, account?: string): Promise<WalletSignedMessage> {
+		return this.request({
+			method: 'ama_signMessage',
+			params: account === undefined ? { message } : { message, account }
+		})
+	}
+
+	/**
+	 * Stop listening to the channel and reject pending requests
+	 */
+	dispose(): void {
+		this.stopListening()
+		for (const [id, pending] of this.pending) {
+			clearTimeout(pending.timer)
+			pending.reject(
+				new ProviderRpcError(ProviderErrorCode.DISCONNECTED, 'Provider disposed')
+			)
+			this.pending.delete(id)
+		}
+	}
+
+	private receive(message: WalletMessage): void {
+		if (message.kind === 'event') {
+			for (const listener of this.listeners.get(message.event) ?? []) {
+				listener(message.data as never)
+			}
+			return
+		}
+		if (message.kind !== 'response') return
+
+		const pending = this.pending.get(message.id)
+		if (!pending) return
+		this.pending.delete(message.id)
+		clearTimeout(pending.timer)
+		if (message.error) {
+			pending.reject(new ProviderRpcError(message.error.code, message.error.message))
+		} else {
+			pending.resolve(message.result)
+		}
+	}
+}